@@ -0,0 +1,157 @@
+import { CommonModule } from '@angular/common';
+import { Component, inject } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { BehaviorSubject, combineLatest, defer, from, map, shareReplay } from 'rxjs';
+import { HistoryBtcService, HistoryMarket } from '../history-btc/history-btc.service';
+import { WebhookStateService } from '../webhook/webhook-state.service';
+import { EquityChartComponent, EquitySeries } from './equity-chart.component';
+import { ClosedTrade, GroupBy, PaperLiveGap, closedTrades, paperLiveGap, paperLiveGaps } from './performance';
+
+type AnalyticsView = {
+  groupBy: GroupBy;
+  overall: PaperLiveGap;
+  groups: PaperLiveGap[];
+  selected: PaperLiveGap;
+  maxGap: number;
+  archivedDays: number;
+};
+
+type MetricRow = {
+  label: string;
+  paper: string;
+  live: string;
+};
+
+@Component({
+  selector: 'app-analytics',
+  standalone: true,
+  imports: [CommonModule, RouterLink, EquityChartComponent],
+  templateUrl: './analytics.component.html',
+  styleUrl: './analytics.component.css'
+})
+export class AnalyticsComponent {
+  private readonly webhookStateService = inject(WebhookStateService);
+  private readonly historyService = inject(HistoryBtcService);
+  private readonly groupBySubject = new BehaviorSubject<GroupBy>('symbol');
+  private readonly selectedKeySubject = new BehaviorSubject<string | null>(null);
+  private readonly archived$ = defer(() => from(this.loadArchivedTrades())).pipe(
+    shareReplay({ bufferSize: 1, refCount: true })
+  );
+  private readonly current$ = this.webhookStateService.getTradeState$().pipe(
+    map((state) => [
+      ...closedTrades(Object.fromEntries(state.tradesBySymbol), 'paper'),
+      ...closedTrades(Object.fromEntries(state.liveTradesBySymbol), 'live')
+    ])
+  );
+
+  readonly groupOptions: { value: GroupBy; label: string }[] = [
+    { value: 'symbol', label: 'Symbol' },
+    { value: 'mode', label: 'Mode' },
+    { value: 'day', label: 'Day' }
+  ];
+  readonly view$ = combineLatest([this.current$, this.archived$, this.groupBySubject, this.selectedKeySubject]).pipe(
+    map(([current, archived, groupBy, selectedKey]): AnalyticsView => {
+      const trades = this.dedupe([...current, ...archived.trades]);
+      const overall = paperLiveGap('All trades', trades);
+      const groups = paperLiveGaps(trades, groupBy);
+      return {
+        groupBy,
+        overall,
+        groups,
+        selected: groups.find((group) => group.key === selectedKey) ?? overall,
+        maxGap: Math.max(1, ...groups.map((group) => Math.abs(group.gap))),
+        archivedDays: archived.days
+      };
+    })
+  );
+
+  get groupBy(): GroupBy {
+    return this.groupBySubject.value;
+  }
+
+  selectGroupBy(groupBy: GroupBy): void {
+    this.selectedKeySubject.next(null);
+    this.groupBySubject.next(groupBy);
+  }
+
+  selectGroup(key: string | null): void {
+    this.selectedKeySubject.next(key);
+  }
+
+  equitySeries(group: PaperLiveGap): EquitySeries[] {
+    return [
+      { label: 'Paper', color: '#3563e9', points: group.paper.equity },
+      { label: 'Live', color: '#e0812b', points: group.live.equity }
+    ];
+  }
+
+  metrics(group: PaperLiveGap): MetricRow[] {
+    const { paper, live } = group;
+    return [
+      { label: 'Closed trades', paper: String(paper.trades), live: String(live.trades) },
+      { label: 'Net PnL', paper: this.formatNumber(paper.netPnl), live: this.formatNumber(live.netPnl) },
+      { label: 'Win rate', paper: this.formatPercent(paper.winRate), live: this.formatPercent(live.winRate) },
+      { label: 'Average win', paper: this.formatNumber(paper.averageWin), live: this.formatNumber(live.averageWin) },
+      { label: 'Average loss', paper: this.formatNumber(paper.averageLoss), live: this.formatNumber(live.averageLoss) },
+      { label: 'Profit factor', paper: this.formatNumber(paper.profitFactor), live: this.formatNumber(live.profitFactor) },
+      { label: 'Expectancy', paper: this.formatNumber(paper.expectancy), live: this.formatNumber(live.expectancy) },
+      { label: 'Max drawdown', paper: this.formatNumber(paper.maxDrawdown), live: this.formatNumber(live.maxDrawdown) },
+      {
+        label: 'Time in market',
+        paper: `${this.formatDuration(paper.timeInMarketMs)} (${this.formatPercent(paper.timeInMarketRatio)})`,
+        live: `${this.formatDuration(live.timeInMarketMs)} (${this.formatPercent(live.timeInMarketRatio)})`
+      }
+    ];
+  }
+
+  gapWidth(gap: number, maxGap: number): number {
+    return Math.round((Math.abs(gap) / maxGap) * 100);
+  }
+
+  formatNumber(value: number | null): string {
+    if (value === null || Number.isNaN(value)) {
+      return '--';
+    }
+    return value.toFixed(2);
+  }
+
+  formatPercent(value: number | null): string {
+    if (value === null || Number.isNaN(value)) {
+      return '--';
+    }
+    return `${(value * 100).toFixed(1)}%`;
+  }
+
+  private formatDuration(ms: number): string {
+    const minutes = Math.round(ms / 60000);
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+  }
+
+  private dedupe(trades: ClosedTrade[]): ClosedTrade[] {
+    const byKey = new Map<string, ClosedTrade>();
+    for (const trade of trades) {
+      byKey.set(`${trade.ledger}:${trade.id}`, trade);
+    }
+    return Array.from(byKey.values());
+  }
+
+  private async loadArchivedTrades(): Promise<{ trades: ClosedTrade[]; days: number }> {
+    const trades: ClosedTrade[] = [];
+    let days = 0;
+    const markets: HistoryMarket[] = ['btc', 'zerodha'];
+    for (const market of markets) {
+      for (const day of await this.historyService.listArchivedDays(market)) {
+        const snapshot = await this.historyService.getArchivedSnapshot(market, day.dateKey);
+        if (!snapshot) {
+          continue;
+        }
+        days += 1;
+        trades.push(
+          ...closedTrades(snapshot.paperTradesBySymbol, 'paper'),
+          ...closedTrades(snapshot.liveTradesBySymbol, 'live')
+        );
+      }
+    }
+    return { trades, days };
+  }
+}
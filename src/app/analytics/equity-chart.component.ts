@@ -0,0 +1,70 @@
+import { Component, Input } from '@angular/core';
+import { EquityPoint } from './performance';
+
+export type EquitySeries = {
+  label: string;
+  color: string;
+  points: EquityPoint[];
+};
+
+type PlottedSeries = EquitySeries & {
+  path: string;
+};
+
+@Component({
+  selector: 'app-equity-chart',
+  standalone: true,
+  templateUrl: './equity-chart.component.html',
+  styleUrl: './equity-chart.component.css'
+})
+export class EquityChartComponent {
+  @Input() series: EquitySeries[] = [];
+  readonly width = 720;
+  readonly height = 220;
+  readonly padding = 12;
+
+  get bounds(): { minAt: number; maxAt: number; minEquity: number; maxEquity: number } | null {
+    const points = this.series.flatMap((series) => series.points);
+    if (points.length === 0) {
+      return null;
+    }
+    const ats = points.map((point) => point.at);
+    const equities = [0, ...points.map((point) => point.equity)];
+    return {
+      minAt: Math.min(...ats),
+      maxAt: Math.max(...ats),
+      minEquity: Math.min(...equities),
+      maxEquity: Math.max(...equities)
+    };
+  }
+
+  get plotted(): PlottedSeries[] {
+    const bounds = this.bounds;
+    if (!bounds) {
+      return [];
+    }
+    return this.series.map((series) => ({
+      ...series,
+      path: series.points
+        .map((point, index) => `${index === 0 ? 'M' : 'L'}${this.x(point.at, bounds).toFixed(1)},${this.y(point.equity, bounds).toFixed(1)}`)
+        .join(' ')
+    }));
+  }
+
+  get zeroY(): number | null {
+    const bounds = this.bounds;
+    return bounds ? this.y(0, bounds) : null;
+  }
+
+  private x(at: number, bounds: { minAt: number; maxAt: number }): number {
+    const span = bounds.maxAt - bounds.minAt;
+    const ratio = span > 0 ? (at - bounds.minAt) / span : 0.5;
+    return this.padding + ratio * (this.width - this.padding * 2);
+  }
+
+  private y(equity: number, bounds: { minEquity: number; maxEquity: number }): number {
+    const span = bounds.maxEquity - bounds.minEquity;
+    const ratio = span > 0 ? (equity - bounds.minEquity) / span : 0.5;
+    return this.height - this.padding - ratio * (this.height - this.padding * 2);
+  }
+}
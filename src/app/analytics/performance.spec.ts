@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { ClosedTrade, closedTrades, computeStats, paperLiveGaps, parseIstTimestamp } from './performance';
+
+const base = Date.UTC(2026, 0, 5, 4, 0, 0);
+const minute = 60000;
+
+function trade(ledger: 'paper' | 'live', pnl: number, openedOffset: number, closedOffset: number, symbol = 'NIFTY'): ClosedTrade {
+  return {
+    id: `${symbol}-${base + openedOffset * minute}-exit`,
+    ledger,
+    symbol,
+    mode: symbol.startsWith('BTC') ? 'btc-long' : 'zerodha6',
+    dateKey: '2026-01-05',
+    openedAt: base + openedOffset * minute,
+    closedAt: base + closedOffset * minute,
+    pnl
+  };
+}
+
+describe('performance', () => {
+  it('parses en-IN ledger timestamps as IST, including hour 24', () => {
+    expect(parseIstTimestamp('5/1/2026, 10:00:07')).toBe(Date.UTC(2026, 0, 5, 4, 30, 7));
+    expect(parseIstTimestamp('5/1/2026, 24:00:07')).toBe(Date.UTC(2026, 0, 4, 18, 30, 7));
+    expect(parseIstTimestamp('--')).toBeNull();
+  });
+
+  it('turns exit rows into closed trades net of charges', () => {
+    const trades = closedTrades({
+      NIFTY: [
+        { id: `NIFTY-${base}-exit`, timeIst: '5/1/2026, 09:45:00', unrealizedPnl: 120, charges: 20 },
+        { id: `NIFTY-${base}`, timeIst: '5/1/2026, 09:30:00', unrealizedPnl: 0 }
+      ]
+    }, 'paper');
+    expect(trades).toEqual([{
+      id: `NIFTY-${base}-exit`,
+      ledger: 'paper',
+      symbol: 'NIFTY',
+      mode: 'zerodha6',
+      dateKey: '2026-01-05',
+      openedAt: base,
+      closedAt: Date.UTC(2026, 0, 5, 4, 15),
+      pnl: 100
+    }]);
+  });
+
+  it('computes win rate, averages, profit factor, expectancy and drawdown', () => {
+    const stats = computeStats([
+      trade('paper', 100, 0, 10),
+      trade('paper', -50, 20, 30),
+      trade('paper', -30, 40, 50),
+      trade('paper', 80, 60, 70)
+    ]);
+    expect(stats.trades).toBe(4);
+    expect(stats.winRate).toBe(0.5);
+    expect(stats.averageWin).toBe(90);
+    expect(stats.averageLoss).toBe(-40);
+    expect(stats.profitFactor).toBe(180 / 80);
+    expect(stats.expectancy).toBe(25);
+    expect(stats.netPnl).toBe(100);
+    expect(stats.maxDrawdown).toBe(80);
+    expect(stats.equity.map((point) => point.equity)).toEqual([100, 50, 20, 100]);
+  });
+
+  it('counts overlapping holding time once', () => {
+    const stats = computeStats([
+      trade('paper', 10, 0, 30, 'NIFTY'),
+      trade('paper', 10, 10, 40, 'BANKNIFTY'),
+      trade('paper', 10, 60, 80, 'NIFTY')
+    ]);
+    expect(stats.timeInMarketMs).toBe(60 * minute);
+    expect(stats.timeInMarketRatio).toBe(60 / 80);
+    expect(computeStats([]).winRate).toBeNull();
+    expect(computeStats([trade('paper', 10, 0, 5)]).profitFactor).toBeNull();
+  });
+
+  it('reports the live minus paper gap per group', () => {
+    const gaps = paperLiveGaps([
+      trade('paper', 100, 0, 10, 'NIFTY'),
+      trade('live', 70, 0, 10, 'NIFTY'),
+      trade('paper', 50, 0, 10, 'BTCUSDT'),
+      trade('live', 60, 0, 10, 'BTCUSDT')
+    ], 'mode');
+    expect(gaps.map((gap) => [gap.key, gap.gap])).toEqual([['btc-long', 10], ['zerodha6', -30]]);
+    expect(gaps[1].live.trades).toBe(1);
+  });
+});
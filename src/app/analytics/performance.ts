@@ -0,0 +1,171 @@
+import { SizingMode, sizingModeFor } from '../sizing/position-sizing';
+import { istDateKey } from '../tick/market-hours';
+import type { TradeRow } from '../webhook/trade-reducer';
+
+export type Ledger = 'paper' | 'live';
+
+export type LedgerRow = Pick<TradeRow, 'id' | 'timeIst' | 'unrealizedPnl'> & {
+  charges?: number;
+};
+
+export type ClosedTrade = {
+  id: string;
+  ledger: Ledger;
+  symbol: string;
+  mode: SizingMode;
+  dateKey: string;
+  openedAt: number | null;
+  closedAt: number;
+  pnl: number;
+};
+
+export type EquityPoint = {
+  at: number;
+  equity: number;
+};
+
+export type PerformanceStats = {
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number | null;
+  averageWin: number | null;
+  averageLoss: number | null;
+  profitFactor: number | null;
+  expectancy: number | null;
+  netPnl: number;
+  maxDrawdown: number;
+  timeInMarketMs: number;
+  timeInMarketRatio: number | null;
+  equity: EquityPoint[];
+};
+
+export type PaperLiveGap = {
+  key: string;
+  paper: PerformanceStats;
+  live: PerformanceStats;
+  gap: number;
+};
+
+export type GroupBy = 'symbol' | 'mode' | 'day';
+
+export function parseIstTimestamp(value: string): number | null {
+  const match = /^(\d{1,2})\/(\d{1,2})\/(\d{4}),?\s+(\d{1,2}):(\d{2}):(\d{2})$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  const [day, month, year, hour, minute, second] = match.slice(1).map(Number);
+  // en-IN formats midnight as 24:xx:xx on the same calendar day.
+  return Date.UTC(year, month - 1, day, (hour % 24) - 5, minute - 30, second);
+}
+
+export function closedTrades(rowsBySymbol: Record<string, LedgerRow[]>, ledger: Ledger): ClosedTrade[] {
+  const trades: ClosedTrade[] = [];
+  for (const [symbol, rows] of Object.entries(rowsBySymbol)) {
+    for (const row of rows) {
+      if (!row.id.endsWith('-exit')) {
+        continue;
+      }
+      const openedMatch = /-(\d+)-exit$/.exec(row.id);
+      const openedAt = openedMatch ? Number(openedMatch[1]) : null;
+      const closedAt = parseIstTimestamp(row.timeIst) ?? openedAt;
+      if (closedAt === null) {
+        continue;
+      }
+      trades.push({
+        id: row.id,
+        ledger,
+        symbol,
+        mode: sizingModeFor(symbol),
+        dateKey: istDateKey(new Date(closedAt)),
+        openedAt,
+        closedAt,
+        pnl: (row.unrealizedPnl ?? 0) - (row.charges ?? 0)
+      });
+    }
+  }
+  return trades;
+}
+
+export function computeStats(trades: ClosedTrade[]): PerformanceStats {
+  const ordered = [...trades].sort((left, right) => left.closedAt - right.closedAt);
+  const equity: EquityPoint[] = [];
+  let netPnl = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  for (const trade of ordered) {
+    netPnl += trade.pnl;
+    peak = Math.max(peak, netPnl);
+    maxDrawdown = Math.max(maxDrawdown, peak - netPnl);
+    equity.push({ at: trade.closedAt, equity: netPnl });
+  }
+  const winners = ordered.filter((trade) => trade.pnl > 0);
+  const losers = ordered.filter((trade) => trade.pnl < 0);
+  const grossWin = winners.reduce((total, trade) => total + trade.pnl, 0);
+  const grossLoss = losers.reduce((total, trade) => total - trade.pnl, 0);
+  const { heldMs, windowMs } = timeInMarket(ordered);
+  return {
+    trades: ordered.length,
+    wins: winners.length,
+    losses: losers.length,
+    winRate: ordered.length > 0 ? winners.length / ordered.length : null,
+    averageWin: winners.length > 0 ? grossWin / winners.length : null,
+    averageLoss: losers.length > 0 ? -grossLoss / losers.length : null,
+    profitFactor: grossLoss > 0 ? grossWin / grossLoss : null,
+    expectancy: ordered.length > 0 ? netPnl / ordered.length : null,
+    netPnl,
+    maxDrawdown,
+    timeInMarketMs: heldMs,
+    timeInMarketRatio: windowMs > 0 ? heldMs / windowMs : null,
+    equity
+  };
+}
+
+export function groupKey(trade: ClosedTrade, groupBy: GroupBy): string {
+  if (groupBy === 'mode') {
+    return trade.mode;
+  }
+  return groupBy === 'day' ? trade.dateKey : trade.symbol;
+}
+
+export function paperLiveGaps(trades: ClosedTrade[], groupBy: GroupBy): PaperLiveGap[] {
+  const grouped = new Map<string, ClosedTrade[]>();
+  for (const trade of trades) {
+    const key = groupKey(trade, groupBy);
+    grouped.set(key, [...(grouped.get(key) ?? []), trade]);
+  }
+  return Array.from(grouped.entries())
+    .map(([key, group]) => paperLiveGap(key, group))
+    .sort((left, right) => (groupBy === 'day' ? right.key.localeCompare(left.key) : left.key.localeCompare(right.key)));
+}
+
+export function paperLiveGap(key: string, trades: ClosedTrade[]): PaperLiveGap {
+  const paper = computeStats(trades.filter((trade) => trade.ledger === 'paper'));
+  const live = computeStats(trades.filter((trade) => trade.ledger === 'live'));
+  return { key, paper, live, gap: live.netPnl - paper.netPnl };
+}
+
+// Overlapping positions count once, so the ratio never exceeds 1.
+function timeInMarket(trades: ClosedTrade[]): { heldMs: number; windowMs: number } {
+  const intervals = trades
+    .filter((trade) => trade.openedAt !== null && trade.openedAt <= trade.closedAt)
+    .map((trade) => [trade.openedAt as number, trade.closedAt] as const)
+    .sort((left, right) => left[0] - right[0]);
+  if (intervals.length === 0) {
+    return { heldMs: 0, windowMs: 0 };
+  }
+  let heldMs = 0;
+  let [start, end] = intervals[0];
+  for (const [nextStart, nextEnd] of intervals.slice(1)) {
+    if (nextStart > end) {
+      heldMs += end - start;
+      start = nextStart;
+      end = nextEnd;
+    } else {
+      end = Math.max(end, nextEnd);
+    }
+  }
+  heldMs += end - start;
+  const windowMs = Math.max(...intervals.map(([, close]) => close)) - intervals[0][0];
+  return { heldMs, windowMs };
+}
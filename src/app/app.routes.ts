@@ -1,21 +1,41 @@
 import { Routes } from '@angular/router';
+import { AnalyticsComponent } from './analytics/analytics.component';
+import { BacktestComponent } from './backtest/backtest.component';
 import { BinanceComponent } from './binance/binance.component';
 import { BtcCombinedComponent } from './btc-combined/btc-combined.component';
-import { BtcLongComponent } from './btc-long/btc-long.component';
-import { BtcShortComponent } from './btc-short/btc-short.component';
 import { CurrentAppComponent } from './current-app/current-app.component';
 import { HistoryBtcComponent } from './history-btc/history-btc.component';
+import { InstrumentsComponent } from './instruments/instruments.component';
+import { UniverseComponent } from './instruments/universe.component';
+import { LedgerExportComponent } from './ledger-export/ledger-export.component';
 import { MainPageComponent } from './main-page/main-page.component';
+import { OrdersComponent } from './orders/orders.component';
+import { RecorderComponent } from './recorder/recorder.component';
 import { RelayComponent } from './relay/relay.component';
+import { RiskComponent } from './risk/risk.component';
+import { SchedulerComponent } from './scheduler/scheduler.component';
+import { RejectedSignalsComponent } from './signals/rejected-signals.component';
+import { StrategyComponent } from './strategies/strategy.component';
 
 export const routes: Routes = [
   { path: '', component: MainPageComponent },
+  { path: 'analytics', component: AnalyticsComponent },
   { path: 'app', component: CurrentAppComponent },
+  { path: 'backtest', component: BacktestComponent },
   { path: 'btc', component: BinanceComponent },
-  { path: 'btc-long', component: BtcLongComponent },
-  { path: 'btc-short', component: BtcShortComponent },
+  { path: 'btc-long', redirectTo: 'strategy/btc-long' },
+  { path: 'btc-short', redirectTo: 'strategy/btc-short' },
   { path: 'btc-combined', component: BtcCombinedComponent },
+  { path: 'export', component: LedgerExportComponent },
   { path: 'history-btc', component: HistoryBtcComponent },
+  { path: 'instruments', component: InstrumentsComponent },
+  { path: 'orders', component: OrdersComponent },
+  { path: 'recorder', component: RecorderComponent },
   { path: 'relay', component: RelayComponent },
+  { path: 'risk', component: RiskComponent },
+  { path: 'scheduler', component: SchedulerComponent },
+  { path: 'signals', component: RejectedSignalsComponent },
+  { path: 'strategy/:id', component: StrategyComponent },
+  { path: 'universe', component: UniverseComponent },
   { path: '**', redirectTo: '' }
 ];
@@ -1,32 +1,38 @@
+import { AsyncPipe } from '@angular/common';
 import { Component, inject } from '@angular/core';
 import { RouterOutlet } from '@angular/router';
-import { BtcFsmService } from './tick/btc-fsm.service';
-import { BtcLongFsmService } from './tick/btc-long-fsm.service';
-import { BtcShortFsmService } from './tick/btc-short-fsm.service';
-import { HistoryBtcSchedulerService } from './history-btc/history-btc-scheduler.service';
 import { RelayService } from './relay/relay.service';
+import { SessionJobsService } from './scheduler/session-jobs.service';
+import { SquareOffSchedulerService } from './square-off/square-off-scheduler.service';
+import { TabLeaderService } from './tabs/tab-leader.service';
+import { StrategyFsmService } from './tick/strategy-fsm.service';
 import { ZerodhaTickRunnerService } from './tick/zerodha-tick-runner.service';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterOutlet],
+  imports: [AsyncPipe, RouterOutlet],
   templateUrl: './app.html',
   styleUrl: './app.css'
 })
 export class App {
-  private readonly btcFsmService = inject(BtcFsmService);
-  private readonly btcLongFsmService = inject(BtcLongFsmService);
-  private readonly btcShortFsmService = inject(BtcShortFsmService);
-  private readonly historyBtcSchedulerService = inject(HistoryBtcSchedulerService);
   private readonly relayService = inject(RelayService);
+  private readonly sessionJobsService = inject(SessionJobsService);
+  private readonly squareOffSchedulerService = inject(SquareOffSchedulerService);
+  private readonly strategyFsmService = inject(StrategyFsmService);
   private readonly zerodhaTickRunnerService = inject(ZerodhaTickRunnerService);
+  private readonly tabLeader = inject(TabLeaderService);
+
+  readonly tabStatus$ = this.tabLeader.status$;
 
   constructor() {
-    void this.btcFsmService;
-    void this.btcLongFsmService;
-    void this.btcShortFsmService;
-    void this.historyBtcSchedulerService;
     void this.relayService;
+    void this.sessionJobsService;
+    void this.squareOffSchedulerService;
+    void this.strategyFsmService;
     void this.zerodhaTickRunnerService;
   }
+
+  takeOver(): void {
+    this.tabLeader.takeOver();
+  }
 }
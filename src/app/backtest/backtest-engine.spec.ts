@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { BacktestInstrument, ReplayEvent, parseReplayJournal, runBacktest } from './backtest-engine';
+
+const instruments: BacktestInstrument[] = [
+  { tradingview: 'NIFTY260106C25950', exchange: 'NFO', zerodha: 'NIFTY2610625950CE', token: 10358018, lot: 65 },
+  { tradingview: 'BTCUSDT', exchange: 'CRYPTO', zerodha: 'BTCUSD', token: 99999999, lot: 1 }
+];
+const start = Date.UTC(2026, 0, 5, 4, 0, 10);
+
+function tick(offsetMs: number, price: number): ReplayEvent {
+  return { receivedAt: start + offsetMs, channel: 'ticks', payload: [{ instrument_token: 10358018, last_price: price }] };
+}
+
+function webhook(offsetMs: number, payload: Record<string, unknown>): ReplayEvent {
+  return { receivedAt: start + offsetMs, channel: 'webhook', payload };
+}
+
+describe('runBacktest', () => {
+  it('replays Zerodha ticks and signals into paper and live ledgers', () => {
+    const events: ReplayEvent[] = [
+      tick(0, 100),
+      webhook(1000, { symbol: 'NIFTY260106C25950', intent: 'BUY', stoppx: 101 }),
+      tick(2000, 102),
+      tick(3000, 110),
+      webhook(4000, { symbol: 'NIFTY260106C25950', intent: 'SELL' }),
+      tick(5000, 109),
+      webhook(120000, { symbol: 'NIFTY260106C25950', intent: 'BUY', stoppx: 110 }),
+      tick(121000, 111),
+      tick(122000, 108)
+    ];
+
+    const result = runBacktest(events, { capital: 100000, instruments });
+    const paper = result.summaries.find((row) => row.ledger === 'paper' && row.symbol === 'NIFTY2610625950CE');
+    const live = result.summaries.find((row) => row.ledger === 'live' && row.symbol === 'NIFTY2610625950CE');
+
+    expect(paper).toMatchObject({ trades: 2, wins: 1, winRate: 0.5, grossPnl: 6825 - 2535 });
+    expect(paper?.charges).toBeCloseTo(241.49 + 217.91, 2);
+    expect(paper?.maxDrawdown).toBeCloseTo(2535 + 217.91, 2);
+    expect(live?.trades).toBe(2);
+    expect(result.tradeState.liveCumulativeBySymbol.get('NIFTY2610625950CE')).toBeCloseTo(6825 - 2535 - 459.4, 2);
+    expect(result.orders.map((order) => order.action)).toEqual(['OPEN', 'CLOSE', 'OPEN', 'CLOSE']);
+  });
+
+  it('runs the BTC short strategy from binance prices', () => {
+    const events: ReplayEvent[] = [
+      { receivedAt: start, channel: 'binance:ws', payload: { symbol: 'BTCUSDT', price: 90000 } },
+      webhook(1000, { symbol: 'BTCUSDT', intent: 'EXIT', side: 'SELL', stoppx: 90100 }),
+      { receivedAt: start + 2000, channel: 'binance:ws', payload: { symbol: 'BTCUSDT', price: 89900 } },
+      { receivedAt: start + 3000, channel: 'binance:ws', payload: { symbol: 'BTCUSDT', price: 90050 } }
+    ];
+
+    const result = runBacktest(events, { capital: 100000, instruments });
+    const short = result.summaries.find((row) => row.ledger === 'paper' && row.symbol === 'BTCUSDT:btc-short');
+
+    expect(short?.trades).toBe(1);
+    expect(short?.grossPnl).toBe(-150);
+  });
+});
+
+describe('parseReplayJournal', () => {
+  it('reads NDJSON and skips malformed lines', () => {
+    const text = [
+      JSON.stringify({ receivedAt: 1, channel: 'webhook', payload: {} }),
+      'not json',
+      JSON.stringify({ channel: 'ticks' }),
+      JSON.stringify({ receivedAt: 2, channel: 'ticks', payload: [] })
+    ].join('\n');
+
+    expect(parseReplayJournal(text).map((event) => event.receivedAt)).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,362 @@
+import {
+  ExitRules,
+  FsmDirection,
+  InstrumentFsm,
+  applySignalTransition,
+  applyTickTransition,
+  defaultFsm,
+  directionFromValue,
+  noExitRules,
+  resolveDirection
+} from '../tick/fsm-engine';
+import { createChargesModel } from '../charges/charges-model';
+import { RiskSettings, createRiskRuntime, noRiskLimits } from '../risk/risk-manager';
+import { SizingMode, SizingSettingsByMode, defaultSizingByMode } from '../sizing/position-sizing';
+import {
+  StrategyConfig,
+  catchAllStrategy,
+  fsmConfigFor,
+  matchesSymbol,
+  routesTo,
+  strategies,
+  strategyKey,
+  symbolForKey
+} from '../strategies/strategy-config';
+import type { FsmSymbolSnapshot } from '../tick/tick-fsm-state.service';
+import { normalizeWebhook } from '../webhook/signal-schema';
+import {
+  LiveOrderAction,
+  OpenTrade,
+  TradeRow,
+  TradeState,
+  createLiveTradeRuntime,
+  initialTradeState,
+  reduceTradeState
+} from '../webhook/trade-reducer';
+
+export type ReplayEvent = {
+  receivedAt: number;
+  channel: string;
+  payload: unknown;
+};
+
+export type BacktestInstrument = {
+  tradingview?: string;
+  zerodha?: string;
+  exchange?: string;
+  token?: number;
+  lot?: number;
+  direction?: string;
+};
+
+export type BacktestOptions = {
+  capital: number;
+  instruments: BacktestInstrument[];
+  risk?: RiskSettings;
+  sizing?: SizingSettingsByMode;
+  exitRules?: Record<SizingMode, ExitRules>;
+  paperOnly?: (symbol: string) => boolean;
+};
+
+export type BacktestOrder = {
+  at: number;
+  action: LiveOrderAction;
+  trade: OpenTrade;
+};
+
+export type BacktestSummary = {
+  symbol: string;
+  ledger: 'paper' | 'live';
+  trades: number;
+  wins: number;
+  winRate: number;
+  maxDrawdown: number;
+  grossPnl: number;
+  charges: number;
+  netPnl: number;
+};
+
+export type BacktestResult = {
+  events: number;
+  startedAt: number | null;
+  endedAt: number | null;
+  tradeState: TradeState;
+  orders: BacktestOrder[];
+  summaries: BacktestSummary[];
+};
+
+type BtcStrategy = StrategyConfig & { symbol: string };
+
+const zerodhaStrategy = catchAllStrategy('zerodha');
+
+const btcStrategies = strategies.filter(
+  (strategy): strategy is BtcStrategy => strategy.feed === 'binance' && strategy.symbol !== null
+);
+
+export function parseReplayJournal(text: string): ReplayEvent[] {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    return [];
+  }
+  let candidates: unknown[] = [];
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      candidates = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      candidates = [];
+    }
+  } else {
+    for (const line of trimmed.split(/\r?\n/)) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        candidates.push(JSON.parse(line));
+      } catch {
+        // skip malformed journal lines
+      }
+    }
+  }
+  return candidates.filter(isReplayEvent);
+}
+
+export function runBacktest(events: ReplayEvent[], options: BacktestOptions): BacktestResult {
+  const ordered = [...events].sort((left, right) => left.receivedAt - right.receivedAt);
+  const tokenBySymbol = new Map<string, number>();
+  const symbolByToken = new Map<number, string>();
+  const lotLookup = new Map<string, number>();
+  const exchangeBySymbol = new Map<string, string>();
+  const directionByToken = new Map<number, FsmDirection>();
+  for (const instrument of options.instruments) {
+    if (typeof instrument.exchange === 'string') {
+      for (const symbol of [instrument.zerodha, instrument.tradingview]) {
+        if (typeof symbol === 'string') {
+          exchangeBySymbol.set(symbol, instrument.exchange);
+        }
+      }
+    }
+    if (typeof instrument.lot === 'number') {
+      if (typeof instrument.zerodha === 'string') {
+        lotLookup.set(instrument.zerodha, instrument.lot);
+      }
+      if (typeof instrument.tradingview === 'string') {
+        lotLookup.set(instrument.tradingview, instrument.lot);
+      }
+    }
+    if (instrument.exchange === 'CRYPTO' || typeof instrument.token !== 'number') {
+      continue;
+    }
+    directionByToken.set(instrument.token, directionFromValue(instrument.direction) ?? 'long');
+    if (typeof instrument.zerodha === 'string') {
+      symbolByToken.set(instrument.token, instrument.zerodha);
+      tokenBySymbol.set(instrument.zerodha, instrument.token);
+    }
+    if (typeof instrument.tradingview === 'string') {
+      tokenBySymbol.set(instrument.tradingview, instrument.token);
+    }
+  }
+
+  const fsmByToken = new Map<number, InstrumentFsm>();
+  const ltpByToken = new Map<number, number>();
+  const btcFsmByKey = new Map<string, InstrumentFsm>(
+    btcStrategies.map((strategy) => [strategyKey(strategy, strategy.symbol), defaultFsm()])
+  );
+  const btcLtpBySymbol = new Map<string, number>();
+  let tradeState = initialTradeState();
+  const runtime = createLiveTradeRuntime();
+  const riskRuntime = createRiskRuntime();
+  const charges = createChargesModel(exchangeBySymbol);
+  const sizing = options.sizing ?? defaultSizingByMode();
+  const exitRulesFor = (mode: SizingMode) => options.exitRules?.[mode] ?? noExitRules();
+  const orders: BacktestOrder[] = [];
+
+  for (const event of ordered) {
+    const at = event.receivedAt;
+    if (event.channel === 'webhook') {
+      const normalized = normalizeWebhook(event.payload);
+      if (!normalized.ok) {
+        continue;
+      }
+      const payload = normalized.signal;
+      const signal = payload.signal;
+      for (const strategy of btcStrategies) {
+        if (!routesTo(strategy, payload)) {
+          continue;
+        }
+        const key = strategyKey(strategy, strategy.symbol);
+        const config = fsmConfigFor(strategy, exitRulesFor(strategy.id));
+        const latest = btcLtpBySymbol.get(strategy.symbol) ?? null;
+        btcFsmByKey.set(key, applySignalTransition(config, btcFsmByKey.get(key) ?? defaultFsm(), signal, payload, latest, at));
+      }
+      if (zerodhaStrategy && routesTo(zerodhaStrategy, payload)) {
+        const token = tokenBySymbol.get(payload.symbol);
+        if (token === undefined) {
+          continue;
+        }
+        const current = fsmByToken.get(token) ?? defaultFsm();
+        const latest = ltpByToken.get(token) ?? null;
+        const direction = resolveDirection(current, directionByToken.get(token) ?? 'long', payload);
+        directionByToken.set(token, direction);
+        const config = { ...fsmConfigFor(zerodhaStrategy, exitRulesFor(zerodhaStrategy.id)), direction };
+        fsmByToken.set(token, applySignalTransition(config, current, signal, payload, latest, at));
+      }
+    } else if (event.channel === 'ticks') {
+      const ticks = Array.isArray(event.payload) ? event.payload : [event.payload];
+      for (const tick of ticks) {
+        const token = readNumber(tick, 'instrument_token');
+        const ltp = readNumber(tick, 'last_price');
+        if (token === null) {
+          continue;
+        }
+        if (ltp !== null) {
+          ltpByToken.set(token, ltp);
+        }
+        if (!zerodhaStrategy) {
+          continue;
+        }
+        const current = fsmByToken.get(token) ?? defaultFsm();
+        const config = {
+          ...fsmConfigFor(zerodhaStrategy, exitRulesFor(zerodhaStrategy.id)),
+          direction: directionByToken.get(token) ?? 'long'
+        };
+        fsmByToken.set(token, applyTickTransition(config, current, ltp, at).next);
+      }
+    } else if (event.channel === 'binance:ws') {
+      const symbol = readString(event.payload, 'symbol');
+      const price = readNumber(event.payload, 'price');
+      if (symbol === null || price === null) {
+        continue;
+      }
+      for (const strategy of btcStrategies) {
+        if (!matchesSymbol(strategy, symbol)) {
+          continue;
+        }
+        btcLtpBySymbol.set(strategy.symbol, price);
+        const key = strategyKey(strategy, strategy.symbol);
+        const config = fsmConfigFor(strategy, exitRulesFor(strategy.id));
+        btcFsmByKey.set(key, applyTickTransition(config, btcFsmByKey.get(key) ?? defaultFsm(), price, at).next);
+      }
+    } else {
+      continue;
+    }
+
+    const snapshot = new Map<string, FsmSymbolSnapshot>();
+    for (const [token, fsm] of fsmByToken.entries()) {
+      const symbol = symbolByToken.get(token);
+      if (symbol) {
+        snapshot.set(symbol, toSnapshot(fsm, ltpByToken.get(token) ?? null));
+      }
+    }
+    for (const [key, fsm] of btcFsmByKey.entries()) {
+      if (fsm.state !== 'NOSIGNAL') {
+        snapshot.set(key, toSnapshot(fsm, btcLtpBySymbol.get(symbolForKey(key)) ?? null));
+      }
+    }
+    tradeState = reduceTradeState(tradeState, snapshot, {
+      now: new Date(at),
+      capital: options.capital,
+      lotLookup,
+      sizing,
+      staleFeedPolicy: 'alert',
+      charges,
+      risk: {
+        settings: options.risk ?? noRiskLimits,
+        runtime: riskRuntime,
+        capital: options.capital,
+        reportBreach: () => undefined
+      },
+      runtime,
+      paperOnly: options.paperOnly ?? (() => false),
+      sendLiveOrder: (trade, action) => orders.push({ at, action, trade }),
+      log: () => undefined
+    });
+  }
+
+  return {
+    events: ordered.length,
+    startedAt: ordered[0]?.receivedAt ?? null,
+    endedAt: ordered[ordered.length - 1]?.receivedAt ?? null,
+    tradeState,
+    orders,
+    summaries: [
+      ...summarizeLedger('paper', tradeState.tradesBySymbol),
+      ...summarizeLedger('live', tradeState.liveTradesBySymbol)
+    ]
+  };
+}
+
+export function summarizeLedger(ledger: 'paper' | 'live', rowsBySymbol: Map<string, TradeRow[]>): BacktestSummary[] {
+  const summaries: BacktestSummary[] = [];
+  for (const [symbol, rows] of rowsBySymbol.entries()) {
+    const exits = rows.filter((row) => row.id.endsWith('-exit')).reverse();
+    let grossPnl = 0;
+    let charges = 0;
+    let wins = 0;
+    let equity = 0;
+    let peak = 0;
+    let maxDrawdown = 0;
+    for (const exit of exits) {
+      const realized = exit.unrealizedPnl ?? 0;
+      const tradeCharges = exit.charges ?? 0;
+      grossPnl += realized;
+      charges += tradeCharges;
+      if (realized - tradeCharges > 0) {
+        wins += 1;
+      }
+      equity += realized - tradeCharges;
+      peak = Math.max(peak, equity);
+      maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    }
+    summaries.push({
+      symbol,
+      ledger,
+      trades: exits.length,
+      wins,
+      winRate: exits.length > 0 ? wins / exits.length : 0,
+      maxDrawdown,
+      grossPnl,
+      charges,
+      netPnl: grossPnl - charges
+    });
+  }
+  return summaries;
+}
+
+function toSnapshot(fsm: InstrumentFsm, ltp: number | null): FsmSymbolSnapshot {
+  return {
+    state: fsm.state,
+    ltp,
+    threshold: fsm.threshold,
+    lastBUYThreshold: fsm.lastBUYThreshold,
+    lastSELLThreshold: fsm.lastSELLThreshold,
+    lastBlockedAtMs: fsm.lastBlockedAtMs,
+    entryPrice: fsm.entryPrice,
+    enteredAtMs: fsm.enteredAtMs,
+    exitCause: fsm.lastExitCause
+  };
+}
+
+function isReplayEvent(value: unknown): value is ReplayEvent {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const candidate = value as { receivedAt?: unknown; channel?: unknown };
+  return typeof candidate.receivedAt === 'number' && typeof candidate.channel === 'string';
+}
+
+function readNumber(source: unknown, key: string): number | null {
+  if (typeof source !== 'object' || source === null) {
+    return null;
+  }
+  const value = (source as Record<string, unknown>)[key];
+  return typeof value === 'number' ? value : null;
+}
+
+function readString(source: unknown, key: string): string | null {
+  if (typeof source !== 'object' || source === null) {
+    return null;
+  }
+  const value = (source as Record<string, unknown>)[key];
+  return typeof value === 'string' ? value : null;
+}
@@ -0,0 +1,102 @@
+import { CommonModule } from '@angular/common';
+import { Component, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { firstValueFrom } from 'rxjs';
+import { isPaperOnly } from '../instruments/instrument-universe';
+import { InstrumentUniverseService } from '../instruments/instrument-universe.service';
+import { RelayService } from '../relay/relay.service';
+import { symbolForKey } from '../strategies/strategy-config';
+import { BacktestResult, parseReplayJournal, runBacktest } from './backtest-engine';
+
+@Component({
+  selector: 'app-backtest',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './backtest.component.html',
+  styleUrl: './backtest.component.css'
+})
+export class BacktestComponent {
+  private readonly relayService = inject(RelayService);
+  private readonly universeService = inject(InstrumentUniverseService);
+
+  capital = String(this.relayService.getCapitalValue());
+  fileName = '';
+  error = '';
+  running = false;
+  result: BacktestResult | null = null;
+  private journalText = '';
+
+  async onFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement | null;
+    const file = input?.files?.[0];
+    if (!file) {
+      return;
+    }
+    this.fileName = file.name;
+    this.journalText = await file.text();
+    await this.run();
+  }
+
+  async run(): Promise<void> {
+    if (!this.journalText) {
+      this.error = 'Choose a journal file first.';
+      return;
+    }
+    this.running = true;
+    this.error = '';
+    try {
+      const events = parseReplayJournal(this.journalText);
+      if (events.length === 0) {
+        this.error = 'No replayable events found in the file.';
+        this.result = null;
+        return;
+      }
+      const members = await firstValueFrom(this.universeService.members$);
+      this.result = runBacktest(events, {
+        capital: this.getCapitalValue(),
+        instruments: members.filter((member) => member.enabled).map((member) => member.instrument),
+        sizing: this.relayService.sizing,
+        exitRules: this.relayService.exitRules,
+        paperOnly: (symbol) => isPaperOnly(members, symbolForKey(symbol))
+      });
+      console.log(
+        `[backtest] run file=${this.fileName} events=${this.result.events} summaries=${this.result.summaries.length}`
+      );
+    } catch (error) {
+      this.error = error instanceof Error ? error.message : 'Backtest failed';
+      this.result = null;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  formatNumber(value: number | null): string {
+    if (value === null || Number.isNaN(value)) {
+      return '--';
+    }
+    return value.toFixed(2);
+  }
+
+  formatPercent(value: number): string {
+    return `${(value * 100).toFixed(1)}%`;
+  }
+
+  formatTime(value: number | null): string {
+    if (value === null) {
+      return '--';
+    }
+    return new Date(value).toLocaleString('en-IN', {
+      timeZone: 'Asia/Kolkata',
+      hour12: false
+    });
+  }
+
+  private getCapitalValue(): number {
+    const parsed = Number(this.capital);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      return this.relayService.getCapitalValue();
+    }
+    return parsed;
+  }
+}
@@ -10,6 +10,7 @@ import { DeltaRestComponent } from '../delta-rest/delta-rest.component';
 import { TickComponent } from '../tick/tick.component';
 import { WebhookComponent } from '../webhook/webhook.component';
 import { BinanceService } from './binance.service';
+import { MarketSocketService } from '../socket/market-socket.service';
 
 @Component({
   selector: 'app-binance',
@@ -31,6 +32,7 @@ import { BinanceService } from './binance.service';
 export class BinanceComponent implements OnInit, OnDestroy {
   private readonly binanceService = inject(BinanceService);
   private readonly router = inject(Router);
+  readonly socketStatus$ = inject(MarketSocketService).status$;
   private navSub: Subscription | null = null;
   readonly latestBinance$ = this.binanceService.binance$;
 
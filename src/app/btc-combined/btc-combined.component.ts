@@ -1,18 +1,20 @@
 import { CommonModule } from '@angular/common';
 import { Component, OnInit } from '@angular/core';
 import { RouterLink } from '@angular/router';
-import { BtcLongComponent } from '../btc-long/btc-long.component';
-import { BtcShortComponent } from '../btc-short/btc-short.component';
+import { StrategyComponent } from '../strategies/strategy.component';
+import { strategies } from '../strategies/strategy-config';
 
 @Component({
   selector: 'app-btc-combined',
   standalone: true,
-  imports: [CommonModule, RouterLink, BtcLongComponent, BtcShortComponent],
+  imports: [CommonModule, RouterLink, StrategyComponent],
   templateUrl: './btc-combined.component.html',
   styleUrl: './btc-combined.component.css'
 })
 export class BtcCombinedComponent implements OnInit {
+  readonly strategies = strategies.filter((strategy) => strategy.symbol === 'BTCUSDT' && !strategy.primary);
+
   ngOnInit(): void {
-    console.log('[btc-combined] component init');
+    console.log(`[btc-combined] component init strategies=${this.strategies.length}`);
   }
 }
@@ -0,0 +1,60 @@
+import { Injectable } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import {
+  Exchange,
+  MarketCalendar,
+  MarketSession,
+  defaultMarketCalendar,
+  isMarketOpen,
+  nextClose,
+  nextOpen,
+  normalizeMarketCalendar,
+  sessionOn
+} from './market-calendar';
+import { istDateKey } from '../tick/market-hours';
+
+@Injectable({ providedIn: 'root' })
+export class MarketCalendarService {
+  private readonly subject = new BehaviorSubject<MarketCalendar>(defaultMarketCalendar());
+  private readonly initialLoad = this.reload();
+  readonly calendar$: Observable<MarketCalendar> = this.subject.asObservable();
+
+  get calendar(): MarketCalendar {
+    return this.subject.value;
+  }
+
+  whenLoaded(): Promise<void> {
+    return this.initialLoad;
+  }
+
+  isOpen(exchange: Exchange, now: number = Date.now()): boolean {
+    return isMarketOpen(this.subject.value, exchange, now);
+  }
+
+  sessionToday(exchange: Exchange, now: number = Date.now()): MarketSession | null {
+    return sessionOn(this.subject.value, exchange, istDateKey(new Date(now)));
+  }
+
+  nextOpen(exchange: Exchange, now: number = Date.now()): number | null {
+    return nextOpen(this.subject.value, exchange, now);
+  }
+
+  nextClose(exchange: Exchange, now: number = Date.now()): number | null {
+    return nextClose(this.subject.value, exchange, now);
+  }
+
+  async reload(): Promise<void> {
+    try {
+      const response = await fetch('/market-calendar.json', { cache: 'no-store' });
+      if (!response.ok) {
+        console.log(`[calendar] load failed status=${response.status}`);
+        return;
+      }
+      const calendar = normalizeMarketCalendar(await response.json());
+      this.subject.next(calendar);
+      console.log(`[calendar] loaded holidays=${calendar.exchanges.NSE.holidays.length}`);
+    } catch {
+      console.log('[calendar] load failed, using weekday sessions only');
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import bundledCalendar from '../../../public/market-calendar.json';
+import {
+  MarketCalendar,
+  defaultMarketCalendar,
+  isMarketOpen,
+  nextClose,
+  nextOpen,
+  normalizeMarketCalendar,
+  sessionOn
+} from './market-calendar';
+
+function istAt(date: string, time: string): number {
+  return Date.parse(`${date}T${time}:00+05:30`);
+}
+
+function calendarWith(): MarketCalendar {
+  const calendar = defaultMarketCalendar();
+  calendar.exchanges.NSE = {
+    holidays: [{ date: '2026-01-26', label: 'Republic Day' }],
+    specialSessions: [{ date: '2026-11-08', open: '18:00', close: '19:15', label: 'Muhurat trading' }]
+  };
+  return calendar;
+}
+
+describe('market-calendar', () => {
+  it('opens on weekdays inside regular hours only', () => {
+    const calendar = defaultMarketCalendar();
+    expect(isMarketOpen(calendar, 'NFO', istAt('2026-01-05', '09:14'))).toBe(false);
+    expect(isMarketOpen(calendar, 'NFO', istAt('2026-01-05', '09:15'))).toBe(true);
+    expect(isMarketOpen(calendar, 'NFO', istAt('2026-01-05', '15:30'))).toBe(true);
+    expect(isMarketOpen(calendar, 'NFO', istAt('2026-01-05', '15:31'))).toBe(false);
+    expect(isMarketOpen(calendar, 'NFO', istAt('2026-01-10', '11:00'))).toBe(false);
+  });
+
+  it('stays closed on an exchange holiday', () => {
+    const calendar = calendarWith();
+    expect(sessionOn(calendar, 'NSE', '2026-01-26')).toBeNull();
+    expect(isMarketOpen(calendar, 'NSE', istAt('2026-01-26', '11:00'))).toBe(false);
+    expect(isMarketOpen(calendar, 'BSE', istAt('2026-01-26', '11:00'))).toBe(true);
+  });
+
+  it('opens for a special session even on a weekend', () => {
+    const calendar = calendarWith();
+    const session = sessionOn(calendar, 'NSE', '2026-11-08');
+    expect(session?.label).toBe('Muhurat trading');
+    expect(isMarketOpen(calendar, 'NSE', istAt('2026-11-08', '18:30'))).toBe(true);
+    expect(isMarketOpen(calendar, 'NSE', istAt('2026-11-08', '11:00'))).toBe(false);
+  });
+
+  it('ships the Muhurat session for every exchange in the bundled calendar', () => {
+    const calendar = normalizeMarketCalendar(bundledCalendar);
+    for (const exchange of ['NSE', 'NFO', 'BSE', 'BFO'] as const) {
+      expect(sessionOn(calendar, exchange, '2026-11-08')?.label).toBe('Muhurat trading');
+      expect(isMarketOpen(calendar, exchange, istAt('2026-11-08', '18:30'))).toBe(true);
+      expect(isMarketOpen(calendar, exchange, istAt('2026-11-08', '19:16'))).toBe(false);
+    }
+  });
+
+  it('finds the next open and close across weekends and holidays', () => {
+    const calendar = calendarWith();
+    expect(nextOpen(calendar, 'NSE', istAt('2026-01-23', '16:00'))).toBe(istAt('2026-01-27', '09:15'));
+    expect(nextOpen(calendar, 'NSE', istAt('2026-01-27', '08:00'))).toBe(istAt('2026-01-27', '09:15'));
+    expect(nextClose(calendar, 'NSE', istAt('2026-01-27', '10:00'))).toBe(istAt('2026-01-27', '15:30'));
+    expect(nextClose(calendar, 'NSE', istAt('2026-01-23', '16:00'))).toBe(istAt('2026-01-27', '15:30'));
+  });
+
+  it('normalizes a loaded calendar and drops malformed entries', () => {
+    const calendar = normalizeMarketCalendar({
+      regular: { open: '09:00', close: '15:00' },
+      exchanges: {
+        NFO: {
+          holidays: [{ date: '2026-03-03', label: 'Holi' }, { date: 'March 3' }],
+          specialSessions: [{ date: '2026-02-01', open: '09:15', close: 'late', label: 'Budget' }]
+        }
+      }
+    });
+    expect(calendar.regular).toEqual({ open: '09:00', close: '15:00' });
+    expect(calendar.exchanges.NFO.holidays).toEqual([{ date: '2026-03-03', label: 'Holi' }]);
+    expect(calendar.exchanges.NFO.specialSessions).toEqual([]);
+    expect(calendar.exchanges.NSE.holidays).toEqual([]);
+    expect(normalizeMarketCalendar('nope')).toEqual(defaultMarketCalendar());
+  });
+});
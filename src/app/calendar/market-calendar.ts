@@ -0,0 +1,155 @@
+import { istDateKey, istTimeOn, parseIstTime } from '../tick/market-hours';
+
+export type Exchange = 'NSE' | 'NFO' | 'BSE' | 'BFO';
+
+export type SessionHours = {
+  open: string;
+  close: string;
+};
+
+export type Holiday = {
+  date: string;
+  label: string;
+};
+
+export type SpecialSession = SessionHours & {
+  date: string;
+  label: string;
+};
+
+export type ExchangeCalendar = {
+  holidays: Holiday[];
+  specialSessions: SpecialSession[];
+};
+
+export type MarketCalendar = {
+  regular: SessionHours;
+  exchanges: Record<Exchange, ExchangeCalendar>;
+};
+
+export type MarketSession = {
+  date: string;
+  openAt: number;
+  closeAt: number;
+  label: string | null;
+};
+
+export const exchanges: Exchange[] = ['NSE', 'NFO', 'BSE', 'BFO'];
+
+const lookAheadDays = 21;
+
+export function defaultMarketCalendar(): MarketCalendar {
+  return {
+    regular: { open: '09:15', close: '15:30' },
+    exchanges: {
+      NSE: { holidays: [], specialSessions: [] },
+      NFO: { holidays: [], specialSessions: [] },
+      BSE: { holidays: [], specialSessions: [] },
+      BFO: { holidays: [], specialSessions: [] }
+    }
+  };
+}
+
+export function sessionOn(calendar: MarketCalendar, exchange: Exchange, date: string): MarketSession | null {
+  const schedule = calendar.exchanges[exchange];
+  const special = schedule.specialSessions.find((session) => session.date === date);
+  if (special) {
+    return toSession(date, special, special.label);
+  }
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay();
+  if (weekday === 0 || weekday === 6 || schedule.holidays.some((holiday) => holiday.date === date)) {
+    return null;
+  }
+  return toSession(date, calendar.regular, null);
+}
+
+export function isMarketOpen(calendar: MarketCalendar, exchange: Exchange, now: number): boolean {
+  const session = sessionOn(calendar, exchange, istDateKey(new Date(now)));
+  return session !== null && now >= session.openAt && now <= session.closeAt;
+}
+
+export function nextOpen(calendar: MarketCalendar, exchange: Exchange, now: number): number | null {
+  return upcomingSessions(calendar, exchange, now).find((session) => session.openAt > now)?.openAt ?? null;
+}
+
+export function nextClose(calendar: MarketCalendar, exchange: Exchange, now: number): number | null {
+  return upcomingSessions(calendar, exchange, now).find((session) => session.closeAt >= now)?.closeAt ?? null;
+}
+
+export function normalizeMarketCalendar(value: unknown): MarketCalendar {
+  const calendar = defaultMarketCalendar();
+  if (typeof value !== 'object' || value === null) {
+    return calendar;
+  }
+  const candidate = value as { regular?: unknown; exchanges?: unknown };
+  const regular = normalizeHours(candidate.regular);
+  if (regular) {
+    calendar.regular = regular;
+  }
+  const byExchange = typeof candidate.exchanges === 'object' && candidate.exchanges !== null
+    ? candidate.exchanges as Record<string, unknown>
+    : {};
+  for (const exchange of exchanges) {
+    const entry = byExchange[exchange] as { holidays?: unknown; specialSessions?: unknown } | undefined;
+    if (!entry) {
+      continue;
+    }
+    calendar.exchanges[exchange] = {
+      holidays: (Array.isArray(entry.holidays) ? entry.holidays : []).flatMap((item): Holiday[] => {
+        const date = readDate(item);
+        return date ? [{ date, label: readLabel(item) }] : [];
+      }),
+      specialSessions: (Array.isArray(entry.specialSessions) ? entry.specialSessions : []).flatMap((item): SpecialSession[] => {
+        const date = readDate(item);
+        const hours = normalizeHours(item);
+        return date && hours ? [{ date, ...hours, label: readLabel(item) }] : [];
+      })
+    };
+  }
+  return calendar;
+}
+
+function upcomingSessions(calendar: MarketCalendar, exchange: Exchange, now: number): MarketSession[] {
+  const [year, month, day] = istDateKey(new Date(now)).split('-').map(Number);
+  const sessions: MarketSession[] = [];
+  for (let offset = 0; offset < lookAheadDays; offset += 1) {
+    const date = new Date(Date.UTC(year, month - 1, day + offset)).toISOString().slice(0, 10);
+    const session = sessionOn(calendar, exchange, date);
+    if (session) {
+      sessions.push(session);
+    }
+  }
+  return sessions;
+}
+
+function toSession(date: string, hours: SessionHours, label: string | null): MarketSession | null {
+  const open = parseIstTime(hours.open);
+  const close = parseIstTime(hours.close);
+  if (!open || !close) {
+    return null;
+  }
+  return { date, openAt: istTimeOn(date, open), closeAt: istTimeOn(date, close), label };
+}
+
+function normalizeHours(value: unknown): SessionHours | null {
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+  const candidate = value as { open?: unknown; close?: unknown };
+  if (typeof candidate.open !== 'string' || typeof candidate.close !== 'string') {
+    return null;
+  }
+  return parseIstTime(candidate.open) && parseIstTime(candidate.close)
+    ? { open: candidate.open.trim(), close: candidate.close.trim() }
+    : null;
+}
+
+function readDate(value: unknown): string | null {
+  const date = typeof value === 'object' && value !== null ? (value as { date?: unknown }).date : null;
+  return typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : null;
+}
+
+function readLabel(value: unknown): string {
+  const label = typeof value === 'object' && value !== null ? (value as { label?: unknown }).label : null;
+  return typeof label === 'string' ? label : '';
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { createChargesModel, cryptoModel, defaultCryptoSchedule } from './charges-model';
+
+const exchanges = new Map([
+  ['NIFTY2610625950CE', 'NFO'],
+  ['SENSEX2610184700CE', 'BFO'],
+  ['NIFTY26JANFUT', 'NFO'],
+  ['BTCUSDT', 'CRYPTO']
+]);
+const model = createChargesModel(exchanges);
+
+describe('createChargesModel', () => {
+  it('charges NSE options per leg with STT on the sell side only', () => {
+    const charges = model.roundTrip({
+      symbol: 'NIFTY2610625950CE',
+      side: 'BUY',
+      entryPrice: 102,
+      exitPrice: 109,
+      quantity: 1040
+    });
+    expect(charges).toEqual({
+      brokerage: 40,
+      stt: 113,
+      exchangeTxn: 76.87,
+      sebi: 0.22,
+      stampDuty: 3,
+      gst: 21.08,
+      total: 254.17
+    });
+  });
+
+  it('uses the BSE exchange rate for BFO options', () => {
+    const charges = model.roundTrip({ symbol: 'SENSEX2610184700CE', side: 'BUY', entryPrice: 200, exitPrice: 200, quantity: 100 });
+    expect(charges.exchangeTxn).toBe(13);
+  });
+
+  it('caps futures brokerage at the per-order maximum', () => {
+    const small = model.roundTrip({ symbol: 'NIFTY26JANFUT', side: 'BUY', entryPrice: 100, exitPrice: 100, quantity: 10 });
+    const large = model.roundTrip({ symbol: 'NIFTY26JANFUT', side: 'BUY', entryPrice: 26000, exitPrice: 26000, quantity: 65 });
+    expect(small.brokerage).toBe(0.6);
+    expect(large.brokerage).toBe(40);
+  });
+
+  it('routes BTC strategy keys to the crypto fee schedule', () => {
+    const charges = model.roundTrip({ symbol: 'BTCUSDT_SHORT', side: 'SELL', entryPrice: 90000, exitPrice: 89000, quantity: 2 });
+    expect(charges.brokerage).toBe(179);
+    expect(charges.gst).toBe(32.22);
+    expect(charges.stt).toBe(0);
+  });
+
+  it('charges maker fees when configured', () => {
+    const maker = cryptoModel({ ...defaultCryptoSchedule, entryLiquidity: 'maker', exitLiquidity: 'maker', gstRate: 0 });
+    expect(maker.roundTrip({ symbol: 'BTCUSDT', side: 'BUY', entryPrice: 100000, exitPrice: 100000, quantity: 1 }).total).toBe(40);
+  });
+});
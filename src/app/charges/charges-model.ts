@@ -0,0 +1,193 @@
+import { symbolForKey } from '../strategies/strategy-config';
+
+export type TradeSide = 'BUY' | 'SELL';
+
+export type Liquidity = 'maker' | 'taker';
+
+export type RoundTrip = {
+  symbol: string;
+  side: TradeSide;
+  entryPrice: number;
+  exitPrice: number;
+  quantity: number;
+};
+
+export type ChargeBreakdown = {
+  brokerage: number;
+  stt: number;
+  exchangeTxn: number;
+  sebi: number;
+  stampDuty: number;
+  gst: number;
+  total: number;
+};
+
+export type ChargesModel = {
+  name: string;
+  roundTrip: (trip: RoundTrip) => ChargeBreakdown;
+};
+
+export type FnoSchedule = {
+  brokeragePerOrder: number;
+  brokerageRate: number | null;
+  sttSellRate: number;
+  exchangeTxnRate: number;
+  sebiRate: number;
+  stampBuyRate: number;
+  gstRate: number;
+};
+
+export type CryptoSchedule = {
+  makerRate: number;
+  takerRate: number;
+  gstRate: number;
+  entryLiquidity: Liquidity;
+  exitLiquidity: Liquidity;
+};
+
+export const nseOptionsSchedule: FnoSchedule = {
+  brokeragePerOrder: 20,
+  brokerageRate: null,
+  sttSellRate: 0.001,
+  exchangeTxnRate: 0.0003503,
+  sebiRate: 0.000001,
+  stampBuyRate: 0.00003,
+  gstRate: 0.18
+};
+
+export const bseOptionsSchedule: FnoSchedule = {
+  ...nseOptionsSchedule,
+  exchangeTxnRate: 0.000325
+};
+
+export const nseFuturesSchedule: FnoSchedule = {
+  brokeragePerOrder: 20,
+  brokerageRate: 0.0003,
+  sttSellRate: 0.0002,
+  exchangeTxnRate: 0.0000173,
+  sebiRate: 0.000001,
+  stampBuyRate: 0.00002,
+  gstRate: 0.18
+};
+
+export const bseFuturesSchedule: FnoSchedule = {
+  ...nseFuturesSchedule,
+  exchangeTxnRate: 0
+};
+
+export const defaultCryptoSchedule: CryptoSchedule = {
+  makerRate: 0.0002,
+  takerRate: 0.0005,
+  gstRate: 0.18,
+  entryLiquidity: 'taker',
+  exitLiquidity: 'taker'
+};
+
+export function fnoModel(name: string, schedule: FnoSchedule): ChargesModel {
+  return {
+    name,
+    roundTrip: (trip) => {
+      const legs = legsOf(trip);
+      let brokerage = 0;
+      let stt = 0;
+      let exchangeTxn = 0;
+      let sebi = 0;
+      let stampDuty = 0;
+      for (const leg of legs) {
+        const turnover = leg.price * trip.quantity;
+        brokerage += schedule.brokerageRate === null
+          ? schedule.brokeragePerOrder
+          : Math.min(schedule.brokeragePerOrder, turnover * schedule.brokerageRate);
+        exchangeTxn += turnover * schedule.exchangeTxnRate;
+        sebi += turnover * schedule.sebiRate;
+        if (leg.side === 'SELL') {
+          stt += turnover * schedule.sttSellRate;
+        } else {
+          stampDuty += turnover * schedule.stampBuyRate;
+        }
+      }
+      const gst = (brokerage + exchangeTxn + sebi) * schedule.gstRate;
+      return breakdown({ brokerage, stt, exchangeTxn, sebi, stampDuty, gst });
+    }
+  };
+}
+
+export function cryptoModel(schedule: CryptoSchedule = defaultCryptoSchedule): ChargesModel {
+  return {
+    name: 'crypto',
+    roundTrip: (trip) => {
+      const entryRate = schedule.entryLiquidity === 'maker' ? schedule.makerRate : schedule.takerRate;
+      const exitRate = schedule.exitLiquidity === 'maker' ? schedule.makerRate : schedule.takerRate;
+      const brokerage = trip.entryPrice * trip.quantity * entryRate + trip.exitPrice * trip.quantity * exitRate;
+      return breakdown({ brokerage, stt: 0, exchangeTxn: 0, sebi: 0, stampDuty: 0, gst: brokerage * schedule.gstRate });
+    }
+  };
+}
+
+export function flatModel(brokeragePerOrder: number): ChargesModel {
+  return {
+    name: 'flat',
+    roundTrip: () => breakdown({ brokerage: brokeragePerOrder * 2, stt: 0, exchangeTxn: 0, sebi: 0, stampDuty: 0, gst: 0 })
+  };
+}
+
+export function createChargesModel(exchangeBySymbol: Map<string, string>): ChargesModel {
+  const models = new Map<string, ChargesModel>([
+    ['NFO:options', fnoModel('NFO:options', nseOptionsSchedule)],
+    ['BFO:options', fnoModel('BFO:options', bseOptionsSchedule)],
+    ['NFO:futures', fnoModel('NFO:futures', nseFuturesSchedule)],
+    ['BFO:futures', fnoModel('BFO:futures', bseFuturesSchedule)],
+    ['CRYPTO', cryptoModel()]
+  ]);
+  const fallback = flatModel(nseOptionsSchedule.brokeragePerOrder);
+  return {
+    name: 'instruments',
+    roundTrip: (trip) => {
+      const exchange = exchangeFor(exchangeBySymbol, trip.symbol);
+      const key = exchange === 'CRYPTO' ? exchange : `${exchange}:${contractKind(trip.symbol)}`;
+      return (models.get(key) ?? fallback).roundTrip(trip);
+    }
+  };
+}
+
+function exchangeFor(exchangeBySymbol: Map<string, string>, symbol: string): string {
+  const direct = exchangeBySymbol.get(symbol);
+  if (direct) {
+    return direct.toUpperCase();
+  }
+  const base = symbolForKey(symbol);
+  const fromBase = exchangeBySymbol.get(base);
+  if (fromBase) {
+    return fromBase.toUpperCase();
+  }
+  return base.toUpperCase().startsWith('BTC') ? 'CRYPTO' : '';
+}
+
+function contractKind(symbol: string): 'options' | 'futures' {
+  return /FUT$/i.test(symbolForKey(symbol)) ? 'futures' : 'options';
+}
+
+function legsOf(trip: RoundTrip): { side: TradeSide; price: number }[] {
+  const exitSide: TradeSide = trip.side === 'BUY' ? 'SELL' : 'BUY';
+  return [
+    { side: trip.side, price: trip.entryPrice },
+    { side: exitSide, price: trip.exitPrice }
+  ];
+}
+
+function breakdown(parts: Omit<ChargeBreakdown, 'total'>): ChargeBreakdown {
+  const rounded = {
+    brokerage: round2(parts.brokerage),
+    stt: Math.round(parts.stt),
+    exchangeTxn: round2(parts.exchangeTxn),
+    sebi: round2(parts.sebi),
+    stampDuty: Math.round(parts.stampDuty),
+    gst: round2(parts.gst)
+  };
+  const total = rounded.brokerage + rounded.stt + rounded.exchangeTxn + rounded.sebi + rounded.stampDuty + rounded.gst;
+  return { ...rounded, total: round2(total) };
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
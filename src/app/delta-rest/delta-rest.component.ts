@@ -4,6 +4,7 @@ import { MatCardModule } from '@angular/material/card';
 import { MatChipsModule } from '@angular/material/chips';
 import { MatToolbarModule } from '@angular/material/toolbar';
 import { DeltaRestService } from './delta-rest.service';
+import { MarketSocketService } from '../socket/market-socket.service';
 
 @Component({
   selector: 'app-delta-rest',
@@ -14,6 +15,7 @@ import { DeltaRestService } from './delta-rest.service';
 })
 export class DeltaRestComponent {
   private readonly deltaRestService = inject(DeltaRestService);
+  readonly socketStatus$ = inject(MarketSocketService).status$;
   readonly latestDeltaRest$ = this.deltaRestService.deltaRest$;
 
   formatPrice(value: number | undefined): string {
@@ -1,6 +1,6 @@
-import { Injectable, OnDestroy } from '@angular/core';
-import { io, Socket } from 'socket.io-client';
+import { Injectable, inject } from '@angular/core';
 import { Observable, shareReplay } from 'rxjs';
+import { MarketSocketService } from '../socket/market-socket.service';
 
 export type DeltaRestPayload = {
   exchange?: string;
@@ -11,21 +11,9 @@ export type DeltaRestPayload = {
 };
 
 @Injectable({ providedIn: 'root' })
-export class DeltaRestService implements OnDestroy {
-  private readonly socket: Socket;
-  readonly deltaRest$: Observable<DeltaRestPayload>;
-
-  constructor() {
-    this.socket = io('http://localhost:3002');
-
-    this.deltaRest$ = new Observable<DeltaRestPayload>((subscriber) => {
-      const handler = (payload: DeltaRestPayload) => subscriber.next(payload);
-      this.socket.on('delta:rest', handler);
-      return () => this.socket.off('delta:rest', handler);
-    }).pipe(shareReplay({ bufferSize: 1, refCount: true }));
-  }
-
-  ngOnDestroy(): void {
-    this.socket.disconnect();
-  }
+export class DeltaRestService {
+  private readonly socketService = inject(MarketSocketService);
+  readonly deltaRest$: Observable<DeltaRestPayload> = this.socketService
+    .on<DeltaRestPayload>('delta:rest')
+    .pipe(shareReplay({ bufferSize: 1, refCount: true }));
 }
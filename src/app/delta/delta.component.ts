@@ -4,6 +4,7 @@ import { MatCardModule } from '@angular/material/card';
 import { MatChipsModule } from '@angular/material/chips';
 import { MatToolbarModule } from '@angular/material/toolbar';
 import { DeltaService } from './delta.service';
+import { MarketSocketService } from '../socket/market-socket.service';
 
 @Component({
   selector: 'app-delta',
@@ -14,6 +15,7 @@ import { DeltaService } from './delta.service';
 })
 export class DeltaComponent {
   private readonly deltaService = inject(DeltaService);
+  readonly socketStatus$ = inject(MarketSocketService).status$;
   readonly latestDelta$ = this.deltaService.delta$;
 
   formatPrice(value: number | undefined): string {
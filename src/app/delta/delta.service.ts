@@ -1,6 +1,6 @@
-import { Injectable, OnDestroy } from '@angular/core';
-import { io, Socket } from 'socket.io-client';
+import { Injectable, inject } from '@angular/core';
 import { Observable, shareReplay } from 'rxjs';
+import { MarketSocketService } from '../socket/market-socket.service';
 
 export type DeltaPayload = {
   exchange?: string;
@@ -11,32 +11,9 @@ export type DeltaPayload = {
 };
 
 @Injectable({ providedIn: 'root' })
-export class DeltaService implements OnDestroy {
-  private readonly socket: Socket;
-  readonly delta$: Observable<DeltaPayload>;
-
-  constructor() {
-    this.socket = io('http://localhost:3002');
-
-    this.socket.on('connect', () => {
-    });
-
-    this.socket.on('disconnect', (reason) => {
-    });
-
-    this.socket.on('connect_error', (error) => {
-    });
-
-    this.delta$ = new Observable<DeltaPayload>((subscriber) => {
-      const handler = (payload: DeltaPayload) => {
-        subscriber.next(payload);
-      };
-      this.socket.on('delta:ws', handler);
-      return () => this.socket.off('delta:ws', handler);
-    }).pipe(shareReplay({ bufferSize: 1, refCount: true }));
-  }
-
-  ngOnDestroy(): void {
-    this.socket.disconnect();
-  }
+export class DeltaService {
+  private readonly socketService = inject(MarketSocketService);
+  readonly delta$: Observable<DeltaPayload> = this.socketService
+    .on<DeltaPayload>('delta:ws')
+    .pipe(shareReplay({ bufferSize: 1, refCount: true }));
 }
@@ -0,0 +1,169 @@
+import { Injectable, inject } from '@angular/core';
+import { StorageService } from '../storage/storage.service';
+import { storageKeys } from '../storage/storage-keys';
+import { istDateKey } from '../tick/market-hours';
+import { HistoryDaySummary, archiveId, defaultRetentionDays, isExpired, summarizeSnapshot } from './history-archive';
+import type { HistoryBtcSnapshot, HistoryMarket } from './history-btc.service';
+
+type StoredDay = HistoryDaySummary & {
+  id: string;
+};
+
+type StoredSnapshot = {
+  id: string;
+  snapshot: HistoryBtcSnapshot;
+};
+
+const dbName = 'history-archive';
+const dbVersion = 1;
+const dayStore = 'days';
+const snapshotStore = 'snapshots';
+const marketIndex = 'market';
+
+@Injectable({ providedIn: 'root' })
+export class HistoryArchiveService {
+  private readonly storage = inject(StorageService);
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  retentionDays = this.loadRetentionDays();
+
+  setRetentionDays(days: number): Promise<void> {
+    this.retentionDays = Math.max(0, Math.floor(days));
+    this.storage.write(storageKeys.historyRetentionDays, this.retentionDays);
+    console.log(`[history] retention days=${this.retentionDays}`);
+    return this.prune();
+  }
+
+  async save(market: HistoryMarket, snapshot: HistoryBtcSnapshot): Promise<void> {
+    if (typeof indexedDB === 'undefined') {
+      return;
+    }
+    const id = archiveId(market, snapshot.dateKey);
+    try {
+      const db = await this.openDb();
+      await this.runTransaction(db, 'readwrite', (days, snapshots) => {
+        days.put({ id, ...summarizeSnapshot(market, snapshot) } satisfies StoredDay);
+        snapshots.put({ id, snapshot } satisfies StoredSnapshot);
+      });
+      console.log(`[history] archived market=${market} date=${snapshot.dateKey}`);
+    } catch (error) {
+      console.error('[history] archive failed', error);
+    }
+    await this.prune();
+  }
+
+  async listDays(market: HistoryMarket): Promise<HistoryDaySummary[]> {
+    if (typeof indexedDB === 'undefined') {
+      return [];
+    }
+    let days: StoredDay[] = [];
+    try {
+      const db = await this.openDb();
+      await this.runTransaction(db, 'readonly', (store) => {
+        const request = store.index(marketIndex).getAll(IDBKeyRange.only(market));
+        request.onsuccess = () => {
+          days = request.result as StoredDay[];
+        };
+      });
+    } catch (error) {
+      console.error('[history] list failed', error);
+    }
+    return days
+      .map(({ id: _id, ...summary }) => summary)
+      .sort((left, right) => right.dateKey.localeCompare(left.dateKey));
+  }
+
+  async getSnapshot(market: HistoryMarket, dateKey: string): Promise<HistoryBtcSnapshot | null> {
+    if (typeof indexedDB === 'undefined') {
+      return null;
+    }
+    let stored: StoredSnapshot | undefined;
+    try {
+      const db = await this.openDb();
+      await this.runTransaction(db, 'readonly', (_days, snapshots) => {
+        const request = snapshots.get(archiveId(market, dateKey));
+        request.onsuccess = () => {
+          stored = request.result as StoredSnapshot | undefined;
+        };
+      });
+    } catch (error) {
+      console.error('[history] read failed', error);
+    }
+    return stored?.snapshot ?? null;
+  }
+
+  async prune(now = new Date()): Promise<void> {
+    if (typeof indexedDB === 'undefined' || this.retentionDays <= 0) {
+      return;
+    }
+    const todayKey = istDateKey(now);
+    let removed = 0;
+    try {
+      const db = await this.openDb();
+      await this.runTransaction(db, 'readwrite', (days, snapshots) => {
+        const request = days.openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) {
+            return;
+          }
+          const day = cursor.value as StoredDay;
+          if (isExpired(day.dateKey, todayKey, this.retentionDays)) {
+            cursor.delete();
+            snapshots.delete(day.id);
+            removed += 1;
+          }
+          cursor.continue();
+        };
+      });
+    } catch (error) {
+      console.error('[history] prune failed', error);
+    }
+    if (removed > 0) {
+      console.log(`[history] pruned days=${removed} retention=${this.retentionDays}`);
+    }
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(dbName, dbVersion);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(dayStore)) {
+            const store = db.createObjectStore(dayStore, { keyPath: 'id' });
+            store.createIndex(marketIndex, marketIndex);
+          }
+          if (!db.objectStoreNames.contains(snapshotStore)) {
+            db.createObjectStore(snapshotStore, { keyPath: 'id' });
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private runTransaction(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    work: (days: IDBObjectStore, snapshots: IDBObjectStore) => void
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([dayStore, snapshotStore], mode);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+      work(transaction.objectStore(dayStore), transaction.objectStore(snapshotStore));
+    });
+  }
+
+  private loadRetentionDays(): number {
+    const stored = this.storage.read(storageKeys.historyRetentionDays);
+    return stored === null ? defaultRetentionDays : Math.floor(stored);
+  }
+}
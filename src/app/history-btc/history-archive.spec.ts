@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { adjacentDateKey, archiveId, isExpired, summarizeSnapshot } from './history-archive';
+import type { HistoryBtcSnapshot } from './history-btc.service';
+
+function trade(id: string, cumulativePnl: number) {
+  return {
+    id,
+    timeIst: '2026-01-05 10:00:00',
+    symbol: 'NIFTY',
+    entryPrice: 100,
+    currentPrice: 101,
+    unrealizedPnl: 0,
+    cumulativePnl,
+    quantity: 1
+  };
+}
+
+const snapshot: HistoryBtcSnapshot = {
+  dateKey: '2026-01-05',
+  capturedAt: '2026-01-05T10:15:00.000Z',
+  symbols: ['NIFTY', 'BANKNIFTY'],
+  signalsBySymbol: {
+    NIFTY: [
+      { timeIst: '10:00', intent: 'BUY', stoppx: 100, alternateSignal: false, buySellSell: false, sellBuyBuy: false },
+      { timeIst: '09:30', intent: 'SELL', stoppx: null, alternateSignal: false, buySellSell: false, sellBuyBuy: false }
+    ]
+  },
+  paperTradesBySymbol: {
+    NIFTY: [trade('t2', 0), trade('t1-exit', 25), trade('t1', 0)],
+    BANKNIFTY: [trade('t3-exit', -10), trade('t3', 0)]
+  },
+  liveTradesBySymbol: {
+    NIFTY: [trade('l1', 0)]
+  },
+  ticks: []
+};
+
+describe('history-archive', () => {
+  it('summarizes closed trades and realized PnL per day', () => {
+    expect(summarizeSnapshot('zerodha', snapshot)).toEqual({
+      market: 'zerodha',
+      dateKey: '2026-01-05',
+      capturedAt: '2026-01-05T10:15:00.000Z',
+      symbols: 2,
+      signals: 2,
+      paperTrades: 2,
+      liveTrades: 0,
+      paperPnl: 15,
+      livePnl: 0
+    });
+    expect(archiveId('btc', '2026-01-05')).toBe('btc:2026-01-05');
+  });
+
+  it('expires days older than the retention window', () => {
+    expect(isExpired('2026-01-01', '2026-01-31', 30)).toBe(true);
+    expect(isExpired('2026-01-02', '2026-01-31', 30)).toBe(false);
+    expect(isExpired('2020-01-01', '2026-01-31', 0)).toBe(false);
+  });
+
+  it('navigates to the nearest archived day in either direction', () => {
+    const days = ['2026-01-07', '2026-01-02', '2026-01-05'];
+    expect(adjacentDateKey(days, '2026-01-05', 'older')).toBe('2026-01-02');
+    expect(adjacentDateKey(days, '2026-01-05', 'newer')).toBe('2026-01-07');
+    expect(adjacentDateKey(days, '2026-01-06', 'older')).toBe('2026-01-05');
+    expect(adjacentDateKey(days, '2026-01-02', 'older')).toBeNull();
+    expect(adjacentDateKey(days, '2026-01-07', 'newer')).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import type { HistoryBtcSnapshot, HistoryMarket } from './history-btc.service';
+
+export type HistoryDaySummary = {
+  market: HistoryMarket;
+  dateKey: string;
+  capturedAt: string;
+  symbols: number;
+  signals: number;
+  paperTrades: number;
+  liveTrades: number;
+  paperPnl: number;
+  livePnl: number;
+};
+
+export const defaultRetentionDays = 90;
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+export function archiveId(market: HistoryMarket, dateKey: string): string {
+  return `${market}:${dateKey}`;
+}
+
+export function summarizeSnapshot(market: HistoryMarket, snapshot: HistoryBtcSnapshot): HistoryDaySummary {
+  return {
+    market,
+    dateKey: snapshot.dateKey,
+    capturedAt: snapshot.capturedAt,
+    symbols: snapshot.symbols.length,
+    signals: Object.values(snapshot.signalsBySymbol).reduce((total, rows) => total + rows.length, 0),
+    paperTrades: countClosedTrades(snapshot.paperTradesBySymbol),
+    liveTrades: countClosedTrades(snapshot.liveTradesBySymbol),
+    paperPnl: realizedPnl(snapshot.paperTradesBySymbol),
+    livePnl: realizedPnl(snapshot.liveTradesBySymbol)
+  };
+}
+
+// A retention of 0 keeps every day.
+export function isExpired(dateKey: string, todayKey: string, retentionDays: number): boolean {
+  if (retentionDays <= 0) {
+    return false;
+  }
+  const ageDays = (Date.parse(`${todayKey}T00:00:00Z`) - Date.parse(`${dateKey}T00:00:00Z`)) / dayMs;
+  return ageDays >= retentionDays;
+}
+
+export function adjacentDateKey(dateKeys: string[], current: string, direction: 'older' | 'newer'): string | null {
+  const sorted = [...dateKeys].sort();
+  if (direction === 'older') {
+    return sorted.filter((dateKey) => dateKey < current).pop() ?? null;
+  }
+  return sorted.find((dateKey) => dateKey > current) ?? null;
+}
+
+function countClosedTrades(tradesBySymbol: HistoryBtcSnapshot['paperTradesBySymbol']): number {
+  return Object.values(tradesBySymbol).reduce(
+    (total, rows) => total + rows.filter((row) => row.id.endsWith('-exit')).length,
+    0
+  );
+}
+
+// Rows are newest first, so the first exit carries the symbol's final cumulative PnL.
+function realizedPnl(tradesBySymbol: HistoryBtcSnapshot['paperTradesBySymbol']): number {
+  return Object.values(tradesBySymbol).reduce((total, rows) => {
+    const lastExit = rows.find((row) => row.id.endsWith('-exit'));
+    return total + (lastExit?.cumulativePnl ?? 0);
+  }, 0);
+}
@@ -1,8 +1,11 @@
 import { CommonModule } from '@angular/common';
-import { Component, OnInit, inject } from '@angular/core';
+import { Component, inject } from '@angular/core';
 import { FormsModule } from '@angular/forms';
 import { RouterLink } from '@angular/router';
-import { HistoryBtcService, HistoryBtcSnapshot } from './history-btc.service';
+import { BehaviorSubject, combineLatest, from, map, of, shareReplay, switchMap } from 'rxjs';
+import { HistoryDaySummary, adjacentDateKey } from './history-archive';
+import { HistoryArchiveService } from './history-archive.service';
+import { HistoryBtcService, HistoryBtcSnapshot, HistoryMarket } from './history-btc.service';
 
 type TradeRow = {
   id: string;
@@ -31,6 +34,16 @@ type BtcLiveRow = TradeRow & {
   openPrice: number | null;
 };
 
+type HistoryView = {
+  market: HistoryMarket;
+  days: HistoryDaySummary[];
+  dateKey: string | null;
+  summary: HistoryDaySummary | null;
+  snapshot: HistoryBtcSnapshot | null;
+  older: string | null;
+  newer: string | null;
+};
+
 @Component({
   selector: 'app-history-btc',
   standalone: true,
@@ -38,38 +51,84 @@ type BtcLiveRow = TradeRow & {
   templateUrl: './history-btc.component.html',
   styleUrl: './history-btc.component.css'
 })
-export class HistoryBtcComponent implements OnInit {
+export class HistoryBtcComponent {
   private readonly historyService = inject(HistoryBtcService);
+  private readonly archiveService = inject(HistoryArchiveService);
+  private readonly marketSubject = new BehaviorSubject<HistoryMarket>('btc');
+  private readonly dateSubject = new BehaviorSubject<string | null>(null);
+  private readonly refreshSubject = new BehaviorSubject<void>(undefined);
+
+  readonly markets: { value: HistoryMarket; label: string }[] = [
+    { value: 'btc', label: 'BTC' },
+    { value: 'zerodha', label: 'Zerodha 6' }
+  ];
+  private readonly days$ = combineLatest([this.marketSubject, this.refreshSubject]).pipe(
+    switchMap(([market]) => from(this.historyService.listArchivedDays(market)).pipe(map((days) => ({ market, days })))),
+    shareReplay({ bufferSize: 1, refCount: true })
+  );
+  readonly view$ = combineLatest([this.days$, this.dateSubject]).pipe(
+    switchMap(([{ market, days }, selectedDate]) => {
+      const dateKey = selectedDate ?? days[0]?.dateKey ?? null;
+      const summary = days.find((day) => day.dateKey === dateKey) ?? null;
+      const dateKeys = days.map((day) => day.dateKey);
+      const snapshot$ = summary && dateKey ? from(this.historyService.getArchivedSnapshot(market, dateKey)) : of(null);
+      return snapshot$.pipe(
+        map((snapshot): HistoryView => ({
+          market,
+          days,
+          dateKey,
+          summary,
+          snapshot,
+          older: dateKey ? adjacentDateKey(dateKeys, dateKey, 'older') : null,
+          newer: dateKey ? adjacentDateKey(dateKeys, dateKey, 'newer') : null
+        }))
+      );
+    })
+  );
 
-  snapshot: HistoryBtcSnapshot | null = null;
   selectedSymbol = '';
+  retentionDays = this.archiveService.retentionDays;
+  retentionSaved = false;
 
-  ngOnInit(): void {
-    this.snapshot = this.historyService.getLatestSnapshot();
-    if (this.snapshot?.symbols.length) {
-      this.selectedSymbol = this.snapshot.symbols[0];
-    }
+  get market(): HistoryMarket {
+    return this.marketSubject.value;
   }
 
-  get symbols(): string[] {
-    return this.snapshot?.symbols ?? [];
+  selectMarket(market: HistoryMarket): void {
+    this.selectedSymbol = '';
+    this.dateSubject.next(null);
+    this.marketSubject.next(market);
   }
 
-  get signals(): SignalRow[] {
-    if (!this.snapshot || !this.selectedSymbol) {
-      return [];
+  selectDate(dateKey: string | null): void {
+    this.dateSubject.next(dateKey || null);
+  }
+
+  async saveRetention(): Promise<void> {
+    const days = Number(this.retentionDays);
+    if (!Number.isFinite(days) || days < 0) {
+      return;
     }
-    return this.snapshot.signalsBySymbol[this.selectedSymbol] ?? [];
+    await this.archiveService.setRetentionDays(days);
+    this.retentionDays = this.archiveService.retentionDays;
+    this.retentionSaved = true;
+    this.refreshSubject.next();
+  }
+
+  symbolFor(snapshot: HistoryBtcSnapshot): string {
+    return snapshot.symbols.includes(this.selectedSymbol) ? this.selectedSymbol : snapshot.symbols[0] ?? '';
+  }
+
+  signals(snapshot: HistoryBtcSnapshot, symbol: string): SignalRow[] {
+    return snapshot.signalsBySymbol[symbol] ?? [];
   }
 
-  get paperRowsBtc(): BtcLiveRow[] {
-    const rows = this.getTradeRows(this.snapshot?.paperTradesBySymbol);
-    return this.buildBtcRows(rows);
+  paperRows(snapshot: HistoryBtcSnapshot, symbol: string): BtcLiveRow[] {
+    return this.buildBtcRows(snapshot.paperTradesBySymbol[symbol] ?? []);
   }
 
-  get liveRowsBtc(): BtcLiveRow[] {
-    const rows = this.getTradeRows(this.snapshot?.liveTradesBySymbol);
-    return this.buildBtcRows(rows);
+  liveRows(snapshot: HistoryBtcSnapshot, symbol: string): BtcLiveRow[] {
+    return this.buildBtcRows(snapshot.liveTradesBySymbol[symbol] ?? []);
   }
 
   formatStopPx(value: number | null): string {
@@ -95,13 +154,6 @@ export class HistoryBtcComponent implements OnInit {
     return adjusted.toFixed(2);
   }
 
-  private getTradeRows(source?: Record<string, TradeRow[]>): TradeRow[] {
-    if (!source || !this.selectedSymbol) {
-      return [];
-    }
-    return source[this.selectedSymbol] ?? [];
-  }
-
   private buildBtcRows(rows: TradeRow[]): BtcLiveRow[] {
     const byId = new Map(rows.map((row) => [row.id, row]));
     return rows.map((row) => {
@@ -1,9 +1,20 @@
 import { Injectable, inject } from '@angular/core';
+import { firstValueFrom } from 'rxjs';
+import { lotBySymbol } from '../instruments/instrument-universe';
+import { InstrumentUniverseService } from '../instruments/instrument-universe.service';
 import { RelayService } from '../relay/relay.service';
+import { positionQuantity } from '../sizing/position-sizing';
+import { strategies, strategyForKey, symbolForKey } from '../strategies/strategy-config';
+import { StorageService } from '../storage/storage.service';
+import { storageKeys } from '../storage/storage-keys';
+import { StorageEntry } from '../storage/storage-schema';
 import { TickFsmStateService } from '../tick/tick-fsm-state.service';
+import type { TradeRow } from '../webhook/trade-reducer';
 import { WebhookStateService } from '../webhook/webhook-state.service';
+import { HistoryDaySummary } from './history-archive';
+import { HistoryArchiveService } from './history-archive.service';
 
-type SignalRow = {
+export type SignalRow = {
   timeIst: string;
   intent: string | null;
   stoppx: number | null;
@@ -12,18 +23,7 @@ type SignalRow = {
   sellBuyBuy: boolean;
 };
 
-type TradeRow = {
-  id: string;
-  timeIst: string;
-  symbol: string;
-  entryPrice: number | null;
-  currentPrice: number | null;
-  unrealizedPnl: number | null;
-  cumulativePnl: number | null;
-  quantity: number | null;
-};
-
-type TickRow = {
+export type TickRow = {
   symbol: string;
   ltp: number | null;
   threshold: number | null;
@@ -44,42 +44,44 @@ export type HistoryBtcSnapshot = {
   ticks: TickRow[];
 };
 
-type InstrumentMeta = {
-  tradingview?: string;
-  zerodha?: string;
-  lot?: number;
-};
+export type HistoryMarket = 'btc' | 'zerodha';
 
 @Injectable({ providedIn: 'root' })
 export class HistoryBtcService {
   private readonly webhookStateService = inject(WebhookStateService);
   private readonly tickFsmStateService = inject(TickFsmStateService);
   private readonly relayService = inject(RelayService);
-  private readonly storageKey = 'history-btc-latest';
+  private readonly archiveService = inject(HistoryArchiveService);
+  private readonly storage = inject(StorageService);
+  private readonly universeService = inject(InstrumentUniverseService);
+  private readonly storageEntryByMarket: Record<HistoryMarket, StorageEntry<HistoryBtcSnapshot>> = {
+    btc: storageKeys.historyBtcLatest,
+    zerodha: storageKeys.historyZerodhaLatest
+  };
+
+  getLatestSnapshot(market: HistoryMarket = 'btc'): HistoryBtcSnapshot | null {
+    return this.storage.read(this.storageEntryByMarket[market]);
+  }
 
-  getLatestSnapshot(): HistoryBtcSnapshot | null {
-    if (typeof localStorage === 'undefined') {
-      return null;
-    }
-    try {
-      const raw = localStorage.getItem(this.storageKey);
-      if (!raw) {
-        return null;
-      }
-      return JSON.parse(raw) as HistoryBtcSnapshot;
-    } catch {
-      return null;
-    }
+  async captureSnapshot(
+    dateKey: string,
+    capturedAt = new Date(),
+    market: HistoryMarket = 'btc'
+  ): Promise<HistoryBtcSnapshot> {
+    const snapshot = await this.buildSnapshot(dateKey, capturedAt, market);
+    this.saveSnapshot(snapshot, market);
+    await this.archiveService.save(market, snapshot);
+    return snapshot;
   }
 
-  async captureSnapshot(dateKey: string, capturedAt = new Date()): Promise<HistoryBtcSnapshot> {
-    const signalsBySymbol = this.buildSignalSnapshot();
+  async buildSnapshot(dateKey: string, capturedAt: Date, market: HistoryMarket): Promise<HistoryBtcSnapshot> {
+    const signalsBySymbol = this.buildSignalSnapshot(market);
     const tradeState = this.webhookStateService.getTradeSnapshot();
-    const paperTradesBySymbol = this.filterTradesBySymbol(tradeState.tradesBySymbol);
-    const liveTradesBySymbol = this.filterTradesBySymbol(tradeState.liveTradesBySymbol);
+    const paperTradesBySymbol = this.filterTradesBySymbol(tradeState.tradesBySymbol, market);
+    const liveTradesBySymbol = this.filterTradesBySymbol(tradeState.liveTradesBySymbol, market);
     const symbols = this.collectSymbols(signalsBySymbol, paperTradesBySymbol, liveTradesBySymbol);
-    const ticks = await this.buildTickSnapshot();
-    const snapshot: HistoryBtcSnapshot = {
+    const ticks = await this.buildTickSnapshot(tradeState.cumulativeBySymbol, market);
+    return {
       dateKey,
       capturedAt: capturedAt.toISOString(),
       symbols,
@@ -88,28 +90,33 @@ export class HistoryBtcService {
       liveTradesBySymbol,
       ticks
     };
-    this.saveSnapshot(snapshot);
-    return snapshot;
   }
 
-  private saveSnapshot(snapshot: HistoryBtcSnapshot): void {
-    if (typeof localStorage === 'undefined') {
-      return;
-    }
-    try {
-      localStorage.setItem(this.storageKey, JSON.stringify(snapshot));
-    } catch {
-      // ignore storage failures
+  async listArchivedDays(market: HistoryMarket): Promise<HistoryDaySummary[]> {
+    const days = await this.archiveService.listDays(market);
+    const latest = this.getLatestSnapshot(market);
+    // Snapshots taken before the archive existed only live in localStorage.
+    if (latest && !days.some((day) => day.dateKey === latest.dateKey)) {
+      await this.archiveService.save(market, latest);
+      return this.archiveService.listDays(market);
     }
+    return days;
+  }
+
+  getArchivedSnapshot(market: HistoryMarket, dateKey: string): Promise<HistoryBtcSnapshot | null> {
+    return this.archiveService.getSnapshot(market, dateKey);
   }
 
-  private buildSignalSnapshot(): Record<string, SignalRow[]> {
+  private saveSnapshot(snapshot: HistoryBtcSnapshot, market: HistoryMarket): void {
+    this.storage.write(this.storageEntryByMarket[market], snapshot);
+  }
+
+  private buildSignalSnapshot(market: HistoryMarket): Record<string, SignalRow[]> {
     const result: Record<string, SignalRow[]> = {};
-    const modes = ['btc-long', 'btc-short', 'btc'] as const;
-    for (const mode of modes) {
-      const state = this.webhookStateService.getSignalSnapshot(mode);
+    for (const strategy of strategies) {
+      const state = this.webhookStateService.getSignalSnapshot(strategy.id);
       for (const [symbol, rows] of state.bySymbol.entries()) {
-        if (!this.isBtcSymbol(symbol)) {
+        if (!this.isMarketSymbol(symbol, market)) {
           continue;
         }
         const existing = result[symbol] ?? [];
@@ -119,10 +126,10 @@ export class HistoryBtcService {
     return result;
   }
 
-  private filterTradesBySymbol(source: Map<string, TradeRow[]>): Record<string, TradeRow[]> {
+  private filterTradesBySymbol(source: Map<string, TradeRow[]>, market: HistoryMarket): Record<string, TradeRow[]> {
     const result: Record<string, TradeRow[]> = {};
     for (const [symbol, rows] of source.entries()) {
-      if (!this.isBtcSymbol(symbol)) {
+      if (!this.isMarketSymbol(symbol, market)) {
         continue;
       }
       result[symbol] = rows;
@@ -142,19 +149,25 @@ export class HistoryBtcService {
     return Array.from(set.values());
   }
 
-  private async buildTickSnapshot(): Promise<TickRow[]> {
+  private async buildTickSnapshot(cumulativeBySymbol: Map<string, number>, market: HistoryMarket): Promise<TickRow[]> {
     const snapshot = this.tickFsmStateService.getSnapshot();
-    const lotBySymbol = await this.fetchLotBySymbol();
+    const lots = lotBySymbol(await firstValueFrom(this.universeService.instruments$));
     const rows: TickRow[] = [];
     for (const [symbol, data] of snapshot.entries()) {
-      if (!this.isBtcSymbol(symbol)) {
+      if (!this.isMarketSymbol(symbol, market)) {
         continue;
       }
       rows.push({
         symbol,
         ltp: data.ltp ?? null,
         threshold: data.threshold ?? null,
-        quantity: this.computeQuantity(symbol, data.ltp ?? null, lotBySymbol),
+        quantity: this.computeQuantity(
+          symbol,
+          data.ltp ?? null,
+          data.threshold ?? null,
+          cumulativeBySymbol.get(symbol) ?? 0,
+          lots
+        ),
         noSignal: data.state === 'NOSIGNAL',
         noPositionSignal: data.state === 'NOPOSITION_SIGNAL',
         buyPosition: data.state === 'BUYPOSITION' || data.state === 'SELLPOSITION',
@@ -164,35 +177,11 @@ export class HistoryBtcService {
     return rows;
   }
 
-  private async fetchLotBySymbol(): Promise<Map<string, number>> {
-    try {
-      const response = await fetch('/instruments.json', { cache: 'no-store' });
-      if (!response.ok) {
-        return new Map<string, number>();
-      }
-      const parsed = await response.json();
-      const meta = Array.isArray(parsed) ? (parsed as InstrumentMeta[]) : [];
-      const map = new Map<string, number>();
-      for (const instrument of meta) {
-        if (typeof instrument.lot !== 'number') {
-          continue;
-        }
-        if (typeof instrument.zerodha === 'string') {
-          map.set(instrument.zerodha, instrument.lot);
-        }
-        if (typeof instrument.tradingview === 'string') {
-          map.set(instrument.tradingview, instrument.lot);
-        }
-      }
-      return map;
-    } catch {
-      return new Map<string, number>();
-    }
-  }
-
   private computeQuantity(
     symbol: string,
     ltp: number | null,
+    threshold: number | null,
+    cumulativePnl: number,
     lotBySymbol: Map<string, number>
   ): number | null {
     if (ltp === null) {
@@ -202,20 +191,23 @@ export class HistoryBtcService {
     if (lot === null || lot <= 0) {
       return null;
     }
-    const capital = this.relayService.getCapitalValue();
-    const lots = Math.ceil(capital / (lot * ltp));
-    return Math.max(1, lots) * lot;
+    return positionQuantity(this.relayService.sizing, symbol, {
+      ltp,
+      lot,
+      threshold,
+      capital: this.relayService.getCapitalValue(),
+      cumulativePnl
+    });
   }
 
   private getLotForSymbol(symbol: string, lotBySymbol: Map<string, number>): number | null {
     if (lotBySymbol.has(symbol)) {
       return lotBySymbol.get(symbol) ?? null;
     }
-    const base = symbol.replace(/_(LONG|SHORT)$/, '');
-    return lotBySymbol.get(base) ?? null;
+    return lotBySymbol.get(symbolForKey(symbol)) ?? null;
   }
 
-  private isBtcSymbol(symbol: string): boolean {
-    return symbol.toUpperCase().startsWith('BTC');
+  private isMarketSymbol(symbol: string, market: HistoryMarket): boolean {
+    return strategyForKey(symbol).feed === (market === 'btc' ? 'binance' : 'zerodha');
   }
 }
@@ -0,0 +1,99 @@
+import { Injectable, OnDestroy, inject } from '@angular/core';
+import { BehaviorSubject, Observable, filter } from 'rxjs';
+import { StorageService } from '../storage/storage.service';
+import { storageKeys } from '../storage/storage-keys';
+import { InstrumentIssue, normalizeInstruments, validateInstruments } from './instrument-registry';
+import { InstrumentRow } from './instrument-universe';
+
+// The instruments every service trades: instruments.json until the /instruments page saves an edited list,
+// which then lives in storage and reaches other tabs through the storage event.
+@Injectable({ providedIn: 'root' })
+export class InstrumentRegistryService implements OnDestroy {
+  private readonly storage = inject(StorageService);
+  private readonly subject = new BehaviorSubject<InstrumentRow[] | null>(null);
+  private readonly editedSubject = new BehaviorSubject<boolean>(false);
+  private readonly storageHandler = (event: StorageEvent) => this.onStorage(event);
+  private readonly initialLoad = this.load();
+  readonly instruments$: Observable<InstrumentRow[]> = this.subject.pipe(
+    filter((instruments): instruments is InstrumentRow[] => instruments !== null)
+  );
+  readonly edited$: Observable<boolean> = this.editedSubject.asObservable();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', this.storageHandler);
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('storage', this.storageHandler);
+    }
+  }
+
+  get instruments(): InstrumentRow[] {
+    return this.subject.value ?? [];
+  }
+
+  whenLoaded(): Promise<void> {
+    return this.initialLoad;
+  }
+
+  // Returns the problems that kept the list from being saved; empty when it was saved.
+  save(instruments: InstrumentRow[]): InstrumentIssue[] {
+    const next = normalizeInstruments(instruments);
+    const issues = validateInstruments(next);
+    if (issues.length > 0) {
+      return issues;
+    }
+    this.storage.write(storageKeys.instrumentRegistry, next);
+    this.apply(next, true);
+    return [];
+  }
+
+  async resetToFile(): Promise<void> {
+    this.storage.remove(storageKeys.instrumentRegistry);
+    await this.load();
+  }
+
+  private async load(): Promise<void> {
+    const edited = this.storage.read(storageKeys.instrumentRegistry);
+    if (edited) {
+      this.apply(normalizeInstruments(edited), true);
+      return;
+    }
+    this.apply(await this.fetchInstruments(), false);
+  }
+
+  private apply(instruments: InstrumentRow[], edited: boolean): void {
+    this.editedSubject.next(edited);
+    this.subject.next(instruments);
+    console.log(`[instruments] loaded count=${instruments.length} source=${edited ? 'edited' : 'file'}`);
+  }
+
+  private onStorage(event: StorageEvent): void {
+    if (event.key !== storageKeys.instrumentRegistry.key) {
+      return;
+    }
+    const edited = this.storage.decodeRaw(storageKeys.instrumentRegistry, event.newValue);
+    if (edited) {
+      this.apply(normalizeInstruments(edited), true);
+    } else {
+      void this.load();
+    }
+  }
+
+  private async fetchInstruments(): Promise<InstrumentRow[]> {
+    try {
+      const response = await fetch('/instruments.json', { cache: 'no-store' });
+      if (!response.ok) {
+        console.log(`[instruments] load failed status=${response.status}`);
+        return [];
+      }
+      return normalizeInstruments(await response.json());
+    } catch {
+      console.log('[instruments] load failed');
+      return [];
+    }
+  }
+}
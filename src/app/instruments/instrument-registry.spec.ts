@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeInstruments, validateInstruments } from './instrument-registry';
+import { InstrumentRow } from './instrument-universe';
+
+const valid: InstrumentRow[] = [
+  { tradingview: 'NIFTY260106C25950', zerodha: 'NIFTY2610625950CE', exchange: 'NFO', token: 1, lot: 65 },
+  { tradingview: 'BTCUSDT', zerodha: 'BTCUSD', exchange: 'CRYPTO', token: 2, lot: 1 }
+];
+
+describe('instrument-registry', () => {
+  it('accepts a list with unique tokens and names', () => {
+    expect(validateInstruments(valid)).toEqual([]);
+  });
+
+  it('flags duplicate tokens and names against the row that used them first', () => {
+    const issues = validateInstruments([...valid, { zerodha: 'BTCUSD', exchange: 'CRYPTO', token: 1, lot: 1 }]);
+    expect(issues).toEqual([
+      { index: 2, field: 'symbol', message: 'BTCUSD is already used by row 2' },
+      { index: 2, field: 'token', message: 'token 1 is already used by row 1' }
+    ]);
+  });
+
+  it('requires a symbol, a known exchange, a positive token and a lot above zero', () => {
+    const issues = validateInstruments([{ exchange: 'NYSE', token: 1.5, lot: 0 }]);
+    expect(issues.map((issue) => issue.field)).toEqual(['symbol', 'exchange', 'token', 'lot']);
+  });
+
+  it('keeps known fields with the right types and trims text', () => {
+    expect(normalizeInstruments([
+      { zerodha: ' SENSEX26JAN84000CE ', tradingview: '', exchange: 'BFO', token: '7', lot: 20, extra: true },
+      'not a row'
+    ])).toEqual([{ zerodha: 'SENSEX26JAN84000CE', exchange: 'BFO', lot: 20 }]);
+    expect(normalizeInstruments(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+import { InstrumentRow, instrumentNames } from './instrument-universe';
+
+export const instrumentExchanges = ['NSE', 'BSE', 'NFO', 'BFO', 'MCX', 'CDS', 'CRYPTO'] as const;
+
+export type InstrumentExchange = (typeof instrumentExchanges)[number];
+
+export type InstrumentIssue = {
+  index: number;
+  field: 'symbol' | 'exchange' | 'token' | 'lot';
+  message: string;
+};
+
+export function validateInstruments(instruments: InstrumentRow[]): InstrumentIssue[] {
+  const issues: InstrumentIssue[] = [];
+  const firstIndexByToken = new Map<number, number>();
+  const firstIndexByName = new Map<string, number>();
+  instruments.forEach((instrument, index) => {
+    const names = instrumentNames(instrument).map((name) => name.trim()).filter(Boolean);
+    if (names.length === 0) {
+      issues.push({ index, field: 'symbol', message: 'needs a Zerodha or TradingView symbol' });
+    }
+    for (const name of names) {
+      const upper = name.toUpperCase();
+      const first = firstIndexByName.get(upper);
+      if (first !== undefined && first !== index) {
+        issues.push({ index, field: 'symbol', message: `${name} is already used by row ${first + 1}` });
+      } else {
+        firstIndexByName.set(upper, index);
+      }
+    }
+    if (!(instrumentExchanges as readonly string[]).includes(instrument.exchange ?? '')) {
+      issues.push({ index, field: 'exchange', message: `exchange must be one of ${instrumentExchanges.join(', ')}` });
+    }
+    const token = instrument.token;
+    if (typeof token !== 'number' || !Number.isInteger(token) || token <= 0) {
+      issues.push({ index, field: 'token', message: 'token must be a positive integer' });
+    } else if (firstIndexByToken.has(token)) {
+      issues.push({ index, field: 'token', message: `token ${token} is already used by row ${(firstIndexByToken.get(token) ?? 0) + 1}` });
+    } else {
+      firstIndexByToken.set(token, index);
+    }
+    if (typeof instrument.lot !== 'number' || !Number.isFinite(instrument.lot) || instrument.lot <= 0) {
+      issues.push({ index, field: 'lot', message: 'lot must be greater than 0' });
+    }
+  });
+  return issues;
+}
+
+// Keeps the known fields of each row with the right types; blank symbols are dropped rather than stored empty.
+export function normalizeInstruments(value: unknown): InstrumentRow[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null)
+    .map((item) => {
+      const row: InstrumentRow = {};
+      for (const field of ['tradingview', 'zerodha', 'exchange', 'direction'] as const) {
+        const text = item[field];
+        if (typeof text === 'string' && text.trim()) {
+          row[field] = text.trim();
+        }
+      }
+      for (const field of ['token', 'lot'] as const) {
+        const number = item[field];
+        if (typeof number === 'number' && Number.isFinite(number)) {
+          row[field] = number;
+        }
+      }
+      return row;
+    });
+}
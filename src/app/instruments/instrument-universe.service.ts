@@ -0,0 +1,70 @@
+import { Injectable, OnDestroy, inject } from '@angular/core';
+import { BehaviorSubject, Observable, combineLatest, map, shareReplay } from 'rxjs';
+import { StorageService } from '../storage/storage.service';
+import { storageKeys } from '../storage/storage-keys';
+import { InstrumentRegistryService } from './instrument-registry.service';
+import {
+  InstrumentRow,
+  InstrumentUniverse,
+  UniverseMember,
+  defaultUniverse,
+  normalizeUniverse,
+  resolveUniverse
+} from './instrument-universe';
+
+@Injectable({ providedIn: 'root' })
+export class InstrumentUniverseService implements OnDestroy {
+  private readonly storage = inject(StorageService);
+  private readonly registry = inject(InstrumentRegistryService);
+  private readonly storageHandler = (event: StorageEvent) => this.onStorage(event);
+  private readonly subject = new BehaviorSubject<InstrumentUniverse>(
+    normalizeUniverse(this.storage.read(storageKeys.instrumentUniverse))
+  );
+  readonly universe$: Observable<InstrumentUniverse> = this.subject.asObservable();
+  readonly instruments$: Observable<InstrumentRow[]> = this.registry.instruments$;
+  readonly members$: Observable<UniverseMember[]> = combineLatest([this.instruments$, this.universe$]).pipe(
+    map(([instruments, universe]) => resolveUniverse(instruments, universe)),
+    shareReplay({ bufferSize: 1, refCount: false })
+  );
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', this.storageHandler);
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('storage', this.storageHandler);
+    }
+  }
+
+  get universe(): InstrumentUniverse {
+    return this.subject.value;
+  }
+
+  save(universe: InstrumentUniverse): void {
+    const next = normalizeUniverse(universe);
+    this.storage.write(storageKeys.instrumentUniverse, next);
+    this.subject.next(next);
+    console.log(`[universe] saved groups=${next.groups.length} disabled=${next.disabled.length}`);
+  }
+
+  setEnabled(symbol: string, enabled: boolean): void {
+    const disabled = this.subject.value.disabled.filter((candidate) => candidate !== symbol);
+    this.save({ ...this.subject.value, disabled: enabled ? disabled : [...disabled, symbol] });
+  }
+
+  reset(): void {
+    this.save(defaultUniverse());
+  }
+
+  private onStorage(event: StorageEvent): void {
+    if (event.key !== storageKeys.instrumentUniverse.key) {
+      return;
+    }
+    const next = normalizeUniverse(this.storage.decodeRaw(storageKeys.instrumentUniverse, event.newValue));
+    console.log(`[universe] updated from another tab groups=${next.groups.length}`);
+    this.subject.next(next);
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import {
+  InstrumentRow,
+  defaultUniverse,
+  isEnabledFor,
+  isPaperOnly,
+  normalizeUniverse,
+  resolveUniverse,
+  symbolsForStrategy,
+  underlyingOf
+} from './instrument-universe';
+
+const instruments: InstrumentRow[] = [
+  { tradingview: 'NIFTY260106C25950', exchange: 'NFO', zerodha: 'NIFTY2610625950CE', token: 1, lot: 65 },
+  { tradingview: 'BANKNIFTY260127C59200', exchange: 'NFO', zerodha: 'BANKNIFTY26JAN59200CE', token: 2, lot: 30 },
+  { tradingview: 'RELIANCE', exchange: 'NSE', zerodha: 'RELIANCE', token: 3, lot: 1 },
+  { tradingview: 'BTCUSDT', exchange: 'CRYPTO', zerodha: 'BTCUSD', token: 4, lot: 1 }
+];
+
+describe('instrument-universe', () => {
+  it('derives the underlying from the leading letters of the ledger symbol', () => {
+    expect(underlyingOf(instruments[0])).toBe('NIFTY');
+    expect(underlyingOf(instruments[1])).toBe('BANKNIFTY');
+    expect(underlyingOf(instruments[3])).toBe('BTCUSD');
+  });
+
+  it('assigns instruments to the first matching group and leaves the rest out', () => {
+    const members = resolveUniverse(instruments, defaultUniverse());
+    expect(members.map((member) => member.group?.id ?? null)).toEqual(['index-options', 'index-options', null, 'crypto']);
+    expect([...symbolsForStrategy(members, 'zerodha6')]).toEqual([
+      'NIFTY2610625950CE',
+      'NIFTY260106C25950',
+      'BANKNIFTY26JAN59200CE',
+      'BANKNIFTY260127C59200'
+    ]);
+    expect(isEnabledFor(members, 'btc-short', 'BTCUSDT')).toBe(true);
+    expect(isEnabledFor(members, 'zerodha6', 'RELIANCE')).toBe(false);
+  });
+
+  it('honours disabled instruments, symbol membership and paper mode', () => {
+    const universe = defaultUniverse();
+    universe.groups.unshift({
+      id: 'equities',
+      label: 'Equities',
+      symbols: ['reliance'],
+      exchanges: [],
+      underlyings: [],
+      strategyIds: ['zerodha6'],
+      mode: 'paper'
+    });
+    universe.disabled = ['BANKNIFTY26JAN59200CE'];
+    const members = resolveUniverse(instruments, universe);
+    expect(isEnabledFor(members, 'zerodha6', 'BANKNIFTY260127C59200')).toBe(false);
+    expect(isEnabledFor(members, 'zerodha6', 'RELIANCE')).toBe(true);
+    expect(isPaperOnly(members, 'RELIANCE')).toBe(true);
+    expect(isPaperOnly(members, 'NIFTY2610625950CE')).toBe(false);
+  });
+
+  it('normalizes stored values and falls back to the defaults', () => {
+    expect(normalizeUniverse(null)).toEqual(defaultUniverse());
+    expect(normalizeUniverse({ groups: [{ id: ' fx ', exchanges: ['CDS', 3], mode: 'other' }, { label: 'no id' }] })).toEqual({
+      groups: [{ id: 'fx', label: 'fx', symbols: [], exchanges: ['CDS'], underlyings: [], strategyIds: [], mode: 'live' }],
+      disabled: []
+    });
+  });
+});
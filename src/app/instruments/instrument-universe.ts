@@ -0,0 +1,185 @@
+export type InstrumentRow = {
+  tradingview?: string;
+  zerodha?: string;
+  exchange?: string;
+  token?: number;
+  lot?: number;
+  direction?: string;
+};
+
+export type UniverseMode = 'paper' | 'live';
+
+export const universeModes: UniverseMode[] = ['paper', 'live'];
+
+export type UniverseGroup = {
+  id: string;
+  label: string;
+  // An instrument joins the first group matching any of its names, its exchange or its underlying.
+  symbols: string[];
+  exchanges: string[];
+  underlyings: string[];
+  strategyIds: string[];
+  // Paper groups record paper trades only and never open live ones.
+  mode: UniverseMode;
+};
+
+export type InstrumentUniverse = {
+  groups: UniverseGroup[];
+  // Ledger symbols switched off; they keep their group but take no signals.
+  disabled: string[];
+};
+
+export type UniverseMember = {
+  instrument: InstrumentRow;
+  symbol: string;
+  names: string[];
+  underlying: string;
+  group: UniverseGroup | null;
+  enabled: boolean;
+};
+
+export function defaultUniverse(): InstrumentUniverse {
+  return {
+    groups: [
+      {
+        id: 'crypto',
+        label: 'Crypto',
+        symbols: [],
+        exchanges: ['CRYPTO'],
+        underlyings: [],
+        strategyIds: ['btc', 'btc-long', 'btc-short'],
+        mode: 'live'
+      },
+      {
+        id: 'index-options',
+        label: 'Index options',
+        symbols: [],
+        exchanges: [],
+        underlyings: ['NIFTY', 'BANKNIFTY', 'SENSEX'],
+        strategyIds: ['zerodha6'],
+        mode: 'live'
+      }
+    ],
+    disabled: []
+  };
+}
+
+export function instrumentNames(instrument: InstrumentRow): string[] {
+  return [instrument.zerodha, instrument.tradingview].filter((name): name is string => typeof name === 'string');
+}
+
+// The leading letters of the ledger symbol: NIFTY2610625950CE trades NIFTY; BTCUSD is its own underlying.
+export function underlyingOf(instrument: InstrumentRow): string {
+  const symbol = (instrumentNames(instrument)[0] ?? '').toUpperCase();
+  return /^([A-Z&-]+?)\d/.exec(symbol)?.[1] ?? symbol;
+}
+
+export function groupFor(universe: InstrumentUniverse, instrument: InstrumentRow): UniverseGroup | null {
+  const names = instrumentNames(instrument).map((name) => name.toUpperCase());
+  const exchange = (instrument.exchange ?? '').toUpperCase();
+  const underlying = underlyingOf(instrument);
+  return universe.groups.find((group) =>
+    group.symbols.some((symbol) => names.includes(symbol.toUpperCase()))
+    || group.exchanges.some((candidate) => candidate.toUpperCase() === exchange)
+    || group.underlyings.some((candidate) => candidate.toUpperCase() === underlying)
+  ) ?? null;
+}
+
+export function resolveUniverse(instruments: InstrumentRow[], universe: InstrumentUniverse): UniverseMember[] {
+  const members: UniverseMember[] = [];
+  for (const instrument of instruments) {
+    const names = instrumentNames(instrument);
+    if (names.length === 0) {
+      continue;
+    }
+    const group = groupFor(universe, instrument);
+    members.push({
+      instrument,
+      symbol: names[0],
+      names,
+      underlying: underlyingOf(instrument),
+      group,
+      enabled: group !== null && !universe.disabled.includes(names[0])
+    });
+  }
+  return members;
+}
+
+export function memberFor(members: UniverseMember[], symbol: string): UniverseMember | null {
+  const upper = symbol.toUpperCase();
+  return members.find((member) => member.names.some((name) => name.toUpperCase() === upper)) ?? null;
+}
+
+export function isEnabledFor(members: UniverseMember[], strategyId: string, symbol: string): boolean {
+  const member = memberFor(members, symbol);
+  return member !== null && member.enabled && member.group?.strategyIds.includes(strategyId) === true;
+}
+
+// Every name of the enabled instruments a strategy trades.
+export function symbolsForStrategy(members: UniverseMember[], strategyId: string): Set<string> {
+  const symbols = new Set<string>();
+  for (const member of members) {
+    if (member.enabled && member.group?.strategyIds.includes(strategyId)) {
+      member.names.forEach((name) => symbols.add(name));
+    }
+  }
+  return symbols;
+}
+
+export function isPaperOnly(members: UniverseMember[], symbol: string): boolean {
+  return memberFor(members, symbol)?.group?.mode === 'paper';
+}
+
+export function lotBySymbol(instruments: InstrumentRow[]): Map<string, number> {
+  const lots = new Map<string, number>();
+  for (const instrument of instruments) {
+    if (typeof instrument.lot === 'number') {
+      instrumentNames(instrument).forEach((name) => lots.set(name, instrument.lot as number));
+    }
+  }
+  return lots;
+}
+
+export function normalizeUniverse(value: unknown): InstrumentUniverse {
+  if (typeof value !== 'object' || value === null) {
+    return defaultUniverse();
+  }
+  const candidate = value as { groups?: unknown; disabled?: unknown };
+  if (!Array.isArray(candidate.groups)) {
+    return defaultUniverse();
+  }
+  const groups = candidate.groups
+    .map(normalizeGroup)
+    .filter((group): group is UniverseGroup => group !== null);
+  return { groups, disabled: textList(candidate.disabled) };
+}
+
+function normalizeGroup(value: unknown): UniverseGroup | null {
+  if (typeof value !== 'object' || value === null) {
+    return null;
+  }
+  const candidate = value as Record<string, unknown>;
+  const id = typeof candidate['id'] === 'string' ? candidate['id'].trim() : '';
+  if (!id) {
+    return null;
+  }
+  return {
+    id,
+    label: typeof candidate['label'] === 'string' && candidate['label'].trim() ? candidate['label'].trim() : id,
+    symbols: textList(candidate['symbols']),
+    exchanges: textList(candidate['exchanges']),
+    underlyings: textList(candidate['underlyings']),
+    strategyIds: textList(candidate['strategyIds']),
+    mode: candidate['mode'] === 'paper' ? 'paper' : 'live'
+  };
+}
+
+function textList(value: unknown): string[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .filter((item): item is string => typeof item === 'string')
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,90 @@
+import { CommonModule } from '@angular/common';
+import { Component, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { BehaviorSubject, map, switchMap, take } from 'rxjs';
+import { InstrumentIssue, instrumentExchanges } from './instrument-registry';
+import { InstrumentRegistryService } from './instrument-registry.service';
+import { InstrumentRow } from './instrument-universe';
+
+type InstrumentDraft = {
+  tradingview: string;
+  zerodha: string;
+  exchange: string;
+  token: number | null;
+  lot: number | null;
+  direction?: string;
+};
+
+@Component({
+  selector: 'app-instruments',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './instruments.component.html',
+  styleUrl: './instruments.component.css'
+})
+export class InstrumentsComponent {
+  private readonly registry = inject(InstrumentRegistryService);
+  private readonly reload$ = new BehaviorSubject<void>(undefined);
+
+  readonly exchanges = instrumentExchanges;
+  readonly edited$ = this.registry.edited$;
+  // Drafts are read once per reload so edits in progress are not overwritten by other tabs.
+  readonly rows$ = this.reload$.pipe(
+    switchMap(() => this.registry.instruments$.pipe(take(1))),
+    map((instruments) => instruments.map((instrument) => this.toDraft(instrument)))
+  );
+  issues: InstrumentIssue[] = [];
+  saved = false;
+
+  addRow(rows: InstrumentDraft[]): void {
+    rows.push({ tradingview: '', zerodha: '', exchange: 'NFO', token: null, lot: null });
+    this.saved = false;
+  }
+
+  removeRow(rows: InstrumentDraft[], index: number): void {
+    rows.splice(index, 1);
+    this.issues = [];
+    this.saved = false;
+  }
+
+  save(rows: InstrumentDraft[]): void {
+    this.issues = this.registry.save(rows.map((row) => this.fromDraft(row)));
+    this.saved = this.issues.length === 0;
+  }
+
+  async resetToFile(): Promise<void> {
+    await this.registry.resetToFile();
+    this.issues = [];
+    this.saved = false;
+    this.reload$.next();
+  }
+
+  issuesFor(index: number, field: InstrumentIssue['field']): string[] {
+    return this.issues
+      .filter((issue) => issue.index === index && issue.field === field)
+      .map((issue) => issue.message);
+  }
+
+  private toDraft(instrument: InstrumentRow): InstrumentDraft {
+    return {
+      tradingview: instrument.tradingview ?? '',
+      zerodha: instrument.zerodha ?? '',
+      exchange: instrument.exchange ?? '',
+      token: instrument.token ?? null,
+      lot: instrument.lot ?? null,
+      direction: instrument.direction
+    };
+  }
+
+  private fromDraft(draft: InstrumentDraft): InstrumentRow {
+    return {
+      tradingview: draft.tradingview,
+      zerodha: draft.zerodha,
+      exchange: draft.exchange,
+      token: draft.token ?? undefined,
+      lot: draft.lot ?? undefined,
+      direction: draft.direction
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { CommonModule } from '@angular/common';
+import { Component, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { strategies } from '../strategies/strategy-config';
+import { InstrumentUniverse, UniverseGroup, UniverseMode, universeModes } from './instrument-universe';
+import { InstrumentUniverseService } from './instrument-universe.service';
+
+type GroupDraft = {
+  id: string;
+  label: string;
+  symbols: string;
+  exchanges: string;
+  underlyings: string;
+  strategyIds: string[];
+  mode: UniverseMode;
+};
+
+@Component({
+  selector: 'app-universe',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './universe.component.html',
+  styleUrl: './universe.component.css'
+})
+export class UniverseComponent {
+  private readonly universeService = inject(InstrumentUniverseService);
+
+  readonly members$ = this.universeService.members$;
+  readonly strategies = strategies;
+  readonly modes = universeModes;
+  groups: GroupDraft[] = this.toDrafts(this.universeService.universe);
+  saved = false;
+  error = '';
+
+  addGroup(): void {
+    this.groups = [
+      ...this.groups,
+      { id: `group-${this.groups.length + 1}`, label: 'New group', symbols: '', exchanges: '', underlyings: '', strategyIds: [], mode: 'paper' }
+    ];
+    this.saved = false;
+  }
+
+  removeGroup(index: number): void {
+    this.groups = this.groups.filter((_, candidate) => candidate !== index);
+    this.saved = false;
+  }
+
+  toggleStrategy(group: GroupDraft, strategyId: string, checked: boolean): void {
+    group.strategyIds = checked
+      ? [...group.strategyIds, strategyId]
+      : group.strategyIds.filter((candidate) => candidate !== strategyId);
+    this.saved = false;
+  }
+
+  save(): void {
+    const ids = this.groups.map((group) => group.id.trim());
+    if (ids.some((id) => !id) || new Set(ids).size !== ids.length) {
+      this.error = 'Every group needs a unique id.';
+      return;
+    }
+    this.error = '';
+    this.universeService.save({ ...this.universeService.universe, groups: this.groups.map((group) => this.fromDraft(group)) });
+    this.groups = this.toDrafts(this.universeService.universe);
+    this.saved = true;
+  }
+
+  resetDefaults(): void {
+    this.universeService.reset();
+    this.groups = this.toDrafts(this.universeService.universe);
+    this.error = '';
+    this.saved = true;
+  }
+
+  setEnabled(symbol: string, enabled: boolean): void {
+    this.universeService.setEnabled(symbol, enabled);
+  }
+
+  private toDrafts(universe: InstrumentUniverse): GroupDraft[] {
+    return universe.groups.map((group) => ({
+      id: group.id,
+      label: group.label,
+      symbols: group.symbols.join(', '),
+      exchanges: group.exchanges.join(', '),
+      underlyings: group.underlyings.join(', '),
+      strategyIds: [...group.strategyIds],
+      mode: group.mode
+    }));
+  }
+
+  private fromDraft(draft: GroupDraft): UniverseGroup {
+    const list = (value: string) => value.split(',').map((item) => item.trim()).filter(Boolean);
+    return {
+      id: draft.id.trim(),
+      label: draft.label.trim() || draft.id.trim(),
+      symbols: list(draft.symbols),
+      exchanges: list(draft.exchanges).map((item) => item.toUpperCase()),
+      underlyings: list(draft.underlyings).map((item) => item.toUpperCase()),
+      strategyIds: draft.strategyIds,
+      mode: draft.mode
+    };
+  }
+}
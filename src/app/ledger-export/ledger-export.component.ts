@@ -0,0 +1,85 @@
+import { CommonModule } from '@angular/common';
+import { Component, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { ExportFilter, LedgerDataset, ledgerDatasets } from './ledger-export';
+import { LedgerTransferService } from './ledger-transfer.service';
+
+@Component({
+  selector: 'app-ledger-export',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './ledger-export.component.html',
+  styleUrl: './ledger-export.component.css'
+})
+export class LedgerExportComponent {
+  private readonly transferService = inject(LedgerTransferService);
+
+  readonly datasetLabels: Record<LedgerDataset, string> = {
+    signals: 'Signals',
+    paper: 'Paper trades',
+    live: 'Live trades',
+    fsm: 'FSM snapshots'
+  };
+  readonly datasets = ledgerDatasets;
+  selected: Record<LedgerDataset, boolean> = { signals: true, paper: true, live: true, fsm: true };
+  from = '';
+  to = '';
+  symbol = '';
+  busy = false;
+  status = '';
+  error = '';
+
+  async exportAs(format: 'json' | 'csv'): Promise<void> {
+    const filter = this.buildFilter();
+    if (filter.datasets.length === 0) {
+      this.error = 'Choose at least one dataset.';
+      return;
+    }
+    await this.runTask(async () => {
+      const rows = format === 'json'
+        ? await this.transferService.exportJson(filter)
+        : await this.transferService.exportCsv(filter);
+      this.status = `Exported ${rows} row(s) as ${format.toUpperCase()}.`;
+    });
+  }
+
+  async onFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement | null;
+    const file = input?.files?.[0];
+    if (!file) {
+      return;
+    }
+    await this.runTask(async () => {
+      const result = await this.transferService.importFile(await file.text());
+      this.status = result.days > 0
+        ? `Imported ${result.rows} row(s) across ${result.days} day(s) from ${file.name}.`
+        : `No ledger rows found in ${file.name}.`;
+    });
+    if (input) {
+      input.value = '';
+    }
+  }
+
+  private async runTask(task: () => Promise<void>): Promise<void> {
+    this.busy = true;
+    this.status = '';
+    this.error = '';
+    try {
+      await task();
+    } catch (error) {
+      this.error = error instanceof Error ? error.message : 'Transfer failed';
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  private buildFilter(): ExportFilter {
+    return {
+      from: this.from || null,
+      to: this.to || null,
+      symbol: this.symbol.trim() || null,
+      datasets: this.datasets.filter((dataset) => this.selected[dataset])
+    };
+  }
+}
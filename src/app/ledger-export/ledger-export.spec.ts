@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import type { HistoryBtcSnapshot } from '../history-btc/history-btc.service';
+import {
+  MarketSnapshot,
+  filterSnapshots,
+  ledgerDatasets,
+  mergeSnapshot,
+  parseBundle,
+  parseCsv,
+  parseLedgerFile,
+  toBundle,
+  toCsv
+} from './ledger-export';
+
+const importedAt = new Date(Date.UTC(2026, 0, 10));
+
+function snapshot(dateKey: string): HistoryBtcSnapshot {
+  return {
+    dateKey,
+    capturedAt: `${dateKey}T10:15:00.000Z`,
+    symbols: ['NIFTY', 'BANKNIFTY'],
+    signalsBySymbol: {
+      NIFTY: [{ timeIst: '5/1/2026, 10:00:00', intent: 'BUY', stoppx: 100, alternateSignal: false, buySellSell: true, sellBuyBuy: false }]
+    },
+    paperTradesBySymbol: {
+      NIFTY: [{
+        id: 'NIFTY-1-exit',
+        timeIst: '5/1/2026, 10:30:00',
+        symbol: 'NIFTY',
+        entryPrice: 100,
+        currentPrice: 110,
+        unrealizedPnl: 10,
+        cumulativePnl: 10,
+        quantity: 1,
+        side: 'BUY',
+        charges: 2,
+        exitCause: 'take-profit'
+      }],
+      BANKNIFTY: [{
+        id: 'BANKNIFTY-1',
+        timeIst: '5/1/2026, 11:00:00',
+        symbol: 'BANKNIFTY',
+        entryPrice: 200,
+        currentPrice: 201,
+        unrealizedPnl: 1,
+        cumulativePnl: 0,
+        quantity: null
+      }]
+    },
+    liveTradesBySymbol: {},
+    ticks: [{
+      symbol: 'NIFTY',
+      ltp: 110,
+      threshold: null,
+      quantity: 1,
+      noSignal: false,
+      noPositionSignal: false,
+      buyPosition: true,
+      noPositionBlocked: false
+    }]
+  };
+}
+
+const all: MarketSnapshot[] = [
+  { market: 'zerodha', snapshot: snapshot('2026-01-05') },
+  { market: 'zerodha', snapshot: snapshot('2026-01-06') }
+];
+
+describe('ledger-export', () => {
+  it('filters by date range, symbol and dataset and drops empty days', () => {
+    const filtered = filterSnapshots(all, { from: '2026-01-06', to: null, symbol: 'NIFTY', datasets: ['paper'] });
+    expect(filtered).toHaveLength(1);
+    expect(filtered[0].snapshot.dateKey).toBe('2026-01-06');
+    expect(Object.keys(filtered[0].snapshot.paperTradesBySymbol)).toEqual(['NIFTY']);
+    expect(filtered[0].snapshot.signalsBySymbol).toEqual({});
+    expect(filtered[0].snapshot.ticks).toEqual([]);
+    expect(filterSnapshots(all, { from: null, to: null, symbol: 'SENSEX', datasets: ledgerDatasets })).toEqual([]);
+  });
+
+  it('round-trips every dataset through CSV, quoting commas in IST times', () => {
+    const source = [all[0]];
+    const csv = toCsv(source, 'paper');
+    expect(csv.split('\n')[1]).toBe(
+      'paper,zerodha,2026-01-05,NIFTY,NIFTY-1-exit,"5/1/2026, 10:30:00",100,110,10,10,1,BUY,2,take-profit'
+    );
+    const text = ledgerDatasets.map((dataset) => toCsv(source, dataset)).join('\n');
+    const [restored] = parseCsv(text, importedAt);
+    expect(restored.market).toBe('zerodha');
+    expect(restored.snapshot.signalsBySymbol).toEqual(source[0].snapshot.signalsBySymbol);
+    expect(restored.snapshot.paperTradesBySymbol).toEqual(source[0].snapshot.paperTradesBySymbol);
+    expect(restored.snapshot.ticks).toEqual(source[0].snapshot.ticks);
+    expect(restored.snapshot.capturedAt).toBe(importedAt.toISOString());
+  });
+
+  it('skips malformed CSV rows and rejects files without the key columns', () => {
+    const text = 'dataset,market,date,symbol,timeIst\nsignals,zerodha,bad-date,NIFTY,x\nsignals,nasdaq,2026-01-05,NIFTY,x\n';
+    expect(parseCsv(text, importedAt)).toEqual([]);
+    expect(() => parseCsv('symbol,ltp\nNIFTY,1', importedAt)).toThrow();
+  });
+
+  it('round-trips a JSON bundle and rejects foreign JSON', () => {
+    const bundle = JSON.stringify(toBundle(all, importedAt));
+    expect(parseLedgerFile(bundle, importedAt)).toEqual(all);
+    expect(() => parseBundle('{"snapshots":[]}')).toThrow('Not a ledger export file.');
+  });
+
+  it('merges imported symbols over an existing day', () => {
+    const existing = snapshot('2026-01-05');
+    const incoming: HistoryBtcSnapshot = {
+      ...snapshot('2026-01-05'),
+      symbols: ['NIFTY', 'SENSEX'],
+      paperTradesBySymbol: { NIFTY: [] },
+      ticks: []
+    };
+    const merged = mergeSnapshot(existing, incoming);
+    expect(merged.symbols).toEqual(['NIFTY', 'BANKNIFTY', 'SENSEX']);
+    expect(merged.paperTradesBySymbol['NIFTY']).toEqual([]);
+    expect(merged.paperTradesBySymbol['BANKNIFTY']).toHaveLength(1);
+    expect(merged.ticks).toHaveLength(1);
+    expect(mergeSnapshot(null, incoming)).toBe(incoming);
+  });
+});
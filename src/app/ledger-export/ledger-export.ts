@@ -0,0 +1,317 @@
+import type { HistoryBtcSnapshot, HistoryMarket, SignalRow, TickRow } from '../history-btc/history-btc.service';
+import type { TradeRow } from '../webhook/trade-reducer';
+
+export type LedgerDataset = 'signals' | 'paper' | 'live' | 'fsm';
+
+export type MarketSnapshot = {
+  market: HistoryMarket;
+  snapshot: HistoryBtcSnapshot;
+};
+
+export type ExportFilter = {
+  from: string | null;
+  to: string | null;
+  symbol: string | null;
+  datasets: LedgerDataset[];
+};
+
+export type LedgerBundle = {
+  format: typeof bundleFormat;
+  version: 1;
+  exportedAt: string;
+  snapshots: MarketSnapshot[];
+};
+
+type Column = {
+  key: string;
+  type: 'string' | 'number' | 'boolean';
+  optional?: boolean;
+};
+
+export const ledgerDatasets: LedgerDataset[] = ['signals', 'paper', 'live', 'fsm'];
+
+const bundleFormat = 'simplelogic-ledger';
+const markets: HistoryMarket[] = ['btc', 'zerodha'];
+const leadColumns = ['dataset', 'market', 'date', 'symbol'];
+const tradeColumns: Column[] = [
+  { key: 'id', type: 'string' },
+  { key: 'timeIst', type: 'string' },
+  { key: 'entryPrice', type: 'number' },
+  { key: 'currentPrice', type: 'number' },
+  { key: 'unrealizedPnl', type: 'number' },
+  { key: 'cumulativePnl', type: 'number' },
+  { key: 'quantity', type: 'number' },
+  { key: 'side', type: 'string', optional: true },
+  { key: 'charges', type: 'number', optional: true },
+  { key: 'exitCause', type: 'string', optional: true }
+];
+const columnsByDataset: Record<LedgerDataset, Column[]> = {
+  signals: [
+    { key: 'timeIst', type: 'string' },
+    { key: 'intent', type: 'string' },
+    { key: 'stoppx', type: 'number' },
+    { key: 'alternateSignal', type: 'boolean' },
+    { key: 'buySellSell', type: 'boolean' },
+    { key: 'sellBuyBuy', type: 'boolean' }
+  ],
+  paper: tradeColumns,
+  live: tradeColumns,
+  fsm: [
+    { key: 'ltp', type: 'number' },
+    { key: 'threshold', type: 'number' },
+    { key: 'quantity', type: 'number' },
+    { key: 'noSignal', type: 'boolean' },
+    { key: 'noPositionSignal', type: 'boolean' },
+    { key: 'buyPosition', type: 'boolean' },
+    { key: 'noPositionBlocked', type: 'boolean' }
+  ]
+};
+
+export function filterSnapshots(snapshots: MarketSnapshot[], filter: ExportFilter): MarketSnapshot[] {
+  return snapshots
+    .filter(({ snapshot }) =>
+      (!filter.from || snapshot.dateKey >= filter.from) && (!filter.to || snapshot.dateKey <= filter.to)
+    )
+    .map(({ market, snapshot }) => ({ market, snapshot: selectRows(snapshot, filter) }))
+    .filter(({ snapshot }) => ledgerDatasets.some((dataset) => rowsOf(snapshot, dataset).length > 0));
+}
+
+export function toBundle(snapshots: MarketSnapshot[], exportedAt: Date): LedgerBundle {
+  return { format: bundleFormat, version: 1, exportedAt: exportedAt.toISOString(), snapshots };
+}
+
+export function toCsv(snapshots: MarketSnapshot[], dataset: LedgerDataset): string {
+  const columns = columnsByDataset[dataset];
+  const lines = [[...leadColumns, ...columns.map((column) => column.key)].join(',')];
+  for (const { market, snapshot } of snapshots) {
+    for (const [symbol, row] of rowsOf(snapshot, dataset)) {
+      const values = columns.map((column) => (row as Record<string, unknown>)[column.key]);
+      lines.push([dataset, market, snapshot.dateKey, symbol, ...values].map(csvCell).join(','));
+    }
+  }
+  return lines.join('\n');
+}
+
+export function parseLedgerFile(text: string, importedAt: Date): MarketSnapshot[] {
+  return text.trim().startsWith('{') ? parseBundle(text) : parseCsv(text, importedAt);
+}
+
+export function parseBundle(text: string): MarketSnapshot[] {
+  const parsed = JSON.parse(text) as Partial<LedgerBundle> | null;
+  if (parsed?.format !== bundleFormat || !Array.isArray(parsed.snapshots)) {
+    throw new Error('Not a ledger export file.');
+  }
+  return parsed.snapshots.flatMap((entry): MarketSnapshot[] => {
+    const candidate = entry as Partial<MarketSnapshot> | null;
+    const snapshot = candidate?.snapshot;
+    if (!candidate || !markets.includes(candidate.market as HistoryMarket) || !isDateKey(snapshot?.dateKey)) {
+      return [];
+    }
+    return [{
+      market: candidate.market as HistoryMarket,
+      snapshot: {
+        dateKey: snapshot.dateKey,
+        capturedAt: typeof snapshot.capturedAt === 'string' ? snapshot.capturedAt : '',
+        symbols: Array.isArray(snapshot.symbols) ? snapshot.symbols.filter((symbol) => typeof symbol === 'string') : [],
+        signalsBySymbol: recordOrEmpty(snapshot.signalsBySymbol),
+        paperTradesBySymbol: recordOrEmpty(snapshot.paperTradesBySymbol),
+        liveTradesBySymbol: recordOrEmpty(snapshot.liveTradesBySymbol),
+        ticks: Array.isArray(snapshot.ticks) ? snapshot.ticks : []
+      }
+    }];
+  });
+}
+
+export function parseCsv(text: string, importedAt: Date): MarketSnapshot[] {
+  const [header, ...records] = parseCsvRecords(text);
+  if (!header) {
+    return [];
+  }
+  let indexByColumn = columnIndex(header);
+  if (!leadColumns.every((column) => indexByColumn.has(column))) {
+    throw new Error('CSV needs dataset, market, date and symbol columns.');
+  }
+  const byKey = new Map<string, MarketSnapshot>();
+  for (const record of records) {
+    // Several exported files pasted together repeat the header line.
+    if (record[0]?.trim() === 'dataset') {
+      indexByColumn = columnIndex(record);
+      continue;
+    }
+    const read = (column: string) => record[indexByColumn.get(column) ?? -1] ?? '';
+    const dataset = read('dataset') as LedgerDataset;
+    const market = read('market') as HistoryMarket;
+    const dateKey = read('date');
+    const symbol = read('symbol');
+    if (!ledgerDatasets.includes(dataset) || !markets.includes(market) || !isDateKey(dateKey) || !symbol) {
+      continue;
+    }
+    const key = `${market}:${dateKey}`;
+    const entry = byKey.get(key) ?? { market, snapshot: emptySnapshot(dateKey, importedAt) };
+    byKey.set(key, entry);
+    appendRow(entry.snapshot, dataset, symbol, readRow(columnsByDataset[dataset], read));
+  }
+  return Array.from(byKey.values());
+}
+
+// Imported symbols replace the same symbol's rows for that day; other symbols are kept.
+export function mergeSnapshot(existing: HistoryBtcSnapshot | null, incoming: HistoryBtcSnapshot): HistoryBtcSnapshot {
+  if (!existing) {
+    return incoming;
+  }
+  const incomingTicks = new Set(incoming.ticks.map((tick) => tick.symbol));
+  return {
+    dateKey: incoming.dateKey,
+    capturedAt: existing.capturedAt,
+    symbols: Array.from(new Set([...existing.symbols, ...incoming.symbols])),
+    signalsBySymbol: { ...existing.signalsBySymbol, ...incoming.signalsBySymbol },
+    paperTradesBySymbol: { ...existing.paperTradesBySymbol, ...incoming.paperTradesBySymbol },
+    liveTradesBySymbol: { ...existing.liveTradesBySymbol, ...incoming.liveTradesBySymbol },
+    ticks: [...existing.ticks.filter((tick) => !incomingTicks.has(tick.symbol)), ...incoming.ticks]
+  };
+}
+
+export function countRows(snapshots: MarketSnapshot[]): number {
+  return snapshots.reduce(
+    (total, { snapshot }) => total + ledgerDatasets.reduce((sum, dataset) => sum + rowsOf(snapshot, dataset).length, 0),
+    0
+  );
+}
+
+function selectRows(snapshot: HistoryBtcSnapshot, filter: ExportFilter): HistoryBtcSnapshot {
+  const keepSymbol = (symbol: string) => !filter.symbol || symbol === filter.symbol;
+  const pick = <T>(dataset: LedgerDataset, source: Record<string, T[]>): Record<string, T[]> =>
+    filter.datasets.includes(dataset)
+      ? Object.fromEntries(Object.entries(source).filter(([symbol]) => keepSymbol(symbol)))
+      : {};
+  return {
+    ...snapshot,
+    symbols: snapshot.symbols.filter(keepSymbol),
+    signalsBySymbol: pick('signals', snapshot.signalsBySymbol),
+    paperTradesBySymbol: pick('paper', snapshot.paperTradesBySymbol),
+    liveTradesBySymbol: pick('live', snapshot.liveTradesBySymbol),
+    ticks: filter.datasets.includes('fsm') ? snapshot.ticks.filter((tick) => keepSymbol(tick.symbol)) : []
+  };
+}
+
+function columnIndex(header: string[]): Map<string, number> {
+  return new Map(header.map((name, index) => [name.trim(), index]));
+}
+
+function rowsOf(snapshot: HistoryBtcSnapshot, dataset: LedgerDataset): [string, object][] {
+  if (dataset === 'fsm') {
+    return snapshot.ticks.map((tick) => [tick.symbol, tick]);
+  }
+  const source: Record<string, object[]> = dataset === 'signals'
+    ? snapshot.signalsBySymbol
+    : dataset === 'paper' ? snapshot.paperTradesBySymbol : snapshot.liveTradesBySymbol;
+  return Object.entries(source).flatMap(([symbol, rows]) => rows.map((row): [string, object] => [symbol, row]));
+}
+
+function appendRow(snapshot: HistoryBtcSnapshot, dataset: LedgerDataset, symbol: string, row: Record<string, unknown>): void {
+  if (dataset === 'fsm') {
+    snapshot.ticks.push({ ...row, symbol } as TickRow);
+    return;
+  }
+  if (!snapshot.symbols.includes(symbol)) {
+    snapshot.symbols.push(symbol);
+  }
+  if (dataset === 'signals') {
+    snapshot.signalsBySymbol[symbol] = [...(snapshot.signalsBySymbol[symbol] ?? []), row as SignalRow];
+    return;
+  }
+  const target = dataset === 'paper' ? snapshot.paperTradesBySymbol : snapshot.liveTradesBySymbol;
+  target[symbol] = [...(target[symbol] ?? []), { ...row, symbol } as TradeRow];
+}
+
+function readRow(columns: Column[], read: (column: string) => string): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const column of columns) {
+    const raw = read(column.key);
+    if (raw === '') {
+      if (!column.optional) {
+        row[column.key] = column.type === 'boolean' ? false : null;
+      }
+      continue;
+    }
+    if (column.type === 'number') {
+      const value = Number(raw);
+      row[column.key] = Number.isFinite(value) ? value : null;
+    } else {
+      row[column.key] = column.type === 'boolean' ? raw === 'true' : raw;
+    }
+  }
+  return row;
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function parseCsvRecords(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') {
+        index += 1;
+      }
+      record.push(field);
+      if (record.some((value) => value !== '')) {
+        records.push(record);
+      }
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  record.push(field);
+  if (record.some((value) => value !== '')) {
+    records.push(record);
+  }
+  return records;
+}
+
+function emptySnapshot(dateKey: string, importedAt: Date): HistoryBtcSnapshot {
+  return {
+    dateKey,
+    capturedAt: importedAt.toISOString(),
+    symbols: [],
+    signalsBySymbol: {},
+    paperTradesBySymbol: {},
+    liveTradesBySymbol: {},
+    ticks: []
+  };
+}
+
+function isDateKey(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+}
+
+function recordOrEmpty<T>(value: Record<string, T[]> | undefined): Record<string, T[]> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) ? value : {};
+}
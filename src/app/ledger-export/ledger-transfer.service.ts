@@ -0,0 +1,97 @@
+import { Injectable, inject } from '@angular/core';
+import { HistoryArchiveService } from '../history-btc/history-archive.service';
+import { HistoryBtcService, HistoryMarket } from '../history-btc/history-btc.service';
+import { istDateKey } from '../tick/market-hours';
+import {
+  ExportFilter,
+  LedgerDataset,
+  MarketSnapshot,
+  countRows,
+  filterSnapshots,
+  mergeSnapshot,
+  parseLedgerFile,
+  toBundle,
+  toCsv
+} from './ledger-export';
+
+export type ImportResult = {
+  days: number;
+  rows: number;
+};
+
+@Injectable({ providedIn: 'root' })
+export class LedgerTransferService {
+  private readonly historyService = inject(HistoryBtcService);
+  private readonly archiveService = inject(HistoryArchiveService);
+
+  async collect(filter: ExportFilter, now = new Date()): Promise<MarketSnapshot[]> {
+    const markets: HistoryMarket[] = ['btc', 'zerodha'];
+    const todayKey = istDateKey(now);
+    const snapshots: MarketSnapshot[] = [];
+    for (const market of markets) {
+      for (const day of await this.historyService.listArchivedDays(market)) {
+        if ((filter.from && day.dateKey < filter.from) || (filter.to && day.dateKey > filter.to)) {
+          continue;
+        }
+        const snapshot = await this.historyService.getArchivedSnapshot(market, day.dateKey);
+        if (snapshot) {
+          snapshots.push({ market, snapshot });
+        }
+      }
+      const current = await this.historyService.buildSnapshot(todayKey, now, market);
+      const archivedToday = snapshots.find((entry) => entry.market === market && entry.snapshot.dateKey === todayKey);
+      if (archivedToday) {
+        archivedToday.snapshot = mergeSnapshot(archivedToday.snapshot, current);
+      } else {
+        snapshots.push({ market, snapshot: current });
+      }
+    }
+    return filterSnapshots(snapshots, filter);
+  }
+
+  async exportJson(filter: ExportFilter): Promise<number> {
+    const now = new Date();
+    const snapshots = await this.collect(filter, now);
+    this.download(`ledger-${this.rangeLabel(filter)}.json`, JSON.stringify(toBundle(snapshots, now), null, 2), 'application/json');
+    const rows = countRows(snapshots);
+    console.log(`[ledger-export] json days=${snapshots.length} rows=${rows}`);
+    return rows;
+  }
+
+  async exportCsv(filter: ExportFilter): Promise<number> {
+    const snapshots = await this.collect(filter);
+    const datasets: LedgerDataset[] = filter.datasets;
+    for (const dataset of datasets) {
+      this.download(`ledger-${dataset}-${this.rangeLabel(filter)}.csv`, toCsv(snapshots, dataset), 'text/csv');
+    }
+    const rows = countRows(snapshots);
+    console.log(`[ledger-export] csv datasets=${datasets.join('|')} days=${snapshots.length} rows=${rows}`);
+    return rows;
+  }
+
+  async importFile(text: string): Promise<ImportResult> {
+    const snapshots = parseLedgerFile(text, new Date());
+    for (const { market, snapshot } of snapshots) {
+      const existing = await this.archiveService.getSnapshot(market, snapshot.dateKey);
+      await this.archiveService.save(market, mergeSnapshot(existing, snapshot));
+    }
+    const result = { days: snapshots.length, rows: countRows(snapshots) };
+    console.log(`[ledger-export] import days=${result.days} rows=${result.rows}`);
+    return result;
+  }
+
+  private rangeLabel(filter: ExportFilter): string {
+    const range = filter.from || filter.to ? `${filter.from ?? 'start'}_${filter.to ?? 'today'}` : 'all';
+    return filter.symbol ? `${filter.symbol}-${range}` : range;
+  }
+
+  private download(fileName: string, content: string, type: string): void {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+}
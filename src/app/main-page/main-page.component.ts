@@ -1,6 +1,11 @@
+import { AsyncPipe } from '@angular/common';
 import { Component, inject } from '@angular/core';
 import { RouterLink } from '@angular/router';
 import { HistoryBtcService } from '../history-btc/history-btc.service';
+import { OrderBookService } from '../orders/order-book.service';
+import { RiskManagerService } from '../risk/risk-manager.service';
+import { MarketSocketService } from '../socket/market-socket.service';
+import { StorageService } from '../storage/storage.service';
 import { TickFsmStateService } from '../tick/tick-fsm-state.service';
 import { TickService } from '../tick/tick.service';
 import { WebhookStateService } from '../webhook/webhook-state.service';
@@ -8,7 +13,7 @@ import { WebhookStateService } from '../webhook/webhook-state.service';
 @Component({
   selector: 'app-main-page',
   standalone: true,
-  imports: [RouterLink],
+  imports: [AsyncPipe, RouterLink],
   templateUrl: './main-page.component.html',
   styleUrl: './main-page.component.css'
 })
@@ -17,19 +22,13 @@ export class MainPageComponent {
   private readonly tickFsmStateService = inject(TickFsmStateService);
   private readonly webhookStateService = inject(WebhookStateService);
   private readonly historyBtcService = inject(HistoryBtcService);
+  private readonly storage = inject(StorageService);
+  readonly socketStatus$ = inject(MarketSocketService).status$;
+  readonly exhaustedOrders$ = inject(OrderBookService).exhaustedOrders$;
+  readonly killSwitch$ = inject(RiskManagerService).killSwitch$;
 
   resetAll(): void {
-    if (typeof localStorage !== 'undefined') {
-      try {
-        localStorage.removeItem('tick-cache-latest');
-        localStorage.removeItem('webhook-state-snapshot-v1');
-        localStorage.removeItem('history-btc-latest');
-        localStorage.removeItem('history-btc-last-reset');
-        localStorage.removeItem('tick-fsm-snapshot-v1');
-      } catch {
-        // ignore storage failures
-      }
-    }
+    this.storage.resetAll();
     this.tickService.clearCache();
     this.webhookStateService.resetBtcState();
     this.tickFsmStateService.clearAll();
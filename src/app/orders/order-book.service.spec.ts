@@ -0,0 +1,79 @@
+import { TestBed } from '@angular/core/testing';
+import { Subject } from 'rxjs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RelayService } from '../relay/relay.service';
+import { MarketSocketService } from '../socket/market-socket.service';
+import { StorageService } from '../storage/storage.service';
+import { TabLeaderService } from '../tabs/tab-leader.service';
+import type { OpenTrade } from '../webhook/trade-reducer';
+import { OrderRequest } from './order-book';
+import { OrderBookService, OrderRejection } from './order-book.service';
+
+function trade(id: string): OpenTrade {
+  return { id, symbol: 'NIFTY', side: 'BUY', entryPrice: 100, quantity: 65, lot: 65, timeIst: '--' };
+}
+
+const request: OrderRequest = {
+  symbol: 'NIFTY',
+  exchange: 'NFO',
+  transactionType: 'BUY',
+  quantity: 65,
+  product: 'MIS',
+  validity: 'DAY',
+  orderType: 'LIMIT',
+  sideOffset: 0.5,
+  dryRun: true
+};
+
+describe('OrderBookService', () => {
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    // The broker never answers, so every sent order stays outstanding and unfilled.
+    fetchMock = vi.fn().mockReturnValue(new Promise(() => undefined));
+    vi.stubGlobal('fetch', fetchMock);
+    TestBed.configureTestingModule({
+      providers: [
+        OrderBookService,
+        { provide: RelayService, useValue: { buildOrderUrl: () => null } },
+        { provide: MarketSocketService, useValue: { on: () => new Subject() } },
+        { provide: StorageService, useValue: { read: () => null, write: () => undefined } },
+        {
+          provide: TabLeaderService,
+          useValue: { isLeader: true, syncRequested$: new Subject(), messages: () => new Subject(), publish: () => undefined }
+        }
+      ]
+    });
+  });
+
+  afterEach(() => {
+    TestBed.inject(OrderBookService).ngOnDestroy();
+    vi.unstubAllGlobals();
+  });
+
+  it('reports a blocked OPEN as a rejection so the ledger drops the trade', async () => {
+    const service = TestBed.inject(OrderBookService);
+    const rejections: OrderRejection[] = [];
+    service.rejections$.subscribe((rejection) => rejections.push(rejection));
+
+    expect(service.submit(request, trade('live-NIFTY-1'), 'OPEN')).not.toBeNull();
+    expect(service.submit(request, trade('live-NIFTY-2'), 'OPEN')).toBeNull();
+    expect(rejections).toEqual([]);
+    await Promise.resolve();
+
+    expect(rejections).toEqual([
+      expect.objectContaining({ tradeId: 'live-NIFTY-2', action: 'OPEN', reason: expect.stringContaining('open outstanding') })
+    ]);
+  });
+
+  it('refuses a CLOSE while its OPEN has filled nothing', () => {
+    const service = TestBed.inject(OrderBookService);
+
+    service.submit(request, trade('live-NIFTY-1'), 'OPEN');
+    expect(service.submit({ ...request, transactionType: 'SELL' }, trade('live-NIFTY-1'), 'CLOSE')).toBeNull();
+    expect(service.submit({ ...request, transactionType: 'SELL' }, trade('live-NIFTY-3'), 'CLOSE')).toBeNull();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(service.getOrders().map((order) => order.action)).toEqual(['OPEN']);
+  });
+});
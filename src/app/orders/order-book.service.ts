@@ -0,0 +1,348 @@
+import { Injectable, OnDestroy, inject } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, Subscription, map } from 'rxjs';
+import { RelayService } from '../relay/relay.service';
+import { MarketSocketService } from '../socket/market-socket.service';
+import { StorageService } from '../storage/storage.service';
+import { storageKeys } from '../storage/storage-keys';
+import { TabLeaderService } from '../tabs/tab-leader.service';
+import type { LiveFill, LiveOrderAction, OpenTrade } from '../webhook/trade-reducer';
+import {
+  OrderRecord,
+  OrderRequest,
+  OrderUpdate,
+  applyOrderUpdate,
+  findSubmitConflict,
+  idempotencyKeyFor,
+  isRetryableHttpStatus,
+  parseOrderUpdate,
+  retryDelayMs,
+  retryMaxAgeMs
+} from './order-book';
+
+export type OrderFill = LiveFill & {
+  partial: boolean;
+};
+
+// An order that ended without a fill: rejected by the broker, out of retries, or cancelled before it was sent.
+export type OrderRejection = {
+  tradeId: string;
+  symbol: string;
+  action: LiveOrderAction;
+  reason: string;
+};
+
+@Injectable({ providedIn: 'root' })
+export class OrderBookService implements OnDestroy {
+  private readonly relayService = inject(RelayService);
+  private readonly socketService = inject(MarketSocketService);
+  private readonly tabLeader = inject(TabLeaderService);
+  private readonly storage = inject(StorageService);
+  private readonly maxOrders = 200;
+  private readonly subs = new Subscription();
+  private readonly ordersSubject = new BehaviorSubject<OrderRecord[]>(this.loadOrders());
+  private readonly fillsSubject = new Subject<OrderFill>();
+  private readonly rejectionsSubject = new Subject<OrderRejection>();
+  private readonly inFlight = new Set<string>();
+  private readonly retryTimer: ReturnType<typeof setInterval>;
+
+  readonly orders$: Observable<OrderRecord[]> = this.ordersSubject.asObservable();
+  readonly fills$: Observable<OrderFill> = this.fillsSubject.asObservable();
+  readonly rejections$: Observable<OrderRejection> = this.rejectionsSubject.asObservable();
+  readonly exhaustedOrders$: Observable<OrderRecord[]> = this.orders$.pipe(
+    map((orders) => orders.filter((order) => order.exhausted))
+  );
+
+  constructor() {
+    this.subs.add(
+      this.socketService.on<unknown>('order:update').subscribe((raw) => {
+        const update = parseOrderUpdate(raw);
+        if (!update) {
+          console.log('[order-book] ignored order:update without order id');
+          return;
+        }
+        this.applyUpdate(update);
+      })
+    );
+    this.subs.add(this.tabLeader.syncRequested$.subscribe(() => this.tabLeader.publish('orders', this.ordersSubject.value)));
+    this.subs.add(
+      this.tabLeader.messages<OrderRecord[]>('orders').subscribe((orders) => this.ordersSubject.next(orders))
+    );
+    this.retryTimer = setInterval(() => this.processRetries(), 1000);
+  }
+
+  ngOnDestroy(): void {
+    clearInterval(this.retryTimer);
+    this.subs.unsubscribe();
+    this.fillsSubject.complete();
+    this.rejectionsSubject.complete();
+  }
+
+  getOrders(): OrderRecord[] {
+    return this.ordersSubject.value;
+  }
+
+  submit(request: OrderRequest, trade: OpenTrade, action: LiveOrderAction): OrderRecord | null {
+    if (!this.tabLeader.isLeader) {
+      console.warn(`[order-book] blocked ${action} symbol=${trade.symbol} reason=follower tab`);
+      return null;
+    }
+    const idempotencyKey = idempotencyKeyFor(trade.id, action);
+    if (action === 'CLOSE' && this.cancelQueuedOpen(trade.id)) {
+      return null;
+    }
+    const conflict = findSubmitConflict(this.ordersSubject.value, idempotencyKey, trade.symbol, action);
+    if (conflict) {
+      console.warn(`[order-book] blocked ${action} symbol=${trade.symbol} reason=${conflict.reason}`);
+      if (action === 'OPEN' && conflict.kind !== 'duplicate') {
+        this.emitRejection({ tradeId: trade.id, symbol: trade.symbol, action, reason: conflict.reason });
+      }
+      return null;
+    }
+    const now = Date.now();
+    const order: OrderRecord = {
+      clientOrderId: this.createClientOrderId(now),
+      brokerOrderId: null,
+      tradeId: trade.id,
+      symbol: trade.symbol,
+      exchange: request.exchange,
+      action,
+      side: request.transactionType,
+      quantity: request.quantity,
+      filledQuantity: 0,
+      averagePrice: null,
+      status: 'PENDING',
+      message: null,
+      dryRun: request.dryRun,
+      idempotencyKey,
+      request,
+      attempts: 0,
+      nextAttemptAt: null,
+      exhausted: false,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.upsert(order);
+    void this.send(order);
+    return order;
+  }
+
+  clear(): void {
+    this.ordersSubject.next([]);
+    this.persist();
+  }
+
+  private cancelQueuedOpen(tradeId: string): boolean {
+    const openKey = idempotencyKeyFor(tradeId, 'OPEN');
+    const queued = this.ordersSubject.value.find((order) => order.idempotencyKey === openKey && order.status === 'PENDING');
+    if (!queued || this.inFlight.has(queued.clientOrderId)) {
+      return false;
+    }
+    console.log(`[order-book] cancel queued open ${queued.clientOrderId} symbol=${queued.symbol} reason=close before send`);
+    this.upsert({
+      ...queued,
+      status: 'CANCELLED',
+      nextAttemptAt: null,
+      message: 'cancelled: trade closed before the open was sent',
+      updatedAt: Date.now()
+    });
+    return true;
+  }
+
+  private processRetries(): void {
+    if (!this.tabLeader.isLeader) {
+      return;
+    }
+    const now = Date.now();
+    for (const order of this.ordersSubject.value) {
+      if (order.status !== 'PENDING' || order.nextAttemptAt === null || this.inFlight.has(order.clientOrderId)) {
+        continue;
+      }
+      if (now - order.createdAt > retryMaxAgeMs) {
+        this.exhaust(order, now);
+        continue;
+      }
+      if (order.nextAttemptAt <= now) {
+        void this.send(order);
+      }
+    }
+  }
+
+  private async send(order: OrderRecord): Promise<void> {
+    const request = order.request;
+    const orderUrl = this.relayService.buildOrderUrl() ?? '/api/zerodha/order';
+    const attempt = order.attempts + 1;
+    this.inFlight.add(order.clientOrderId);
+    this.upsert({ ...order, status: 'SENT', attempts: attempt, nextAttemptAt: null, updatedAt: Date.now() });
+    try {
+      const response = await fetch(orderUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': order.idempotencyKey },
+        body: JSON.stringify({
+          ...request,
+          clientOrderId: order.clientOrderId,
+          idempotencyKey: order.idempotencyKey,
+          tag: order.clientOrderId
+        })
+      });
+      const body = await this.readBody(response);
+      if (!response.ok) {
+        const message = this.readMessage(body) ?? `HTTP ${response.status}`;
+        console.log(
+          `[zerodha-order] ${order.action} failed symbol=${request.symbol} status=${response.status} client=${order.clientOrderId} attempt=${attempt}`
+        );
+        if (isRetryableHttpStatus(response.status)) {
+          this.scheduleRetry(order.clientOrderId, message);
+        } else {
+          this.applyUpdate({ clientOrderId: order.clientOrderId, status: 'REJECTED', message });
+        }
+        return;
+      }
+      console.log(
+        `[zerodha-order] ${order.action} sent symbol=${request.symbol} side=${request.transactionType} qty=${request.quantity} client=${order.clientOrderId} attempt=${attempt}`
+      );
+      const update = parseOrderUpdate(body) ?? {};
+      this.applyUpdate({
+        ...update,
+        clientOrderId: order.clientOrderId,
+        status: update.status ?? 'ACKED'
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'network error';
+      console.log(
+        `[zerodha-order] ${order.action} failed symbol=${request.symbol} error=${message} client=${order.clientOrderId} attempt=${attempt}`
+      );
+      this.scheduleRetry(order.clientOrderId, message);
+    } finally {
+      this.inFlight.delete(order.clientOrderId);
+    }
+  }
+
+  private scheduleRetry(clientOrderId: string, message: string): void {
+    const order = this.ordersSubject.value.find((item) => item.clientOrderId === clientOrderId);
+    if (!order || order.status !== 'SENT') {
+      return;
+    }
+    const now = Date.now();
+    const nextAttemptAt = now + retryDelayMs(order.attempts);
+    if (nextAttemptAt - order.createdAt > retryMaxAgeMs) {
+      this.exhaust({ ...order, message }, now);
+      return;
+    }
+    console.log(
+      `[order-book] retry ${order.clientOrderId} attempt=${order.attempts + 1} in=${nextAttemptAt - now}ms reason=${message}`
+    );
+    this.upsert({ ...order, status: 'PENDING', nextAttemptAt, message: `retrying: ${message}`, updatedAt: now });
+  }
+
+  private exhaust(order: OrderRecord, now: number): void {
+    console.error(
+      `[order-book] retries exhausted ${order.clientOrderId} symbol=${order.symbol} action=${order.action} attempts=${order.attempts}`
+    );
+    this.upsert({
+      ...order,
+      status: 'REJECTED',
+      exhausted: true,
+      nextAttemptAt: null,
+      message: `retries exhausted after ${order.attempts} attempts${order.message ? ` (${order.message})` : ''}`,
+      updatedAt: now
+    });
+  }
+
+  private applyUpdate(update: OrderUpdate): void {
+    const orders = this.ordersSubject.value;
+    const index = orders.findIndex((order) =>
+      (update.clientOrderId && order.clientOrderId === update.clientOrderId)
+      || (update.brokerOrderId && order.brokerOrderId === update.brokerOrderId)
+    );
+    if (index < 0) {
+      console.log(
+        `[order-book] unknown order client=${update.clientOrderId ?? '--'} broker=${update.brokerOrderId ?? '--'}`
+      );
+      return;
+    }
+    const current = orders[index];
+    const next = applyOrderUpdate(current, update, Date.now());
+    if (next === current) {
+      return;
+    }
+    if (next.status !== current.status) {
+      console.log(
+        `[order-book] ${next.clientOrderId} ${current.status} -> ${next.status} symbol=${next.symbol} filled=${next.filledQuantity}/${next.quantity} avg=${next.averagePrice ?? '--'}`
+      );
+    }
+    this.upsert(next);
+    const filledMore = next.filledQuantity > current.filledQuantity;
+    if ((next.status === 'FILLED' && current.status !== 'FILLED') || (next.status === 'PARTIAL' && filledMore)) {
+      this.fillsSubject.next({
+        tradeId: next.tradeId,
+        symbol: next.symbol,
+        action: next.action,
+        price: next.averagePrice,
+        quantity: next.filledQuantity,
+        partial: next.status === 'PARTIAL'
+      });
+    }
+  }
+
+  private upsert(order: OrderRecord): void {
+    const previous = this.ordersSubject.value.find((item) => item.clientOrderId === order.clientOrderId);
+    const unfilled = order.status === 'REJECTED' || order.status === 'CANCELLED';
+    const existing = this.ordersSubject.value.filter((item) => item.clientOrderId !== order.clientOrderId);
+    const next = [order, ...existing]
+      .sort((left, right) => right.createdAt - left.createdAt)
+      .slice(0, this.maxOrders);
+    this.ordersSubject.next(next);
+    this.persist();
+    if (unfilled && previous?.status !== order.status && order.filledQuantity === 0) {
+      this.emitRejection({
+        tradeId: order.tradeId,
+        symbol: order.symbol,
+        action: order.action,
+        reason: order.message ?? order.status
+      });
+    }
+  }
+
+  // Submits run inside the trade reducer, so rejections land once the reducer's state has been committed.
+  private emitRejection(rejection: OrderRejection): void {
+    queueMicrotask(() => this.rejectionsSubject.next(rejection));
+  }
+
+  private createClientOrderId(now: number): string {
+    const random = Math.random().toString(36).slice(2, 6);
+    return `co${now.toString(36)}${random}`;
+  }
+
+  private async readBody(response: Response): Promise<unknown> {
+    try {
+      return await response.json();
+    } catch {
+      return null;
+    }
+  }
+
+  private readMessage(body: unknown): string | null {
+    if (typeof body !== 'object' || body === null) {
+      return null;
+    }
+    const message = (body as { message?: unknown; error?: unknown }).message
+      ?? (body as { error?: unknown }).error;
+    return typeof message === 'string' ? message : null;
+  }
+
+  private persist(): void {
+    if (!this.tabLeader.isLeader) {
+      return;
+    }
+    this.tabLeader.publish('orders', this.ordersSubject.value);
+    this.storage.write(storageKeys.orderBook, this.ordersSubject.value);
+  }
+
+  private loadOrders(): OrderRecord[] {
+    return (this.storage.read(storageKeys.orderBook) ?? []).map((order) =>
+      order.status === 'SENT' && order.brokerOrderId === null
+        ? { ...order, status: 'PENDING', nextAttemptAt: Date.now() }
+        : order
+    );
+  }
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  OrderRecord,
+  applyOrderUpdate,
+  findSubmitConflict,
+  idempotencyKeyFor,
+  parseOrderUpdate,
+  retryDelayMs
+} from './order-book';
+
+const base: OrderRecord = {
+  clientOrderId: 'co1',
+  brokerOrderId: null,
+  tradeId: 'live-NIFTY-1',
+  symbol: 'NIFTY',
+  exchange: 'NFO',
+  action: 'OPEN',
+  side: 'BUY',
+  quantity: 130,
+  filledQuantity: 0,
+  averagePrice: null,
+  status: 'SENT',
+  message: null,
+  dryRun: false,
+  idempotencyKey: 'live-NIFTY-1:OPEN',
+  request: {
+    symbol: 'NIFTY',
+    exchange: 'NFO',
+    transactionType: 'BUY',
+    quantity: 130,
+    product: 'MIS',
+    validity: 'DAY',
+    orderType: 'LIMIT',
+    sideOffset: 0.5,
+    dryRun: false
+  },
+  attempts: 1,
+  nextAttemptAt: null,
+  exhausted: false,
+  createdAt: 0,
+  updatedAt: 0
+};
+
+describe('applyOrderUpdate', () => {
+  it('moves through partial to filled with the broker average price', () => {
+    const acked = applyOrderUpdate(base, { brokerOrderId: '2601', status: 'ACKED' }, 1);
+    const partial = applyOrderUpdate(acked, { status: 'ACKED', filledQuantity: 65, averagePrice: 101.5 }, 2);
+    const filled = applyOrderUpdate(partial, { status: 'FILLED', filledQuantity: 130, averagePrice: 101.75 }, 3);
+
+    expect(acked).toMatchObject({ status: 'ACKED', brokerOrderId: '2601' });
+    expect(partial).toMatchObject({ status: 'PARTIAL', filledQuantity: 65 });
+    expect(filled).toMatchObject({ status: 'FILLED', filledQuantity: 130, averagePrice: 101.75 });
+  });
+
+  it('never leaves a terminal state or moves backwards', () => {
+    const rejected = applyOrderUpdate(base, { status: 'REJECTED', message: 'margin' }, 1);
+    expect(applyOrderUpdate(rejected, { status: 'FILLED' }, 2)).toBe(rejected);
+
+    const acked = applyOrderUpdate(base, { status: 'ACKED' }, 1);
+    expect(applyOrderUpdate(acked, { status: 'SENT' }, 2).status).toBe('ACKED');
+  });
+});
+
+describe('parseOrderUpdate', () => {
+  it('reads Zerodha postback fields', () => {
+    expect(parseOrderUpdate({
+      order_id: 2601,
+      tag: 'co1',
+      status: 'COMPLETE',
+      filled_quantity: 130,
+      average_price: '101.75'
+    })).toMatchObject({
+      brokerOrderId: '2601',
+      clientOrderId: 'co1',
+      status: 'FILLED',
+      filledQuantity: 130,
+      averagePrice: 101.75
+    });
+    expect(parseOrderUpdate({ status: 'COMPLETE' })).toBeNull();
+  });
+});
+
+describe('order submission guards', () => {
+  it('derives the idempotency key from the trade id and action', () => {
+    expect(idempotencyKeyFor('live-NIFTY-1', 'CLOSE')).toBe('live-NIFTY-1:CLOSE');
+  });
+
+  it('rejects duplicate keys and a second outstanding OPEN for the same symbol', () => {
+    expect(findSubmitConflict([base], 'live-NIFTY-1:OPEN', 'NIFTY', 'OPEN')?.kind).toBe('duplicate');
+    expect(findSubmitConflict([base], 'live-NIFTY-2:OPEN', 'NIFTY', 'OPEN')?.kind).toBe('open-outstanding');
+
+    const filled = { ...base, status: 'FILLED' as const, filledQuantity: 130 };
+    expect(findSubmitConflict([filled], 'live-NIFTY-2:OPEN', 'NIFTY', 'OPEN')).toBeNull();
+  });
+
+  it('sends the CLOSE only once its OPEN has filled at least in part', () => {
+    const rejected = { ...base, status: 'REJECTED' as const };
+    const partial = { ...base, status: 'PARTIAL' as const, filledQuantity: 65 };
+    expect(findSubmitConflict([rejected], 'live-NIFTY-1:CLOSE', 'NIFTY', 'CLOSE')?.reason).toContain('never filled');
+    expect(findSubmitConflict([{ ...base, status: 'ACKED' }], 'live-NIFTY-1:CLOSE', 'NIFTY', 'CLOSE')?.kind).toBe('open-unfilled');
+    expect(findSubmitConflict([], 'live-NIFTY-1:CLOSE', 'NIFTY', 'CLOSE')?.reason).toBe('open never sent');
+    expect(findSubmitConflict([partial], 'live-NIFTY-1:CLOSE', 'NIFTY', 'CLOSE')).toBeNull();
+  });
+
+  it('backs off exponentially up to a cap', () => {
+    expect([1, 2, 3, 10].map(retryDelayMs)).toEqual([2000, 4000, 8000, 30000]);
+  });
+});
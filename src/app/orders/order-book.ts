@@ -0,0 +1,215 @@
+import type { LiveOrderAction } from '../webhook/trade-reducer';
+
+export type OrderStatus = 'PENDING' | 'SENT' | 'ACKED' | 'REJECTED' | 'PARTIAL' | 'FILLED' | 'CANCELLED';
+
+export type OrderRequest = {
+  symbol: string;
+  exchange: string;
+  transactionType: 'BUY' | 'SELL';
+  quantity: number;
+  product: string;
+  validity: string;
+  orderType: string;
+  sideOffset: number;
+  dryRun: boolean;
+};
+
+export type OrderRecord = {
+  clientOrderId: string;
+  brokerOrderId: string | null;
+  tradeId: string;
+  symbol: string;
+  exchange: string;
+  action: LiveOrderAction;
+  side: 'BUY' | 'SELL';
+  quantity: number;
+  filledQuantity: number;
+  averagePrice: number | null;
+  status: OrderStatus;
+  message: string | null;
+  dryRun: boolean;
+  idempotencyKey: string;
+  request: OrderRequest;
+  attempts: number;
+  nextAttemptAt: number | null;
+  exhausted: boolean;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export type OrderUpdate = {
+  clientOrderId?: string | null;
+  brokerOrderId?: string | null;
+  status?: OrderStatus | null;
+  filledQuantity?: number | null;
+  averagePrice?: number | null;
+  message?: string | null;
+};
+
+const statusRank: Record<OrderStatus, number> = {
+  PENDING: 0,
+  SENT: 1,
+  ACKED: 2,
+  PARTIAL: 3,
+  FILLED: 4,
+  REJECTED: 4,
+  CANCELLED: 4
+};
+
+export const retryBaseDelayMs = 2000;
+export const retryMaxDelayMs = 30000;
+export const retryMaxAgeMs = 2 * 60 * 1000;
+
+export function idempotencyKeyFor(tradeId: string, action: LiveOrderAction): string {
+  return `${tradeId}:${action}`;
+}
+
+export function retryDelayMs(attempts: number): number {
+  return Math.min(retryMaxDelayMs, retryBaseDelayMs * 2 ** Math.max(0, attempts - 1));
+}
+
+export function isRetryableHttpStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+export function isOutstanding(order: OrderRecord): boolean {
+  return !isTerminalStatus(order.status);
+}
+
+export type SubmitConflict = {
+  kind: 'duplicate' | 'open-outstanding' | 'open-unfilled';
+  reason: string;
+};
+
+// A CLOSE goes out only against an OPEN that has filled at least in part; anything else would leave a naked
+// position at the broker.
+export function findSubmitConflict(
+  orders: OrderRecord[],
+  idempotencyKey: string,
+  symbol: string,
+  action: LiveOrderAction
+): SubmitConflict | null {
+  const duplicate = orders.find((order) => order.idempotencyKey === idempotencyKey);
+  if (duplicate) {
+    return { kind: 'duplicate', reason: `duplicate ${idempotencyKey} status=${duplicate.status}` };
+  }
+  if (action === 'CLOSE') {
+    const open = orders.find((order) => order.idempotencyKey === idempotencyKey.replace(/:CLOSE$/, ':OPEN'));
+    if (!open) {
+      return { kind: 'open-unfilled', reason: 'open never sent' };
+    }
+    if (open.filledQuantity <= 0) {
+      return { kind: 'open-unfilled', reason: `open never filled ${open.clientOrderId} status=${open.status}` };
+    }
+  }
+  if (action === 'OPEN') {
+    const outstanding = orders.find((order) => order.symbol === symbol && order.action === 'OPEN' && isOutstanding(order));
+    if (outstanding) {
+      return { kind: 'open-outstanding', reason: `open outstanding ${outstanding.clientOrderId} status=${outstanding.status}` };
+    }
+  }
+  return null;
+}
+
+export function isTerminalStatus(status: OrderStatus): boolean {
+  return status === 'FILLED' || status === 'REJECTED' || status === 'CANCELLED';
+}
+
+export function applyOrderUpdate(order: OrderRecord, update: OrderUpdate, at: number): OrderRecord {
+  if (isTerminalStatus(order.status)) {
+    return order;
+  }
+  const filledQuantity = typeof update.filledQuantity === 'number' ? update.filledQuantity : order.filledQuantity;
+  let status = update.status ?? order.status;
+  if (status === 'ACKED' && filledQuantity > 0) {
+    status = filledQuantity >= order.quantity ? 'FILLED' : 'PARTIAL';
+  }
+  if (statusRank[status] < statusRank[order.status]) {
+    status = order.status;
+  }
+  return {
+    ...order,
+    brokerOrderId: update.brokerOrderId ?? order.brokerOrderId,
+    status,
+    filledQuantity: status === 'FILLED' && filledQuantity === 0 ? order.quantity : filledQuantity,
+    averagePrice: typeof update.averagePrice === 'number' && update.averagePrice > 0
+      ? update.averagePrice
+      : order.averagePrice,
+    message: update.message ?? order.message,
+    updatedAt: at
+  };
+}
+
+export function normalizeOrderStatus(value: unknown): OrderStatus | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const status = value.trim().toUpperCase();
+  switch (status) {
+    case 'PENDING':
+    case 'SENT':
+    case 'ACKED':
+    case 'REJECTED':
+    case 'PARTIAL':
+    case 'FILLED':
+    case 'CANCELLED':
+      return status;
+    case 'COMPLETE':
+      return 'FILLED';
+    case 'PUT ORDER REQ RECEIVED':
+    case 'VALIDATION PENDING':
+    case 'OPEN PENDING':
+    case 'MODIFY VALIDATION PENDING':
+      return 'SENT';
+    case 'OPEN':
+    case 'TRIGGER PENDING':
+    case 'AMO REQ RECEIVED':
+    case 'MODIFIED':
+    case 'SUCCESS':
+      return 'ACKED';
+    default:
+      return null;
+  }
+}
+
+export function parseOrderUpdate(raw: unknown): OrderUpdate | null {
+  if (typeof raw !== 'object' || raw === null) {
+    return null;
+  }
+  const source = raw as Record<string, unknown>;
+  const data = typeof source['data'] === 'object' && source['data'] !== null
+    ? (source['data'] as Record<string, unknown>)
+    : source;
+  const clientOrderId = readString(data, 'clientOrderId') ?? readString(data, 'tag');
+  const brokerOrderId = readString(data, 'order_id') ?? readString(data, 'orderId');
+  if (!clientOrderId && !brokerOrderId) {
+    return null;
+  }
+  return {
+    clientOrderId,
+    brokerOrderId,
+    status: normalizeOrderStatus(data['status']),
+    filledQuantity: readNumber(data, 'filled_quantity') ?? readNumber(data, 'filledQuantity'),
+    averagePrice: readNumber(data, 'average_price') ?? readNumber(data, 'averagePrice'),
+    message: readString(data, 'status_message') ?? readString(data, 'message')
+  };
+}
+
+function readString(source: Record<string, unknown>, key: string): string | null {
+  const value = source[key];
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return typeof value === 'string' && value.trim() ? value : null;
+}
+
+function readNumber(source: Record<string, unknown>, key: string): number | null {
+  const value = source[key];
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim() && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  return null;
+}
@@ -0,0 +1,38 @@
+import { CommonModule } from '@angular/common';
+import { Component, inject } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { OrderRecord } from './order-book';
+import { OrderBookService } from './order-book.service';
+
+@Component({
+  selector: 'app-orders',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: './orders.component.html',
+  styleUrl: './orders.component.css'
+})
+export class OrdersComponent {
+  private readonly orderBookService = inject(OrderBookService);
+
+  readonly orders$ = this.orderBookService.orders$;
+  readonly exhaustedOrders$ = this.orderBookService.exhaustedOrders$;
+
+  clear(): void {
+    this.orderBookService.clear();
+  }
+
+  formatTime(value: number): string {
+    return new Date(value).toLocaleTimeString('en-IN', {
+      timeZone: 'Asia/Kolkata',
+      hour12: false
+    });
+  }
+
+  formatNumber(value: number | null): string {
+    return value === null ? '--' : value.toFixed(2);
+  }
+
+  isFailed(order: OrderRecord): boolean {
+    return order.status === 'REJECTED' || order.status === 'CANCELLED';
+  }
+}
@@ -0,0 +1,59 @@
+import { CommonModule } from '@angular/common';
+import { Component, OnInit, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { RecorderSession, SessionRecorderService } from './session-recorder.service';
+
+@Component({
+  selector: 'app-recorder',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './recorder.component.html',
+  styleUrl: './recorder.component.css'
+})
+export class RecorderComponent implements OnInit {
+  private readonly recorderService = inject(SessionRecorderService);
+
+  sessions: RecorderSession[] = [];
+  loading = false;
+
+  get enabled(): boolean {
+    return this.recorderService.enabled;
+  }
+
+  set enabled(value: boolean) {
+    this.recorderService.setEnabled(value);
+  }
+
+  ngOnInit(): void {
+    void this.refresh();
+  }
+
+  async refresh(): Promise<void> {
+    this.loading = true;
+    try {
+      this.sessions = await this.recorderService.listSessions();
+    } finally {
+      this.loading = false;
+    }
+  }
+
+  async download(session: RecorderSession): Promise<void> {
+    await this.recorderService.downloadSession(session.sessionKey);
+  }
+
+  async remove(session: RecorderSession): Promise<void> {
+    await this.recorderService.deleteSession(session.sessionKey);
+    await this.refresh();
+  }
+
+  formatTime(value: number | null): string {
+    if (value === null) {
+      return '--';
+    }
+    return new Date(value).toLocaleTimeString('en-IN', {
+      timeZone: 'Asia/Kolkata',
+      hour12: false
+    });
+  }
+}
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { parseReplayJournal } from '../backtest/backtest-engine';
+import { sessionKeyFor, toNdjson } from './session-recorder.service';
+
+describe('session recorder helpers', () => {
+  it('keys sessions by IST trading day', () => {
+    expect(sessionKeyFor(Date.UTC(2026, 0, 5, 18, 29, 59))).toBe('2026-01-05');
+    expect(sessionKeyFor(Date.UTC(2026, 0, 5, 18, 30, 0))).toBe('2026-01-06');
+  });
+
+  it('writes NDJSON that the backtest journal parser reads back', () => {
+    const events = [
+      { receivedAt: 1, channel: 'webhook', payload: { symbol: 'BTCUSDT', intent: 'BUY' } },
+      { receivedAt: 2, channel: 'ticks', payload: [{ instrument_token: 1, last_price: 10 }] }
+    ];
+    const text = toNdjson(events);
+
+    expect(text.split('\n')).toHaveLength(2);
+    expect(parseReplayJournal(text)).toEqual(events);
+  });
+});
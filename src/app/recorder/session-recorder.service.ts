@@ -0,0 +1,213 @@
+import { Injectable, inject } from '@angular/core';
+import type { ReplayEvent } from '../backtest/backtest-engine';
+import { StorageService } from '../storage/storage.service';
+import { storageKeys } from '../storage/storage-keys';
+import { istDateKey } from '../tick/market-hours';
+
+export type RecordedChannel = 'webhook' | 'ticks' | 'binance:ws' | 'delta:ws' | 'delta:rest' | 'order:update';
+
+export type RecorderSession = {
+  sessionKey: string;
+  events: number;
+  firstAt: number | null;
+  lastAt: number | null;
+};
+
+type StoredEvent = ReplayEvent & {
+  sessionKey: string;
+};
+
+const dbName = 'session-journal';
+const dbVersion = 1;
+const eventStore = 'events';
+const sessionIndex = 'sessionKey';
+const flushDelayMs = 1000;
+const flushBatchSize = 200;
+
+export function sessionKeyFor(receivedAt: number): string {
+  return istDateKey(new Date(receivedAt));
+}
+
+export function toNdjson(events: ReplayEvent[]): string {
+  return events
+    .map((event) => JSON.stringify({ receivedAt: event.receivedAt, channel: event.channel, payload: event.payload }))
+    .join('\n');
+}
+
+@Injectable({ providedIn: 'root' })
+export class SessionRecorderService {
+  private readonly storage = inject(StorageService);
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private pending: StoredEvent[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  enabled = this.loadEnabled();
+
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+    this.storage.write(storageKeys.recorderEnabled, enabled);
+    if (!enabled) {
+      void this.flush();
+    }
+    console.log(`[recorder] enabled=${enabled}`);
+  }
+
+  record(channel: RecordedChannel, payload: unknown, receivedAt = Date.now()): void {
+    if (!this.enabled || typeof indexedDB === 'undefined') {
+      return;
+    }
+    this.pending.push({ sessionKey: sessionKeyFor(receivedAt), receivedAt, channel, payload });
+    if (this.pending.length >= flushBatchSize) {
+      void this.flush();
+      return;
+    }
+    if (this.flushTimer === null) {
+      this.flushTimer = setTimeout(() => void this.flush(), flushDelayMs);
+    }
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushTimer !== null) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.pending.length === 0) {
+      return;
+    }
+    const batch = this.pending;
+    this.pending = [];
+    try {
+      const db = await this.openDb();
+      await this.runTransaction(db, 'readwrite', (store) => {
+        for (const event of batch) {
+          store.add(this.toStorable(event));
+        }
+      });
+    } catch (error) {
+      console.error('[recorder] write failed', error);
+    }
+  }
+
+  async listSessions(): Promise<RecorderSession[]> {
+    await this.flush();
+    const sessions = new Map<string, RecorderSession>();
+    try {
+      const db = await this.openDb();
+      await this.runTransaction(db, 'readonly', (store) => {
+        const request = store.openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) {
+            return;
+          }
+          const event = cursor.value as StoredEvent;
+          const session = sessions.get(event.sessionKey) ?? {
+            sessionKey: event.sessionKey,
+            events: 0,
+            firstAt: null,
+            lastAt: null
+          };
+          session.events += 1;
+          session.firstAt = session.firstAt === null ? event.receivedAt : Math.min(session.firstAt, event.receivedAt);
+          session.lastAt = session.lastAt === null ? event.receivedAt : Math.max(session.lastAt, event.receivedAt);
+          sessions.set(event.sessionKey, session);
+          cursor.continue();
+        };
+      });
+    } catch (error) {
+      console.error('[recorder] list failed', error);
+    }
+    return Array.from(sessions.values()).sort((left, right) => right.sessionKey.localeCompare(left.sessionKey));
+  }
+
+  async readSession(sessionKey: string): Promise<ReplayEvent[]> {
+    await this.flush();
+    const db = await this.openDb();
+    let events: StoredEvent[] = [];
+    await this.runTransaction(db, 'readonly', (store) => {
+      const request = store.index(sessionIndex).getAll(IDBKeyRange.only(sessionKey));
+      request.onsuccess = () => {
+        events = request.result as StoredEvent[];
+      };
+    });
+    return events
+      .map(({ receivedAt, channel, payload }) => ({ receivedAt, channel, payload }))
+      .sort((left, right) => left.receivedAt - right.receivedAt);
+  }
+
+  async downloadSession(sessionKey: string): Promise<void> {
+    const events = await this.readSession(sessionKey);
+    const blob = new Blob([toNdjson(events)], { type: 'application/x-ndjson' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `session-${sessionKey}.ndjson`;
+    link.click();
+    URL.revokeObjectURL(url);
+    console.log(`[recorder] download session=${sessionKey} events=${events.length}`);
+  }
+
+  async deleteSession(sessionKey: string): Promise<void> {
+    await this.flush();
+    const db = await this.openDb();
+    await this.runTransaction(db, 'readwrite', (store) => {
+      const request = store.index(sessionIndex).openKeyCursor(IDBKeyRange.only(sessionKey));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          return;
+        }
+        store.delete(cursor.primaryKey);
+        cursor.continue();
+      };
+    });
+    console.log(`[recorder] deleted session=${sessionKey}`);
+  }
+
+  private toStorable(event: StoredEvent): StoredEvent {
+    try {
+      return { ...event, payload: JSON.parse(JSON.stringify(event.payload ?? null)) };
+    } catch {
+      return { ...event, payload: null };
+    }
+  }
+
+  private openDb(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(dbName, dbVersion);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(eventStore)) {
+            const store = db.createObjectStore(eventStore, { autoIncrement: true });
+            store.createIndex(sessionIndex, sessionIndex);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      this.dbPromise.catch(() => {
+        this.dbPromise = null;
+      });
+    }
+    return this.dbPromise;
+  }
+
+  private runTransaction(
+    db: IDBDatabase,
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => void
+  ): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(eventStore, mode);
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+      work(transaction.objectStore(eventStore));
+    });
+  }
+
+  private loadEnabled(): boolean {
+    return this.storage.read(storageKeys.recorderEnabled) ?? false;
+  }
+}
@@ -2,6 +2,11 @@ import { CommonModule } from '@angular/common';
 import { Component, inject } from '@angular/core';
 import { FormsModule } from '@angular/forms';
 import { RouterLink } from '@angular/router';
+import { Observable } from 'rxjs';
+import { SizingKind, SizingMode, SizingSettings, sizingKinds, sizingModes } from '../sizing/position-sizing';
+import { FeedHealth, FeedHealthService, FeedId, StaleFeedPolicy } from '../socket/feed-health.service';
+import { SocketStatus } from '../socket/market-socket.service';
+import { ExitDistance, ExitRules } from '../tick/fsm-engine';
 import { RelayAttempt, RelayService } from './relay.service';
 
 @Component({
@@ -13,6 +18,12 @@ import { RelayAttempt, RelayService } from './relay.service';
 })
 export class RelayComponent {
   private readonly relayService = inject(RelayService);
+  private readonly feedHealthService = inject(FeedHealthService);
+
+  readonly feedHealth$: Observable<FeedHealth[]> = this.feedHealthService.health$;
+  readonly sizingModes: SizingMode[] = sizingModes;
+  readonly sizingKinds: SizingKind[] = sizingKinds;
+  readonly exitUnits: ExitDistance['unit'][] = ['points', 'percent'];
 
   get ipAddress(): string {
     return this.relayService.ipAddress;
@@ -62,6 +73,34 @@ export class RelayComponent {
     this.relayService.orderHost = value;
   }
 
+  get socketUrl(): string {
+    return this.relayService.socketUrl;
+  }
+
+  set socketUrl(value: string) {
+    this.relayService.socketUrl = value;
+  }
+
+  get socketStatus$(): Observable<SocketStatus> {
+    return this.relayService.socketStatus$;
+  }
+
+  get stalePolicy(): StaleFeedPolicy {
+    return this.feedHealthService.policy;
+  }
+
+  set stalePolicy(value: StaleFeedPolicy) {
+    this.feedHealthService.policy = value;
+  }
+
+  sizingFor(mode: SizingMode): SizingSettings {
+    return this.relayService.sizing[mode];
+  }
+
+  exitRulesFor(mode: SizingMode): ExitRules {
+    return this.relayService.exitRules[mode];
+  }
+
   get attempts(): RelayAttempt[] {
     return this.relayService.attempts;
   }
@@ -70,6 +109,24 @@ export class RelayComponent {
     this.relayService.saveSettings();
   }
 
+  getStaleSeconds(feed: FeedId): number {
+    return this.feedHealthService.thresholdMsByFeed[feed] / 1000;
+  }
+
+  setStaleSeconds(feed: FeedId, value: number): void {
+    if (Number.isFinite(value) && value > 0) {
+      this.feedHealthService.thresholdMsByFeed[feed] = value * 1000;
+    }
+  }
+
+  saveFeedHealthSettings(): void {
+    this.feedHealthService.saveSettings();
+  }
+
+  formatFeedTime(value: number | null): string {
+    return value === null ? '--' : new Date(value).toLocaleTimeString();
+  }
+
   relayNow(): void {
     this.relayService.relayNow();
   }
@@ -1,5 +1,17 @@
 import { Injectable, OnDestroy, inject } from '@angular/core';
-import { Subscription } from 'rxjs';
+import { Observable, Subscription } from 'rxjs';
+import {
+  SizingMode,
+  SizingSettingsByMode,
+  defaultSizingByMode,
+  normalizeSizingSettings,
+  sizingModes
+} from '../sizing/position-sizing';
+import { ExitRules, normalizeExitRules } from '../tick/fsm-engine';
+import { MarketSocketService, SocketStatus } from '../socket/market-socket.service';
+import { strategies } from '../strategies/strategy-config';
+import { StorageService } from '../storage/storage.service';
+import { storageKeys } from '../storage/storage-keys';
 import { WebhookPayload, WebhookService } from '../webhook/webhook.service';
 
 export type RelayAttempt = {
@@ -12,15 +24,21 @@ export type RelayAttempt = {
 @Injectable({ providedIn: 'root' })
 export class RelayService implements OnDestroy {
   private readonly webhookService = inject(WebhookService);
+  private readonly socketService = inject(MarketSocketService);
+  private readonly storage = inject(StorageService);
   private readonly subscription = new Subscription();
 
-  ipAddress = this.loadSetting('relay.ip');
-  port = this.loadSetting('relay.port', '3002');
-  capital = this.loadSetting('relay.capital', '100000');
-  dryRun = this.loadSetting('relay.dryRun', 'true') === 'true';
-  orderHost = this.loadSetting('relay.orderHost');
-  enabled = this.loadSetting('relay.enabled') === 'true';
+  ipAddress = this.storage.read(storageKeys.relayIp) ?? '';
+  port = this.storage.read(storageKeys.relayPort) ?? '3002';
+  capital = this.storage.read(storageKeys.relayCapital) ?? '100000';
+  dryRun = this.storage.read(storageKeys.relayDryRun) ?? true;
+  orderHost = this.storage.read(storageKeys.relayOrderHost) ?? '';
+  enabled = this.storage.read(storageKeys.relayEnabled) ?? false;
+  socketUrl = this.storage.read(storageKeys.socketUrl) ?? '';
+  sizing: SizingSettingsByMode = this.loadSizing();
+  exitRules: Record<SizingMode, ExitRules> = this.loadExitRules();
   attempts: RelayAttempt[] = [];
+  readonly socketStatus$: Observable<SocketStatus> = this.socketService.status$;
 
   constructor() {
     this.subscription.add(
@@ -43,12 +61,15 @@ export class RelayService implements OnDestroy {
   }
 
   saveSettings(): void {
-    this.persistSetting('relay.ip', this.ipAddress);
-    this.persistSetting('relay.port', this.port);
-    this.persistSetting('relay.capital', this.capital);
-    this.persistSetting('relay.dryRun', String(this.dryRun));
-    this.persistSetting('relay.orderHost', this.orderHost);
-    this.persistSetting('relay.enabled', String(this.enabled));
+    this.storage.write(storageKeys.relayIp, this.ipAddress);
+    this.storage.write(storageKeys.relayPort, this.port);
+    this.storage.write(storageKeys.relayCapital, this.capital);
+    this.storage.write(storageKeys.relayDryRun, this.dryRun);
+    this.storage.write(storageKeys.relayOrderHost, this.orderHost);
+    this.storage.write(storageKeys.relayEnabled, this.enabled);
+    this.storage.write(storageKeys.relaySizing, this.sizing);
+    this.storage.write(storageKeys.relayExitRules, this.exitRules);
+    this.socketService.setUrl(this.socketUrl);
   }
 
   getCapitalValue(): number {
@@ -123,19 +144,23 @@ export class RelayService implements OnDestroy {
     this.attempts = [next, ...this.attempts].slice(0, 8);
   }
 
-  private loadSetting(key: string, fallback = ''): string {
-    try {
-      return localStorage.getItem(key) ?? fallback;
-    } catch {
-      return fallback;
+  private loadSizing(): SizingSettingsByMode {
+    const sizing = defaultSizingByMode();
+    const parsed = this.storage.read(storageKeys.relaySizing) ?? {};
+    for (const mode of sizingModes) {
+      if (parsed[mode] !== undefined) {
+        sizing[mode] = normalizeSizingSettings(parsed[mode]);
+      }
     }
+    return sizing;
   }
 
-  private persistSetting(key: string, value: string): void {
-    try {
-      localStorage.setItem(key, value);
-    } catch {
-      // ignore storage errors
+  private loadExitRules(): Record<SizingMode, ExitRules> {
+    const exitRules = {} as Record<SizingMode, ExitRules>;
+    const parsed = this.storage.read(storageKeys.relayExitRules) ?? {};
+    for (const strategy of strategies) {
+      exitRules[strategy.id] = normalizeExitRules(parsed[strategy.id] ?? strategy.exitRules);
     }
+    return exitRules;
   }
 }
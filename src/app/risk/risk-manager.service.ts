@@ -0,0 +1,162 @@
+import { Injectable, OnDestroy, inject } from '@angular/core';
+import { BehaviorSubject, Observable } from 'rxjs';
+import { RelayService } from '../relay/relay.service';
+import { StorageService } from '../storage/storage.service';
+import { storageKeys } from '../storage/storage-keys';
+import {
+  RiskContext,
+  RiskRuntime,
+  RiskSettings,
+  createRiskRuntime,
+  defaultRiskSettings
+} from './risk-manager';
+
+export type RiskBreach = {
+  at: number;
+  symbol: string;
+  reason: string;
+};
+
+export type RiskDailySummary = {
+  dayKey: string | null;
+  realizedToday: number;
+  realizedTodayBySymbol: [string, number][];
+};
+
+export type PersistedRiskRuntime = RiskDailySummary & {
+  killSwitch: boolean;
+};
+
+@Injectable({ providedIn: 'root' })
+export class RiskManagerService implements OnDestroy {
+  private readonly relayService = inject(RelayService);
+  private readonly storage = inject(StorageService);
+  private readonly maxBreaches = 50;
+  private readonly breachesSubject = new BehaviorSubject<RiskBreach[]>([]);
+  private readonly killSwitchSubject: BehaviorSubject<boolean>;
+  private readonly dailySubject: BehaviorSubject<RiskDailySummary>;
+  private persistTimeout: ReturnType<typeof setTimeout> | null = null;
+  private readonly storageHandler = (event: StorageEvent) => this.onStorage(event);
+
+  readonly runtime: RiskRuntime = this.loadRuntime();
+  readonly breaches$: Observable<RiskBreach[]> = this.breachesSubject.asObservable();
+  readonly killSwitch$: Observable<boolean>;
+  readonly daily$: Observable<RiskDailySummary>;
+  settings: RiskSettings = this.loadSettings();
+
+  constructor() {
+    this.killSwitchSubject = new BehaviorSubject<boolean>(this.runtime.killSwitch);
+    this.killSwitch$ = this.killSwitchSubject.asObservable();
+    this.dailySubject = new BehaviorSubject<RiskDailySummary>(this.dailySummary());
+    this.daily$ = this.dailySubject.asObservable();
+    if (typeof window !== 'undefined') {
+      window.addEventListener('storage', this.storageHandler);
+    }
+  }
+
+  ngOnDestroy(): void {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('storage', this.storageHandler);
+    }
+  }
+
+  buildContext(): RiskContext {
+    return {
+      settings: this.settings,
+      runtime: this.runtime,
+      capital: this.relayService.getCapitalValue(),
+      reportBreach: (symbol, reason) => this.reportBreach(symbol, reason)
+    };
+  }
+
+  engageKillSwitch(): void {
+    this.setKillSwitch(true);
+    this.reportBreach('*', 'kill switch engaged manually');
+  }
+
+  rearm(): void {
+    this.setKillSwitch(false);
+    console.log('[risk] kill switch re-armed');
+  }
+
+  saveSettings(): void {
+    this.storage.write(storageKeys.riskSettings, this.settings);
+  }
+
+  schedulePersist(): void {
+    if (this.persistTimeout !== null) {
+      return;
+    }
+    this.persistTimeout = setTimeout(() => {
+      this.persistTimeout = null;
+      this.persistRuntime();
+    }, 1000);
+  }
+
+  private reportBreach(symbol: string, reason: string): void {
+    console.warn(`[risk] breach symbol=${symbol} reason=${reason}`);
+    const next = [{ at: Date.now(), symbol, reason }, ...this.breachesSubject.value].slice(0, this.maxBreaches);
+    this.breachesSubject.next(next);
+  }
+
+  private setKillSwitch(engaged: boolean): void {
+    if (this.runtime.killSwitch === engaged) {
+      return;
+    }
+    this.runtime.killSwitch = engaged;
+    this.persistRuntime();
+    this.killSwitchSubject.next(engaged);
+  }
+
+  private onStorage(event: StorageEvent): void {
+    if (event.key !== storageKeys.riskRuntime.key) {
+      return;
+    }
+    const killSwitch = this.storage.decodeRaw(storageKeys.riskRuntime, event.newValue)?.killSwitch;
+    if (typeof killSwitch === 'boolean' && killSwitch !== this.runtime.killSwitch) {
+      console.log(`[risk] kill switch ${killSwitch ? 'engaged' : 're-armed'} from another tab`);
+      this.runtime.killSwitch = killSwitch;
+      this.killSwitchSubject.next(killSwitch);
+    }
+  }
+
+  private persistRuntime(): void {
+    const daily = this.dailySummary();
+    this.dailySubject.next(daily);
+    const persisted: PersistedRiskRuntime = { killSwitch: this.runtime.killSwitch, ...daily };
+    this.storage.write(storageKeys.riskRuntime, persisted);
+  }
+
+  private dailySummary(): RiskDailySummary {
+    return {
+      dayKey: this.runtime.dayKey,
+      realizedToday: this.runtime.realizedToday,
+      realizedTodayBySymbol: Array.from(this.runtime.realizedTodayBySymbol.entries())
+    };
+  }
+
+  private loadRuntime(): RiskRuntime {
+    const runtime = createRiskRuntime();
+    const persisted = this.storage.read(storageKeys.riskRuntime);
+    if (!persisted) {
+      return runtime;
+    }
+    runtime.killSwitch = persisted.killSwitch === true;
+    runtime.dayKey = persisted.dayKey ?? null;
+    runtime.realizedToday = persisted.realizedToday ?? 0;
+    runtime.realizedTodayBySymbol = new Map(persisted.realizedTodayBySymbol ?? []);
+    return runtime;
+  }
+
+  private loadSettings(): RiskSettings {
+    const defaults = defaultRiskSettings();
+    const parsed = this.storage.read(storageKeys.riskSettings) ?? {};
+    for (const key of Object.keys(defaults) as (keyof RiskSettings)[]) {
+      const value = parsed[key];
+      if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+        defaults[key] = value;
+      }
+    }
+    return defaults;
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { OpenTrade } from '../webhook/trade-reducer';
+import {
+  RiskContext,
+  RiskSettings,
+  checkLiveOpen,
+  createRiskRuntime,
+  noRiskLimits,
+  recordLiveClose,
+  recordLiveOrder
+} from './risk-manager';
+
+const now = new Date(Date.UTC(2026, 0, 5, 4, 0, 10));
+
+function trade(symbol: string, entryPrice = 100, quantity = 65): OpenTrade {
+  return { id: `${symbol}-1`, symbol, side: 'BUY', entryPrice, quantity, lot: 1, timeIst: '09:30:10' };
+}
+
+function contextWith(settings: Partial<RiskSettings>, capital = 10000): RiskContext {
+  return {
+    settings: { ...noRiskLimits, ...settings },
+    runtime: createRiskRuntime(),
+    capital,
+    reportBreach: () => undefined
+  };
+}
+
+describe('checkLiveOpen', () => {
+  it('allows everything when all limits are disabled', () => {
+    const risk = contextWith({});
+    expect(checkLiveOpen(risk, trade('A', 1e6), new Map(), now)).toBeNull();
+  });
+
+  it('blocks while the kill switch is engaged', () => {
+    const risk = contextWith({});
+    risk.runtime.killSwitch = true;
+    expect(checkLiveOpen(risk, trade('A'), new Map(), now)).toBe('kill switch engaged');
+  });
+
+  it('enforces account and symbol daily loss and resets on a new IST day', () => {
+    const risk = contextWith({ maxDailyLoss: 1000, maxDailyLossPerSymbol: 300 });
+    recordLiveClose(risk.runtime, 'A', -400, now);
+    expect(checkLiveOpen(risk, trade('A'), new Map(), now)).toContain('symbol daily loss');
+    expect(checkLiveOpen(risk, trade('B'), new Map(), now)).toBeNull();
+
+    recordLiveClose(risk.runtime, 'B', -700, now);
+    expect(checkLiveOpen(risk, trade('C'), new Map(), now)).toContain('daily loss -1100.00');
+
+    const nextDay = new Date(now.getTime() + 24 * 60 * 60 * 1000);
+    expect(checkLiveOpen(risk, trade('A'), new Map(), nextDay)).toBeNull();
+  });
+
+  it('caps open positions, order rate and exposure', () => {
+    const open = new Map([['A', trade('A', 100, 100)]]);
+    expect(checkLiveOpen(contextWith({ maxOpenPositions: 1 }), trade('B'), open, now)).toContain('open positions 1');
+
+    const rated = contextWith({ maxOrdersPerMinute: 2 });
+    recordLiveOrder(rated.runtime, now);
+    recordLiveOrder(rated.runtime, now);
+    expect(checkLiveOpen(rated, trade('B'), new Map(), now)).toContain('orders in last minute 2');
+    expect(checkLiveOpen(rated, trade('B'), new Map(), new Date(now.getTime() + 61000))).toBeNull();
+
+    const capped = contextWith({ maxCapitalMultiple: 2 }, 10000);
+    expect(checkLiveOpen(capped, trade('B', 100, 100), open, now)).toBeNull();
+    expect(checkLiveOpen(capped, trade('B', 100, 101), open, now)).toContain('exposure 20100.00');
+  });
+});
@@ -0,0 +1,118 @@
+import { istDateKey } from '../tick/market-hours';
+import type { OpenTrade } from '../webhook/trade-reducer';
+
+export type RiskSettings = {
+  maxDailyLoss: number;
+  maxDailyLossPerSymbol: number;
+  maxOpenPositions: number;
+  maxOrdersPerMinute: number;
+  maxCapitalMultiple: number;
+};
+
+export type RiskRuntime = {
+  killSwitch: boolean;
+  dayKey: string | null;
+  realizedToday: number;
+  realizedTodayBySymbol: Map<string, number>;
+  orderTimes: number[];
+};
+
+export type RiskContext = {
+  settings: RiskSettings;
+  runtime: RiskRuntime;
+  capital: number;
+  reportBreach: (symbol: string, reason: string) => void;
+};
+
+export const noRiskLimits: RiskSettings = {
+  maxDailyLoss: 0,
+  maxDailyLossPerSymbol: 0,
+  maxOpenPositions: 0,
+  maxOrdersPerMinute: 0,
+  maxCapitalMultiple: 0
+};
+
+export function defaultRiskSettings(): RiskSettings {
+  return {
+    maxDailyLoss: 10000,
+    maxDailyLossPerSymbol: 5000,
+    maxOpenPositions: 3,
+    maxOrdersPerMinute: 10,
+    maxCapitalMultiple: 4
+  };
+}
+
+export function createRiskRuntime(): RiskRuntime {
+  return {
+    killSwitch: false,
+    dayKey: null,
+    realizedToday: 0,
+    realizedTodayBySymbol: new Map<string, number>(),
+    orderTimes: []
+  };
+}
+
+export function checkLiveOpen(
+  risk: RiskContext,
+  candidate: OpenTrade,
+  liveOpenBySymbol: Map<string, OpenTrade>,
+  now: Date
+): string | null {
+  const { settings, runtime } = risk;
+  rollDay(runtime, now);
+  if (runtime.killSwitch) {
+    return 'kill switch engaged';
+  }
+  if (settings.maxDailyLoss > 0 && runtime.realizedToday <= -settings.maxDailyLoss) {
+    return `daily loss ${runtime.realizedToday.toFixed(2)} reached limit ${settings.maxDailyLoss}`;
+  }
+  const symbolRealized = runtime.realizedTodayBySymbol.get(candidate.symbol) ?? 0;
+  if (settings.maxDailyLossPerSymbol > 0 && symbolRealized <= -settings.maxDailyLossPerSymbol) {
+    return `symbol daily loss ${symbolRealized.toFixed(2)} reached limit ${settings.maxDailyLossPerSymbol}`;
+  }
+  if (settings.maxOpenPositions > 0 && liveOpenBySymbol.size >= settings.maxOpenPositions) {
+    return `open positions ${liveOpenBySymbol.size} reached limit ${settings.maxOpenPositions}`;
+  }
+  const recentOrders = countRecentOrders(runtime, now);
+  if (settings.maxOrdersPerMinute > 0 && recentOrders >= settings.maxOrdersPerMinute) {
+    return `orders in last minute ${recentOrders} reached limit ${settings.maxOrdersPerMinute}`;
+  }
+  if (settings.maxCapitalMultiple > 0) {
+    let exposure = candidate.entryPrice * candidate.quantity;
+    for (const open of liveOpenBySymbol.values()) {
+      exposure += open.entryPrice * open.quantity;
+    }
+    const cap = risk.capital * settings.maxCapitalMultiple;
+    if (exposure > cap) {
+      return `exposure ${exposure.toFixed(2)} exceeds cap ${cap.toFixed(2)}`;
+    }
+  }
+  return null;
+}
+
+export function recordLiveOrder(runtime: RiskRuntime, now: Date): void {
+  runtime.orderTimes.push(now.getTime());
+  countRecentOrders(runtime, now);
+}
+
+export function recordLiveClose(runtime: RiskRuntime, symbol: string, realizedNet: number, now: Date): void {
+  rollDay(runtime, now);
+  runtime.realizedToday += realizedNet;
+  runtime.realizedTodayBySymbol.set(symbol, (runtime.realizedTodayBySymbol.get(symbol) ?? 0) + realizedNet);
+}
+
+function rollDay(runtime: RiskRuntime, now: Date): void {
+  const dayKey = istDateKey(now);
+  if (runtime.dayKey === dayKey) {
+    return;
+  }
+  runtime.dayKey = dayKey;
+  runtime.realizedToday = 0;
+  runtime.realizedTodayBySymbol.clear();
+}
+
+function countRecentOrders(runtime: RiskRuntime, now: Date): number {
+  const cutoff = now.getTime() - 60000;
+  runtime.orderTimes = runtime.orderTimes.filter((at) => at > cutoff);
+  return runtime.orderTimes.length;
+}
@@ -0,0 +1,77 @@
+import { CommonModule } from '@angular/common';
+import { Component, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { RouterLink } from '@angular/router';
+import { map } from 'rxjs';
+import { SquareOffSchedulerService, SquareOffSettings } from '../square-off/square-off-scheduler.service';
+import { RiskSettings } from './risk-manager';
+import { RiskManagerService } from './risk-manager.service';
+
+@Component({
+  selector: 'app-risk',
+  standalone: true,
+  imports: [CommonModule, FormsModule, RouterLink],
+  templateUrl: './risk.component.html',
+  styleUrl: './risk.component.css'
+})
+export class RiskComponent {
+  private readonly riskService = inject(RiskManagerService);
+  private readonly squareOffService = inject(SquareOffSchedulerService);
+
+  readonly killSwitch$ = this.riskService.killSwitch$;
+  readonly daily$ = this.riskService.daily$;
+  readonly breaches$ = this.riskService.breaches$;
+  readonly squareOffBlockedUntil$ = this.squareOffService.blockedUntil$.pipe(
+    map((blockedUntil) => (blockedUntil !== null && blockedUntil > Date.now() ? blockedUntil : null))
+  );
+  settings: RiskSettings = { ...this.riskService.settings };
+  saved = false;
+  squareOff: SquareOffSettings = { ...this.squareOffService.settings };
+  squareOffSaved = false;
+
+  save(): void {
+    const next = { ...this.riskService.settings };
+    for (const key of Object.keys(next) as (keyof RiskSettings)[]) {
+      const value = Number(this.settings[key]);
+      if (Number.isFinite(value) && value >= 0) {
+        next[key] = value;
+      }
+    }
+    Object.assign(this.riskService.settings, next);
+    this.riskService.saveSettings();
+    this.settings = { ...next };
+    this.saved = true;
+  }
+
+  engage(): void {
+    this.riskService.engageKillSwitch();
+  }
+
+  rearm(): void {
+    this.riskService.rearm();
+  }
+
+  saveSquareOff(): void {
+    Object.assign(this.squareOffService.settings, this.squareOff);
+    this.squareOffService.saveSettings();
+    this.squareOffSaved = true;
+  }
+
+  squareOffNow(): void {
+    this.squareOffService.squareOffNow();
+  }
+
+  formatDateTime(value: number): string {
+    return new Date(value).toLocaleString('en-IN', {
+      timeZone: 'Asia/Kolkata',
+      hour12: false
+    });
+  }
+
+  formatTime(value: number): string {
+    return new Date(value).toLocaleTimeString('en-IN', {
+      timeZone: 'Asia/Kolkata',
+      hour12: false
+    });
+  }
+}
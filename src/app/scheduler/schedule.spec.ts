@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { missedRunAt, nextRunAt, parseCron, previousRunAt } from './schedule';
+
+function istAt(date: string, time: string): number {
+  return Date.parse(`${date}T${time}:00+05:30`);
+}
+
+function cron(expression: string) {
+  const schedule = parseCron(expression);
+  if (!schedule) {
+    throw new Error(`invalid cron ${expression}`);
+  }
+  return schedule;
+}
+
+describe('schedule', () => {
+  it('parses wildcards, lists, ranges and steps', () => {
+    expect(parseCron('30 5 * * *')).toEqual({
+      minutes: [30],
+      hours: [5],
+      daysOfMonth: null,
+      months: null,
+      daysOfWeek: null
+    });
+    expect(parseCron('*/20 9-10 1,15 * 1-5')).toEqual({
+      minutes: [0, 20, 40],
+      hours: [9, 10],
+      daysOfMonth: [1, 15],
+      months: null,
+      daysOfWeek: [1, 2, 3, 4, 5]
+    });
+    expect(parseCron('5/30 0 * * 7')?.minutes).toEqual([5, 35]);
+    expect(parseCron('5/30 0 * * 7')?.daysOfWeek).toEqual([0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(parseCron('30 5 * *')).toBeNull();
+    expect(parseCron('60 5 * * *')).toBeNull();
+    expect(parseCron('30 5 0 * *')).toBeNull();
+    expect(parseCron('30 5-3 * * *')).toBeNull();
+    expect(parseCron('*/0 5 * * *')).toBeNull();
+    expect(parseCron('a 5 * * *')).toBeNull();
+  });
+
+  it('finds the next IST run strictly after the given time', () => {
+    const daily = cron('30 5 * * *');
+    expect(nextRunAt(daily, istAt('2026-01-05', '05:00'))).toBe(istAt('2026-01-05', '05:30'));
+    expect(nextRunAt(daily, istAt('2026-01-05', '05:30'))).toBe(istAt('2026-01-06', '05:30'));
+    expect(nextRunAt(cron('0 9 * * 1-5'), istAt('2026-01-09', '10:00'))).toBe(istAt('2026-01-12', '09:00'));
+  });
+
+  it('skips days rejected by the run-day filter', () => {
+    const closed = new Set(['2026-01-26']);
+    const onTradingDays = (date: string) => !closed.has(date);
+    expect(nextRunAt(cron('45 15 * * *'), istAt('2026-01-26', '10:00'), onTradingDays)).toBe(istAt('2026-01-27', '15:45'));
+    expect(nextRunAt(cron('0 0 30 2 *'), istAt('2026-01-01', '00:00'))).toBeNull();
+  });
+
+  it('finds the latest due run and whether it was missed', () => {
+    const daily = cron('30 5 * * *');
+    expect(previousRunAt(daily, istAt('2026-01-05', '05:30'))).toBe(istAt('2026-01-05', '05:30'));
+    expect(previousRunAt(daily, istAt('2026-01-05', '05:00'))).toBe(istAt('2026-01-04', '05:30'));
+
+    const now = istAt('2026-01-05', '08:00');
+    expect(missedRunAt(daily, istAt('2026-01-04', '05:30'), now)).toBe(istAt('2026-01-05', '05:30'));
+    expect(missedRunAt(daily, istAt('2026-01-05', '05:31'), now)).toBeNull();
+    expect(missedRunAt(daily, istAt('2026-01-05', '05:31'), now, () => false)).toBeNull();
+  });
+});
@@ -0,0 +1,116 @@
+import { istDateKey, istTimeOn } from '../tick/market-hours';
+
+export type CronSchedule = {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[] | null;
+  months: number[] | null;
+  daysOfWeek: number[] | null;
+};
+
+export type RunDayFilter = (date: string) => boolean;
+
+const lookAheadDays = 366;
+const lookBackDays = 7;
+const everyDay: RunDayFilter = () => true;
+
+// Five IST fields: minute hour day-of-month month day-of-week. Supports *, lists, ranges and steps.
+// Unlike classic cron, a restricted day-of-month and day-of-week must both match.
+export function parseCron(expression: string): CronSchedule | null {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    return null;
+  }
+  const minutes = parseField(fields[0], 0, 59);
+  const hours = parseField(fields[1], 0, 23);
+  const daysOfMonth = parseField(fields[2], 1, 31);
+  const months = parseField(fields[3], 1, 12);
+  const daysOfWeek = parseField(fields[4], 0, 7);
+  if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) {
+    return null;
+  }
+  return {
+    minutes,
+    hours,
+    daysOfMonth: fields[2] === '*' ? null : daysOfMonth,
+    months: fields[3] === '*' ? null : months,
+    daysOfWeek: fields[4] === '*' ? null : Array.from(new Set(daysOfWeek.map((day) => day % 7))).sort((a, b) => a - b)
+  };
+}
+
+export function nextRunAt(schedule: CronSchedule, after: number, isRunDay: RunDayFilter = everyDay): number | null {
+  for (let offset = 0; offset < lookAheadDays; offset += 1) {
+    const date = istDateWithOffset(after, offset);
+    if (!matchesDay(schedule, date) || !isRunDay(date)) {
+      continue;
+    }
+    const next = runTimesOn(schedule, date).find((at) => at > after);
+    if (next !== undefined) {
+      return next;
+    }
+  }
+  return null;
+}
+
+export function previousRunAt(schedule: CronSchedule, atOrBefore: number, isRunDay: RunDayFilter = everyDay): number | null {
+  for (let offset = 0; offset >= -lookBackDays; offset -= 1) {
+    const date = istDateWithOffset(atOrBefore, offset);
+    if (!matchesDay(schedule, date) || !isRunDay(date)) {
+      continue;
+    }
+    const due = runTimesOn(schedule, date).filter((at) => at <= atOrBefore);
+    if (due.length > 0) {
+      return due[due.length - 1];
+    }
+  }
+  return null;
+}
+
+export function missedRunAt(
+  schedule: CronSchedule,
+  lastRunAt: number,
+  now: number,
+  isRunDay: RunDayFilter = everyDay
+): number | null {
+  const due = previousRunAt(schedule, now, isRunDay);
+  return due !== null && due > lastRunAt ? due : null;
+}
+
+function parseField(field: string, min: number, max: number): number[] | null {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const match = /^(?:(\*)|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      return null;
+    }
+    const step = match[4] !== undefined ? Number(match[4]) : 1;
+    const start = match[1] ? min : Number(match[2]);
+    const end = match[1] || (match[3] === undefined && match[4] !== undefined)
+      ? max
+      : Number(match[3] ?? match[2]);
+    if (step < 1 || start < min || end > max || start > end) {
+      return null;
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+function matchesDay(schedule: CronSchedule, date: string): boolean {
+  const [year, month, day] = date.split('-').map(Number);
+  const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+  return (schedule.months === null || schedule.months.includes(month))
+    && (schedule.daysOfMonth === null || schedule.daysOfMonth.includes(day))
+    && (schedule.daysOfWeek === null || schedule.daysOfWeek.includes(weekday));
+}
+
+function runTimesOn(schedule: CronSchedule, date: string): number[] {
+  return schedule.hours.flatMap((hour) => schedule.minutes.map((minute) => istTimeOn(date, { hour, minute })));
+}
+
+function istDateWithOffset(anchor: number, offset: number): string {
+  const [year, month, day] = istDateKey(new Date(anchor)).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + offset)).toISOString().slice(0, 10);
+}
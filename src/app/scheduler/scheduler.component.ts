@@ -0,0 +1,32 @@
+import { CommonModule } from '@angular/common';
+import { Component, inject } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { SessionSchedulerService } from './session-scheduler.service';
+
+@Component({
+  selector: 'app-scheduler',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: './scheduler.component.html',
+  styleUrl: './scheduler.component.css'
+})
+export class SchedulerComponent {
+  private readonly scheduler = inject(SessionSchedulerService);
+
+  readonly jobs$ = this.scheduler.jobs$;
+  readonly history$ = this.scheduler.history$;
+
+  runNow(id: string): void {
+    void this.scheduler.runNow(id);
+  }
+
+  formatDateTime(value: number | null): string {
+    if (value === null) {
+      return '--';
+    }
+    return new Date(value).toLocaleString('en-IN', {
+      timeZone: 'Asia/Kolkata',
+      hour12: false
+    });
+  }
+}
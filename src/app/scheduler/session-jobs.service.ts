@@ -0,0 +1,80 @@
+import { Injectable, inject } from '@angular/core';
+import { Subject } from 'rxjs';
+import { MarketCalendarService } from '../calendar/market-calendar.service';
+import { HistoryBtcService } from '../history-btc/history-btc.service';
+import { StrategyFeed, strategies, strategyForKey } from '../strategies/strategy-config';
+import { TickFsmStateService } from '../tick/tick-fsm-state.service';
+import { TickService } from '../tick/tick.service';
+import { istDateKey } from '../tick/market-hours';
+import { WebhookStateService } from '../webhook/webhook-state.service';
+import { SessionSchedulerService } from './session-scheduler.service';
+
+@Injectable({ providedIn: 'root' })
+export class SessionJobsService {
+  private readonly scheduler = inject(SessionSchedulerService);
+  private readonly historyService = inject(HistoryBtcService);
+  private readonly webhookStateService = inject(WebhookStateService);
+  private readonly tickService = inject(TickService);
+  private readonly tickFsmStateService = inject(TickFsmStateService);
+  private readonly calendarService = inject(MarketCalendarService);
+  private readonly zerodhaResetSubject = new Subject<number>();
+  readonly zerodhaReset$ = this.zerodhaResetSubject.asObservable();
+
+  constructor() {
+    this.scheduler.register({
+      id: 'btc-rollover',
+      label: 'BTC daily rollover',
+      cron: '30 5 * * *',
+      market: 'CRYPTO',
+      catchUp: true,
+      run: (now) => this.rollOverBtc(now)
+    });
+    this.scheduler.register({
+      id: 'zerodha-post-close',
+      label: 'Zerodha post-close snapshot and reset',
+      cron: '45 15 * * *',
+      market: 'NFO',
+      catchUp: true,
+      run: (now) => this.resetZerodha(now)
+    });
+    this.scheduler.register({
+      id: 'pre-open-warm-up',
+      label: 'Pre-open warm-up',
+      cron: '0 9 * * *',
+      market: 'NFO',
+      catchUp: false,
+      run: () => this.warmUp()
+    });
+  }
+
+  private async rollOverBtc(now: Date): Promise<string> {
+    const snapshotKey = istDateKey(new Date(now.getTime() - 24 * 60 * 60 * 1000));
+    const snapshot = await this.historyService.captureSnapshot(snapshotKey, now);
+    this.webhookStateService.resetBtcState();
+    this.tickService.clearCache();
+    this.tickFsmStateService.clearSymbols(this.fsmKeysForFeed('binance'));
+    return `snapshot=${snapshotKey} symbols=${snapshot.symbols.length}`;
+  }
+
+  private async resetZerodha(now: Date): Promise<string> {
+    const snapshotKey = istDateKey(now);
+    const snapshot = await this.historyService.captureSnapshot(snapshotKey, now, 'zerodha');
+    this.zerodhaResetSubject.next(now.getTime());
+    for (const strategy of strategies.filter((candidate) => candidate.feed === 'zerodha')) {
+      this.webhookStateService.clearModeState(strategy.id);
+    }
+    this.tickFsmStateService.clearSymbols(this.fsmKeysForFeed('zerodha'));
+    return `snapshot=${snapshotKey} symbols=${snapshot.symbols.length}`;
+  }
+
+  private fsmKeysForFeed(feed: StrategyFeed): string[] {
+    return Array.from(this.tickFsmStateService.getSnapshot().keys())
+      .filter((key) => strategyForKey(key).feed === feed);
+  }
+
+  private async warmUp(): Promise<string> {
+    await this.calendarService.reload();
+    this.tickService.clearCache();
+    return 'calendar reloaded, tick cache cleared';
+  }
+}
@@ -0,0 +1,125 @@
+import { TestBed } from '@angular/core/testing';
+import { BehaviorSubject } from 'rxjs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { defaultMarketCalendar } from '../calendar/market-calendar';
+import { MarketCalendarService } from '../calendar/market-calendar.service';
+import { StorageService } from '../storage/storage.service';
+import { StorageEntry } from '../storage/storage-schema';
+import { TabLeaderService } from '../tabs/tab-leader.service';
+import { SessionSchedulerService } from './session-scheduler.service';
+
+describe('SessionSchedulerService', () => {
+  const calendar = defaultMarketCalendar();
+  let stored: Map<string, unknown>;
+  let openRuns: number[];
+  let closeRuns: number[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T08:00:00+05:30'));
+    stored = new Map();
+    openRuns = [];
+    closeRuns = [];
+  });
+
+  afterEach(() => {
+    TestBed.resetTestingModule();
+    vi.useRealTimers();
+  });
+
+  // A fresh injector over the same stored state stands in for a page reload.
+  function loadScheduler(): SessionSchedulerService {
+    TestBed.resetTestingModule();
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: TabLeaderService, useValue: { isLeader$: new BehaviorSubject(true), isLeader: true } },
+        {
+          provide: StorageService,
+          useValue: {
+            read: (entry: StorageEntry<unknown>) => structuredClone(stored.get(entry.key) ?? null),
+            write: (entry: StorageEntry<unknown>, value: unknown) => stored.set(entry.key, structuredClone(value)),
+            remove: (entry: StorageEntry<unknown>) => stored.delete(entry.key)
+          }
+        },
+        {
+          provide: MarketCalendarService,
+          useValue: { calendar, calendar$: new BehaviorSubject(calendar), whenLoaded: () => Promise.resolve() }
+        }
+      ]
+    });
+    const scheduler = TestBed.inject(SessionSchedulerService);
+    scheduler.register({
+      id: 'session-open',
+      label: 'Session open',
+      cron: '15 9 * * *',
+      market: 'NFO',
+      catchUp: true,
+      run: (now) => void openRuns.push(now.getTime())
+    });
+    scheduler.register({
+      id: 'session-close',
+      label: 'Session close',
+      cron: '30 15 * * *',
+      market: 'NFO',
+      catchUp: true,
+      run: (now) => void closeRuns.push(now.getTime())
+    });
+    return scheduler;
+  }
+
+  async function advanceTo(iso: string): Promise<void> {
+    await vi.advanceTimersByTimeAsync(Date.parse(iso) - Date.now());
+  }
+
+  it('runs jobs at session open and close', async () => {
+    loadScheduler();
+
+    await advanceTo('2026-10-19T09:14:59+05:30');
+    expect(openRuns).toEqual([]);
+    await advanceTo('2026-10-19T09:15:00+05:30');
+    expect(openRuns).toEqual([Date.parse('2026-10-19T09:15:00+05:30')]);
+    expect(closeRuns).toEqual([]);
+
+    await advanceTo('2026-10-19T15:30:00+05:30');
+    expect(closeRuns).toEqual([Date.parse('2026-10-19T15:30:00+05:30')]);
+    expect(openRuns).toHaveLength(1);
+  });
+
+  it('does not run a job twice across a reload', async () => {
+    loadScheduler();
+    await advanceTo('2026-10-19T09:30:00+05:30');
+    expect(openRuns).toHaveLength(1);
+
+    loadScheduler();
+    await advanceTo('2026-10-19T10:00:00+05:30');
+    expect(openRuns).toHaveLength(1);
+
+    await advanceTo('2026-10-19T15:30:00+05:30');
+    expect(closeRuns).toHaveLength(1);
+
+    loadScheduler();
+    await advanceTo('2026-10-19T16:00:00+05:30');
+    expect(openRuns).toHaveLength(1);
+    expect(closeRuns).toHaveLength(1);
+  });
+
+  it('catches up runs missed while the page was shut, once', async () => {
+    loadScheduler();
+    await advanceTo('2026-10-19T16:00:00+05:30');
+    TestBed.resetTestingModule();
+
+    vi.setSystemTime(new Date('2026-10-20T16:00:00+05:30'));
+    loadScheduler();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(openRuns).toHaveLength(2);
+    expect(closeRuns).toEqual([
+      Date.parse('2026-10-19T15:30:00+05:30'),
+      Date.parse('2026-10-20T16:00:00+05:30')
+    ]);
+
+    loadScheduler();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(openRuns).toHaveLength(2);
+    expect(closeRuns).toHaveLength(2);
+  });
+});
@@ -0,0 +1,242 @@
+import { Injectable, OnDestroy, inject } from '@angular/core';
+import { BehaviorSubject, Subscription, filter, from, skip, switchMap, take } from 'rxjs';
+import { Exchange, sessionOn } from '../calendar/market-calendar';
+import { MarketCalendarService } from '../calendar/market-calendar.service';
+import { StorageService } from '../storage/storage.service';
+import { storageKeys } from '../storage/storage-keys';
+import { TabLeaderService } from '../tabs/tab-leader.service';
+import { RunDayFilter, missedRunAt, nextRunAt, parseCron } from './schedule';
+
+export type JobMarket = Exchange | 'CRYPTO';
+
+export type JobTrigger = 'schedule' | 'catch-up' | 'manual';
+
+export type SessionJob = {
+  id: string;
+  label: string;
+  cron: string;
+  market: JobMarket;
+  catchUp: boolean;
+  run: (now: Date) => Promise<string | void> | string | void;
+};
+
+export type JobRun = {
+  jobId: string;
+  label: string;
+  trigger: JobTrigger;
+  startedAt: number;
+  finishedAt: number;
+  status: 'ok' | 'error';
+  detail: string | null;
+};
+
+export type JobStatus = {
+  id: string;
+  label: string;
+  cron: string;
+  market: JobMarket;
+  catchUp: boolean;
+  valid: boolean;
+  nextRunAt: number | null;
+  lastRun: JobRun | null;
+};
+
+@Injectable({ providedIn: 'root' })
+export class SessionSchedulerService implements OnDestroy {
+  private readonly tabLeader = inject(TabLeaderService);
+  private readonly calendarService = inject(MarketCalendarService);
+  private readonly storage = inject(StorageService);
+  private readonly historyLimit = 100;
+  private readonly maxTimerMs = 6 * 60 * 60 * 1000;
+  private readonly jobs = new Map<string, SessionJob>();
+  private readonly timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private readonly running = new Set<string>();
+  private readonly subs = new Subscription();
+  private readonly historySubject = new BehaviorSubject<JobRun[]>(this.loadHistory());
+  private readonly jobsSubject = new BehaviorSubject<JobStatus[]>([]);
+  private ready = false;
+  readonly history$ = this.historySubject.asObservable();
+  readonly jobs$ = this.jobsSubject.asObservable();
+
+  constructor() {
+    this.subs.add(
+      this.tabLeader.isLeader$.pipe(
+        filter(Boolean),
+        take(1),
+        switchMap(() => from(this.calendarService.whenLoaded()))
+      ).subscribe(() => {
+        this.ready = true;
+        this.historySubject.next(this.loadHistory());
+        for (const job of this.jobs.values()) {
+          this.maybeRunCatchUp(job);
+        }
+        this.publishJobs();
+      })
+    );
+    this.subs.add(this.calendarService.calendar$.pipe(skip(1)).subscribe(() => this.rescheduleAll()));
+  }
+
+  ngOnDestroy(): void {
+    this.subs.unsubscribe();
+    for (const id of Array.from(this.timers.keys())) {
+      this.clearTimer(id);
+    }
+  }
+
+  register(job: SessionJob): void {
+    if (!parseCron(job.cron)) {
+      console.log(`[scheduler] invalid schedule job=${job.id} cron=${job.cron}`);
+    }
+    this.clearTimer(job.id);
+    this.jobs.set(job.id, job);
+    this.scheduleNext(job);
+    if (this.ready) {
+      this.maybeRunCatchUp(job);
+    }
+    this.publishJobs();
+  }
+
+  unregister(id: string): void {
+    this.clearTimer(id);
+    if (this.jobs.delete(id)) {
+      this.publishJobs();
+    }
+  }
+
+  async runNow(id: string): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job) {
+      await this.execute(job, 'manual', new Date());
+    }
+  }
+
+  private maybeRunCatchUp(job: SessionJob): void {
+    const schedule = parseCron(job.cron);
+    const lastRunAt = this.loadLastRuns()[job.id];
+    // A job that never ran in this browser has nothing to catch up on.
+    if (!job.catchUp || !schedule || lastRunAt === undefined) {
+      return;
+    }
+    const now = Date.now();
+    if (missedRunAt(schedule, lastRunAt, now, this.runDayFilter(job.market)) !== null) {
+      void this.execute(job, 'catch-up', new Date(now));
+    }
+  }
+
+  private scheduleNext(job: SessionJob): void {
+    const at = this.nextRunFor(job, Date.now());
+    if (at === null) {
+      return;
+    }
+    const delay = Math.min(Math.max(1000, at - Date.now()), this.maxTimerMs);
+    this.timers.set(job.id, setTimeout(() => {
+      this.timers.delete(job.id);
+      if (this.jobs.get(job.id) !== job) {
+        return;
+      }
+      if (Date.now() < at) {
+        this.scheduleNext(job);
+        return;
+      }
+      void this.execute(job, 'schedule', new Date()).finally(() => {
+        if (this.jobs.get(job.id) === job && !this.timers.has(job.id)) {
+          this.scheduleNext(job);
+          this.publishJobs();
+        }
+      });
+    }, delay));
+  }
+
+  private async execute(job: SessionJob, trigger: JobTrigger, now: Date): Promise<void> {
+    if (!this.tabLeader.isLeader || this.running.has(job.id)) {
+      return;
+    }
+    this.running.add(job.id);
+    let status: JobRun['status'] = 'ok';
+    let detail: string | null = null;
+    try {
+      detail = (await job.run(now)) || null;
+    } catch (error) {
+      status = 'error';
+      detail = error instanceof Error ? error.message : String(error);
+    } finally {
+      this.running.delete(job.id);
+    }
+    const run: JobRun = {
+      jobId: job.id,
+      label: job.label,
+      trigger,
+      startedAt: now.getTime(),
+      finishedAt: Date.now(),
+      status,
+      detail
+    };
+    this.saveLastRun(job.id, run.startedAt);
+    const history = [run, ...this.historySubject.value].slice(0, this.historyLimit);
+    this.historySubject.next(history);
+    this.storage.write(storageKeys.schedulerHistory, history);
+    console.log(`[scheduler] run job=${job.id} trigger=${trigger} status=${status} detail=${detail ?? '--'}`);
+    this.publishJobs();
+  }
+
+  private rescheduleAll(): void {
+    for (const job of this.jobs.values()) {
+      this.clearTimer(job.id);
+      this.scheduleNext(job);
+    }
+    this.publishJobs();
+  }
+
+  private publishJobs(): void {
+    const now = Date.now();
+    const history = this.historySubject.value;
+    this.jobsSubject.next(Array.from(this.jobs.values()).map((job) => ({
+      id: job.id,
+      label: job.label,
+      cron: job.cron,
+      market: job.market,
+      catchUp: job.catchUp,
+      valid: parseCron(job.cron) !== null,
+      nextRunAt: this.nextRunFor(job, now),
+      lastRun: history.find((run) => run.jobId === job.id) ?? null
+    })));
+  }
+
+  private nextRunFor(job: SessionJob, after: number): number | null {
+    const schedule = parseCron(job.cron);
+    return schedule ? nextRunAt(schedule, after, this.runDayFilter(job.market)) : null;
+  }
+
+  private runDayFilter(market: JobMarket): RunDayFilter {
+    if (market === 'CRYPTO') {
+      return () => true;
+    }
+    return (date) => sessionOn(this.calendarService.calendar, market, date) !== null;
+  }
+
+  private clearTimer(id: string): void {
+    const timeoutId = this.timers.get(id);
+    if (timeoutId !== undefined) {
+      clearTimeout(timeoutId);
+      this.timers.delete(id);
+    }
+  }
+
+  private loadLastRuns(): Record<string, number> {
+    const result: Record<string, number> = {};
+    for (const [id, value] of Object.entries(this.storage.read(storageKeys.schedulerLastRun) ?? {})) {
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        result[id] = value;
+      }
+    }
+    return result;
+  }
+
+  private saveLastRun(id: string, at: number): void {
+    this.storage.write(storageKeys.schedulerLastRun, { ...this.loadLastRuns(), [id]: at });
+  }
+
+  private loadHistory(): JobRun[] {
+    return this.storage.read(storageKeys.schedulerHistory) ?? [];
+  }
+}
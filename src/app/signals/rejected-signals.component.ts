@@ -0,0 +1,31 @@
+import { CommonModule } from '@angular/common';
+import { Component, inject } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { webhookSchemaVersion } from '../webhook/signal-schema';
+import { WebhookService } from '../webhook/webhook.service';
+
+@Component({
+  selector: 'app-rejected-signals',
+  standalone: true,
+  imports: [CommonModule, RouterLink],
+  templateUrl: './rejected-signals.component.html',
+  styleUrl: './rejected-signals.component.css'
+})
+export class RejectedSignalsComponent {
+  private readonly webhookService = inject(WebhookService);
+
+  readonly schemaVersion = webhookSchemaVersion;
+  readonly dedupWindowMinutes = this.webhookService.dedupWindowMs / 60_000;
+  readonly rejected$ = this.webhookService.rejected$;
+
+  clear(): void {
+    this.webhookService.clearRejected();
+  }
+
+  formatTime(value: number): string {
+    return new Date(value).toLocaleString('en-IN', {
+      timeZone: 'Asia/Kolkata',
+      hour12: false
+    });
+  }
+}
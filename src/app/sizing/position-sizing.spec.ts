@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SizingInput,
+  SizingSettings,
+  createSizer,
+  defaultSizingByMode,
+  defaultSizingSettings,
+  positionQuantity,
+  sizingModeFor
+} from './position-sizing';
+
+const input: SizingInput = { ltp: 102, lot: 65, threshold: 100, capital: 100000, cumulativePnl: 0 };
+
+function lotsWith(settings: Partial<SizingSettings>, overrides: Partial<SizingInput> = {}): number {
+  return createSizer({ ...defaultSizingSettings(), ...settings }).lots({ ...input, ...overrides });
+}
+
+describe('position sizing', () => {
+  it('rounds fixed capital down instead of over-allocating', () => {
+    expect(lotsWith({ kind: 'fixed-capital' })).toBe(15);
+  });
+
+  it('uses a fixed lot count', () => {
+    expect(lotsWith({ kind: 'fixed-lots', fixedLots: 3 })).toBe(3);
+  });
+
+  it('sizes percent of equity including the running cumulative PnL', () => {
+    expect(lotsWith({ kind: 'percent-equity', equityPercent: 50 })).toBe(7);
+    expect(lotsWith({ kind: 'percent-equity', equityPercent: 50 }, { cumulativePnl: 40000 })).toBe(10);
+  });
+
+  it('sizes risk per trade from the distance to the FSM threshold', () => {
+    expect(lotsWith({ kind: 'risk-per-trade', riskPerTrade: 1000 })).toBe(7);
+    expect(lotsWith({ kind: 'risk-per-trade', riskPerTrade: 1000 }, { threshold: null })).toBe(15);
+  });
+
+  it('caps lots per instrument', () => {
+    expect(lotsWith({ kind: 'fixed-capital', maxLots: 4 })).toBe(4);
+  });
+
+  it('picks the mode from the strategy key', () => {
+    const sizing = defaultSizingByMode();
+    sizing['btc-short'] = { ...defaultSizingSettings(), kind: 'fixed-lots', fixedLots: 2 };
+    expect(sizingModeFor('BTCUSDT:btc-short')).toBe('btc-short');
+    expect(sizingModeFor('BTCUSDT_SHORT')).toBe('btc-short');
+    expect(sizingModeFor('BTCUSDT')).toBe('btc');
+    expect(sizingModeFor('NIFTY2610625950CE')).toBe('zerodha6');
+    expect(positionQuantity(sizing, 'BTCUSDT:btc-short', { ...input, lot: 1 })).toBe(2);
+    expect(positionQuantity(sizing, 'NIFTY2610625950CE', input)).toBe(15 * 65);
+  });
+
+  it('sizes zero lots instead of forcing one when the sizer cannot afford any', () => {
+    const sizing = defaultSizingByMode();
+    expect(positionQuantity(sizing, 'NIFTY2610625950CE', { ...input, capital: 1000 })).toBe(0);
+    sizing['zerodha6'] = { ...defaultSizingSettings(), kind: 'percent-equity', equityPercent: 100 };
+    expect(positionQuantity(sizing, 'NIFTY2610625950CE', { ...input, cumulativePnl: -150000 })).toBe(0);
+  });
+});
@@ -0,0 +1,134 @@
+import { strategies, strategyForKey } from '../strategies/strategy-config';
+
+// One sizing profile per declared strategy, keyed by strategy id.
+export type SizingMode = string;
+
+export type SizingKind = 'fixed-lots' | 'fixed-capital' | 'percent-equity' | 'risk-per-trade';
+
+export type SizingSettings = {
+  kind: SizingKind;
+  fixedLots: number;
+  equityPercent: number;
+  riskPerTrade: number;
+  maxLots: number;
+};
+
+export type SizingSettingsByMode = Record<SizingMode, SizingSettings>;
+
+export type SizingInput = {
+  ltp: number;
+  lot: number;
+  threshold: number | null;
+  capital: number;
+  cumulativePnl: number;
+};
+
+export type PositionSizer = {
+  kind: SizingKind;
+  lots: (input: SizingInput) => number;
+};
+
+export const sizingModes: SizingMode[] = strategies.map((strategy) => strategy.id);
+
+export const sizingKinds: SizingKind[] = ['fixed-lots', 'fixed-capital', 'percent-equity', 'risk-per-trade'];
+
+export function defaultSizingSettings(): SizingSettings {
+  return {
+    kind: 'fixed-capital',
+    fixedLots: 1,
+    equityPercent: 100,
+    riskPerTrade: 1000,
+    maxLots: 0
+  };
+}
+
+export function defaultSizingByMode(): SizingSettingsByMode {
+  return Object.fromEntries(
+    strategies.map((strategy) => [strategy.id, { ...defaultSizingSettings(), ...strategy.sizing }])
+  );
+}
+
+export function fixedLotsSizer(lots: number): PositionSizer {
+  return { kind: 'fixed-lots', lots: () => Math.floor(lots) };
+}
+
+export function fixedCapitalSizer(): PositionSizer {
+  return { kind: 'fixed-capital', lots: (input) => Math.floor(input.capital / (input.lot * input.ltp)) };
+}
+
+export function percentEquitySizer(percent: number): PositionSizer {
+  return {
+    kind: 'percent-equity',
+    lots: (input) => {
+      const equity = Math.max(0, input.capital + input.cumulativePnl);
+      return Math.floor((equity * percent) / 100 / (input.lot * input.ltp));
+    }
+  };
+}
+
+export function riskPerTradeSizer(riskPerTrade: number): PositionSizer {
+  const fallback = fixedCapitalSizer();
+  return {
+    kind: 'risk-per-trade',
+    lots: (input) => {
+      const distance = input.threshold === null ? 0 : Math.abs(input.ltp - input.threshold);
+      if (distance <= 0) {
+        return fallback.lots(input);
+      }
+      return Math.floor(riskPerTrade / (distance * input.lot));
+    }
+  };
+}
+
+export function withMaxLots(sizer: PositionSizer, maxLots: number): PositionSizer {
+  if (maxLots <= 0) {
+    return sizer;
+  }
+  return { kind: sizer.kind, lots: (input) => Math.min(maxLots, sizer.lots(input)) };
+}
+
+export function createSizer(settings: SizingSettings): PositionSizer {
+  let sizer: PositionSizer;
+  switch (settings.kind) {
+    case 'fixed-lots':
+      sizer = fixedLotsSizer(settings.fixedLots);
+      break;
+    case 'percent-equity':
+      sizer = percentEquitySizer(settings.equityPercent);
+      break;
+    case 'risk-per-trade':
+      sizer = riskPerTradeSizer(settings.riskPerTrade);
+      break;
+    default:
+      sizer = fixedCapitalSizer();
+  }
+  return withMaxLots(sizer, settings.maxLots);
+}
+
+export function sizingModeFor(symbol: string): SizingMode {
+  return strategyForKey(symbol).id;
+}
+
+// Zero when the sizer cannot afford a single lot; callers skip the entry rather than over-allocate.
+export function positionQuantity(sizing: SizingSettingsByMode, symbol: string, input: SizingInput): number {
+  const lots = createSizer(sizing[sizingModeFor(symbol)] ?? defaultSizingSettings()).lots(input);
+  return Number.isFinite(lots) && lots > 0 ? lots * input.lot : 0;
+}
+
+export function normalizeSizingSettings(value: unknown): SizingSettings {
+  const settings = defaultSizingSettings();
+  if (typeof value !== 'object' || value === null) {
+    return settings;
+  }
+  const candidate = value as Partial<Record<keyof SizingSettings, unknown>>;
+  if (typeof candidate.kind === 'string' && (sizingKinds as string[]).includes(candidate.kind)) {
+    settings.kind = candidate.kind as SizingKind;
+  }
+  for (const key of ['fixedLots', 'equityPercent', 'riskPerTrade', 'maxLots'] as const) {
+    const parsed = Number(candidate[key]);
+    if (Number.isFinite(parsed) && parsed >= 0) {
+      settings[key] = parsed;
+    }
+  }
+  return settings;
+}
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { isFeedStale } from './feed-health.service';
+
+describe('isFeedStale', () => {
+  it('measures silence from the last event or from when watching started', () => {
+    expect(isFeedStale(null, 0, 15000, 15000, true)).toBe(false);
+    expect(isFeedStale(null, 0, 15001, 15000, true)).toBe(true);
+    expect(isFeedStale(10000, 0, 20000, 15000, true)).toBe(false);
+    expect(isFeedStale(10000, 0, 25001, 15000, true)).toBe(true);
+  });
+
+  it('never flags a feed outside its active hours', () => {
+    expect(isFeedStale(0, 0, 60000, 15000, false)).toBe(false);
+  });
+});
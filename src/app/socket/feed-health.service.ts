@@ -0,0 +1,167 @@
+import { Injectable, OnDestroy, inject } from '@angular/core';
+import { BehaviorSubject, Observable, Subscription } from 'rxjs';
+import { MarketCalendar, isMarketOpen } from '../calendar/market-calendar';
+import { MarketCalendarService } from '../calendar/market-calendar.service';
+import { strategyForKey } from '../strategies/strategy-config';
+import { FSM_CLOCK } from '../tick/fsm-clock';
+import { StorageService } from '../storage/storage.service';
+import { storageKeys } from '../storage/storage-keys';
+import { TabLeaderService } from '../tabs/tab-leader.service';
+import { TickFsmStateService } from '../tick/tick-fsm-state.service';
+import { MarketSocketService } from './market-socket.service';
+
+export type FeedId = 'ticks' | 'binance:ws';
+
+export type StaleFeedPolicy = 'alert' | 'block' | 'flatten';
+
+export type FeedHealth = {
+  feed: FeedId;
+  lastEventAt: number | null;
+  thresholdMs: number;
+  stale: boolean;
+};
+
+type FeedDefinition = {
+  feed: FeedId;
+  defaultThresholdMs: number;
+  isActive: (now: number, calendar: MarketCalendar) => boolean;
+  ownsSymbol: (symbol: string) => boolean;
+};
+
+const feedDefinitions: FeedDefinition[] = [
+  {
+    feed: 'ticks',
+    defaultThresholdMs: 15000,
+    isActive: (now, calendar) => isMarketOpen(calendar, 'NFO', now),
+    ownsSymbol: (symbol) => strategyForKey(symbol).feed === 'zerodha'
+  },
+  {
+    feed: 'binance:ws',
+    defaultThresholdMs: 10000,
+    isActive: () => true,
+    ownsSymbol: (symbol) => strategyForKey(symbol).feed === 'binance'
+  }
+];
+
+export function isFeedStale(
+  lastEventAt: number | null,
+  watchingSince: number,
+  now: number,
+  thresholdMs: number,
+  active: boolean
+): boolean {
+  if (!active) {
+    return false;
+  }
+  return now - Math.max(lastEventAt ?? 0, watchingSince) > thresholdMs;
+}
+
+@Injectable({ providedIn: 'root' })
+export class FeedHealthService implements OnDestroy {
+  private readonly socketService = inject(MarketSocketService);
+  private readonly fsmStateService = inject(TickFsmStateService);
+  private readonly calendarService = inject(MarketCalendarService);
+  private readonly clock = inject(FSM_CLOCK);
+  private readonly tabLeader = inject(TabLeaderService);
+  private readonly storage = inject(StorageService);
+  private readonly subs = new Subscription();
+  private watchingSince = this.clock.now();
+  private readonly lastEventAtByFeed = new Map<FeedId, number>();
+  private readonly healthSubject: BehaviorSubject<FeedHealth[]>;
+  private readonly timer: ReturnType<typeof setInterval>;
+
+  readonly health$: Observable<FeedHealth[]>;
+
+  policy = this.loadPolicy();
+  thresholdMsByFeed: Record<FeedId, number> = this.loadThresholds();
+
+  constructor() {
+    this.healthSubject = new BehaviorSubject<FeedHealth[]>(
+      feedDefinitions.map((definition) => ({
+        feed: definition.feed,
+        lastEventAt: null,
+        thresholdMs: this.thresholdMsByFeed[definition.feed],
+        stale: false
+      }))
+    );
+    this.health$ = this.healthSubject.asObservable();
+    for (const definition of feedDefinitions) {
+      this.subs.add(
+        this.socketService.on<unknown>(definition.feed).subscribe(() => {
+          this.lastEventAtByFeed.set(definition.feed, this.clock.now());
+        })
+      );
+    }
+    this.subs.add(
+      this.tabLeader.isLeader$.subscribe((isLeader) => {
+        if (isLeader) {
+          this.watchingSince = this.clock.now();
+        }
+      })
+    );
+    this.timer = setInterval(() => this.check(), 1000);
+  }
+
+  ngOnDestroy(): void {
+    clearInterval(this.timer);
+    this.subs.unsubscribe();
+  }
+
+  isStale(feed: FeedId): boolean {
+    return this.healthSubject.value.find((health) => health.feed === feed)?.stale ?? false;
+  }
+
+  saveSettings(): void {
+    this.storage.write(storageKeys.feedHealthPolicy, this.policy);
+    this.storage.write(storageKeys.feedHealthThresholds, this.thresholdMsByFeed);
+    this.check();
+  }
+
+  check(): void {
+    if (!this.tabLeader.isLeader) {
+      return;
+    }
+    const now = this.clock.now();
+    const previous = this.healthSubject.value;
+    const next = feedDefinitions.map((definition): FeedHealth => {
+      const lastEventAt = this.lastEventAtByFeed.get(definition.feed) ?? null;
+      const thresholdMs = this.thresholdMsByFeed[definition.feed];
+      const stale = isFeedStale(lastEventAt, this.watchingSince, now, thresholdMs, definition.isActive(now, this.calendarService.calendar));
+      const wasStale = previous.find((health) => health.feed === definition.feed)?.stale ?? false;
+      if (stale !== wasStale) {
+        this.onStaleChanged(definition, stale, lastEventAt);
+      }
+      return { feed: definition.feed, lastEventAt, thresholdMs, stale };
+    });
+    this.healthSubject.next(next);
+  }
+
+  private onStaleChanged(definition: FeedDefinition, stale: boolean, lastEventAt: number | null): void {
+    if (stale) {
+      console.warn(
+        `[feed-health] stale feed=${definition.feed} lastEventAt=${lastEventAt ?? '--'} policy=${this.policy}`
+      );
+    } else {
+      console.log(`[feed-health] recovered feed=${definition.feed}`);
+    }
+    this.fsmStateService.setStale(definition.ownsSymbol, stale);
+  }
+
+  private loadPolicy(): StaleFeedPolicy {
+    return this.storage.read(storageKeys.feedHealthPolicy) ?? 'alert';
+  }
+
+  private loadThresholds(): Record<FeedId, number> {
+    const defaults = Object.fromEntries(
+      feedDefinitions.map((definition) => [definition.feed, definition.defaultThresholdMs])
+    ) as Record<FeedId, number>;
+    const parsed = this.storage.read(storageKeys.feedHealthThresholds) ?? {};
+    for (const definition of feedDefinitions) {
+      const value = parsed[definition.feed];
+      if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+        defaults[definition.feed] = value;
+      }
+    }
+    return defaults;
+  }
+}
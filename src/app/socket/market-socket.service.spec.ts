@@ -0,0 +1,95 @@
+import { TestBed } from '@angular/core/testing';
+import { BehaviorSubject } from 'rxjs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SessionRecorderService } from '../recorder/session-recorder.service';
+import { StorageService } from '../storage/storage.service';
+import { TabLeaderService } from '../tabs/tab-leader.service';
+import { MARKET_SOCKET_URL, MarketSocketService } from './market-socket.service';
+
+type Handler = (payload: unknown) => void;
+
+const { io } = vi.hoisted(() => ({ io: vi.fn() }));
+
+vi.mock('socket.io-client', () => ({ io }));
+
+function fakeSocket() {
+  const handlers = new Map<string, Set<Handler>>();
+  return {
+    on: vi.fn((event: string, handler: Handler) => {
+      handlers.set(event, (handlers.get(event) ?? new Set()).add(handler));
+    }),
+    off: vi.fn((event: string, handler: Handler) => handlers.get(event)?.delete(handler)),
+    onAny: vi.fn(),
+    offAny: vi.fn(),
+    removeAllListeners: vi.fn(() => handlers.clear()),
+    disconnect: vi.fn(),
+    emit(event: string, payload: unknown) {
+      handlers.get(event)?.forEach((handler) => handler(payload));
+    }
+  };
+}
+
+describe('MarketSocketService', () => {
+  let leader: BehaviorSubject<boolean>;
+
+  beforeEach(() => {
+    io.mockReset();
+    io.mockImplementation(() => fakeSocket());
+    leader = new BehaviorSubject(true);
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: MARKET_SOCKET_URL, useValue: 'http://localhost:3002' },
+        { provide: SessionRecorderService, useValue: { record: vi.fn() } },
+        { provide: StorageService, useValue: { read: () => null, write: vi.fn(), remove: vi.fn() } },
+        { provide: TabLeaderService, useValue: { isLeader$: leader, get isLeader() { return leader.value; } } }
+      ]
+    });
+  });
+
+  it('shares a single connection across every subscriber', () => {
+    const service = TestBed.inject(MarketSocketService);
+    const ticks: unknown[] = [];
+    const webhooks: unknown[] = [];
+    service.on('ticks').subscribe((payload) => ticks.push(payload));
+    service.on('ticks').subscribe((payload) => ticks.push(payload));
+    service.on('webhook').subscribe((payload) => webhooks.push(payload));
+
+    expect(TestBed.inject(MarketSocketService)).toBe(service);
+    expect(io).toHaveBeenCalledTimes(1);
+    expect(io).toHaveBeenCalledWith('http://localhost:3002');
+
+    const socket = io.mock.results[0].value as ReturnType<typeof fakeSocket>;
+    socket.emit('ticks', { instrument_token: 11 });
+    socket.emit('webhook', { symbol: 'NIFTY' });
+    expect(ticks).toEqual([{ instrument_token: 11 }, { instrument_token: 11 }]);
+    expect(webhooks).toEqual([{ symbol: 'NIFTY' }]);
+  });
+
+  it('detaches follower tabs without opening another connection', () => {
+    const service = TestBed.inject(MarketSocketService);
+    const ticks: unknown[] = [];
+    service.on('ticks').subscribe((payload) => ticks.push(payload));
+    const socket = io.mock.results[0].value as ReturnType<typeof fakeSocket>;
+
+    leader.next(false);
+    socket.emit('ticks', { instrument_token: 11 });
+    leader.next(true);
+    socket.emit('ticks', { instrument_token: 12 });
+
+    expect(ticks).toEqual([{ instrument_token: 12 }]);
+    expect(io).toHaveBeenCalledTimes(1);
+  });
+
+  it('replaces the connection when the URL changes', () => {
+    const service = TestBed.inject(MarketSocketService);
+    const previous = io.mock.results[0].value as ReturnType<typeof fakeSocket>;
+
+    service.setUrl('127.0.0.1:4000');
+
+    expect(previous.disconnect).toHaveBeenCalled();
+    expect(io).toHaveBeenCalledTimes(2);
+    expect(io).toHaveBeenLastCalledWith('http://127.0.0.1:4000');
+    expect(service.status.url).toBe('http://127.0.0.1:4000');
+  });
+});
@@ -0,0 +1,141 @@
+import { Injectable, InjectionToken, OnDestroy, inject } from '@angular/core';
+import { io, Socket } from 'socket.io-client';
+import { BehaviorSubject, EMPTY, Observable, combineLatest, distinctUntilChanged, switchMap } from 'rxjs';
+import { RecordedChannel, SessionRecorderService } from '../recorder/session-recorder.service';
+import { StorageService } from '../storage/storage.service';
+import { storageKeys } from '../storage/storage-keys';
+import { TabLeaderService } from '../tabs/tab-leader.service';
+
+export type SocketConnectionState = 'connecting' | 'connected' | 'disconnected' | 'error';
+
+export type SocketStatus = {
+  state: SocketConnectionState;
+  url: string;
+  socketId: string | null;
+  detail: string | null;
+  changedAt: number;
+};
+
+export const MARKET_SOCKET_URL = new InjectionToken<string>('MARKET_SOCKET_URL', {
+  providedIn: 'root',
+  factory: () => 'http://localhost:3002'
+});
+
+const recordedChannels: RecordedChannel[] = ['webhook', 'ticks', 'binance:ws', 'delta:ws', 'delta:rest', 'order:update'];
+
+@Injectable({ providedIn: 'root' })
+export class MarketSocketService implements OnDestroy {
+  private readonly defaultUrl = inject(MARKET_SOCKET_URL);
+  private readonly recorder = inject(SessionRecorderService);
+  private readonly tabLeader = inject(TabLeaderService);
+  private readonly storage = inject(StorageService);
+  private readonly socketSubject: BehaviorSubject<Socket>;
+  private readonly statusSubject: BehaviorSubject<SocketStatus>;
+
+  readonly status$: Observable<SocketStatus>;
+
+  constructor() {
+    const url = this.loadUrl();
+    this.statusSubject = new BehaviorSubject<SocketStatus>(this.buildStatus('connecting', url));
+    this.socketSubject = new BehaviorSubject<Socket>(this.connect(url));
+    this.status$ = this.statusSubject.asObservable();
+  }
+
+  get url(): string {
+    return this.statusSubject.value.url;
+  }
+
+  get status(): SocketStatus {
+    return this.statusSubject.value;
+  }
+
+  on<T>(event: string): Observable<T> {
+    return combineLatest([this.socketSubject.pipe(distinctUntilChanged()), this.tabLeader.isLeader$]).pipe(
+      switchMap(([socket, isLeader]) =>
+        !isLeader
+          ? EMPTY
+          : new Observable<T>((subscriber) => {
+              const handler = (payload: T) => subscriber.next(payload);
+              socket.on(event, handler);
+              return () => socket.off(event, handler);
+            })
+      )
+    );
+  }
+
+  setUrl(url: string): void {
+    const nextUrl = this.normalizeUrl(url) ?? this.defaultUrl;
+    if (nextUrl === this.url) {
+      return;
+    }
+    if (url.trim()) {
+      this.storage.write(storageKeys.socketUrl, nextUrl);
+    } else {
+      this.storage.remove(storageKeys.socketUrl);
+    }
+    const previous = this.socketSubject.value;
+    previous.removeAllListeners();
+    previous.offAny();
+    previous.disconnect();
+    this.statusSubject.next(this.buildStatus('connecting', nextUrl));
+    this.socketSubject.next(this.connect(nextUrl));
+  }
+
+  ngOnDestroy(): void {
+    this.socketSubject.value.disconnect();
+    this.socketSubject.complete();
+    this.statusSubject.complete();
+  }
+
+  private connect(url: string): Socket {
+    const socket = io(url);
+    console.log(`[socket] connecting url=${url}`);
+
+    socket.on('connect', () => {
+      console.log('[socket] connected', socket.id);
+      this.statusSubject.next(this.buildStatus('connected', url, socket.id ?? null));
+    });
+
+    socket.on('disconnect', (reason) => {
+      console.warn('[socket] disconnected', reason);
+      this.statusSubject.next(this.buildStatus('disconnected', url, null, reason));
+    });
+
+    socket.on('connect_error', (error) => {
+      console.error('[socket] connect error', error);
+      this.statusSubject.next(this.buildStatus('error', url, null, error.message));
+    });
+
+    socket.onAny((event: string, payload: unknown) => {
+      if (this.tabLeader.isLeader && recordedChannels.includes(event as RecordedChannel)) {
+        this.recorder.record(event as RecordedChannel, payload);
+      }
+    });
+
+    return socket;
+  }
+
+  private buildStatus(
+    state: SocketConnectionState,
+    url: string,
+    socketId: string | null = null,
+    detail: string | null = null
+  ): SocketStatus {
+    return { state, url, socketId, detail, changedAt: Date.now() };
+  }
+
+  private loadUrl(): string {
+    return this.normalizeUrl(this.storage.read(storageKeys.socketUrl) ?? '') ?? this.defaultUrl;
+  }
+
+  private normalizeUrl(value: string): string | null {
+    const trimmed = value.trim();
+    if (!trimmed) {
+      return null;
+    }
+    if (trimmed.startsWith('http://') || trimmed.startsWith('https://')) {
+      return trimmed.replace(/\/+$/, '');
+    }
+    return `http://${trimmed.replace(/\/+$/, '')}`;
+  }
+}
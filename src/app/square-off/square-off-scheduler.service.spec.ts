@@ -0,0 +1,81 @@
+import { TestBed } from '@angular/core/testing';
+import { BehaviorSubject } from 'rxjs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Exchange, defaultMarketCalendar, nextOpen } from '../calendar/market-calendar';
+import { MarketCalendarService } from '../calendar/market-calendar.service';
+import { StorageService } from '../storage/storage.service';
+import { StorageEntry } from '../storage/storage-schema';
+import { TabLeaderService } from '../tabs/tab-leader.service';
+import { WebhookStateService } from '../webhook/webhook-state.service';
+import { SquareOffSchedulerService } from './square-off-scheduler.service';
+
+describe('SquareOffSchedulerService', () => {
+  const calendar = defaultMarketCalendar();
+  const nextMorning = Date.parse('2026-10-20T09:15:00+05:30');
+  let leader: BehaviorSubject<boolean>;
+  let squareOffZerodha: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-10-19T09:00:00+05:30'));
+    leader = new BehaviorSubject(true);
+    squareOffZerodha = vi.fn();
+    const stored = new Map<string, unknown>();
+
+    TestBed.configureTestingModule({
+      providers: [
+        { provide: TabLeaderService, useValue: { isLeader$: leader, get isLeader() { return leader.value; } } },
+        { provide: WebhookStateService, useValue: { squareOffZerodha } },
+        {
+          provide: StorageService,
+          useValue: {
+            read: (entry: StorageEntry<unknown>) => stored.get(entry.key) ?? null,
+            write: (entry: StorageEntry<unknown>, value: unknown) => stored.set(entry.key, value),
+            remove: (entry: StorageEntry<unknown>) => stored.delete(entry.key)
+          }
+        },
+        {
+          provide: MarketCalendarService,
+          useValue: {
+            calendar,
+            calendar$: new BehaviorSubject(calendar),
+            whenLoaded: () => Promise.resolve(),
+            nextOpen: (exchange: Exchange, now: number) => nextOpen(calendar, exchange, now)
+          }
+        }
+      ]
+    });
+  });
+
+  afterEach(() => {
+    TestBed.resetTestingModule();
+    vi.useRealTimers();
+  });
+
+  it('squares off at the cutoff and blocks entries until the next session opens', async () => {
+    const service = TestBed.inject(SquareOffSchedulerService);
+    const squareOffs: number[] = [];
+    service.squareOff$.subscribe((at) => squareOffs.push(at));
+
+    await vi.advanceTimersByTimeAsync(Date.parse('2026-10-19T15:14:59+05:30') - Date.now());
+    expect(squareOffZerodha).not.toHaveBeenCalled();
+    expect(service.isEntryBlocked(Date.now())).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(squareOffs).toEqual([Date.parse('2026-10-19T15:15:00+05:30')]);
+    expect(squareOffZerodha).toHaveBeenCalledExactlyOnceWith(nextMorning);
+    expect(service.isEntryBlocked(Date.now())).toBe(true);
+    expect(service.isEntryBlocked(nextMorning - 1)).toBe(true);
+    expect(service.isEntryBlocked(nextMorning)).toBe(false);
+  });
+
+  it('leaves the square-off to the leader tab', async () => {
+    leader.next(false);
+    const service = TestBed.inject(SquareOffSchedulerService);
+
+    await vi.advanceTimersByTimeAsync(Date.parse('2026-10-19T15:16:00+05:30') - Date.now());
+
+    expect(squareOffZerodha).not.toHaveBeenCalled();
+    expect(service.isEntryBlocked(Date.now())).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { Injectable, inject } from '@angular/core';
+import { BehaviorSubject, Subject } from 'rxjs';
+import { MarketCalendarService } from '../calendar/market-calendar.service';
+import { SessionSchedulerService } from '../scheduler/session-scheduler.service';
+import { StorageService } from '../storage/storage.service';
+import { storageKeys } from '../storage/storage-keys';
+import { TabLeaderService } from '../tabs/tab-leader.service';
+import { parseIstTime } from '../tick/market-hours';
+import { WebhookStateService } from '../webhook/webhook-state.service';
+
+export type SquareOffSettings = {
+  enabled: boolean;
+  time: string;
+};
+
+@Injectable({ providedIn: 'root' })
+export class SquareOffSchedulerService {
+  private readonly webhookStateService = inject(WebhookStateService);
+  private readonly tabLeader = inject(TabLeaderService);
+  private readonly calendarService = inject(MarketCalendarService);
+  private readonly scheduler = inject(SessionSchedulerService);
+  private readonly jobId = 'zerodha-square-off';
+  private readonly storage = inject(StorageService);
+  private readonly squareOffSubject = new Subject<number>();
+  private readonly blockedUntilSubject = new BehaviorSubject<number | null>(this.loadBlockedUntil());
+  readonly squareOff$ = this.squareOffSubject.asObservable();
+  readonly blockedUntil$ = this.blockedUntilSubject.asObservable();
+  readonly settings: SquareOffSettings = this.loadSettings();
+
+  constructor() {
+    this.registerJob();
+  }
+
+  isEntryBlocked(now: number): boolean {
+    const blockedUntil = this.blockedUntilSubject.value;
+    return blockedUntil !== null && now < blockedUntil;
+  }
+
+  saveSettings(): void {
+    this.storage.write(storageKeys.squareOffSettings, this.settings);
+    this.registerJob();
+  }
+
+  squareOffNow(): void {
+    if (this.tabLeader.isLeader) {
+      this.runSquareOff(new Date());
+    }
+  }
+
+  private registerJob(): void {
+    const time = parseIstTime(this.settings.time);
+    if (!this.settings.enabled || !time) {
+      this.scheduler.unregister(this.jobId);
+      return;
+    }
+    this.scheduler.register({
+      id: this.jobId,
+      label: 'Zerodha intraday square-off',
+      cron: `${time.minute} ${time.hour} * * *`,
+      market: 'NFO',
+      catchUp: true,
+      run: (now) => this.runSquareOff(now)
+    });
+  }
+
+  private runSquareOff(now: Date): string {
+    const blockedUntil = this.calendarService.nextOpen('NFO', now.getTime()) ?? now.getTime();
+    this.blockedUntilSubject.next(blockedUntil);
+    this.storage.write(storageKeys.squareOffBlockedUntil, blockedUntil);
+    console.log(`[square-off] run at=${now.toISOString()} blockedUntil=${new Date(blockedUntil).toISOString()}`);
+    this.squareOffSubject.next(now.getTime());
+    this.webhookStateService.squareOffZerodha(blockedUntil);
+    return `blockedUntil=${new Date(blockedUntil).toISOString()}`;
+  }
+
+  private loadSettings(): SquareOffSettings {
+    const settings: SquareOffSettings = { enabled: true, time: '15:15' };
+    const { enabled, time } = this.storage.read(storageKeys.squareOffSettings) ?? {};
+    if (typeof enabled === 'boolean') {
+      settings.enabled = enabled;
+    }
+    if (typeof time === 'string' && parseIstTime(time)) {
+      settings.time = time;
+    }
+    return settings;
+  }
+
+  private loadBlockedUntil(): number | null {
+    return this.storage.read(storageKeys.squareOffBlockedUntil);
+  }
+}
@@ -0,0 +1,191 @@
+import type { HistoryBtcSnapshot } from '../history-btc/history-btc.service';
+import type { InstrumentRow } from '../instruments/instrument-universe';
+import type { OrderRecord } from '../orders/order-book';
+import type { PersistedRiskRuntime } from '../risk/risk-manager.service';
+import type { JobRun } from '../scheduler/session-scheduler.service';
+import type { StaleFeedPolicy } from '../socket/feed-health.service';
+import { legacyStrategyKeys } from '../strategies/strategy-config';
+import type { FsmSymbolSnapshot } from '../tick/tick-fsm-state.service';
+import type { Tick } from '../tick/tick.service';
+import type { DedupState } from '../webhook/signal-dedup';
+import type { RejectedSignal } from '../webhook/signal-schema';
+import type { PersistedSnapshot } from '../webhook/webhook-state.service';
+import {
+  Migration,
+  StorageEntry,
+  StorageKind,
+  hasFields,
+  isArrayOf,
+  isBoolean,
+  isEntriesOf,
+  isFiniteNumber,
+  isOptional,
+  isRecord,
+  isRecordOf,
+  isString,
+  unversioned
+} from './storage-schema';
+
+const legacyString: Migration = (value) => (typeof value === 'string' ? value : JSON.stringify(value));
+const legacyBoolean: Migration = (value) => value === true || value === 'true';
+const legacyNumber: Migration = (value) => (typeof value === 'string' && value.trim() ? Number(value) : value);
+
+// v2 keys the BTC long/short variants by strategy; trade ids start with their key, so those move too.
+const renameStrategyKeys: Migration = (value) => {
+  if (typeof value === 'string') {
+    const legacy = Object.keys(legacyStrategyKeys).find((key) => value === key || value.startsWith(`${key}-`));
+    return legacy ? `${legacyStrategyKeys[legacy]}${value.slice(legacy.length)}` : value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(renameStrategyKeys);
+  }
+  return isRecord(value)
+    ? Object.fromEntries(Object.entries(value).map(([field, item]) => [field, renameStrategyKeys(item)]))
+    : value;
+};
+
+// v2 gives the primary BTC strategy its own profile, seeded from the long profile it used to share.
+const seedBtcProfile: Migration = (value) =>
+  isRecord(value) && value['btc'] === undefined && value['btc-long'] !== undefined
+    ? { ...value, btc: value['btc-long'] }
+    : value;
+
+const isNullableString = (value: unknown): value is string | null => value === null || isString(value);
+const isSignalRow = hasFields({ timeIst: isString });
+const isTradeRow = hasFields({ id: isString, timeIst: isString });
+const isTickRow = hasFields({ symbol: isString });
+const isFsmSnapshot = hasFields({ state: isString });
+
+// v2 tags each entry with why it was rejected; everything logged before dedup failed the schema.
+const tagRejectedKind: Migration = (value) =>
+  Array.isArray(value) ? value.map((item) => (isRecord(item) ? { kind: 'invalid', ...item } : item)) : value;
+
+const isSignalState = hasFields({
+  bySymbol: isOptional(isEntriesOf(isArrayOf(isSignalRow))),
+  fsmBySymbol: isOptional(isEntriesOf(isRecord)),
+  paperTradesBySymbol: isOptional(isEntriesOf(isArrayOf(isTradeRow))),
+  symbols: isOptional(isArrayOf(isString))
+});
+
+const isTradeState = hasFields({
+  openBySymbol: isOptional(isEntriesOf(hasFields({ id: isString }))),
+  liveOpenBySymbol: isOptional(isEntriesOf(hasFields({ id: isString }))),
+  tradesBySymbol: isOptional(isEntriesOf(isArrayOf(isTradeRow))),
+  liveTradesBySymbol: isOptional(isEntriesOf(isArrayOf(isTradeRow))),
+  cumulativeBySymbol: isOptional(isEntriesOf(isFiniteNumber)),
+  liveCumulativeBySymbol: isOptional(isEntriesOf(isFiniteNumber)),
+  lastSnapshotBySymbol: isOptional(isEntriesOf(isFsmSnapshot))
+});
+
+const isHistorySnapshot = hasFields({
+  dateKey: isString,
+  capturedAt: isString,
+  symbols: isArrayOf(isString),
+  signalsBySymbol: isRecordOf(isArrayOf(isSignalRow)),
+  paperTradesBySymbol: isRecordOf(isArrayOf(isTradeRow)),
+  liveTradesBySymbol: isRecordOf(isArrayOf(isTradeRow)),
+  ticks: isArrayOf(isTickRow)
+});
+
+function entry<T>(
+  key: string,
+  kind: StorageKind,
+  check: (value: unknown) => boolean,
+  migrations: Migration[] = [unversioned]
+): StorageEntry<T> {
+  return { key, kind, migrations, validate: (value): value is T => check(value) };
+}
+
+export const storageKeys = {
+  webhookState: entry<PersistedSnapshot>(
+    'webhook-state-snapshot-v1',
+    'session',
+    hasFields({ signalStateByMode: isRecordOf(isSignalState), tradeState: isTradeState }),
+    [unversioned, renameStrategyKeys]
+  ),
+  tickFsm: entry<[string, FsmSymbolSnapshot][]>(
+    'tick-fsm-snapshot-v1',
+    'session',
+    isEntriesOf(isFsmSnapshot),
+    [unversioned, renameStrategyKeys]
+  ),
+  historyBtcLatest: entry<HistoryBtcSnapshot>('history-btc-latest', 'cache', isHistorySnapshot),
+  historyZerodhaLatest: entry<HistoryBtcSnapshot>('history-zerodha-latest', 'cache', isHistorySnapshot),
+  tickCache: entry<Tick[]>('tick-cache-latest', 'cache', Array.isArray),
+  rejectedSignals: entry<RejectedSignal[]>(
+    'webhook.rejected',
+    'cache',
+    isArrayOf(hasFields({ at: isFiniteNumber, kind: isString, reason: isString, payload: isString })),
+    [unversioned, tagRejectedKind]
+  ),
+  webhookDedup: entry<DedupState>(
+    'webhook.dedup',
+    'session',
+    hasFields({ seen: isEntriesOf(isFiniteNumber), lastAlertBySymbol: isRecordOf(isFiniteNumber) })
+  ),
+  orderBook: entry<OrderRecord[]>(
+    'order-book-v1',
+    'durable',
+    isArrayOf(hasFields({ clientOrderId: isString, idempotencyKey: isString, status: isString }))
+  ),
+  riskSettings: entry<Record<string, unknown>>('risk.settings', 'durable', isRecord),
+  riskRuntime: entry<Partial<PersistedRiskRuntime>>(
+    'risk.runtime',
+    'durable',
+    hasFields({
+      killSwitch: isOptional(isBoolean),
+      dayKey: isOptional(isNullableString),
+      realizedToday: isOptional(isFiniteNumber),
+      realizedTodayBySymbol: isOptional(isEntriesOf(isFiniteNumber))
+    })
+  ),
+  relayIp: entry<string>('relay.ip', 'durable', isString, [legacyString]),
+  relayPort: entry<string>('relay.port', 'durable', isString, [legacyString]),
+  relayCapital: entry<string>('relay.capital', 'durable', isString, [legacyString]),
+  relayDryRun: entry<boolean>('relay.dryRun', 'durable', isBoolean, [legacyBoolean]),
+  relayOrderHost: entry<string>('relay.orderHost', 'durable', isString, [legacyString]),
+  relayEnabled: entry<boolean>('relay.enabled', 'durable', isBoolean, [legacyBoolean]),
+  relaySizing: entry<Record<string, unknown>>('relay.sizing', 'durable', isRecord, [unversioned, seedBtcProfile]),
+  relayExitRules: entry<Record<string, unknown>>(
+    'relay.exitRules',
+    'durable',
+    isRecord,
+    [unversioned, seedBtcProfile]
+  ),
+  instrumentRegistry: entry<InstrumentRow[]>('instruments.registry', 'durable', isArrayOf(isRecord)),
+  instrumentUniverse: entry<Record<string, unknown>>(
+    'instruments.universe',
+    'durable',
+    hasFields({ groups: isArrayOf(isRecord), disabled: isArrayOf(isString) })
+  ),
+  socketUrl: entry<string>('relay.socketUrl', 'durable', isString, [legacyString]),
+  feedHealthPolicy: entry<StaleFeedPolicy>(
+    'feed-health.policy',
+    'durable',
+    (value) => value === 'alert' || value === 'block' || value === 'flatten',
+    [legacyString]
+  ),
+  feedHealthThresholds: entry<Record<string, unknown>>('feed-health.thresholds', 'durable', isRecord),
+  recorderEnabled: entry<boolean>('recorder.enabled', 'durable', isBoolean, [legacyBoolean]),
+  historyRetentionDays: entry<number>(
+    'history.retentionDays',
+    'durable',
+    (value) => isFiniteNumber(value) && value >= 0,
+    [legacyNumber]
+  ),
+  squareOffSettings: entry<Record<string, unknown>>('square-off.settings', 'durable', isRecord),
+  squareOffBlockedUntil: entry<number>(
+    'square-off-blocked-until',
+    'durable',
+    (value) => isFiniteNumber(value) && value > 0,
+    [legacyNumber]
+  ),
+  schedulerLastRun: entry<Record<string, unknown>>('scheduler.lastRun', 'durable', isRecord),
+  schedulerHistory: entry<JobRun[]>(
+    'scheduler.history',
+    'durable',
+    isArrayOf(hasFields({ jobId: isString, startedAt: isFiniteNumber, finishedAt: isFiniteNumber }))
+  )
+};
+
+export const storageEntries: StorageEntry<unknown>[] = Object.values(storageKeys);
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  StorageArea,
+  StorageEntry,
+  decode,
+  encode,
+  hasFields,
+  isArrayOf,
+  isFiniteNumber,
+  isString,
+  unversioned,
+  writeWithEviction
+} from './storage-schema';
+
+type Settings = {
+  name: string;
+  limits: number[];
+};
+
+const settingsEntry: StorageEntry<Settings> = {
+  key: 'settings',
+  kind: 'durable',
+  migrations: [
+    unversioned,
+    // v1 stored a single limit; v2 keeps a list.
+    (value) => {
+      const { limit, ...rest } = value as { limit: number };
+      return { ...rest, limits: [limit] };
+    }
+  ],
+  validate: hasFields({ name: isString, limits: isArrayOf(isFiniteNumber) }) as StorageEntry<Settings>['validate']
+};
+
+function fakeArea(capacity: number, initial: Record<string, string> = {}): StorageArea & { items: Map<string, string> } {
+  const items = new Map(Object.entries(initial));
+  const used = () => Array.from(items.values()).reduce((total, value) => total + value.length, 0);
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    setItem: (key, value) => {
+      if (used() - (items.get(key)?.length ?? 0) + value.length > capacity) {
+        throw Object.assign(new Error('full'), { name: 'QuotaExceededError' });
+      }
+      items.set(key, value);
+    }
+  };
+}
+
+describe('storage-schema', () => {
+  it('wraps values with the current version and reads them back', () => {
+    const raw = encode(settingsEntry, { name: 'a', limits: [1, 2] });
+    expect(JSON.parse(raw)).toEqual({ v: 2, data: { name: 'a', limits: [1, 2] } });
+    expect(decode(settingsEntry, raw)).toEqual({ ok: true, value: { name: 'a', limits: [1, 2] }, fromVersion: 2 });
+  });
+
+  it('runs migrations in order from unversioned and older envelopes', () => {
+    expect(decode(settingsEntry, '{"name":"legacy","limit":5}')).toEqual({
+      ok: true,
+      value: { name: 'legacy', limits: [5] },
+      fromVersion: 0
+    });
+    expect(decode(settingsEntry, '{"v":1,"data":{"name":"old","limit":7}}')).toMatchObject({
+      ok: true,
+      value: { name: 'old', limits: [7] },
+      fromVersion: 1
+    });
+  });
+
+  it('rejects invalid shapes, newer versions and broken envelopes', () => {
+    expect(decode(settingsEntry, '{"v":2,"data":{"name":1,"limits":[]}}')).toEqual({ ok: false, reason: 'invalid' });
+    expect(decode(settingsEntry, '{"v":3,"data":{}}')).toEqual({ ok: false, reason: 'newer-version' });
+    expect(decode(settingsEntry, '{"v":-1,"data":{}}')).toEqual({ ok: false, reason: 'malformed' });
+    expect(decode(settingsEntry, 'not json')).toEqual({ ok: false, reason: 'invalid' });
+  });
+
+  it('evicts listed keys in order until a write fits', () => {
+    const area = fakeArea(20, { cacheA: '12345', cacheB: '12345', keep: '12345' });
+    const result = writeWithEviction(area, 'state', '12345678', ['cacheA', 'cacheB']);
+    expect(result).toEqual({ written: true, evicted: ['cacheA'] });
+    expect(Array.from(area.items.keys()).sort()).toEqual(['cacheB', 'keep', 'state']);
+    expect(writeWithEviction(area, 'huge', 'x'.repeat(30), ['cacheB'])).toEqual({ written: false, evicted: ['cacheB'] });
+    expect(area.items.has('keep')).toBe(true);
+  });
+});
@@ -0,0 +1,144 @@
+export type StorageKind = 'session' | 'cache' | 'durable';
+
+export type Migration = (value: unknown) => unknown;
+
+export type Guard<T> = (value: unknown) => value is T;
+
+export type StorageEntry<T> = {
+  key: string;
+  // session: cleared by reset; cache: cleared by reset and evicted first when the quota is hit; durable: kept.
+  kind: StorageKind;
+  // migrations[n] upgrades a value stored at version n to n + 1, so the current version is migrations.length.
+  // Version 0 is the bare JSON (or plain string) written before values were versioned.
+  migrations: Migration[];
+  validate: Guard<T>;
+};
+
+export type StoredValue = {
+  v: number;
+  data: unknown;
+};
+
+export type DecodeFailure = 'malformed' | 'newer-version' | 'migration-failed' | 'invalid';
+
+export type Decoded<T> =
+  | { ok: true; value: T; fromVersion: number }
+  | { ok: false; reason: DecodeFailure };
+
+export type StorageArea = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export type WriteResult = {
+  written: boolean;
+  evicted: string[];
+};
+
+export const unversioned: Migration = (value) => value;
+
+export function currentVersion(entry: StorageEntry<unknown>): number {
+  return entry.migrations.length;
+}
+
+export function encode<T>(entry: StorageEntry<T>, value: T): string {
+  const stored: StoredValue = { v: currentVersion(entry), data: value };
+  return JSON.stringify(stored);
+}
+
+export function decode<T>(entry: StorageEntry<T>, raw: string): Decoded<T> {
+  const stored = unwrap(raw);
+  if (!stored) {
+    return { ok: false, reason: 'malformed' };
+  }
+  const target = currentVersion(entry);
+  if (stored.v > target) {
+    return { ok: false, reason: 'newer-version' };
+  }
+  let value = stored.data;
+  try {
+    for (const migration of entry.migrations.slice(stored.v)) {
+      value = migration(value);
+    }
+  } catch {
+    return { ok: false, reason: 'migration-failed' };
+  }
+  return entry.validate(value) ? { ok: true, value, fromVersion: stored.v } : { ok: false, reason: 'invalid' };
+}
+
+// Evicts the listed keys in order until the write fits; any other storage error gives up straight away.
+export function writeWithEviction(area: StorageArea, key: string, raw: string, evictable: string[]): WriteResult {
+  const evicted: string[] = [];
+  const candidates = evictable.filter((candidate) => candidate !== key);
+  for (;;) {
+    try {
+      area.setItem(key, raw);
+      return { written: true, evicted };
+    } catch (error) {
+      if (!isQuotaError(error)) {
+        return { written: false, evicted };
+      }
+      const next = candidates.find((candidate) => !evicted.includes(candidate) && area.getItem(candidate) !== null);
+      if (next === undefined) {
+        return { written: false, evicted };
+      }
+      area.removeItem(next);
+      evicted.push(next);
+    }
+  }
+}
+
+export function isQuotaError(error: unknown): boolean {
+  const name = typeof error === 'object' && error !== null ? (error as { name?: unknown }).name : null;
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED';
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+export function isBoolean(value: unknown): value is boolean {
+  return typeof value === 'boolean';
+}
+
+export function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+export function isArrayOf<T>(guard: Guard<T>): Guard<T[]> {
+  return (value): value is T[] => Array.isArray(value) && value.every(guard);
+}
+
+export function isRecordOf<T>(guard: Guard<T>): Guard<Record<string, T>> {
+  return (value): value is Record<string, T> => isRecord(value) && Object.values(value).every(guard);
+}
+
+export function isEntriesOf<T>(guard: Guard<T>): Guard<[string, T][]> {
+  return (value): value is [string, T][] =>
+    Array.isArray(value)
+    && value.every((item) => Array.isArray(item) && item.length === 2 && typeof item[0] === 'string' && guard(item[1]));
+}
+
+export function isOptional<T>(guard: Guard<T>): Guard<T | undefined> {
+  return (value): value is T | undefined => value === undefined || guard(value);
+}
+
+export function hasFields(fields: Record<string, Guard<unknown>>): Guard<Record<string, unknown>> {
+  return (value): value is Record<string, unknown> =>
+    isRecord(value) && Object.entries(fields).every(([field, guard]) => guard(value[field]));
+}
+
+function unwrap(raw: string): StoredValue | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    // Plain strings were stored without JSON encoding before versioning.
+    return { v: 0, data: raw };
+  }
+  if (isRecord(parsed) && 'data' in parsed && typeof parsed['v'] === 'number') {
+    return Number.isInteger(parsed['v']) && parsed['v'] >= 0 ? { v: parsed['v'], data: parsed['data'] } : null;
+  }
+  return { v: 0, data: parsed };
+}
@@ -0,0 +1,84 @@
+import { Injectable } from '@angular/core';
+import { storageEntries } from './storage-keys';
+import { StorageEntry, currentVersion, decode, encode, writeWithEviction } from './storage-schema';
+
+@Injectable({ providedIn: 'root' })
+export class StorageService {
+  read<T>(entry: StorageEntry<T>): T | null {
+    const area = this.area();
+    if (!area) {
+      return null;
+    }
+    try {
+      return this.decodeRaw(entry, area.getItem(entry.key));
+    } catch {
+      return null;
+    }
+  }
+
+  // Also used for cross-tab storage events, which carry the raw stored string.
+  decodeRaw<T>(entry: StorageEntry<T>, raw: string | null): T | null {
+    if (raw === null) {
+      return null;
+    }
+    const decoded = decode(entry, raw);
+    if (!decoded.ok) {
+      console.warn(`[storage] discard key=${entry.key} reason=${decoded.reason}`);
+      // A newer build in another tab owns values it wrote; leave them alone.
+      if (decoded.reason !== 'newer-version') {
+        this.remove(entry);
+      }
+      return null;
+    }
+    if (decoded.fromVersion !== currentVersion(entry)) {
+      console.log(`[storage] migrated key=${entry.key} from=${decoded.fromVersion} to=${currentVersion(entry)}`);
+      this.write(entry, decoded.value);
+    }
+    return decoded.value;
+  }
+
+  write<T>(entry: StorageEntry<T>, value: T): boolean {
+    const area = this.area();
+    if (!area) {
+      return false;
+    }
+    try {
+      const evictable = storageEntries.filter((candidate) => candidate.kind === 'cache').map((candidate) => candidate.key);
+      const result = writeWithEviction(area, entry.key, encode(entry, value), evictable);
+      for (const key of result.evicted) {
+        console.warn(`[storage] evicted key=${key} for=${entry.key}`);
+      }
+      if (!result.written) {
+        console.warn(`[storage] write failed key=${entry.key}`);
+      }
+      return result.written;
+    } catch {
+      return false;
+    }
+  }
+
+  remove(entry: { key: string }): void {
+    try {
+      this.area()?.removeItem(entry.key);
+    } catch {
+      // ignore storage errors
+    }
+  }
+
+  // Clears session state and caches; settings and the order book survive a reset.
+  resetAll(): void {
+    const cleared = storageEntries.filter((entry) => entry.kind !== 'durable');
+    for (const entry of cleared) {
+      this.remove(entry);
+    }
+    console.log(`[storage] reset keys=${cleared.map((entry) => entry.key).join('|')}`);
+  }
+
+  private area(): Storage | null {
+    try {
+      return typeof localStorage === 'undefined' ? null : localStorage;
+    } catch {
+      return null;
+    }
+  }
+}
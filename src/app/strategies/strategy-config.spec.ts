@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { NormalizedSignal } from '../webhook/signal-schema';
+import { routeSignal, strategies, strategyById, strategyForKey, strategyKey, symbolForKey } from './strategy-config';
+
+function signal(overrides: Partial<NormalizedSignal> = {}): NormalizedSignal {
+  return {
+    schemaVersion: 1,
+    symbol: 'BTCUSDT',
+    signal: 'BUY',
+    intent: 'ENTRY',
+    stoppx: 100,
+    direction: null,
+    strategyId: null,
+    alertId: null,
+    alertTime: null,
+    ...overrides
+  };
+}
+
+describe('strategy-config', () => {
+  it('declares unique ids', () => {
+    const ids = strategies.map((strategy) => strategy.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('routes untagged signals to every strategy on the symbol that takes the side', () => {
+    expect(routeSignal(signal()).map((strategy) => strategy.id)).toEqual(['btc', 'btc-long']);
+    expect(routeSignal(signal({ symbol: 'BTCUSD', signal: 'SELL' })).map((strategy) => strategy.id)).toEqual([
+      'btc',
+      'btc-short'
+    ]);
+    expect(routeSignal(signal({ symbol: 'NIFTY' })).map((strategy) => strategy.id)).toEqual(['zerodha6']);
+  });
+
+  it('routes tagged signals only to the named strategy', () => {
+    expect(routeSignal(signal({ strategyId: 'btc-long' })).map((strategy) => strategy.id)).toEqual(['btc-long']);
+    expect(routeSignal(signal({ strategyId: 'btc-short' }))).toEqual([]);
+    expect(routeSignal(signal({ strategyId: 'zerodha6' }))).toEqual([]);
+  });
+
+  it('keys strategies by symbol and resolves current and legacy keys', () => {
+    const short = strategyById('btc-short');
+    expect(short && strategyKey(short, 'BTCUSDT')).toBe('BTCUSDT:btc-short');
+    expect(strategyKey(strategies[0], 'NIFTY')).toBe('NIFTY');
+    expect(strategyForKey('BTCUSDT:btc-short').id).toBe('btc-short');
+    expect(strategyForKey('BTCUSDT_LONG').id).toBe('btc-long');
+    expect(strategyForKey('BTCUSDT').id).toBe('btc');
+    expect(strategyForKey('NIFTY').id).toBe('zerodha6');
+    expect(symbolForKey('BTCUSDT_SHORT')).toBe('BTCUSDT');
+    expect(symbolForKey('BTCUSDT:btc-long')).toBe('BTCUSDT');
+  });
+});
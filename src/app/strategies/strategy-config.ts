@@ -0,0 +1,151 @@
+import type { SizingSettings } from '../sizing/position-sizing';
+import { ExitRules, FsmConfig, FsmDirection, FsmSignal, noExitRules } from '../tick/fsm-engine';
+import type { NormalizedSignal } from '../webhook/signal-schema';
+
+export type StrategyFeed = 'zerodha' | 'binance';
+
+export type StrategyConfig = {
+  id: string;
+  label: string;
+  feed: StrategyFeed;
+  // Ledger symbol of the instrument traded; null trades every instrument the universe assigns to the strategy
+  // that no primary strategy claims.
+  symbol: string | null;
+  // Other webhook symbols for the same instrument (e.g. the TradingView name).
+  aliases: string[];
+  direction: FsmDirection;
+  // Sides that move the FSM; a one-sided strategy leaves its exits to the threshold and exit rules.
+  signals: FsmSignal[];
+  holdPositionOnSignal: boolean;
+  // Primary strategies keep the bare symbol as their key, so state recorded before strategies existed lines up.
+  primary: boolean;
+  // Defaults until the relay page saves its own values.
+  sizing: Partial<SizingSettings>;
+  exitRules: ExitRules;
+};
+
+export const strategies: StrategyConfig[] = [
+  {
+    id: 'zerodha6',
+    label: 'Zerodha 6',
+    feed: 'zerodha',
+    symbol: null,
+    aliases: [],
+    direction: 'long',
+    signals: ['BUY', 'SELL'],
+    holdPositionOnSignal: true,
+    primary: true,
+    sizing: {},
+    exitRules: noExitRules()
+  },
+  {
+    id: 'btc',
+    label: 'BTCUSDT',
+    feed: 'binance',
+    symbol: 'BTCUSDT',
+    aliases: ['BTCUSD'],
+    direction: 'long',
+    signals: ['BUY', 'SELL'],
+    holdPositionOnSignal: false,
+    primary: true,
+    sizing: {},
+    exitRules: noExitRules()
+  },
+  {
+    id: 'btc-long',
+    label: 'BTCUSDT Long',
+    feed: 'binance',
+    symbol: 'BTCUSDT',
+    aliases: ['BTCUSD'],
+    direction: 'long',
+    signals: ['BUY'],
+    holdPositionOnSignal: false,
+    primary: false,
+    sizing: {},
+    exitRules: noExitRules()
+  },
+  {
+    id: 'btc-short',
+    label: 'BTCUSDT Short',
+    feed: 'binance',
+    symbol: 'BTCUSDT',
+    aliases: ['BTCUSD'],
+    direction: 'short',
+    signals: ['SELL'],
+    holdPositionOnSignal: false,
+    primary: false,
+    sizing: {},
+    exitRules: noExitRules()
+  }
+];
+
+// Keys written before strategies were declared; kept so stored ledgers and archives still resolve.
+export const legacyStrategyKeys: Record<string, string> = {
+  BTCUSDT_LONG: 'BTCUSDT:btc-long',
+  BTCUSDT_SHORT: 'BTCUSDT:btc-short'
+};
+
+export function strategyById(id: string, config: StrategyConfig[] = strategies): StrategyConfig | null {
+  return config.find((strategy) => strategy.id === id) ?? null;
+}
+
+// The strategy trading every unclaimed instrument on a feed, if one is declared.
+export function catchAllStrategy(feed: StrategyFeed, config: StrategyConfig[] = strategies): StrategyConfig | null {
+  return config.find((strategy) => strategy.feed === feed && strategy.symbol === null) ?? null;
+}
+
+export function strategyKey(strategy: StrategyConfig, symbol: string): string {
+  return strategy.primary ? symbol : `${symbol}:${strategy.id}`;
+}
+
+export function symbolForKey(key: string): string {
+  const current = legacyStrategyKeys[key] ?? key;
+  const separator = current.lastIndexOf(':');
+  return separator < 0 ? current : current.slice(0, separator);
+}
+
+export function strategyForKey(key: string, config: StrategyConfig[] = strategies): StrategyConfig {
+  const current = legacyStrategyKeys[key] ?? key;
+  const separator = current.lastIndexOf(':');
+  const tagged = separator < 0 ? null : strategyById(current.slice(separator + 1), config);
+  if (tagged) {
+    return tagged;
+  }
+  const symbol = symbolForKey(current);
+  return config.find((strategy) => strategy.primary && matchesSymbol(strategy, symbol))
+    ?? config.find((strategy) => strategy.primary && strategy.symbol === null)
+    ?? config[0];
+}
+
+export function matchesSymbol(strategy: StrategyConfig, symbol: string): boolean {
+  const upper = symbol.toUpperCase();
+  return strategy.symbol !== null
+    && [strategy.symbol, ...strategy.aliases].some((candidate) => candidate.toUpperCase() === upper);
+}
+
+// A signal tagged with a strategy drives only that strategy; an untagged one drives every strategy on its
+// symbol that takes the side.
+export function routesTo(strategy: StrategyConfig, signal: NormalizedSignal, config: StrategyConfig[] = strategies): boolean {
+  if (signal.strategyId !== null && signal.strategyId !== strategy.id) {
+    return false;
+  }
+  if (!strategy.signals.includes(signal.signal)) {
+    return false;
+  }
+  if (strategy.symbol !== null) {
+    return matchesSymbol(strategy, signal.symbol);
+  }
+  return !config.some((other) => other.primary && matchesSymbol(other, signal.symbol));
+}
+
+export function routeSignal(signal: NormalizedSignal, config: StrategyConfig[] = strategies): StrategyConfig[] {
+  return config.filter((strategy) => routesTo(strategy, signal, config));
+}
+
+export function fsmConfigFor(strategy: StrategyConfig, exitRules?: ExitRules): FsmConfig {
+  return {
+    direction: strategy.direction,
+    holdPositionOnSignal: strategy.holdPositionOnSignal,
+    exitRules: exitRules ?? strategy.exitRules
+  };
+}
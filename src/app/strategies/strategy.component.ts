@@ -1,18 +1,20 @@
 import { CommonModule } from '@angular/common';
 import { Component, Input, OnDestroy, OnInit, inject } from '@angular/core';
-import { NavigationEnd, Router, RouterLink } from '@angular/router';
+import { ActivatedRoute, NavigationEnd, Router, RouterLink } from '@angular/router';
 import { MatCardModule } from '@angular/material/card';
 import { MatChipsModule } from '@angular/material/chips';
 import { MatToolbarModule } from '@angular/material/toolbar';
-import { filter, Subscription } from 'rxjs';
+import { BehaviorSubject, Subscription, combineLatest, filter, map } from 'rxjs';
 import { DeltaComponent } from '../delta/delta.component';
 import { DeltaRestComponent } from '../delta-rest/delta-rest.component';
 import { TickComponent } from '../tick/tick.component';
 import { WebhookComponent } from '../webhook/webhook.component';
 import { BinanceService } from '../binance/binance.service';
+import { strategyById, strategyKey } from './strategy-config';
+import { MarketSocketService } from '../socket/market-socket.service';
 
 @Component({
-  selector: 'app-btc-long',
+  selector: 'app-strategy',
   standalone: true,
   imports: [
     CommonModule,
@@ -25,24 +27,36 @@ import { BinanceService } from '../binance/binance.service';
     TickComponent,
     WebhookComponent
   ],
-  templateUrl: './btc-long.component.html',
-  styleUrl: './btc-long.component.css'
+  templateUrl: './strategy.component.html',
+  styleUrl: './strategy.component.css'
 })
-export class BtcLongComponent implements OnInit, OnDestroy {
+export class StrategyComponent implements OnInit, OnDestroy {
   private readonly binanceService = inject(BinanceService);
+  private readonly route = inject(ActivatedRoute);
   private readonly router = inject(Router);
+  readonly socketStatus$ = inject(MarketSocketService).status$;
+  private readonly strategyId$ = new BehaviorSubject<string | null>(null);
   private navSub: Subscription | null = null;
   readonly latestBinance$ = this.binanceService.binance$;
+  // Falls back to the :id route parameter when the page is routed to rather than embedded.
+  readonly view$ = combineLatest([this.strategyId$, this.route.paramMap]).pipe(
+    map(([input, params]) => {
+      const strategy = strategyById(input ?? params.get('id') ?? '');
+      return {
+        strategy,
+        key: strategy?.symbol ? strategyKey(strategy, strategy.symbol) : null
+      };
+    })
+  );
+  @Input() set strategyId(value: string | null) {
+    this.strategyId$.next(value);
+  }
   @Input() showHeader = true;
   @Input() showBinanceCard = true;
   @Input() showDeltaPanels = true;
 
   ngOnInit(): void {
-    console.log('[btc-long] component init');
-    console.log(`[btc-long] enter url=${this.router.url}`);
-    console.log(
-      `[btc-long] inputs showHeader=${this.showHeader} showBinanceCard=${this.showBinanceCard} showDeltaPanels=${this.showDeltaPanels}`
-    );
+    console.log(`[strategy] page enter url=${this.router.url} id=${this.strategyId$.value ?? '--'}`);
     this.navSub = this.router.events.pipe(
       filter((event) => event instanceof NavigationEnd)
     ).subscribe((event) => {
@@ -52,7 +66,6 @@ export class BtcLongComponent implements OnInit, OnDestroy {
   }
 
   ngOnDestroy(): void {
-    console.log('[btc-long] destroy');
     this.navSub?.unsubscribe();
     this.navSub = null;
   }
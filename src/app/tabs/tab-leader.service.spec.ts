@@ -0,0 +1,159 @@
+import { take } from 'rxjs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TabLeaderService } from './tab-leader.service';
+
+type Holder = { release: Promise<unknown>; reject: (error: Error) => void };
+type Waiter = { callback: () => Promise<unknown>; resolve: (value: unknown) => void; reject: (error: Error) => void };
+
+class FakeLocks {
+  private holder: Holder | null = null;
+  private readonly queue: Waiter[] = [];
+
+  request(_name: string, options: LockOptions, callback: () => Promise<unknown>): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { callback, resolve, reject };
+      if (options.steal && this.holder) {
+        this.holder.reject(new DOMException('Lock stolen', 'AbortError'));
+        this.holder = null;
+      }
+      if (!this.holder) {
+        this.grant(waiter);
+        return;
+      }
+      this.queue.push(waiter);
+      options.signal?.addEventListener('abort', () => {
+        this.queue.splice(this.queue.indexOf(waiter), 1);
+        reject(new DOMException('Aborted', 'AbortError'));
+      });
+    });
+  }
+
+  private grant(waiter: Waiter): void {
+    const release = waiter.callback();
+    const holder: Holder = { release, reject: waiter.reject };
+    this.holder = holder;
+    release.then((value) => {
+      if (this.holder !== holder) {
+        return;
+      }
+      this.holder = null;
+      waiter.resolve(value);
+      const next = this.queue.shift();
+      if (next) {
+        this.grant(next);
+      }
+    });
+  }
+}
+
+class FakeBroadcastChannel {
+  private static readonly open: FakeBroadcastChannel[] = [];
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  constructor(readonly name: string) {
+    FakeBroadcastChannel.open.push(this);
+  }
+
+  static reset(): void {
+    FakeBroadcastChannel.open.length = 0;
+  }
+
+  postMessage(data: unknown): void {
+    for (const channel of FakeBroadcastChannel.open) {
+      if (channel !== this && channel.name === this.name) {
+        queueMicrotask(() => channel.onmessage?.({ data } as MessageEvent));
+      }
+    }
+  }
+
+  close(): void {
+    const index = FakeBroadcastChannel.open.indexOf(this);
+    if (index >= 0) {
+      FakeBroadcastChannel.open.splice(index, 1);
+    }
+  }
+}
+
+const flush = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+function leaderOf(tab: TabLeaderService): string | null {
+  let leaderTabId: string | null = null;
+  tab.status$.pipe(take(1)).subscribe((status) => (leaderTabId = status.leaderTabId));
+  return leaderTabId;
+}
+
+describe('TabLeaderService', () => {
+  const tabs: TabLeaderService[] = [];
+
+  beforeEach(() => {
+    vi.stubGlobal('navigator', { locks: new FakeLocks() });
+    vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+  });
+
+  afterEach(() => {
+    tabs.splice(0).forEach((tab) => tab.ngOnDestroy());
+    FakeBroadcastChannel.reset();
+    vi.unstubAllGlobals();
+  });
+
+  function openTab(): TabLeaderService {
+    const tab = new TabLeaderService();
+    tabs.push(tab);
+    return tab;
+  }
+
+  it('elects the first tab and keeps later tabs as followers of it', async () => {
+    const first = openTab();
+    await flush();
+    const second = openTab();
+    await flush();
+
+    expect(first.isLeader).toBe(true);
+    expect(second.isLeader).toBe(false);
+    expect(leaderOf(second)).toBe(first.tabId);
+  });
+
+  it('hands leadership to a waiting tab when the leader closes', async () => {
+    const first = openTab();
+    await flush();
+    const second = openTab();
+    await flush();
+
+    first.ngOnDestroy();
+    await flush();
+
+    expect(second.isLeader).toBe(true);
+  });
+
+  it('moves leadership on take over and demotes the previous leader', async () => {
+    const first = openTab();
+    await flush();
+    const second = openTab();
+    await flush();
+    const firstRoles: boolean[] = [];
+    first.isLeader$.subscribe((isLeader) => firstRoles.push(isLeader));
+
+    second.takeOver();
+    await flush();
+
+    expect(second.isLeader).toBe(true);
+    expect(first.isLeader).toBe(false);
+    expect(firstRoles).toEqual([true, false]);
+    expect(leaderOf(first)).toBe(second.tabId);
+  });
+
+  it('only forwards published state from the leader to followers', async () => {
+    const first = openTab();
+    await flush();
+    const second = openTab();
+    await flush();
+    const received: unknown[] = [];
+    second.messages('tick-fsm').subscribe((payload) => received.push(payload));
+
+    second.publish('tick-fsm', ['ignored']);
+    first.publish('tick-fsm', ['snapshot']);
+    await flush();
+
+    expect(received).toEqual([['snapshot']]);
+  });
+});
@@ -0,0 +1,156 @@
+import { Injectable, OnDestroy } from '@angular/core';
+import { BehaviorSubject, Observable, Subject, distinctUntilChanged, filter, map } from 'rxjs';
+
+export type TabRole = 'leader' | 'follower';
+
+export type TabStatus = {
+  tabId: string;
+  role: TabRole;
+  leaderTabId: string | null;
+};
+
+type TabMessage =
+  | { type: 'leader'; tabId: string }
+  | { type: 'hello'; tabId: string }
+  | { type: 'state'; tabId: string; topic: string; payload: unknown };
+
+const lockName = 'simplelogic-leader';
+const channelName = 'simplelogic-tabs';
+
+@Injectable({ providedIn: 'root' })
+export class TabLeaderService implements OnDestroy {
+  readonly tabId = Math.random().toString(36).slice(2, 8);
+
+  private readonly statusSubject = new BehaviorSubject<TabStatus>({
+    tabId: this.tabId,
+    role: 'follower',
+    leaderTabId: null
+  });
+  private readonly messagesSubject = new Subject<TabMessage>();
+  private readonly syncRequestedSubject = new Subject<void>();
+  private readonly channel: BroadcastChannel | null;
+  private pendingRequest: AbortController | null = null;
+  private releaseLock: (() => void) | null = null;
+
+  readonly status$: Observable<TabStatus> = this.statusSubject.asObservable();
+  readonly isLeader$: Observable<boolean> = this.status$.pipe(
+    map((status) => status.role === 'leader'),
+    distinctUntilChanged()
+  );
+  readonly syncRequested$: Observable<void> = this.syncRequestedSubject.asObservable();
+
+  constructor() {
+    this.channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(channelName);
+    if (this.channel) {
+      this.channel.onmessage = (event: MessageEvent<TabMessage>) => this.handleMessage(event.data);
+    }
+    this.requestLock(false);
+    this.post({ type: 'hello', tabId: this.tabId });
+  }
+
+  get isLeader(): boolean {
+    return this.statusSubject.value.role === 'leader';
+  }
+
+  takeOver(): void {
+    if (this.isLeader) {
+      return;
+    }
+    console.log(`[tabs] take over tab=${this.tabId}`);
+    this.pendingRequest?.abort();
+    this.pendingRequest = null;
+    this.requestLock(true);
+  }
+
+  publish(topic: string, payload: unknown): void {
+    if (!this.isLeader) {
+      return;
+    }
+    this.post({ type: 'state', tabId: this.tabId, topic, payload });
+  }
+
+  messages<T>(topic: string): Observable<T> {
+    return this.messagesSubject.pipe(
+      filter((message): message is Extract<TabMessage, { type: 'state' }> =>
+        message.type === 'state' && message.topic === topic
+      ),
+      map((message) => message.payload as T)
+    );
+  }
+
+  ngOnDestroy(): void {
+    this.releaseLock?.();
+    this.pendingRequest?.abort();
+    this.channel?.close();
+    this.messagesSubject.complete();
+    this.syncRequestedSubject.complete();
+  }
+
+  private requestLock(steal: boolean): void {
+    const locks = typeof navigator === 'undefined' ? undefined : navigator.locks;
+    if (!locks) {
+      this.becomeLeader();
+      return;
+    }
+    const controller = steal ? null : new AbortController();
+    this.pendingRequest = controller;
+    const options: LockOptions = controller ? { signal: controller.signal } : { steal: true };
+    locks.request(lockName, options, () => {
+      this.pendingRequest = null;
+      this.becomeLeader();
+      return new Promise<void>((resolve) => {
+        this.releaseLock = resolve;
+      });
+    }).catch(() => {
+      if (controller?.signal.aborted) {
+        return;
+      }
+      this.releaseLock = null;
+      console.warn(`[tabs] leadership lost tab=${this.tabId}`);
+      this.setStatus('follower', this.statusSubject.value.leaderTabId);
+      this.requestLock(false);
+    });
+  }
+
+  private becomeLeader(): void {
+    console.log(`[tabs] leader tab=${this.tabId}`);
+    this.setStatus('leader', this.tabId);
+    this.post({ type: 'leader', tabId: this.tabId });
+    this.syncRequestedSubject.next();
+  }
+
+  private handleMessage(message: TabMessage): void {
+    if (message.type === 'leader') {
+      if (message.tabId !== this.tabId && this.isLeader) {
+        return;
+      }
+      this.setStatus(this.statusSubject.value.role, message.tabId);
+      return;
+    }
+    if (message.type === 'hello') {
+      if (this.isLeader) {
+        this.post({ type: 'leader', tabId: this.tabId });
+        this.syncRequestedSubject.next();
+      }
+      return;
+    }
+    if (!this.isLeader) {
+      if (this.statusSubject.value.leaderTabId !== message.tabId) {
+        this.setStatus('follower', message.tabId);
+      }
+      this.messagesSubject.next(message);
+    }
+  }
+
+  private setStatus(role: TabRole, leaderTabId: string | null): void {
+    this.statusSubject.next({ tabId: this.tabId, role, leaderTabId });
+  }
+
+  private post(message: TabMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.warn('[tabs] broadcast failed', error);
+    }
+  }
+}
@@ -0,0 +1,7 @@
+import { InjectionToken } from '@angular/core';
+import { FsmClock, systemClock } from './fsm-engine';
+
+export const FSM_CLOCK = new InjectionToken<FsmClock>('FSM_CLOCK', {
+  providedIn: 'root',
+  factory: () => systemClock
+});
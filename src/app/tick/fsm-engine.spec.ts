@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ExitRules,
+  FsmConfig,
+  InstrumentFsm,
+  applySignalTransition,
+  applyTickTransition,
+  defaultFsm,
+  isFirstSecondNextMinute,
+  noExitRules,
+  normalizeExitRules,
+  resolveDirection,
+  squareOffFsm
+} from './fsm-engine';
+
+const long: FsmConfig = { direction: 'long', holdPositionOnSignal: false };
+const short: FsmConfig = { direction: 'short', holdPositionOnSignal: false };
+const signalAt = Date.UTC(2026, 0, 5, 4, 0, 10);
+
+function withRules(config: FsmConfig, rules: Partial<ExitRules>): FsmConfig {
+  return { ...config, exitRules: { ...noExitRules(), ...rules } };
+}
+
+function afterSignal(config: FsmConfig, signal: 'BUY' | 'SELL', stoppx: number, ltp: number | null): InstrumentFsm {
+  return applySignalTransition(config, defaultFsm(), signal, { stoppx }, ltp, signalAt);
+}
+
+describe('fsm-engine', () => {
+  it('uses stoppx as threshold on BUY and latest LTP on SELL', () => {
+    expect(afterSignal(long, 'BUY', 100, 90).threshold).toBe(100);
+    expect(afterSignal(long, 'SELL', 100, 90).threshold).toBe(90);
+    expect(afterSignal(long, 'SELL', 100, 90).state).toBe('NOPOSITION_SIGNAL');
+  });
+
+  it('enters and exits a long position around the threshold', () => {
+    const signalled = afterSignal(long, 'BUY', 100, null);
+    const entered = applyTickTransition(long, signalled, 101, signalAt + 1000).next;
+    expect(entered.state).toBe('BUYPOSITION');
+    expect(applyTickTransition(long, entered, 100, signalAt + 2000).next.state).toBe('BUYPOSITION');
+    expect(applyTickTransition(long, entered, 99, signalAt + 3000).next.state).toBe('NOPOSITION_BLOCKED');
+  });
+
+  it('enters and exits a short position around the threshold', () => {
+    const signalled = afterSignal(short, 'SELL', 100, 100);
+    const entered = applyTickTransition(short, signalled, 99, signalAt + 1000).next;
+    expect(entered.state).toBe('SELLPOSITION');
+    expect(applyTickTransition(short, entered, 100, signalAt + 2000).next.state).toBe('SELLPOSITION');
+    expect(applyTickTransition(short, entered, 101, signalAt + 3000).next.state).toBe('NOPOSITION_BLOCKED');
+  });
+
+  it('re-checks a blocked instrument only at the first second of the next minute', () => {
+    const signalled = afterSignal(long, 'BUY', 100, null);
+    const blocked = applyTickTransition(long, signalled, 99, signalAt + 1000).next;
+    expect(blocked.state).toBe('NOPOSITION_BLOCKED');
+
+    const sameMinute = applyTickTransition(long, blocked, 105, signalAt + 20000);
+    expect(sameMinute.next.state).toBe('NOPOSITION_BLOCKED');
+
+    const nextMinute = Date.UTC(2026, 0, 5, 4, 1, 0);
+    const recheck = applyTickTransition(long, blocked, 105, nextMinute);
+    expect(recheck.intermediate?.state).toBe('NOPOSITION_SIGNAL');
+    expect(recheck.next.state).toBe('BUYPOSITION');
+  });
+
+  it('does not transition without a threshold and reports why', () => {
+    const signalled = afterSignal(long, 'SELL', 100, null);
+    const result = applyTickTransition(long, signalled, 101, signalAt + 1000);
+    expect(result.next).toBe(signalled);
+    expect(result.stuckReason).toBe('missing threshold/ltp');
+  });
+
+  it('keeps the position on a new signal only when configured to', () => {
+    const held: FsmConfig = { direction: 'long', holdPositionOnSignal: true };
+    const signalled = afterSignal(held, 'BUY', 100, null);
+    const entered = applyTickTransition(held, signalled, 101, signalAt + 1000).next;
+
+    const heldNext = applySignalTransition(held, entered, 'SELL', {}, 102, signalAt + 2000);
+    expect(heldNext.state).toBe('BUYPOSITION');
+    expect(heldNext.threshold).toBe(102);
+
+    const resetNext = applySignalTransition(long, entered, 'SELL', {}, 102, signalAt + 2000);
+    expect(resetNext.state).toBe('NOPOSITION_SIGNAL');
+  });
+
+  it('lets the webhook switch direction only while flat', () => {
+    const flat = afterSignal(long, 'BUY', 100, null);
+    const inPosition = applyTickTransition(long, flat, 101, signalAt + 1000).next;
+    expect(resolveDirection(flat, 'long', { direction: 'SHORT' })).toBe('short');
+    expect(resolveDirection(flat, 'long', { direction: 'sideways' })).toBe('long');
+    expect(resolveDirection(inPosition, 'long', { direction: 'short' })).toBe('long');
+  });
+
+  it('records a plain threshold exit as the exit cause', () => {
+    const signalled = afterSignal(long, 'BUY', 100, null);
+    const entered = applyTickTransition(long, signalled, 101, signalAt + 1000).next;
+    expect(entered.entryPrice).toBe(101);
+    expect(entered.enteredAtMs).toBe(signalAt + 1000);
+    const exited = applyTickTransition(long, entered, 99, signalAt + 2000).next;
+    expect(exited.lastExitCause).toBe('threshold');
+  });
+
+  it('ratchets the threshold with a trailing stop and never loosens it', () => {
+    const config = withRules(long, { trailingStop: { unit: 'points', value: 5 } });
+    const signalled = afterSignal(config, 'BUY', 100, null);
+    const entered = applyTickTransition(config, signalled, 101, signalAt + 1000).next;
+    expect(entered.threshold).toBe(100);
+
+    const raised = applyTickTransition(config, entered, 110, signalAt + 2000).next;
+    expect(raised.state).toBe('BUYPOSITION');
+    expect(raised.threshold).toBe(105);
+
+    const pulledBack = applyTickTransition(config, raised, 107, signalAt + 3000).next;
+    expect(pulledBack.threshold).toBe(105);
+
+    const exited = applyTickTransition(config, pulledBack, 104, signalAt + 4000).next;
+    expect(exited.state).toBe('NOPOSITION_BLOCKED');
+    expect(exited.lastExitCause).toBe('trailing-stop');
+  });
+
+  it('trails a short position downwards in percent', () => {
+    const config = withRules(short, { trailingStop: { unit: 'percent', value: 2 } });
+    const signalled = afterSignal(config, 'SELL', 100, 100);
+    const entered = applyTickTransition(config, signalled, 99, signalAt + 1000).next;
+    const lowered = applyTickTransition(config, entered, 90, signalAt + 2000).next;
+    expect(lowered.threshold).toBeCloseTo(91.8);
+
+    const exited = applyTickTransition(config, lowered, 92, signalAt + 3000).next;
+    expect(exited.state).toBe('NOPOSITION_BLOCKED');
+    expect(exited.lastExitCause).toBe('trailing-stop');
+  });
+
+  it('takes profit in points or percent and waits for a fresh signal', () => {
+    const points = withRules(long, { takeProfit: { unit: 'points', value: 10 } });
+    const signalled = afterSignal(points, 'BUY', 100, null);
+    const entered = applyTickTransition(points, signalled, 101, signalAt + 1000).next;
+    expect(applyTickTransition(points, entered, 110, signalAt + 2000).next.state).toBe('BUYPOSITION');
+
+    const exited = applyTickTransition(points, entered, 111, signalAt + 3000).next;
+    expect(exited.state).toBe('NOPOSITION_BLOCKED');
+    expect(exited.lastExitCause).toBe('take-profit');
+    expect(exited.lastSignalAtMs).toBeNull();
+    const nextMinute = Date.UTC(2026, 0, 5, 4, 1, 0);
+    expect(applyTickTransition(points, exited, 120, nextMinute).next.state).toBe('NOPOSITION_BLOCKED');
+
+    const percent = withRules(short, { takeProfit: { unit: 'percent', value: 5 } });
+    const shortEntered = applyTickTransition(percent, afterSignal(percent, 'SELL', 100, 100), 99, signalAt + 1000).next;
+    expect(applyTickTransition(percent, shortEntered, 94, signalAt + 2000).next.lastExitCause).toBe('take-profit');
+  });
+
+  it('exits after the max holding time', () => {
+    const config = withRules(long, { maxHoldMinutes: 15 });
+    const signalled = afterSignal(config, 'BUY', 100, null);
+    const entered = applyTickTransition(config, signalled, 101, signalAt + 1000).next;
+    expect(applyTickTransition(config, entered, 102, signalAt + 1000 + 14 * 60000).next.state).toBe('BUYPOSITION');
+
+    const exited = applyTickTransition(config, entered, 102, signalAt + 1000 + 15 * 60000).next;
+    expect(exited.state).toBe('NOPOSITION_BLOCKED');
+    expect(exited.lastExitCause).toBe('max-hold');
+  });
+
+  it('normalizes stored exit rules', () => {
+    expect(normalizeExitRules(null)).toEqual(noExitRules());
+    expect(normalizeExitRules({
+      trailingStop: { unit: 'percent', value: '1.5' },
+      takeProfit: { unit: 'bogus', value: -3 },
+      maxHoldMinutes: 30
+    })).toEqual({
+      trailingStop: { unit: 'percent', value: 1.5 },
+      takeProfit: { unit: 'points', value: 0 },
+      maxHoldMinutes: 30
+    });
+  });
+
+  it('forces a position flat on square-off and waits for a fresh signal', () => {
+    const signalled = afterSignal(long, 'BUY', 100, null);
+    const entered = applyTickTransition(long, signalled, 101, signalAt + 1000).next;
+    const flat = squareOffFsm(entered);
+    expect(flat.state).toBe('NOSIGNAL');
+    expect(flat.lastExitCause).toBe('square-off');
+    expect(flat.lastBUYThreshold).toBe(100);
+    expect(applyTickTransition(long, flat, 105, signalAt + 2000).next).toBe(flat);
+    expect(squareOffFsm(signalled).lastExitCause).toBeNull();
+  });
+
+  it('detects the first second of a later minute', () => {
+    const anchor = Date.UTC(2026, 0, 5, 4, 0, 30);
+    expect(isFirstSecondNextMinute(null, anchor)).toBe(false);
+    expect(isFirstSecondNextMinute(anchor, Date.UTC(2026, 0, 5, 4, 0, 59))).toBe(false);
+    expect(isFirstSecondNextMinute(anchor, Date.UTC(2026, 0, 5, 4, 1, 1))).toBe(false);
+    expect(isFirstSecondNextMinute(anchor, Date.UTC(2026, 0, 5, 4, 1, 0))).toBe(true);
+  });
+});
@@ -0,0 +1,369 @@
+export type FsmState = 'NOSIGNAL' | 'NOPOSITION_SIGNAL' | 'BUYPOSITION' | 'SELLPOSITION' | 'NOPOSITION_BLOCKED';
+
+export type FsmDirection = 'long' | 'short';
+
+export type FsmSignal = 'BUY' | 'SELL';
+
+export type ExitCause = 'threshold' | 'trailing-stop' | 'take-profit' | 'max-hold' | 'square-off';
+
+export type ExitDistance = {
+  unit: 'points' | 'percent';
+  value: number;
+};
+
+export type ExitRules = {
+  trailingStop: ExitDistance;
+  takeProfit: ExitDistance;
+  maxHoldMinutes: number;
+};
+
+export type InstrumentFsm = {
+  state: FsmState;
+  threshold: number | null;
+  savedBUYThreshold: number | null;
+  lastBUYThreshold: number | null;
+  lastSELLThreshold: number | null;
+  lastSignalAtMs: number | null;
+  lastCheckedAtMs: number | null;
+  lastBlockedAtMs: number | null;
+  entryPrice: number | null;
+  entryThreshold: number | null;
+  enteredAtMs: number | null;
+  lastExitCause: ExitCause | null;
+};
+
+export type FsmConfig = {
+  direction: FsmDirection;
+  holdPositionOnSignal: boolean;
+  exitRules?: ExitRules;
+};
+
+export type FsmClock = {
+  now(): number;
+};
+
+export type TickTransitionResult = {
+  next: InstrumentFsm;
+  intermediate?: InstrumentFsm;
+  stuckReason?: 'missing threshold/ltp' | 'already checked';
+};
+
+export const systemClock: FsmClock = {
+  now: () => Date.now()
+};
+
+export const exitCauses: ExitCause[] = ['threshold', 'trailing-stop', 'take-profit', 'max-hold', 'square-off'];
+
+export function noExitRules(): ExitRules {
+  return {
+    trailingStop: { unit: 'points', value: 0 },
+    takeProfit: { unit: 'points', value: 0 },
+    maxHoldMinutes: 0
+  };
+}
+
+export function normalizeExitRules(value: unknown): ExitRules {
+  const rules = noExitRules();
+  if (typeof value !== 'object' || value === null) {
+    return rules;
+  }
+  const candidate = value as Partial<Record<keyof ExitRules, unknown>>;
+  rules.trailingStop = normalizeExitDistance(candidate.trailingStop);
+  rules.takeProfit = normalizeExitDistance(candidate.takeProfit);
+  const maxHold = Number(candidate.maxHoldMinutes);
+  if (Number.isFinite(maxHold) && maxHold >= 0) {
+    rules.maxHoldMinutes = maxHold;
+  }
+  return rules;
+}
+
+export function defaultFsm(): InstrumentFsm {
+  return {
+    state: 'NOSIGNAL',
+    threshold: null,
+    savedBUYThreshold: null,
+    lastBUYThreshold: null,
+    lastSELLThreshold: null,
+    lastSignalAtMs: null,
+    lastCheckedAtMs: null,
+    lastBlockedAtMs: null,
+    entryPrice: null,
+    entryThreshold: null,
+    enteredAtMs: null,
+    lastExitCause: null
+  };
+}
+
+export function isPositionState(state: FsmState): boolean {
+  return state === 'BUYPOSITION' || state === 'SELLPOSITION';
+}
+
+export function positionStateFor(direction: FsmDirection): FsmState {
+  return direction === 'short' ? 'SELLPOSITION' : 'BUYPOSITION';
+}
+
+export function directionFromValue(value: unknown): FsmDirection | null {
+  const candidate = `${value ?? ''}`.toLowerCase();
+  return candidate === 'long' || candidate === 'short' ? candidate : null;
+}
+
+export function resolveDirection(
+  current: InstrumentFsm,
+  currentDirection: FsmDirection,
+  payload: { direction?: string | null }
+): FsmDirection {
+  const requested = directionFromValue(payload.direction);
+  if (!requested || isPositionState(current.state)) {
+    return currentDirection;
+  }
+  return requested;
+}
+
+export function applySignalTransition(
+  config: FsmConfig,
+  current: InstrumentFsm,
+  signal: FsmSignal,
+  payload: { stoppx?: number | null },
+  latestLtp: number | null,
+  receivedAt: number
+): InstrumentFsm {
+  const stoppx = payload.stoppx ?? null;
+  if (config.holdPositionOnSignal && isPositionState(current.state)) {
+    if (signal === 'BUY') {
+      const threshold = stoppx ?? current.threshold;
+      return {
+        ...current,
+        threshold,
+        savedBUYThreshold: threshold,
+        lastBUYThreshold: threshold,
+        entryThreshold: threshold,
+        lastSignalAtMs: receivedAt
+      };
+    }
+    const threshold = latestLtp ?? current.threshold;
+    return {
+      ...current,
+      threshold,
+      lastSELLThreshold: threshold,
+      entryThreshold: threshold,
+      lastSignalAtMs: receivedAt
+    };
+  }
+  if (signal === 'BUY') {
+    return {
+      state: 'NOPOSITION_SIGNAL',
+      threshold: stoppx,
+      savedBUYThreshold: stoppx,
+      lastBUYThreshold: stoppx,
+      lastSELLThreshold: current.lastSELLThreshold,
+      lastSignalAtMs: receivedAt,
+      lastCheckedAtMs: null,
+      lastBlockedAtMs: null,
+      entryPrice: null,
+      entryThreshold: null,
+      enteredAtMs: null,
+      lastExitCause: current.lastExitCause
+    };
+  }
+  return {
+    state: 'NOPOSITION_SIGNAL',
+    threshold: latestLtp,
+    savedBUYThreshold: current.savedBUYThreshold,
+    lastBUYThreshold: current.lastBUYThreshold,
+    lastSELLThreshold: latestLtp,
+    lastSignalAtMs: receivedAt,
+    lastCheckedAtMs: null,
+    lastBlockedAtMs: null,
+    entryPrice: null,
+    entryThreshold: null,
+    enteredAtMs: null,
+    lastExitCause: current.lastExitCause
+  };
+}
+
+export function applyTickTransition(
+  config: FsmConfig,
+  current: InstrumentFsm,
+  ltp: number | null,
+  receivedAt: number
+): TickTransitionResult {
+  if (current.threshold === null || current.lastSignalAtMs === null || ltp === null) {
+    return current.lastSignalAtMs !== null
+      ? { next: current, stuckReason: 'missing threshold/ltp' }
+      : { next: current };
+  }
+  const positionState = positionStateFor(config.direction);
+  if (current.state === positionState) {
+    const rules = config.exitRules ?? noExitRules();
+    const ruleExit = exitByRule(config.direction, rules, current, ltp, receivedAt);
+    if (ruleExit) {
+      return {
+        next: {
+          ...current,
+          state: 'NOPOSITION_BLOCKED',
+          lastSignalAtMs: null,
+          lastCheckedAtMs: receivedAt,
+          lastBlockedAtMs: receivedAt,
+          lastExitCause: ruleExit
+        }
+      };
+    }
+    const threshold = trailThreshold(config.direction, rules.trailingStop, current.threshold, ltp);
+    if (holdsPosition(config.direction, ltp, threshold)) {
+      return { next: threshold === current.threshold ? current : { ...current, threshold } };
+    }
+    return {
+      next: {
+        ...current,
+        threshold,
+        state: 'NOPOSITION_BLOCKED',
+        lastCheckedAtMs: receivedAt,
+        lastBlockedAtMs: receivedAt,
+        lastExitCause: current.entryThreshold !== null && threshold !== current.entryThreshold ? 'trailing-stop' : 'threshold'
+      }
+    };
+  }
+  if (current.state === 'NOPOSITION_SIGNAL') {
+    if (current.lastCheckedAtMs !== null && current.lastCheckedAtMs >= current.lastSignalAtMs) {
+      return { next: current, stuckReason: 'already checked' };
+    }
+    const nextState = entersPosition(config.direction, ltp, current.threshold) ? positionState : 'NOPOSITION_BLOCKED';
+    return {
+      next: {
+        ...current,
+        ...entryFields(nextState === positionState, current, ltp, receivedAt),
+        state: nextState,
+        lastCheckedAtMs: receivedAt,
+        lastBlockedAtMs: nextState === 'NOPOSITION_BLOCKED' ? receivedAt : null
+      }
+    };
+  }
+  if (current.state === 'NOPOSITION_BLOCKED') {
+    if (!isFirstSecondNextMinute(current.lastBlockedAtMs, receivedAt)) {
+      return { next: current };
+    }
+    const intermediate: InstrumentFsm = {
+      ...current,
+      state: 'NOPOSITION_SIGNAL',
+      lastSignalAtMs: receivedAt,
+      lastCheckedAtMs: null,
+      lastBlockedAtMs: null
+    };
+    const nextState = entersPosition(config.direction, ltp, current.threshold) ? positionState : 'NOPOSITION_BLOCKED';
+    const finalState: InstrumentFsm = {
+      ...intermediate,
+      ...entryFields(nextState === positionState, current, ltp, receivedAt),
+      state: nextState,
+      lastCheckedAtMs: receivedAt,
+      lastBlockedAtMs: nextState === 'NOPOSITION_BLOCKED' ? receivedAt : null
+    };
+    return { intermediate, next: finalState };
+  }
+  return { next: current };
+}
+
+export function squareOffFsm(current: InstrumentFsm): InstrumentFsm {
+  return {
+    ...current,
+    state: 'NOSIGNAL',
+    lastSignalAtMs: null,
+    lastCheckedAtMs: null,
+    lastBlockedAtMs: null,
+    entryPrice: null,
+    entryThreshold: null,
+    enteredAtMs: null,
+    lastExitCause: isPositionState(current.state) ? 'square-off' : current.lastExitCause
+  };
+}
+
+export function isFirstSecondNextMinute(anchorAtMs: number | null, tickAtMs: number): boolean {
+  if (anchorAtMs === null) {
+    return false;
+  }
+  const signalMinute = Math.floor(anchorAtMs / 60000);
+  const tickMinute = Math.floor(tickAtMs / 60000);
+  if (tickMinute <= signalMinute) {
+    return false;
+  }
+  return new Date(tickAtMs).getSeconds() === 0;
+}
+
+function entersPosition(direction: FsmDirection, ltp: number, threshold: number): boolean {
+  return direction === 'short' ? ltp < threshold : ltp > threshold;
+}
+
+function holdsPosition(direction: FsmDirection, ltp: number, threshold: number): boolean {
+  return direction === 'short' ? ltp <= threshold : ltp >= threshold;
+}
+
+function entryFields(
+  entered: boolean,
+  current: InstrumentFsm,
+  ltp: number,
+  receivedAt: number
+): Pick<InstrumentFsm, 'entryPrice' | 'entryThreshold' | 'enteredAtMs' | 'lastExitCause'> {
+  if (!entered) {
+    return {
+      entryPrice: current.entryPrice,
+      entryThreshold: current.entryThreshold,
+      enteredAtMs: current.enteredAtMs,
+      lastExitCause: current.lastExitCause
+    };
+  }
+  return { entryPrice: ltp, entryThreshold: current.threshold, enteredAtMs: receivedAt, lastExitCause: null };
+}
+
+function normalizeExitDistance(value: unknown): ExitDistance {
+  const distance: ExitDistance = { unit: 'points', value: 0 };
+  if (typeof value !== 'object' || value === null) {
+    return distance;
+  }
+  const candidate = value as Partial<Record<keyof ExitDistance, unknown>>;
+  if (candidate.unit === 'percent') {
+    distance.unit = 'percent';
+  }
+  const parsed = Number(candidate.value);
+  if (Number.isFinite(parsed) && parsed >= 0) {
+    distance.value = parsed;
+  }
+  return distance;
+}
+
+function distanceFrom(distance: ExitDistance, price: number): number {
+  if (!(distance.value > 0)) {
+    return 0;
+  }
+  return distance.unit === 'percent' ? (price * distance.value) / 100 : distance.value;
+}
+
+function exitByRule(
+  direction: FsmDirection,
+  rules: ExitRules,
+  current: InstrumentFsm,
+  ltp: number,
+  receivedAt: number
+): ExitCause | null {
+  if (current.entryPrice !== null) {
+    const target = distanceFrom(rules.takeProfit, current.entryPrice);
+    if (target > 0) {
+      const gain = direction === 'short' ? current.entryPrice - ltp : ltp - current.entryPrice;
+      if (gain >= target) {
+        return 'take-profit';
+      }
+    }
+  }
+  if (rules.maxHoldMinutes > 0 && current.enteredAtMs !== null) {
+    if (receivedAt - current.enteredAtMs >= rules.maxHoldMinutes * 60000) {
+      return 'max-hold';
+    }
+  }
+  return null;
+}
+
+function trailThreshold(direction: FsmDirection, trailingStop: ExitDistance, threshold: number, ltp: number): number {
+  const trail = distanceFrom(trailingStop, ltp);
+  if (trail <= 0) {
+    return threshold;
+  }
+  return direction === 'short' ? Math.min(threshold, ltp + trail) : Math.max(threshold, ltp - trail);
+}
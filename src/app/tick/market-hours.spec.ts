@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { istTimeOn, parseIstTime } from './market-hours';
+
+describe('market-hours', () => {
+  it('parses HH:MM times and rejects anything else', () => {
+    expect(parseIstTime('15:15')).toEqual({ hour: 15, minute: 15 });
+    expect(parseIstTime(' 9:05 ')).toEqual({ hour: 9, minute: 5 });
+    expect(parseIstTime('24:00')).toBeNull();
+    expect(parseIstTime('3pm')).toBeNull();
+  });
+
+  it('converts an IST wall-clock time on a date to epoch ms', () => {
+    expect(istTimeOn('2026-01-05', { hour: 15, minute: 15 })).toBe(Date.UTC(2026, 0, 5, 9, 45));
+    expect(istTimeOn('2026-01-05', { hour: 2, minute: 0 })).toBe(Date.UTC(2026, 0, 4, 20, 30));
+  });
+});
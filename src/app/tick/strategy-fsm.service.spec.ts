@@ -0,0 +1,79 @@
+import { TestBed } from '@angular/core/testing';
+import { BehaviorSubject, Subject } from 'rxjs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { BinanceService } from '../binance/binance.service';
+import { defaultUniverse, resolveUniverse } from '../instruments/instrument-universe';
+import { InstrumentUniverseService } from '../instruments/instrument-universe.service';
+import { RelayService } from '../relay/relay.service';
+import { SessionJobsService } from '../scheduler/session-jobs.service';
+import { SquareOffSchedulerService } from '../square-off/square-off-scheduler.service';
+import { TabLeaderService } from '../tabs/tab-leader.service';
+import { NormalizedSignal } from '../webhook/signal-schema';
+import { WebhookService } from '../webhook/webhook.service';
+import { StrategyFsmService } from './strategy-fsm.service';
+import { TickFsmStateService } from './tick-fsm-state.service';
+import { TickService } from './tick.service';
+
+function buy(stoppx: number): NormalizedSignal {
+  return {
+    schemaVersion: 1,
+    symbol: 'BTCUSDT',
+    signal: 'BUY',
+    intent: 'BUY',
+    stoppx,
+    direction: null,
+    strategyId: 'btc',
+    alertId: null,
+    alertTime: null
+  };
+}
+
+describe('StrategyFsmService', () => {
+  let leader: BehaviorSubject<boolean>;
+  let signals: Subject<NormalizedSignal>;
+  let prices: Subject<{ symbol: string; price: number }>;
+  let fsmState: { update: ReturnType<typeof vi.fn>; updateLastPrice: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    leader = new BehaviorSubject(true);
+    signals = new Subject<NormalizedSignal>();
+    prices = new Subject<{ symbol: string; price: number }>();
+    fsmState = { update: vi.fn(), updateLastPrice: vi.fn() };
+    const instruments = [{ tradingview: 'BTCUSDT', exchange: 'CRYPTO', zerodha: 'BTCUSD', token: 1, lot: 1 }];
+
+    TestBed.configureTestingModule({
+      providers: [
+        StrategyFsmService,
+        { provide: WebhookService, useValue: { signals$: signals } },
+        { provide: BinanceService, useValue: { binance$: prices } },
+        { provide: TickService, useValue: { ticks$: new Subject() } },
+        { provide: TickFsmStateService, useValue: { ...fsmState, getSnapshot: () => new Map() } },
+        { provide: TabLeaderService, useValue: { isLeader$: leader, get isLeader() { return leader.value; } } },
+        { provide: RelayService, useValue: { exitRules: {} } },
+        { provide: SquareOffSchedulerService, useValue: { squareOff$: new Subject(), isEntryBlocked: () => false } },
+        { provide: SessionJobsService, useValue: { zerodhaReset$: new Subject() } },
+        {
+          provide: InstrumentUniverseService,
+          useValue: { members$: new BehaviorSubject(resolveUniverse(instruments, defaultUniverse())) }
+        }
+      ]
+    });
+  });
+
+  it('stops driving FSMs once another tab takes over', () => {
+    TestBed.inject(StrategyFsmService);
+
+    signals.next(buy(100));
+    prices.next({ symbol: 'BTCUSDT', price: 101 });
+    const updates = fsmState.update.mock.calls.length;
+    const lastPrices = fsmState.updateLastPrice.mock.calls.length;
+    expect(updates).toBe(2);
+    expect(lastPrices).toBeGreaterThan(0);
+
+    leader.next(false);
+    signals.next(buy(102));
+    prices.next({ symbol: 'BTCUSDT', price: 103 });
+    expect(fsmState.update).toHaveBeenCalledTimes(updates);
+    expect(fsmState.updateLastPrice).toHaveBeenCalledTimes(lastPrices);
+  });
+});
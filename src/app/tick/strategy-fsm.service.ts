@@ -0,0 +1,245 @@
+import { Injectable, OnDestroy, inject } from '@angular/core';
+import { Subscription, filter, map, withLatestFrom } from 'rxjs';
+import { BinanceService } from '../binance/binance.service';
+import { UniverseMember, isEnabledFor } from '../instruments/instrument-universe';
+import { InstrumentUniverseService } from '../instruments/instrument-universe.service';
+import { RelayService } from '../relay/relay.service';
+import { SessionJobsService } from '../scheduler/session-jobs.service';
+import { SquareOffSchedulerService } from '../square-off/square-off-scheduler.service';
+import {
+  StrategyConfig,
+  StrategyFeed,
+  fsmConfigFor,
+  matchesSymbol,
+  routesTo,
+  strategies,
+  strategyKey
+} from '../strategies/strategy-config';
+import { TabLeaderService } from '../tabs/tab-leader.service';
+import { NormalizedSignal } from '../webhook/signal-schema';
+import { WebhookService } from '../webhook/webhook.service';
+import { FSM_CLOCK } from './fsm-clock';
+import { FsmConfig, InstrumentFsm, applySignalTransition, applyTickTransition, defaultFsm, squareOffFsm } from './fsm-engine';
+import { FsmSymbolSnapshot, TickFsmStateService } from './tick-fsm-state.service';
+import { Tick, TickService } from './tick.service';
+
+// Runs one FSM per strategy that declares its symbol. The Zerodha catch-all strategy runs per instrument token
+// in ZerodhaTickRunnerService.
+@Injectable({ providedIn: 'root' })
+export class StrategyFsmService implements OnDestroy {
+  private readonly webhookService = inject(WebhookService);
+  private readonly binanceService = inject(BinanceService);
+  private readonly tickService = inject(TickService);
+  private readonly fsmStateService = inject(TickFsmStateService);
+  private readonly clock = inject(FSM_CLOCK);
+  private readonly tabLeader = inject(TabLeaderService);
+  private readonly relayService = inject(RelayService);
+  private readonly squareOffService = inject(SquareOffSchedulerService);
+  private readonly sessionJobsService = inject(SessionJobsService);
+  private readonly universeService = inject(InstrumentUniverseService);
+  private readonly subs = new Subscription();
+  private readonly declared = strategies.filter((strategy) => strategy.symbol !== null);
+  private readonly fsmByKey = new Map<string, InstrumentFsm>();
+  private readonly ltpByKey = new Map<string, number>();
+  private readonly symbolsByToken$ = this.universeService.members$.pipe(
+    map((members) => this.buildSymbolsByToken(members))
+  );
+  private members: UniverseMember[] = [];
+
+  constructor() {
+    this.restoreFromSnapshot();
+
+    this.subs.add(
+      this.universeService.members$.subscribe((members) => {
+        this.members = members;
+      })
+    );
+
+    this.subs.add(
+      this.tabLeader.isLeader$.pipe(filter(Boolean)).subscribe(() => this.restoreFromSnapshot())
+    );
+
+    this.subs.add(
+      this.webhookService.signals$.subscribe((incoming) => this.handleSignal(incoming))
+    );
+
+    this.subs.add(
+      this.binanceService.binance$.subscribe((payload) => {
+        if (payload.symbol && typeof payload.price === 'number') {
+          this.handlePrice('binance', [payload.symbol], payload.price);
+        }
+      })
+    );
+
+    if (this.declared.some((strategy) => strategy.feed === 'zerodha')) {
+      this.subs.add(
+        this.tickService.ticks$.pipe(withLatestFrom(this.symbolsByToken$)).subscribe(([tick, symbolsByToken]) => {
+          const token = readNumber(tick, 'instrument_token');
+          const ltp = readNumber(tick, 'last_price');
+          if (token !== null && ltp !== null) {
+            this.handlePrice('zerodha', symbolsByToken.get(token) ?? [], ltp);
+          }
+        })
+      );
+      this.subs.add(this.squareOffService.squareOff$.subscribe(() => this.squareOff('zerodha')));
+      this.subs.add(this.sessionJobsService.zerodhaReset$.subscribe(() => this.reset('zerodha')));
+    }
+  }
+
+  ngOnDestroy(): void {
+    this.subs.unsubscribe();
+  }
+
+  private restoreFromSnapshot(): void {
+    const snapshot = this.fsmStateService.getSnapshot();
+    for (const strategy of this.declared) {
+      const key = this.keyFor(strategy);
+      const existing = snapshot.get(key);
+      if (!existing) {
+        continue;
+      }
+      this.fsmByKey.set(key, {
+        ...defaultFsm(),
+        state: existing.state,
+        threshold: existing.threshold,
+        lastBUYThreshold: existing.lastBUYThreshold,
+        lastSELLThreshold: existing.lastSELLThreshold,
+        entryPrice: existing.entryPrice ?? null,
+        entryThreshold: existing.threshold,
+        enteredAtMs: existing.enteredAtMs ?? null,
+        lastExitCause: existing.exitCause ?? null
+      });
+      if (typeof existing.ltp === 'number') {
+        this.ltpByKey.set(key, existing.ltp);
+      }
+    }
+  }
+
+  // Followers keep the FSMs the leader publishes; a tab demoted mid-session stops driving them here.
+  private handleSignal(incoming: NormalizedSignal): void {
+    if (!this.tabLeader.isLeader) {
+      return;
+    }
+    const now = this.clock.now();
+    const changed: string[] = [];
+    for (const strategy of this.declared) {
+      if (!routesTo(strategy, incoming)) {
+        continue;
+      }
+      if (!isEnabledFor(this.members, strategy.id, incoming.symbol)) {
+        console.log(`[strategy] signal ignored id=${strategy.id} symbol=${incoming.symbol} reason=not-in-universe`);
+        continue;
+      }
+      if (strategy.feed === 'zerodha' && this.squareOffService.isEntryBlocked(now)) {
+        console.log(`[strategy] signal ignored id=${strategy.id} symbol=${incoming.symbol} reason=square-off`);
+        continue;
+      }
+      const key = this.keyFor(strategy);
+      const current = this.fsmByKey.get(key) ?? defaultFsm();
+      const next = applySignalTransition(
+        this.configFor(strategy),
+        current,
+        incoming.signal,
+        incoming,
+        this.ltpByKey.get(key) ?? null,
+        now
+      );
+      this.fsmByKey.set(key, next);
+      changed.push(key);
+    }
+    this.updateSnapshot(changed);
+  }
+
+  private handlePrice(feed: StrategyFeed, symbols: string[], price: number): void {
+    if (!this.tabLeader.isLeader) {
+      return;
+    }
+    const now = this.clock.now();
+    const changed: string[] = [];
+    for (const strategy of this.declared) {
+      if (strategy.feed !== feed || !symbols.some((symbol) => matchesSymbol(strategy, symbol))) {
+        continue;
+      }
+      const key = this.keyFor(strategy);
+      this.ltpByKey.set(key, price);
+      this.fsmStateService.updateLastPrice(key, price);
+      const result = applyTickTransition(this.configFor(strategy), this.fsmByKey.get(key) ?? defaultFsm(), price, now);
+      this.fsmByKey.set(key, result.next);
+      changed.push(key);
+    }
+    this.updateSnapshot(changed);
+  }
+
+  private squareOff(feed: StrategyFeed): void {
+    if (!this.tabLeader.isLeader) {
+      return;
+    }
+    const changed: string[] = [];
+    for (const strategy of this.declared) {
+      const key = this.keyFor(strategy);
+      const current = this.fsmByKey.get(key);
+      if (strategy.feed === feed && current) {
+        this.fsmByKey.set(key, squareOffFsm(current));
+        changed.push(key);
+      }
+    }
+    console.log(`[strategy] square-off feed=${feed} strategies=${changed.length}`);
+    this.updateSnapshot(changed);
+  }
+
+  private reset(feed: StrategyFeed): void {
+    if (!this.tabLeader.isLeader) {
+      return;
+    }
+    for (const strategy of this.declared) {
+      if (strategy.feed === feed) {
+        this.fsmByKey.delete(this.keyFor(strategy));
+      }
+    }
+  }
+
+  private configFor(strategy: StrategyConfig): FsmConfig {
+    return fsmConfigFor(strategy, this.relayService.exitRules[strategy.id]);
+  }
+
+  private keyFor(strategy: StrategyConfig): string {
+    return strategyKey(strategy, strategy.symbol ?? '');
+  }
+
+  private updateSnapshot(keys: string[]): void {
+    const snapshot = new Map<string, FsmSymbolSnapshot>();
+    for (const key of keys) {
+      const fsm = this.fsmByKey.get(key) ?? defaultFsm();
+      snapshot.set(key, {
+        state: fsm.state,
+        ltp: this.ltpByKey.get(key) ?? null,
+        threshold: fsm.threshold,
+        lastBUYThreshold: fsm.lastBUYThreshold,
+        lastSELLThreshold: fsm.lastSELLThreshold,
+        lastBlockedAtMs: fsm.lastBlockedAtMs,
+        entryPrice: fsm.entryPrice,
+        enteredAtMs: fsm.enteredAtMs,
+        exitCause: fsm.lastExitCause
+      });
+    }
+    this.fsmStateService.update(snapshot);
+  }
+
+  private buildSymbolsByToken(members: UniverseMember[]): Map<number, string[]> {
+    const symbolsByToken = new Map<number, string[]>();
+    for (const member of members) {
+      if (member.enabled && typeof member.instrument.token === 'number') {
+        symbolsByToken.set(member.instrument.token, member.names);
+      }
+    }
+    return symbolsByToken;
+  }
+}
+
+function readNumber(tick: Tick, key: string): number | null {
+  if (typeof tick !== 'object' || tick === null) {
+    return null;
+  }
+  const value = (tick as Record<string, unknown>)[key];
+  return typeof value === 'number' ? value : null;
+}
@@ -1,21 +1,31 @@
-import { Injectable } from '@angular/core';
+import { Injectable, inject } from '@angular/core';
 import { BehaviorSubject } from 'rxjs';
+import { StorageService } from '../storage/storage.service';
+import { storageKeys } from '../storage/storage-keys';
+import { TabLeaderService } from '../tabs/tab-leader.service';
+import { ExitCause, FsmState } from './fsm-engine';
 
 export type FsmSymbolSnapshot = {
-  state: 'NOSIGNAL' | 'NOPOSITION_SIGNAL' | 'BUYPOSITION' | 'SELLPOSITION' | 'NOPOSITION_BLOCKED';
+  state: FsmState;
   ltp: number | null;
   threshold: number | null;
   lastBUYThreshold: number | null;
   lastSELLThreshold: number | null;
   lastBlockedAtMs: number | null;
+  entryPrice?: number | null;
+  enteredAtMs?: number | null;
+  exitCause?: ExitCause | null;
+  stale?: boolean;
 };
 
 @Injectable({ providedIn: 'root' })
 export class TickFsmStateService {
+  private readonly tabLeader = inject(TabLeaderService);
+  private readonly storage = inject(StorageService);
   private readonly subject = new BehaviorSubject<Map<string, FsmSymbolSnapshot>>(new Map());
   readonly fsmBySymbol$ = this.subject.asObservable();
-  private readonly persistKey = 'tick-fsm-snapshot-v1';
   private persistTimeout: ReturnType<typeof setTimeout> | null = null;
+  private publishTimeout: ReturnType<typeof setTimeout> | null = null;
   private readonly unloadHandler = () => this.saveSnapshot();
   private readonly lastPriceBySymbol = new Map<string, number>();
   private readonly lastThresholdBySymbol = new Map<string, number>();
@@ -26,6 +36,18 @@ export class TickFsmStateService {
     if (typeof window !== 'undefined') {
       window.addEventListener('beforeunload', this.unloadHandler);
     }
+    this.tabLeader.syncRequested$.subscribe(() => this.publish());
+    this.tabLeader.messages<[string, FsmSymbolSnapshot][]>('tick-fsm').subscribe((entries) => {
+      this.subject.next(new Map(entries));
+      for (const [symbol, data] of entries) {
+        if (data.threshold !== null) {
+          this.lastThresholdBySymbol.set(symbol, data.threshold);
+        }
+        if (typeof data.ltp === 'number') {
+          this.lastPriceBySymbol.set(symbol, data.ltp);
+        }
+      }
+    });
   }
 
   update(snapshot: Map<string, FsmSymbolSnapshot>): void {
@@ -38,10 +60,10 @@ export class TickFsmStateService {
       if (prev && this.shouldLogUpdate(symbol, prev, data)) {
         this.lastLogAtBySymbol.set(symbol, Date.now());
         console.log(
-          `[fsm-state] update symbol=${symbol} state=${data.state} threshold=${data.threshold ?? '--'}`
+          `[fsm-state] update symbol=${symbol} state=${data.state} threshold=${data.threshold ?? '--'} cause=${data.exitCause ?? '--'}`
         );
       }
-      next.set(symbol, data);
+      next.set(symbol, data.stale === undefined && prev?.stale ? { ...data, stale: true } : data);
       if (data.threshold !== null) {
         this.lastThresholdBySymbol.set(symbol, data.threshold);
       }
@@ -66,6 +88,21 @@ export class TickFsmStateService {
     return this.subject.value;
   }
 
+  setStale(match: (symbol: string) => boolean, stale: boolean): void {
+    const next = new Map(this.subject.value);
+    let changed = false;
+    for (const [symbol, data] of next.entries()) {
+      if (!match(symbol) || (data.stale ?? false) === stale) {
+        continue;
+      }
+      next.set(symbol, { ...data, stale });
+      changed = true;
+    }
+    if (changed) {
+      this.subject.next(next);
+    }
+  }
+
   clearSymbols(symbols: string[]): void {
     if (symbols.length === 0) {
       return;
@@ -116,7 +153,7 @@ export class TickFsmStateService {
     if (!snapshot) {
       return;
     }
-    this.subject.next(new Map(snapshot));
+    this.subject.next(new Map(snapshot.map(([symbol, data]) => [symbol, { ...data, stale: false }])));
     for (const [symbol, data] of snapshot) {
       if (data.threshold !== null) {
         this.lastThresholdBySymbol.set(symbol, data.threshold);
@@ -128,6 +165,12 @@ export class TickFsmStateService {
   }
 
   private schedulePersist(): void {
+    if (this.publishTimeout === null) {
+      this.publishTimeout = setTimeout(() => {
+        this.publishTimeout = null;
+        this.publish();
+      }, 250);
+    }
     if (this.persistTimeout !== null) {
       return;
     }
@@ -137,31 +180,18 @@ export class TickFsmStateService {
     }, 1000);
   }
 
+  private publish(): void {
+    this.tabLeader.publish('tick-fsm', Array.from(this.subject.value.entries()));
+  }
+
   private saveSnapshot(): void {
-    if (typeof localStorage === 'undefined') {
+    if (!this.tabLeader.isLeader) {
       return;
     }
-    const entries = Array.from(this.subject.value.entries());
-    try {
-      localStorage.setItem(this.persistKey, JSON.stringify(entries));
-    } catch {
-      // ignore storage failures
-    }
+    this.storage.write(storageKeys.tickFsm, Array.from(this.subject.value.entries()));
   }
 
   private loadSnapshot(): [string, FsmSymbolSnapshot][] | null {
-    if (typeof localStorage === 'undefined') {
-      return null;
-    }
-    try {
-      const raw = localStorage.getItem(this.persistKey);
-      if (!raw) {
-        return null;
-      }
-      const parsed = JSON.parse(raw);
-      return Array.isArray(parsed) ? (parsed as [string, FsmSymbolSnapshot][]) : null;
-    } catch {
-      return null;
-    }
+    return this.storage.read(storageKeys.tickFsm);
   }
 }
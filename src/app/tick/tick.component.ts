@@ -5,19 +5,37 @@ import { MatCardModule } from '@angular/material/card';
 import { MatChipsModule } from '@angular/material/chips';
 import { MatTableModule } from '@angular/material/table';
 import { MatToolbarModule } from '@angular/material/toolbar';
-import { BehaviorSubject, combineLatest, defer, from, map, merge, scan, shareReplay, startWith, switchMap } from 'rxjs';
+import { BehaviorSubject, combineLatest, filter, map, merge, scan, shareReplay, startWith, switchMap, take } from 'rxjs';
 import { BinancePayload, BinanceService } from '../binance/binance.service';
+import { FSM_CLOCK } from './fsm-clock';
+import {
+  FsmConfig,
+  FsmDirection,
+  FsmSignal,
+  InstrumentFsm,
+  TickTransitionResult,
+  applySignalTransition,
+  applyTickTransition,
+  defaultFsm,
+  directionFromValue,
+  isPositionState,
+  resolveDirection,
+  squareOffFsm
+} from './fsm-engine';
 import { FsmSymbolSnapshot, TickFsmStateService } from './tick-fsm-state.service';
+import { InstrumentRow } from '../instruments/instrument-universe';
+import { InstrumentUniverseService } from '../instruments/instrument-universe.service';
 import { RelayService } from '../relay/relay.service';
-import { WebhookPayload, WebhookService } from '../webhook/webhook.service';
+import { positionQuantity } from '../sizing/position-sizing';
+import { SessionJobsService } from '../scheduler/session-jobs.service';
+import { SquareOffSchedulerService } from '../square-off/square-off-scheduler.service';
+import { catchAllStrategy, fsmConfigFor, routesTo, strategyForKey, symbolForKey } from '../strategies/strategy-config';
+import { NormalizedSignal } from '../webhook/signal-schema';
+import { WebhookService } from '../webhook/webhook.service';
+import { WebhookStateService } from '../webhook/webhook-state.service';
 import { Tick, TickService } from './tick.service';
-
-type InstrumentMeta = {
-  tradingview?: string;
-  zerodha: string;
-  token: number;
-  lot?: number;
-};
+import { MarketSocketService } from '../socket/market-socket.service';
+import { TabLeaderService } from '../tabs/tab-leader.service';
 
 type InstrumentLookup = {
   map: Map<number, string>;
@@ -25,19 +43,7 @@ type InstrumentLookup = {
   symbolLookup: Map<string, number>;
   tokenSymbols: Map<number, string[]>;
   lotBySymbol: Map<string, number>;
-};
-
-type FsmState = 'NOSIGNAL' | 'NOPOSITION_SIGNAL' | 'BUYPOSITION' | 'SELLPOSITION' | 'NOPOSITION_BLOCKED';
-
-type InstrumentFsm = {
-  state: FsmState;
-  threshold: number | null;
-  savedBUYThreshold: number | null;
-  lastBUYThreshold: number | null;
-  lastSELLThreshold: number | null;
-  lastSignalAtMs: number | null;
-  lastCheckedAtMs: number | null;
-  lastBlockedAtMs: number | null;
+  directionByToken: Map<number, FsmDirection>;
 };
 
 type TickState = {
@@ -46,6 +52,7 @@ type TickState = {
   latestBinanceBySymbol: Map<string, number>;
   fsmByToken: Map<number, InstrumentFsm>;
   fsmBySymbol: Map<string, InstrumentFsm>;
+  directionByToken: Map<number, FsmDirection>;
 };
 
 type TickRow = {
@@ -61,13 +68,10 @@ type TickRow = {
 
 type TickEvent =
   | { type: 'tick'; tick: Tick; receivedAt: number }
-  | { type: 'signal'; payload: WebhookPayload; token: number | null; receivedAt: number }
-  | { type: 'binance'; payload: BinancePayload; token: number | null; receivedAt: number };
-
-type TickTransitionResult = {
-  next: InstrumentFsm;
-  intermediate?: InstrumentFsm;
-};
+  | { type: 'signal'; payload: NormalizedSignal; token: number | null; receivedAt: number }
+  | { type: 'binance'; payload: BinancePayload; token: number | null; receivedAt: number }
+  | { type: 'square-off'; receivedAt: number }
+  | { type: 'reset'; receivedAt: number; directionByToken: Map<number, FsmDirection> };
 
 @Component({
   selector: 'app-tick',
@@ -82,6 +86,14 @@ export class TickComponent {
   private readonly webhookService = inject(WebhookService);
   private readonly fsmStateService = inject(TickFsmStateService);
   private readonly relayService = inject(RelayService);
+  private readonly webhookStateService = inject(WebhookStateService);
+  private readonly squareOffService = inject(SquareOffSchedulerService);
+  private readonly sessionJobsService = inject(SessionJobsService);
+  private readonly clock = inject(FSM_CLOCK);
+  private readonly universeService = inject(InstrumentUniverseService);
+  private readonly tabLeader = inject(TabLeaderService);
+  readonly socketStatus$ = inject(MarketSocketService).status$;
+  private readonly strategy = catchAllStrategy('zerodha');
   private loggedMissingBtcThreshold = false;
   private lastZerodhaLogAt = 0;
   private readonly lastStuckLogAtBySymbol = new Map<string, number>();
@@ -107,8 +119,11 @@ export class TickComponent {
 
   private readonly enableProcessing$ = new BehaviorSubject<boolean>(true);
 
-  readonly latestTicks$ = this.enableProcessing$.pipe(
-    switchMap((enabled) => enabled ? this.buildProcessedTicks$() : this.buildViewOnlyTicks$())
+  // Follower tabs only mirror the leader's FSM snapshot, so they never run the processing path.
+  readonly latestTicks$ = combineLatest([this.enableProcessing$, this.tabLeader.isLeader$]).pipe(
+    switchMap(([enabled, isLeader]) =>
+      enabled && isLeader ? this.buildProcessedTicks$() : this.buildViewOnlyTicks$()
+    )
   );
 
   formatNumber(value: number | null): string {
@@ -124,24 +139,26 @@ export class TickComponent {
 
   private buildTickState() {
     return this.instrumentLookup$.pipe(
+      take(1),
       switchMap((lookup) => {
         const initialState = this.buildInitialState(lookup);
         const tickEvents$ = this.tickService.ticks$.pipe(
-          map((tick) => ({ type: 'tick', tick, receivedAt: Date.now() }) as TickEvent)
+          map((tick) => ({ type: 'tick', tick, receivedAt: this.clock.now() }) as TickEvent)
         );
 
-        const signalEvents$ = this.webhookService.webhook$.pipe(
+        const signalEvents$ = this.webhookService.signals$.pipe(
+          filter((payload) => this.strategy !== null && routesTo(this.strategy, payload)),
           map((payload) => {
             const isBinanceSymbol = this.isBinanceSymbol(payload.symbol);
             const token = isBinanceSymbol ? null : this.getTokenForSymbol(payload.symbol, lookup.symbolLookup);
             this.log(
-              `[tick] webhook mapped symbol=${payload.symbol ?? '--'} token=${token ?? '--'} bySymbol=${isBinanceSymbol}`
+              `[tick] webhook mapped symbol=${payload.symbol} token=${token ?? '--'} bySymbol=${isBinanceSymbol}`
             );
             return {
               type: 'signal',
               payload,
               token,
-              receivedAt: Date.now()
+              receivedAt: this.clock.now()
             } as TickEvent;
           })
         );
@@ -153,12 +170,20 @@ export class TickComponent {
               type: 'binance',
               payload,
               token: isBinanceSymbol ? null : this.getTokenForSymbol(payload.symbol, lookup.symbolLookup),
-              receivedAt: Date.now()
+              receivedAt: this.clock.now()
             } as TickEvent;
           })
         );
 
-        return merge(tickEvents$, signalEvents$, binanceEvents$).pipe(
+        const squareOffEvents$ = this.squareOffService.squareOff$.pipe(
+          map((receivedAt) => ({ type: 'square-off', receivedAt }) as TickEvent)
+        );
+
+        const resetEvents$ = this.sessionJobsService.zerodhaReset$.pipe(
+          map((receivedAt) => ({ type: 'reset', receivedAt, directionByToken: lookup.directionByToken }) as TickEvent)
+        );
+
+        return merge(tickEvents$, signalEvents$, binanceEvents$, squareOffEvents$, resetEvents$).pipe(
           scan((state, event) => this.reduceTickState(state, event), initialState),
           startWith(initialState),
           shareReplay({ bufferSize: 1, refCount: true })
@@ -186,7 +211,7 @@ export class TickComponent {
         });
         const tickRows = orderedTicks.map((tick) => {
           const token = this.getInstrumentToken(tick);
-          const fsm = token === null ? null : state.fsmByToken.get(token) ?? this.defaultFsm();
+          const fsm = token === null ? null : state.fsmByToken.get(token) ?? defaultFsm();
           return this.toRow(tick, instrumentLookup.map, fsm, instrumentLookup.lotBySymbol);
         });
         const snapshot = this.buildFsmSnapshot(state, instrumentLookup);
@@ -241,14 +266,14 @@ export class TickComponent {
           const snap = symbol ? snapshot.get(symbol) : null;
           const fsm = snap
             ? {
-              ...this.defaultFsm(),
+              ...defaultFsm(),
               state: snap.state,
               threshold: snap.threshold,
               lastBUYThreshold: snap.lastBUYThreshold,
               lastSELLThreshold: snap.lastSELLThreshold,
               lastBlockedAtMs: snap.lastBlockedAtMs
             }
-            : this.defaultFsm();
+            : defaultFsm();
           return this.toStateRow(symbol, this.getTickLtp(tick), fsm, instrumentLookup.lotBySymbol);
         });
         if (this.includeBinance) {
@@ -257,7 +282,8 @@ export class TickComponent {
             latestLtpByToken: new Map<number, number>(),
             latestBinanceBySymbol: new Map<string, number>(),
             fsmByToken: new Map<number, InstrumentFsm>(),
-            fsmBySymbol: new Map<string, InstrumentFsm>()
+            fsmBySymbol: new Map<string, InstrumentFsm>(),
+            directionByToken: new Map<number, FsmDirection>()
           };
           return this.buildBinanceRows(binanceState, snapshot, instrumentLookup.lotBySymbol);
         }
@@ -279,8 +305,8 @@ export class TickComponent {
       }
       const fsmByToken = new Map(state.fsmByToken);
       if (token !== null) {
-        const existing = fsmByToken.get(token) ?? this.defaultFsm();
-        const result = this.applyTickTransition(existing, tickLtp, event.receivedAt);
+        const existing = fsmByToken.get(token) ?? defaultFsm();
+        const result = this.applyTickTransition(this.configFor(state, token), existing, tickLtp, event.receivedAt);
         if (result.intermediate) {
           this.logFsmTransition('tick', null, existing, result.intermediate, tickLtp, event.receivedAt);
           this.logFsmTransition('tick', null, result.intermediate, result.next, tickLtp, event.receivedAt);
@@ -294,26 +320,40 @@ export class TickComponent {
         latestLtpByToken,
         latestBinanceBySymbol: state.latestBinanceBySymbol,
         fsmByToken,
-        fsmBySymbol: state.fsmBySymbol
+        fsmBySymbol: state.fsmBySymbol,
+        directionByToken: state.directionByToken
       };
     }
 
     if (event.type === 'signal') {
-      const signal = this.getSignalType(event.payload);
+      const signal = event.payload.signal;
       if (this.isBinanceSymbol(event.payload.symbol)) {
         return state;
       }
+      if (this.squareOffService.isEntryBlocked(event.receivedAt)) {
+        this.log(`[tick] signal ignored symbol=${event.payload.symbol} reason=square-off`);
+        return state;
+      }
       const fsmByToken = new Map(state.fsmByToken);
       const token = event.token;
       if (token === null) {
-        this.logStuck('signal', event.payload.symbol ?? '--', this.defaultFsm(), null, event.receivedAt, 'missing token');
+        this.logStuck('signal', event.payload.symbol, defaultFsm(), null, event.receivedAt, 'missing token');
         return state;
       }
-      const existing = fsmByToken.get(token) ?? this.defaultFsm();
+      const existing = fsmByToken.get(token) ?? defaultFsm();
       if (existing.state === 'NOPOSITION_SIGNAL' && (state.latestLtpByToken.get(token) ?? null) === null) {
-        this.logStuck('signal', event.payload.symbol ?? '--', existing, null, event.receivedAt, 'missing ltp');
+        this.logStuck('signal', event.payload.symbol, existing, null, event.receivedAt, 'missing ltp');
+      }
+      const currentDirection = state.directionByToken.get(token) ?? 'long';
+      const direction = resolveDirection(existing, currentDirection, event.payload);
+      let directionByToken = state.directionByToken;
+      if (direction !== currentDirection) {
+        directionByToken = new Map(state.directionByToken);
+        directionByToken.set(token, direction);
+        this.log(`[tick] direction symbol=${event.payload.symbol} from=${currentDirection} to=${direction}`);
       }
       const next = this.applySignalTransition(
+        { ...this.configFor(state, token), direction },
         existing,
         signal,
         event.payload,
@@ -322,7 +362,7 @@ export class TickComponent {
       );
       this.logFsmTransition('signal', event.payload.symbol, existing, next, state.latestLtpByToken.get(token) ?? null, event.receivedAt);
       fsmByToken.set(token, next);
-      return { ...state, fsmByToken };
+      return { ...state, fsmByToken, directionByToken };
     }
 
     if (event.type === 'binance') {
@@ -348,8 +388,8 @@ export class TickComponent {
       }
       const fsmByToken = new Map(state.fsmByToken);
       if (token !== null) {
-        const existing = fsmByToken.get(token) ?? this.defaultFsm();
-        const result = this.applyTickTransition(existing, price, event.receivedAt);
+        const existing = fsmByToken.get(token) ?? defaultFsm();
+        const result = this.applyTickTransition(this.configFor(state, token), existing, price, event.receivedAt);
         if (result.intermediate) {
           this.logFsmTransition('tick', symbol || null, existing, result.intermediate, price, event.receivedAt);
           this.logFsmTransition('tick', symbol || null, result.intermediate, result.next, price, event.receivedAt);
@@ -361,6 +401,21 @@ export class TickComponent {
       return { ...state, latestLtpByToken, latestBinanceBySymbol, fsmByToken, fsmBySymbol: state.fsmBySymbol };
     }
 
+    if (event.type === 'square-off') {
+      const fsmByToken = new Map<number, InstrumentFsm>();
+      for (const [token, fsm] of state.fsmByToken.entries()) {
+        const next = squareOffFsm(fsm);
+        this.logFsmTransition('square-off', null, fsm, next, state.latestLtpByToken.get(token) ?? null, event.receivedAt);
+        fsmByToken.set(token, next);
+      }
+      return { ...state, fsmByToken };
+    }
+
+    if (event.type === 'reset') {
+      this.log(`[tick] reset instruments=${state.fsmByToken.size}`);
+      return { ...state, fsmByToken: new Map(), directionByToken: new Map(event.directionByToken) };
+    }
+
     return state;
   }
 
@@ -371,174 +426,51 @@ export class TickComponent {
     return [tick, ...filtered].slice(0, 6);
   }
 
+  private configFor(state: TickState, token: number): FsmConfig {
+    const base: FsmConfig = this.strategy
+      ? fsmConfigFor(this.strategy, this.relayService.exitRules[this.strategy.id])
+      : { direction: 'long', holdPositionOnSignal: true };
+    return { ...base, direction: state.directionByToken.get(token) ?? base.direction };
+  }
+
   private applySignalTransition(
+    config: FsmConfig,
     current: InstrumentFsm,
-    signal: 'BUY' | 'SELL' | null,
-    payload: WebhookPayload,
+    signal: FsmSignal | null,
+    payload: NormalizedSignal,
     latestLtp: number | null,
     receivedAt: number
   ): InstrumentFsm {
     if (!signal) {
       return current;
     }
-    if (this.isPositionState(current.state)) {
-      if (signal === 'BUY') {
-        const threshold = typeof payload.stoppx === 'number' ? payload.stoppx : current.threshold;
-        if (threshold !== current.threshold) {
-          this.log(
-            `[tick] in-position threshold update symbol=${payload.symbol ?? '--'} signal=BUY from=${current.threshold ?? '--'} to=${threshold ?? '--'}`
-          );
-        }
-        return {
-          ...current,
-          threshold,
-          savedBUYThreshold: threshold,
-          lastBUYThreshold: threshold,
-          lastSignalAtMs: receivedAt
-        };
-      }
-      const threshold = latestLtp ?? current.threshold;
-      if (threshold !== current.threshold) {
-        this.log(
-          `[tick] in-position threshold update symbol=${payload.symbol ?? '--'} signal=SELL from=${current.threshold ?? '--'} to=${threshold ?? '--'}`
-        );
-      }
-      return {
-        ...current,
-        threshold,
-        lastSELLThreshold: threshold,
-        lastSignalAtMs: receivedAt
-      };
-    }
-    if (signal === 'BUY') {
-      const threshold = typeof payload.stoppx === 'number' ? payload.stoppx : null;
-      return {
-        state: 'NOPOSITION_SIGNAL',
-        threshold,
-        savedBUYThreshold: threshold,
-        lastBUYThreshold: threshold,
-        lastSELLThreshold: current.lastSELLThreshold,
-        lastSignalAtMs: receivedAt,
-        lastCheckedAtMs: null,
-        lastBlockedAtMs: null
-      };
-    }
-    const threshold = latestLtp;
-    return {
-      state: 'NOPOSITION_SIGNAL',
-      threshold,
-      savedBUYThreshold: current.savedBUYThreshold,
-      lastBUYThreshold: current.lastBUYThreshold,
-      lastSELLThreshold: threshold,
-      lastSignalAtMs: receivedAt,
-      lastCheckedAtMs: null,
-      lastBlockedAtMs: null
-    };
-  }
-
-  private isPositionState(state: InstrumentFsm['state']): boolean {
-    return state === 'BUYPOSITION' || state === 'SELLPOSITION';
-  }
-
-  private applyTickTransition(current: InstrumentFsm, ltp: number | null, receivedAt: number): TickTransitionResult {
-    if (current.threshold === null || current.lastSignalAtMs === null || ltp === null) {
-      if (current.lastSignalAtMs !== null) {
-        this.logStuck('tick', '--', current, ltp, receivedAt, 'missing threshold/ltp');
-      }
-      return { next: current };
-    }
-    if (current.state === 'BUYPOSITION') {
-      if (ltp >= current.threshold) {
-        return { next: current };
-      }
-      return {
-        next: {
-          ...current,
-          state: 'NOPOSITION_BLOCKED',
-          lastCheckedAtMs: receivedAt,
-          lastBlockedAtMs: receivedAt
-        }
-      };
-    }
-    if (current.state === 'NOPOSITION_SIGNAL') {
-      if (current.lastCheckedAtMs !== null && current.lastCheckedAtMs >= current.lastSignalAtMs) {
-        this.logStuck('tick', '--', current, ltp, receivedAt, 'already checked');
-        return { next: current };
-      }
-      const nextState = ltp > current.threshold ? 'BUYPOSITION' : 'NOPOSITION_BLOCKED';
-      return {
-        next: {
-          ...current,
-          state: nextState,
-          lastCheckedAtMs: receivedAt,
-          lastBlockedAtMs: nextState === 'NOPOSITION_BLOCKED' ? receivedAt : null
-        }
-      };
-    }
-    if (current.state === 'NOPOSITION_BLOCKED') {
-      if (!this.isFirstSecondNextMinute(current.lastBlockedAtMs, receivedAt)) {
-        return { next: current };
-      }
-      const intermediate: InstrumentFsm = {
-        ...current,
-        state: 'NOPOSITION_SIGNAL',
-        lastSignalAtMs: receivedAt,
-        lastCheckedAtMs: null,
-        lastBlockedAtMs: null
-      };
-      const nextState = ltp > current.threshold ? 'BUYPOSITION' : 'NOPOSITION_BLOCKED';
-      const finalState: InstrumentFsm = {
-        ...intermediate,
-        state: nextState,
-        lastCheckedAtMs: receivedAt,
-        lastBlockedAtMs: nextState === 'NOPOSITION_BLOCKED' ? receivedAt : null
-      };
-      return { intermediate, next: finalState };
-    }
-    return { next: current };
-  }
-
-  private isFirstSecondNextMinute(anchorAtMs: number | null, tickAtMs: number): boolean {
-    if (anchorAtMs === null) {
-      return false;
-    }
-    const signalMinute = Math.floor(anchorAtMs / 60000);
-    const tickMinute = Math.floor(tickAtMs / 60000);
-    if (tickMinute <= signalMinute) {
-      return false;
+    const next = applySignalTransition(config, current, signal, payload, latestLtp, receivedAt);
+    if (isPositionState(current.state) && next.threshold !== current.threshold) {
+      this.log(
+        `[tick] in-position threshold update symbol=${payload.symbol} signal=${signal} from=${current.threshold ?? '--'} to=${next.threshold ?? '--'}`
+      );
     }
-    return new Date(tickAtMs).getSeconds() === 0;
+    return next;
   }
 
-  private getSignalType(payload: WebhookPayload): 'BUY' | 'SELL' | null {
-    const intentCandidate = `${payload.intent ?? ''}`.toUpperCase();
-    if (intentCandidate === 'BUY') {
-      return 'BUY';
-    }
-    if (intentCandidate === 'SELL') {
-      return 'SELL';
-    }
-    if (intentCandidate === 'ENTRY') {
-      return 'BUY';
-    }
-    if (intentCandidate === 'EXIT') {
-      return 'SELL';
-    }
-    const sideCandidate = `${payload.side ?? ''}`.toUpperCase();
-    if (sideCandidate === 'BUY') {
-      return 'BUY';
-    }
-    if (sideCandidate === 'SELL') {
-      return 'SELL';
+  private applyTickTransition(
+    config: FsmConfig,
+    current: InstrumentFsm,
+    ltp: number | null,
+    receivedAt: number
+  ): TickTransitionResult {
+    const result = applyTickTransition(config, current, ltp, receivedAt);
+    if (result.stuckReason) {
+      this.logStuck('tick', '--', current, ltp, receivedAt, result.stuckReason);
     }
-    return null;
+    return result;
   }
 
   getPositionLabel(): string {
     const symbols = this.getBinanceSymbols();
     const isShort = this.includeBinance
       && symbols.length > 0
-      && symbols.every((symbol) => symbol.endsWith('_SHORT'));
+      && symbols.every((symbol) => strategyForKey(symbol).direction === 'short');
     return isShort ? 'SELLPOSITION' : 'BUYPOSITION';
   }
 
@@ -561,7 +493,7 @@ export class TickComponent {
   }
 
   private logFsmTransition(
-    source: 'signal' | 'tick' | 'binance',
+    source: 'signal' | 'tick' | 'binance' | 'square-off',
     symbol: string | null | undefined,
     prev: InstrumentFsm,
     next: InstrumentFsm,
@@ -576,23 +508,11 @@ export class TickComponent {
     );
   }
 
-  private defaultFsm(): InstrumentFsm {
-    return {
-      state: 'NOSIGNAL',
-      threshold: null,
-      savedBUYThreshold: null,
-      lastBUYThreshold: null,
-      lastSELLThreshold: null,
-      lastSignalAtMs: null,
-      lastCheckedAtMs: null,
-      lastBlockedAtMs: null
-    };
-  }
-
   private buildInitialState(lookup: InstrumentLookup): TickState {
     const snapshot = this.fsmStateService.getSnapshot();
-    const now = Date.now();
+    const now = this.clock.now();
     const fsmByToken = new Map<number, InstrumentFsm>();
+    const directionByToken = new Map(lookup.directionByToken);
     for (const [token, symbols] of lookup.tokenSymbols.entries()) {
       let snap: FsmSymbolSnapshot | undefined;
       for (const symbol of symbols) {
@@ -613,15 +533,23 @@ export class TickComponent {
         lastSELLThreshold: snap.lastSELLThreshold,
         lastSignalAtMs: snap.state === 'NOSIGNAL' ? null : now,
         lastCheckedAtMs: null,
-        lastBlockedAtMs: snap.state === 'NOPOSITION_BLOCKED' ? now : null
+        lastBlockedAtMs: snap.state === 'NOPOSITION_BLOCKED' ? now : null,
+        entryPrice: snap.entryPrice ?? null,
+        entryThreshold: snap.threshold,
+        enteredAtMs: snap.enteredAtMs ?? null,
+        lastExitCause: snap.exitCause ?? null
       });
+      if (snap.state === 'SELLPOSITION') {
+        directionByToken.set(token, 'short');
+      }
     }
     return {
       ticks: [],
       latestLtpByToken: new Map<number, number>(),
       latestBinanceBySymbol: new Map<string, number>(),
       fsmByToken,
-      fsmBySymbol: new Map<string, InstrumentFsm>()
+      fsmBySymbol: new Map<string, InstrumentFsm>(),
+      directionByToken
     };
   }
 
@@ -659,11 +587,11 @@ export class TickComponent {
       return this.toStateRow(
         instrumentToken === null ? null : instrumentMap.get(instrumentToken) ?? null,
         ltp,
-        fsm ?? this.defaultFsm(),
+        fsm ?? defaultFsm(),
         lotBySymbol
       );
     }
-    return this.toStateRow(null, null, fsm ?? this.defaultFsm(), lotBySymbol);
+    return this.toStateRow(null, null, fsm ?? defaultFsm(), lotBySymbol);
   }
 
   private toBinanceRow(
@@ -692,7 +620,7 @@ export class TickComponent {
       symbol,
       ltp,
       threshold: fsm.threshold,
-      quantity: this.computeQuantity(symbol, ltp, lotBySymbol),
+      quantity: this.computeQuantity(symbol, ltp, fsm.threshold, lotBySymbol),
       noSignal: fsm.state === 'NOSIGNAL',
       noPositionSignal: fsm.state === 'NOPOSITION_SIGNAL',
       buyPosition: fsm.state === 'BUYPOSITION' || fsm.state === 'SELLPOSITION',
@@ -714,14 +642,14 @@ export class TickComponent {
       const fallbackThreshold = this.fsmStateService.getLastThreshold(symbol);
       const fsm = snap
         ? {
-          ...this.defaultFsm(),
+          ...defaultFsm(),
           state: snap.state,
           threshold: snap.threshold ?? fallbackThreshold,
           lastBUYThreshold: snap.lastBUYThreshold,
           lastSELLThreshold: snap.lastSELLThreshold
         }
         : {
-          ...(state.fsmBySymbol.get(symbol) ?? this.defaultFsm()),
+          ...(state.fsmBySymbol.get(symbol) ?? defaultFsm()),
           threshold: fallbackThreshold ?? (state.fsmBySymbol.get(symbol)?.threshold ?? null)
         };
       const price = this.getBinancePriceForSymbol(symbol, priceBySymbol, snap?.ltp ?? null);
@@ -769,8 +697,8 @@ export class TickComponent {
     if (persisted !== null) {
       return persisted;
     }
-    if (symbol.endsWith('_LONG') || symbol.endsWith('_SHORT')) {
-      const baseSymbol = symbol.replace(/_(LONG|SHORT)$/, '');
+    const baseSymbol = symbolForKey(symbol);
+    if (baseSymbol !== symbol) {
       const basePrice = latestBySymbol.get(baseSymbol);
       if (basePrice !== undefined) {
         return basePrice;
@@ -810,7 +738,10 @@ export class TickComponent {
 
 
   private loadInstrumentMap() {
-    return defer(() => from(this.fetchInstrumentMap())).pipe(
+    return this.universeService.members$.pipe(
+      map((members) => this.buildMapFromMeta(
+        members.filter((member) => member.enabled).map((member) => member.instrument)
+      )),
       shareReplay({ bufferSize: 1, refCount: true })
     );
   }
@@ -828,7 +759,10 @@ export class TickComponent {
           threshold: fsm.threshold,
           lastBUYThreshold: fsm.lastBUYThreshold,
           lastSELLThreshold: fsm.lastSELLThreshold,
-          lastBlockedAtMs: fsm.lastBlockedAtMs
+          lastBlockedAtMs: fsm.lastBlockedAtMs,
+          entryPrice: fsm.entryPrice,
+          enteredAtMs: fsm.enteredAtMs,
+          exitCause: fsm.lastExitCause
         });
       }
     }
@@ -840,47 +774,26 @@ export class TickComponent {
         threshold: fsm.threshold,
         lastBUYThreshold: fsm.lastBUYThreshold,
         lastSELLThreshold: fsm.lastSELLThreshold,
-        lastBlockedAtMs: fsm.lastBlockedAtMs
+        lastBlockedAtMs: fsm.lastBlockedAtMs,
+        entryPrice: fsm.entryPrice,
+        enteredAtMs: fsm.enteredAtMs,
+        exitCause: fsm.lastExitCause
       });
     }
     return snapshot;
   }
 
-  private async fetchInstrumentMap(): Promise<InstrumentLookup> {
-    try {
-      const response = await fetch('/instruments.json', { cache: 'no-store' });
-      if (!response.ok) {
-        return {
-          map: new Map<number, string>(),
-          order: new Map<number, number>(),
-          symbolLookup: new Map<string, number>(),
-          tokenSymbols: new Map<number, string[]>(),
-          lotBySymbol: new Map<string, number>()
-        };
-      }
-      const parsed = await response.json();
-      const meta = Array.isArray(parsed) ? (parsed as InstrumentMeta[]) : [];
-      return this.buildMapFromMeta(meta);
-    } catch {
-      return {
-        map: new Map<number, string>(),
-        order: new Map<number, number>(),
-        symbolLookup: new Map<string, number>(),
-        tokenSymbols: new Map<number, string[]>(),
-        lotBySymbol: new Map<string, number>()
-      };
-    }
-  }
-
-  private buildMapFromMeta(meta: InstrumentMeta[]): InstrumentLookup {
+  private buildMapFromMeta(meta: InstrumentRow[]): InstrumentLookup {
     const map = new Map<number, string>();
     const order = new Map<number, number>();
     const symbolLookup = new Map<string, number>();
     const tokenSymbols = new Map<number, string[]>();
     const lotBySymbol = new Map<string, number>();
+    const directionByToken = new Map<number, FsmDirection>();
     meta.forEach((instrument, index) => {
       if (typeof instrument.token === 'number' && typeof instrument.zerodha === 'string') {
         map.set(instrument.token, instrument.zerodha);
+        directionByToken.set(instrument.token, directionFromValue(instrument.direction) ?? 'long');
         order.set(instrument.token, index);
         symbolLookup.set(instrument.zerodha, instrument.token);
         const list = tokenSymbols.get(instrument.token) ?? [];
@@ -900,12 +813,13 @@ export class TickComponent {
         }
       }
     });
-    return { map, order, symbolLookup, tokenSymbols, lotBySymbol };
+    return { map, order, symbolLookup, tokenSymbols, lotBySymbol, directionByToken };
   }
 
   private computeQuantity(
     symbol: string | null,
     ltp: number | null,
+    threshold: number | null,
     lotBySymbol: Map<string, number>
   ): number | null {
     if (!symbol || ltp === null) {
@@ -915,16 +829,19 @@ export class TickComponent {
     if (lot === null || lot <= 0) {
       return null;
     }
-    const capital = this.relayService.getCapitalValue();
-    const lots = Math.ceil(capital / (lot * ltp));
-    return Math.max(1, lots) * lot;
+    return positionQuantity(this.relayService.sizing, symbol, {
+      ltp,
+      lot,
+      threshold,
+      capital: this.relayService.getCapitalValue(),
+      cumulativePnl: this.webhookStateService.getCumulativePnl(symbol)
+    });
   }
 
   private getLotForSymbol(symbol: string, lotBySymbol: Map<string, number>): number | null {
     if (lotBySymbol.has(symbol)) {
       return lotBySymbol.get(symbol) ?? null;
     }
-    const base = symbol.replace(/_(LONG|SHORT)$/, '');
-    return lotBySymbol.get(base) ?? null;
+    return lotBySymbol.get(symbolForKey(symbol)) ?? null;
   }
 }
@@ -0,0 +1,60 @@
+import { TestBed } from '@angular/core/testing';
+import { BehaviorSubject, Subject } from 'rxjs';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { defaultUniverse, resolveUniverse } from '../instruments/instrument-universe';
+import { InstrumentUniverseService } from '../instruments/instrument-universe.service';
+import { RelayService } from '../relay/relay.service';
+import { SessionJobsService } from '../scheduler/session-jobs.service';
+import { SquareOffSchedulerService } from '../square-off/square-off-scheduler.service';
+import { TabLeaderService } from '../tabs/tab-leader.service';
+import { WebhookService } from '../webhook/webhook.service';
+import { TickFsmStateService } from './tick-fsm-state.service';
+import { Tick, TickService } from './tick.service';
+import { ZerodhaTickRunnerService } from './zerodha-tick-runner.service';
+
+describe('ZerodhaTickRunnerService', () => {
+  let leader: BehaviorSubject<boolean>;
+  let ticks: Subject<Tick>;
+  let update: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    leader = new BehaviorSubject(true);
+    ticks = new Subject<Tick>();
+    update = vi.fn();
+    const instruments = [
+      { tradingview: 'NIFTY260106C25950', exchange: 'NFO', zerodha: 'NIFTY2610625950CE', token: 11, lot: 65 }
+    ];
+
+    TestBed.configureTestingModule({
+      providers: [
+        ZerodhaTickRunnerService,
+        { provide: TickService, useValue: { ticks$: ticks } },
+        { provide: WebhookService, useValue: { signals$: new Subject() } },
+        { provide: TickFsmStateService, useValue: { update, clearSymbols: vi.fn() } },
+        { provide: TabLeaderService, useValue: { isLeader$: leader, get isLeader() { return leader.value; } } },
+        { provide: RelayService, useValue: { exitRules: {} } },
+        { provide: SquareOffSchedulerService, useValue: { squareOff$: new Subject(), isEntryBlocked: () => false } },
+        { provide: SessionJobsService, useValue: { zerodhaReset$: new Subject() } },
+        {
+          provide: InstrumentUniverseService,
+          useValue: { members$: new BehaviorSubject(resolveUniverse(instruments, defaultUniverse())) }
+        }
+      ]
+    });
+  });
+
+  it('stops processing ticks once another tab takes over', () => {
+    TestBed.inject(ZerodhaTickRunnerService);
+
+    ticks.next({ instrument_token: 11, last_price: 120 });
+    expect(update).toHaveBeenCalledTimes(1);
+
+    leader.next(false);
+    ticks.next({ instrument_token: 11, last_price: 121 });
+    expect(update).toHaveBeenCalledTimes(1);
+
+    leader.next(true);
+    ticks.next({ instrument_token: 11, last_price: 122 });
+    expect(update).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,77 +1,77 @@
 import { Injectable, OnDestroy, inject } from '@angular/core';
-import { Subscription, defer, from, map, merge, scan, shareReplay, startWith, switchMap } from 'rxjs';
+import { EMPTY, Observable, Subscription, filter, map, merge, scan, skip, startWith, switchMap, take } from 'rxjs';
+import { UniverseMember } from '../instruments/instrument-universe';
+import { InstrumentUniverseService } from '../instruments/instrument-universe.service';
+import { RelayService } from '../relay/relay.service';
+import { SessionJobsService } from '../scheduler/session-jobs.service';
+import { SquareOffSchedulerService } from '../square-off/square-off-scheduler.service';
+import { catchAllStrategy, fsmConfigFor, routesTo } from '../strategies/strategy-config';
+import { TabLeaderService } from '../tabs/tab-leader.service';
+import { FSM_CLOCK } from './fsm-clock';
+import {
+  FsmConfig,
+  FsmDirection,
+  InstrumentFsm,
+  applySignalTransition,
+  applyTickTransition,
+  defaultFsm,
+  directionFromValue,
+  resolveDirection,
+  squareOffFsm
+} from './fsm-engine';
 import { TickFsmStateService, FsmSymbolSnapshot } from './tick-fsm-state.service';
-import { WebhookPayload, WebhookService } from '../webhook/webhook.service';
+import { NormalizedSignal } from '../webhook/signal-schema';
+import { WebhookService } from '../webhook/webhook.service';
 import { Tick, TickService } from './tick.service';
 
-type InstrumentMeta = {
-  tradingview?: string;
-  zerodha: string;
-  token: number;
-};
-
 type InstrumentLookup = {
   map: Map<number, string>;
   symbolLookup: Map<string, number>;
-};
-
-type FsmState = 'NOSIGNAL' | 'NOPOSITION_SIGNAL' | 'BUYPOSITION' | 'SELLPOSITION' | 'NOPOSITION_BLOCKED';
-
-type InstrumentFsm = {
-  state: FsmState;
-  threshold: number | null;
-  savedBUYThreshold: number | null;
-  lastBUYThreshold: number | null;
-  lastSELLThreshold: number | null;
-  lastSignalAtMs: number | null;
-  lastCheckedAtMs: number | null;
-  lastBlockedAtMs: number | null;
+  directionByToken: Map<number, FsmDirection>;
 };
 
 type TickState = {
+  lookup: InstrumentLookup;
   fsmByToken: Map<number, InstrumentFsm>;
   latestLtpByToken: Map<number, number>;
+  directionByToken: Map<number, FsmDirection>;
 };
 
 type TickEvent =
   | { type: 'tick'; tick: Tick; receivedAt: number }
-  | { type: 'signal'; payload: WebhookPayload; token: number | null; receivedAt: number };
+  | { type: 'signal'; payload: NormalizedSignal; receivedAt: number }
+  | { type: 'instruments'; lookup: InstrumentLookup; receivedAt: number }
+  | { type: 'square-off'; receivedAt: number }
+  | { type: 'reset'; receivedAt: number };
 
 @Injectable({ providedIn: 'root' })
 export class ZerodhaTickRunnerService implements OnDestroy {
   private readonly tickService = inject(TickService);
   private readonly webhookService = inject(WebhookService);
   private readonly fsmStateService = inject(TickFsmStateService);
+  private readonly clock = inject(FSM_CLOCK);
+  private readonly tabLeader = inject(TabLeaderService);
+  private readonly relayService = inject(RelayService);
+  private readonly squareOffService = inject(SquareOffSchedulerService);
+  private readonly sessionJobsService = inject(SessionJobsService);
+  private readonly universeService = inject(InstrumentUniverseService);
+  private readonly strategy = catchAllStrategy('zerodha');
   private readonly subs = new Subscription();
   private readonly lastStuckLogAtBySymbol = new Map<string, number>();
-  private readonly instrumentLookup$ = defer(() => from(this.fetchInstrumentMap())).pipe(
-    shareReplay({ bufferSize: 1, refCount: false })
+  // The enabled instruments the universe assigns to the catch-all strategy.
+  private readonly instrumentLookup$ = this.universeService.members$.pipe(
+    map((members) => this.buildInstrumentLookup(members))
   );
+  private publishedLookup: InstrumentLookup | null = null;
 
   constructor() {
+    // Only the leader tab drives the FSMs; a tab that loses leadership stops at once.
     this.subs.add(
-      this.instrumentLookup$.pipe(
-        switchMap((lookup) => {
-          const initialState = this.buildInitialState();
-          const tickEvents$ = this.tickService.ticks$.pipe(
-            map((tick) => ({ type: 'tick', tick, receivedAt: Date.now() }) as TickEvent)
-          );
-          const signalEvents$ = this.webhookService.webhook$.pipe(
-            map((payload) => ({
-              type: 'signal',
-              payload,
-              token: this.getTokenForSymbol(payload.symbol, lookup.symbolLookup),
-              receivedAt: Date.now()
-            }) as TickEvent)
-          );
-          return merge(tickEvents$, signalEvents$).pipe(
-            scan((state, event) => this.reduceTickState(state, event, lookup), initialState),
-            startWith(initialState),
-            map((state) => ({ state, lookup }))
-          );
-        })
-      ).subscribe(({ state, lookup }) => {
-        const snapshot = this.buildFsmSnapshot(state, lookup);
+      this.tabLeader.isLeader$.pipe(
+        switchMap((isLeader) => (isLeader ? this.runFsms$() : EMPTY))
+      ).subscribe((state) => {
+        this.clearDroppedSymbols(state.lookup);
+        const snapshot = this.buildFsmSnapshot(state);
         if (snapshot.size > 0) {
           this.fsmStateService.update(snapshot);
         }
@@ -83,14 +83,54 @@ export class ZerodhaTickRunnerService implements OnDestroy {
     this.subs.unsubscribe();
   }
 
-  private buildInitialState(): TickState {
+  private runFsms$(): Observable<TickState> {
+    return this.instrumentLookup$.pipe(
+      take(1),
+      switchMap((lookup) => {
+        const initialState = this.buildInitialState(lookup);
+        const tickEvents$ = this.tickService.ticks$.pipe(
+          map((tick) => ({ type: 'tick', tick, receivedAt: this.clock.now() }) as TickEvent)
+        );
+        const signalEvents$ = this.webhookService.signals$.pipe(
+          filter((payload) => this.strategy !== null && routesTo(this.strategy, payload)),
+          map((payload) => ({ type: 'signal', payload, receivedAt: this.clock.now() }) as TickEvent)
+        );
+        // Edits on the instruments and universe pages apply without restarting the FSMs.
+        const instrumentEvents$ = this.instrumentLookup$.pipe(
+          skip(1),
+          map((next) => ({ type: 'instruments', lookup: next, receivedAt: this.clock.now() }) as TickEvent)
+        );
+        const squareOffEvents$ = this.squareOffService.squareOff$.pipe(
+          map((receivedAt) => ({ type: 'square-off', receivedAt }) as TickEvent)
+        );
+        const resetEvents$ = this.sessionJobsService.zerodhaReset$.pipe(
+          map((receivedAt) => ({ type: 'reset', receivedAt }) as TickEvent)
+        );
+        return merge(tickEvents$, signalEvents$, squareOffEvents$, resetEvents$, instrumentEvents$).pipe(
+          scan((state, event) => this.reduceTickState(state, event), initialState),
+          startWith(initialState)
+        );
+      })
+    );
+  }
+
+  private buildInitialState(lookup: InstrumentLookup): TickState {
     return {
+      lookup,
       fsmByToken: new Map<number, InstrumentFsm>(),
-      latestLtpByToken: new Map<number, number>()
+      latestLtpByToken: new Map<number, number>(),
+      directionByToken: new Map(lookup.directionByToken)
     };
   }
 
-  private reduceTickState(state: TickState, event: TickEvent, lookup: InstrumentLookup): TickState {
+  private configFor(state: TickState, token: number): FsmConfig {
+    const base: FsmConfig = this.strategy
+      ? fsmConfigFor(this.strategy, this.relayService.exitRules[this.strategy.id])
+      : { direction: 'long', holdPositionOnSignal: true };
+    return { ...base, direction: state.directionByToken.get(token) ?? base.direction };
+  }
+
+  private reduceTickState(state: TickState, event: TickEvent): TickState {
     if (event.type === 'tick') {
       const token = this.getInstrumentToken(event.tick);
       const tickLtp = this.getTickLtp(event.tick);
@@ -100,27 +140,40 @@ export class ZerodhaTickRunnerService implements OnDestroy {
       }
       const fsmByToken = new Map(state.fsmByToken);
       if (token !== null) {
-        const existing = fsmByToken.get(token) ?? this.defaultFsm();
-        const symbol = lookup.map.get(token) ?? null;
-        const result = this.applyTickTransition(existing, tickLtp, event.receivedAt, symbol);
+        const existing = fsmByToken.get(token) ?? defaultFsm();
+        const symbol = state.lookup.map.get(token) ?? null;
+        const result = applyTickTransition(this.configFor(state, token), existing, tickLtp, event.receivedAt);
+        if (result.stuckReason) {
+          this.logStuck(symbol ?? '--', result.stuckReason);
+        }
         fsmByToken.set(token, result.next);
       }
-      return { fsmByToken, latestLtpByToken };
+      return { ...state, fsmByToken, latestLtpByToken };
     }
 
     if (event.type === 'signal') {
-      const signal = this.getSignalType(event.payload);
-      if (!signal) {
+      const signal = event.payload.signal;
+      if (this.squareOffService.isEntryBlocked(event.receivedAt)) {
+        console.log(`[zerodha6] signal ignored symbol=${event.payload.symbol} reason=square-off`);
         return state;
       }
-      const token = event.token;
+      const token = this.getTokenForSymbol(event.payload.symbol, state.lookup.symbolLookup);
       if (token === null) {
-        this.logStuck(event.payload.symbol ?? '--', 'missing token');
+        this.logStuck(event.payload.symbol, 'missing token');
         return state;
       }
       const fsmByToken = new Map(state.fsmByToken);
-      const existing = fsmByToken.get(token) ?? this.defaultFsm();
-      const next = this.applySignalTransition(
+      const existing = fsmByToken.get(token) ?? defaultFsm();
+      const currentDirection = state.directionByToken.get(token) ?? 'long';
+      const direction = resolveDirection(existing, currentDirection, event.payload);
+      let directionByToken = state.directionByToken;
+      if (direction !== currentDirection) {
+        directionByToken = new Map(state.directionByToken);
+        directionByToken.set(token, direction);
+        console.log(`[zerodha6] direction symbol=${event.payload.symbol} from=${currentDirection} to=${direction}`);
+      }
+      const next = applySignalTransition(
+        { ...this.configFor(state, token), direction },
         existing,
         signal,
         event.payload,
@@ -128,129 +181,44 @@ export class ZerodhaTickRunnerService implements OnDestroy {
         event.receivedAt
       );
       fsmByToken.set(token, next);
-      return { ...state, fsmByToken };
+      return { ...state, fsmByToken, directionByToken };
     }
 
-    return state;
-  }
-
-  private applySignalTransition(
-    current: InstrumentFsm,
-    signal: 'BUY' | 'SELL',
-    payload: WebhookPayload,
-    latestLtp: number | null,
-    receivedAt: number
-  ): InstrumentFsm {
-    if (this.isPositionState(current.state)) {
-      if (signal === 'BUY') {
-        const threshold = typeof payload.stoppx === 'number' ? payload.stoppx : current.threshold;
-        return {
-          ...current,
-          threshold,
-          savedBUYThreshold: threshold,
-          lastBUYThreshold: threshold,
-          lastSignalAtMs: receivedAt
-        };
+    if (event.type === 'square-off') {
+      const fsmByToken = new Map<number, InstrumentFsm>();
+      for (const [token, fsm] of state.fsmByToken.entries()) {
+        fsmByToken.set(token, squareOffFsm(fsm));
       }
-      const threshold = latestLtp ?? current.threshold;
-      return {
-        ...current,
-        threshold,
-        lastSELLThreshold: threshold,
-        lastSignalAtMs: receivedAt
-      };
-    }
-    if (signal === 'BUY') {
-      const threshold = typeof payload.stoppx === 'number' ? payload.stoppx : null;
-      return {
-        state: 'NOPOSITION_SIGNAL',
-        threshold,
-        savedBUYThreshold: threshold,
-        lastBUYThreshold: threshold,
-        lastSELLThreshold: current.lastSELLThreshold,
-        lastSignalAtMs: receivedAt,
-        lastCheckedAtMs: null,
-        lastBlockedAtMs: null
-      };
+      console.log(`[zerodha6] square-off instruments=${fsmByToken.size}`);
+      return { ...state, fsmByToken };
     }
-    const threshold = latestLtp;
-    return {
-      state: 'NOPOSITION_SIGNAL',
-      threshold,
-      savedBUYThreshold: current.savedBUYThreshold,
-      lastBUYThreshold: current.lastBUYThreshold,
-      lastSELLThreshold: threshold,
-      lastSignalAtMs: receivedAt,
-      lastCheckedAtMs: null,
-      lastBlockedAtMs: null
-    };
-  }
 
-  private applyTickTransition(
-    current: InstrumentFsm,
-    ltp: number | null,
-    receivedAt: number,
-    symbol: string | null
-  ): { next: InstrumentFsm; intermediate?: InstrumentFsm } {
-    if (current.threshold === null || current.lastSignalAtMs === null || ltp === null) {
-      if (current.lastSignalAtMs !== null) {
-        this.logStuck(symbol ?? '--', 'missing threshold/ltp');
-      }
-      return { next: current };
-    }
-    if (current.state === 'BUYPOSITION') {
-      if (ltp >= current.threshold) {
-        return { next: current };
-      }
-      return {
-        next: {
-          ...current,
-          state: 'NOPOSITION_BLOCKED',
-          lastCheckedAtMs: receivedAt,
-          lastBlockedAtMs: receivedAt
-        }
-      };
+    if (event.type === 'reset') {
+      console.log(`[zerodha6] reset instruments=${state.fsmByToken.size}`);
+      return { ...state, fsmByToken: new Map(), directionByToken: new Map(state.lookup.directionByToken) };
     }
-    if (current.state === 'NOPOSITION_SIGNAL') {
-      if (current.lastCheckedAtMs !== null && current.lastCheckedAtMs >= current.lastSignalAtMs) {
-        this.logStuck(symbol ?? '--', 'already checked');
-        return { next: current };
-      }
-      const nextState: FsmState = ltp > current.threshold ? 'BUYPOSITION' : 'NOPOSITION_BLOCKED';
-      return {
-        next: {
-          ...current,
-          state: nextState,
-          lastCheckedAtMs: receivedAt,
-          lastBlockedAtMs: nextState === 'NOPOSITION_BLOCKED' ? receivedAt : null
+
+    if (event.type === 'instruments') {
+      const kept = (token: number) => event.lookup.map.has(token);
+      const fsmByToken = new Map([...state.fsmByToken].filter(([token]) => kept(token)));
+      const latestLtpByToken = new Map([...state.latestLtpByToken].filter(([token]) => kept(token)));
+      const directionByToken = new Map(event.lookup.directionByToken);
+      for (const [token, direction] of state.directionByToken.entries()) {
+        if (kept(token)) {
+          directionByToken.set(token, direction);
         }
-      };
-    }
-    if (current.state === 'NOPOSITION_BLOCKED') {
-      if (!this.isFirstSecondNextMinute(current.lastBlockedAtMs, receivedAt)) {
-        return { next: current };
       }
-      const intermediate: InstrumentFsm = {
-        ...current,
-        state: 'NOPOSITION_SIGNAL',
-        lastSignalAtMs: receivedAt,
-        lastCheckedAtMs: null,
-        lastBlockedAtMs: null
-      };
-      const nextState: FsmState = ltp > current.threshold ? 'BUYPOSITION' : 'NOPOSITION_BLOCKED';
-      const finalState: InstrumentFsm = {
-        ...intermediate,
-        state: nextState,
-        lastCheckedAtMs: receivedAt,
-        lastBlockedAtMs: nextState === 'NOPOSITION_BLOCKED' ? receivedAt : null
-      };
-      return { intermediate, next: finalState };
+      console.log(
+        `[zerodha6] instruments reloaded instruments=${event.lookup.map.size} dropped=${state.fsmByToken.size - fsmByToken.size}`
+      );
+      return { lookup: event.lookup, fsmByToken, latestLtpByToken, directionByToken };
     }
-    return { next: current };
+
+    return state;
   }
 
   private logStuck(symbol: string, reason: string): void {
-    const now = Date.now();
+    const now = this.clock.now();
     const lastLogAt = this.lastStuckLogAtBySymbol.get(symbol) ?? 0;
     if (now - lastLogAt < 10000) {
       return;
@@ -259,10 +227,21 @@ export class ZerodhaTickRunnerService implements OnDestroy {
     console.log(`[zerodha6] stuck symbol=${symbol} reason=${reason}`);
   }
 
-  private buildFsmSnapshot(state: TickState, lookup: InstrumentLookup): Map<string, FsmSymbolSnapshot> {
+  // Symbols removed from the universe or renamed would otherwise keep their last published state.
+  private clearDroppedSymbols(lookup: InstrumentLookup): void {
+    if (lookup === this.publishedLookup) {
+      return;
+    }
+    const current = new Set(lookup.map.values());
+    const dropped = [...(this.publishedLookup?.map.values() ?? [])].filter((symbol) => !current.has(symbol));
+    this.fsmStateService.clearSymbols(dropped);
+    this.publishedLookup = lookup;
+  }
+
+  private buildFsmSnapshot(state: TickState): Map<string, FsmSymbolSnapshot> {
     const snapshot = new Map<string, FsmSymbolSnapshot>();
     for (const [token, fsm] of state.fsmByToken.entries()) {
-      const symbol = lookup.map.get(token);
+      const symbol = state.lookup.map.get(token);
       if (!symbol) {
         continue;
       }
@@ -272,7 +251,10 @@ export class ZerodhaTickRunnerService implements OnDestroy {
         threshold: fsm.threshold,
         lastBUYThreshold: fsm.lastBUYThreshold,
         lastSELLThreshold: fsm.lastSELLThreshold,
-        lastBlockedAtMs: fsm.lastBlockedAtMs
+        lastBlockedAtMs: fsm.lastBlockedAtMs,
+        entryPrice: fsm.entryPrice,
+        enteredAtMs: fsm.enteredAtMs,
+        exitCause: fsm.lastExitCause
       });
     }
     return snapshot;
@@ -294,24 +276,6 @@ export class ZerodhaTickRunnerService implements OnDestroy {
     return null;
   }
 
-  private getSignalType(payload: WebhookPayload): 'BUY' | 'SELL' | null {
-    const intentCandidate = `${payload.intent ?? ''}`.toUpperCase();
-    if (intentCandidate === 'BUY' || intentCandidate === 'ENTRY') {
-      return 'BUY';
-    }
-    if (intentCandidate === 'SELL' || intentCandidate === 'EXIT') {
-      return 'SELL';
-    }
-    const sideCandidate = `${payload.side ?? ''}`.toUpperCase();
-    if (sideCandidate === 'BUY') {
-      return 'BUY';
-    }
-    if (sideCandidate === 'SELL') {
-      return 'SELL';
-    }
-    return null;
-  }
-
   private getTokenForSymbol(symbol: string | undefined, lookup: Map<string, number>): number | null {
     if (!symbol) {
       return null;
@@ -319,57 +283,31 @@ export class ZerodhaTickRunnerService implements OnDestroy {
     return lookup.get(symbol) ?? null;
   }
 
-  private isPositionState(state: InstrumentFsm['state']): boolean {
-    return state === 'BUYPOSITION' || state === 'SELLPOSITION';
-  }
-
-  private isFirstSecondNextMinute(anchorAtMs: number | null, tickAtMs: number): boolean {
-    if (anchorAtMs === null) {
-      return false;
-    }
-    const signalMinute = Math.floor(anchorAtMs / 60000);
-    const tickMinute = Math.floor(tickAtMs / 60000);
-    if (tickMinute <= signalMinute) {
-      return false;
+  private buildInstrumentLookup(members: UniverseMember[]): InstrumentLookup {
+    const lookup = this.emptyLookup();
+    const strategyId = this.strategy?.id ?? '';
+    for (const member of members) {
+      const { token, zerodha, tradingview, direction } = member.instrument;
+      if (!member.enabled || !member.group?.strategyIds.includes(strategyId) || typeof token !== 'number') {
+        continue;
+      }
+      if (typeof zerodha === 'string') {
+        lookup.map.set(token, zerodha);
+        lookup.symbolLookup.set(zerodha, token);
+        lookup.directionByToken.set(token, directionFromValue(direction) ?? 'long');
+      }
+      if (typeof tradingview === 'string') {
+        lookup.symbolLookup.set(tradingview, token);
+      }
     }
-    return new Date(tickAtMs).getSeconds() === 0;
+    return lookup;
   }
 
-  private defaultFsm(): InstrumentFsm {
+  private emptyLookup(): InstrumentLookup {
     return {
-      state: 'NOSIGNAL',
-      threshold: null,
-      savedBUYThreshold: null,
-      lastBUYThreshold: null,
-      lastSELLThreshold: null,
-      lastSignalAtMs: null,
-      lastCheckedAtMs: null,
-      lastBlockedAtMs: null
+      map: new Map<number, string>(),
+      symbolLookup: new Map<string, number>(),
+      directionByToken: new Map<number, FsmDirection>()
     };
   }
-
-  private async fetchInstrumentMap(): Promise<InstrumentLookup> {
-    try {
-      const response = await fetch('/instruments.json', { cache: 'no-store' });
-      if (!response.ok) {
-        return { map: new Map<number, string>(), symbolLookup: new Map<string, number>() };
-      }
-      const parsed = await response.json();
-      const meta = Array.isArray(parsed) ? (parsed as InstrumentMeta[]) : [];
-      const map = new Map<number, string>();
-      const symbolLookup = new Map<string, number>();
-      meta.forEach((instrument) => {
-        if (typeof instrument.token === 'number' && typeof instrument.zerodha === 'string') {
-          map.set(instrument.token, instrument.zerodha);
-          symbolLookup.set(instrument.zerodha, instrument.token);
-        }
-        if (typeof instrument.token === 'number' && typeof instrument.tradingview === 'string') {
-          symbolLookup.set(instrument.tradingview, instrument.token);
-        }
-      });
-      return { map, symbolLookup };
-    } catch {
-      return { map: new Map<number, string>(), symbolLookup: new Map<string, number>() };
-    }
-  }
 }
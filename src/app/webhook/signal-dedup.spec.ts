@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { checkSignal, emptyDedupState, signalIdentity } from './signal-dedup';
+import { NormalizedSignal } from './signal-schema';
+
+const windowMs = 5 * 60_000;
+
+function signal(overrides: Partial<NormalizedSignal> = {}): NormalizedSignal {
+  return {
+    schemaVersion: 1,
+    symbol: 'NIFTY',
+    signal: 'BUY',
+    intent: 'BUY',
+    stoppx: 100,
+    direction: null,
+    strategyId: null,
+    alertId: null,
+    alertTime: 1_000_000,
+    ...overrides
+  };
+}
+
+describe('signal-dedup', () => {
+  it('prefers the alert id and otherwise hashes the repeated fields', () => {
+    expect(signalIdentity(signal({ alertId: 'abc' }))).toBe('id:abc');
+    expect(signalIdentity(signal())).toBe(signalIdentity(signal({ intent: 'ENTRY' })));
+    expect(signalIdentity(signal())).not.toBe(signalIdentity(signal({ stoppx: 101 })));
+    expect(signalIdentity(signal())).toMatch(/^hash:[0-9a-f]{8}$/);
+  });
+
+  it('suppresses repeats inside the window and lets them through after it', () => {
+    const first = checkSignal(emptyDedupState, signal(), 0, windowMs);
+    expect(first.ok).toBe(true);
+    const state = first.ok ? first.state : emptyDedupState;
+    expect(checkSignal(state, signal(), 30_000, windowMs)).toMatchObject({ ok: false, kind: 'duplicate' });
+    const later = checkSignal(state, signal(), windowMs, windowMs);
+    expect(later).toMatchObject({ ok: true });
+    expect(later.ok && later.state.seen).toHaveLength(1);
+  });
+
+  it('lets a genuine repeat of an untimed alert through once the retry window has passed', () => {
+    const untimed = signal({ signal: 'SELL', alertTime: null });
+    const first = checkSignal(emptyDedupState, untimed, 0, windowMs);
+    const state = first.ok ? first.state : emptyDedupState;
+    expect(checkSignal(state, untimed, 1_000, windowMs)).toMatchObject({ ok: false, kind: 'duplicate' });
+    const second = checkSignal(state, untimed, 60_000, windowMs);
+    expect(second.ok).toBe(true);
+    expect(second.ok && second.state.seen).toHaveLength(1);
+  });
+
+  it('rejects alerts older than the last applied one for the symbol', () => {
+    const first = checkSignal(emptyDedupState, signal({ alertTime: 2_000_000 }), 0, windowMs);
+    const state = first.ok ? first.state : emptyDedupState;
+    expect(state.lastAlertBySymbol).toEqual({ NIFTY: 2_000_000 });
+    expect(checkSignal(state, signal({ signal: 'SELL', alertTime: 1_000_000 }), 1, windowMs)).toMatchObject({
+      ok: false,
+      kind: 'stale'
+    });
+    expect(checkSignal(state, signal({ symbol: 'BANKNIFTY', alertTime: 1_000_000 }), 1, windowMs).ok).toBe(true);
+    expect(checkSignal(state, signal({ signal: 'SELL', alertTime: null }), 1, windowMs).ok).toBe(true);
+  });
+
+  it('judges alert order per strategy on a shared symbol', () => {
+    const short = signal({ symbol: 'BTCUSDT', signal: 'SELL', strategyId: 'btc-short', alertTime: 2_000_000 });
+    const first = checkSignal(emptyDedupState, short, 0, windowMs);
+    const state = first.ok ? first.state : emptyDedupState;
+    expect(state.lastAlertBySymbol).toEqual({ 'BTCUSDT:btc-short': 2_000_000 });
+    const long = signal({ symbol: 'BTCUSDT', strategyId: 'btc-long', alertTime: 1_000_000 });
+    expect(checkSignal(state, long, 1, windowMs).ok).toBe(true);
+    expect(checkSignal(state, { ...short, stoppx: 99, alertTime: 1_000_000 }, 1, windowMs)).toMatchObject({
+      ok: false,
+      kind: 'stale'
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { strategyById, strategyKey } from '../strategies/strategy-config';
+import { NormalizedSignal } from './signal-schema';
+
+export type DedupState = {
+  // Identity and the time it was applied, oldest first.
+  seen: [string, number][];
+  // Keyed like the ledger: the symbol, tagged with the strategy for non-primary strategies.
+  lastAlertBySymbol: Record<string, number>;
+};
+
+export type DedupResult =
+  | { ok: true; identity: string; state: DedupState }
+  | { ok: false; kind: 'duplicate' | 'stale'; identity: string; reason: string };
+
+export const emptyDedupState: DedupState = { seen: [], lastAlertBySymbol: {} };
+
+// Legacy alerts carry neither id nor time, so a genuine repeat (BUY, SELL, SELL) hashes like a retry;
+// they are only deduplicated against retries arriving within a few seconds.
+export const untimedWindowMs = 5_000;
+
+// The alert id when TradingView sends one, otherwise a hash of the fields a retry repeats verbatim.
+export function signalIdentity(signal: NormalizedSignal): string {
+  if (signal.alertId) {
+    return `id:${signal.alertId}`;
+  }
+  const fields = [
+    signal.symbol,
+    signal.signal,
+    signal.direction ?? '',
+    signal.strategyId ?? '',
+    signal.stoppx ?? '',
+    signal.alertTime ?? ''
+  ];
+  return `hash:${fnv1a(fields.join('|'))}`;
+}
+
+export function checkSignal(state: DedupState, signal: NormalizedSignal, now: number, windowMs: number): DedupResult {
+  const identity = signalIdentity(signal);
+  const seen = state.seen.filter(([, at]) => now - at < windowMs);
+  const identityWindowMs = signal.alertId === null && signal.alertTime === null
+    ? Math.min(windowMs, untimedWindowMs)
+    : windowMs;
+  const previous = seen.find(([candidate, at]) => candidate === identity && now - at < identityWindowMs);
+  if (previous) {
+    return {
+      ok: false,
+      kind: 'duplicate',
+      identity,
+      reason: `duplicate ${identity} applied ${Math.round((now - previous[1]) / 1000)}s ago`
+    };
+  }
+  const key = alertKey(signal);
+  const lastAlert = state.lastAlertBySymbol[key];
+  if (signal.alertTime !== null && lastAlert !== undefined && signal.alertTime < lastAlert) {
+    const alertAt = new Date(signal.alertTime).toISOString();
+    return {
+      ok: false,
+      kind: 'stale',
+      identity,
+      reason: `alert time ${alertAt} is older than last applied ${new Date(lastAlert).toISOString()}`
+    };
+  }
+  const lastAlertBySymbol = signal.alertTime === null
+    ? state.lastAlertBySymbol
+    : { ...state.lastAlertBySymbol, [key]: signal.alertTime };
+  const kept = seen.filter(([candidate]) => candidate !== identity);
+  return { ok: true, identity, state: { seen: [...kept, [identity, now]], lastAlertBySymbol } };
+}
+
+// Out-of-order alerts are judged per strategy, so a late alert for one strategy does not block another on the same symbol.
+function alertKey(signal: NormalizedSignal): string {
+  const strategy = signal.strategyId === null ? null : strategyById(signal.strategyId);
+  return strategy ? strategyKey(strategy, signal.symbol) : signal.symbol;
+}
+
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index += 1) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
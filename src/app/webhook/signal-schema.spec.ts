@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeWebhook, toRejectedSignal } from './signal-schema';
+
+describe('signal-schema', () => {
+  it('normalizes intent, side, stop, direction, strategy and alert time', () => {
+    expect(normalizeWebhook({
+      symbol: ' NIFTY ',
+      intent: 'entry',
+      stoppx: 101.5,
+      direction: 'SHORT',
+      strategy: 'breakout',
+      time: '2026-01-05T04:30:00Z'
+    })).toEqual({
+      ok: true,
+      signal: {
+        schemaVersion: 1,
+        symbol: 'NIFTY',
+        signal: 'BUY',
+        intent: 'entry',
+        stoppx: 101.5,
+        direction: 'short',
+        strategyId: 'breakout',
+        alertId: null,
+        alertTime: Date.UTC(2026, 0, 5, 4, 30)
+      }
+    });
+    expect(normalizeWebhook({ symbol: 'BTCUSDT', side: 'sell', time: 1767587400000 })).toMatchObject({
+      ok: true,
+      signal: { signal: 'SELL', intent: null, stoppx: null, direction: null, strategyId: null, alertTime: 1767587400000 }
+    });
+  });
+
+  it('rejects malformed alerts with a reason', () => {
+    const reasonFor = (payload: unknown) => {
+      const result = normalizeWebhook(payload);
+      return result.ok ? null : result.reason;
+    };
+    expect(reasonFor('BUY NIFTY')).toBe('payload is not an object');
+    expect(reasonFor({ intent: 'BUY' })).toBe('missing symbol');
+    expect(reasonFor({ symbol: 'NIFTY', intent: 'HOLD' })).toBe('unknown intent HOLD');
+    expect(reasonFor({ symbol: 'NIFTY', side: 'FLAT' })).toBe('unknown side FLAT');
+    expect(reasonFor({ symbol: 'NIFTY' })).toBe('missing intent or side');
+    expect(reasonFor({ symbol: 'NIFTY', intent: 'BUY', stoppx: '101' })).toBe('stoppx must be a number, got "101"');
+    expect(reasonFor({ symbol: 'NIFTY', intent: 'BUY', direction: 'sideways' })).toBe('unknown direction "sideways"');
+    expect(reasonFor({ symbol: 'NIFTY', intent: 'BUY', id: 42 })).toBe('id must be a string');
+    expect(reasonFor({ symbol: 'NIFTY', intent: 'BUY', time: 'yesterday' })).toBe('invalid alert time "yesterday"');
+    expect(reasonFor({ schema: 2, symbol: 'NIFTY', intent: 'BUY' })).toBe('unsupported schema 2');
+  });
+
+  it('keeps a truncated copy of the rejected payload', () => {
+    const rejected = toRejectedSignal({ symbol: 'X'.repeat(600) }, 'unknown intent', 5);
+    expect(rejected.at).toBe(5);
+    expect(rejected.kind).toBe('invalid');
+    expect(rejected.payload.length).toBe(501);
+    expect(toRejectedSignal(undefined, 'payload is not an object', 5).payload).toBe('undefined');
+  });
+});
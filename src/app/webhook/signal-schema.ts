@@ -0,0 +1,142 @@
+import { FsmDirection, FsmSignal, directionFromValue } from '../tick/fsm-engine';
+
+export const webhookSchemaVersion = 1;
+
+export type NormalizedSignal = {
+  schemaVersion: number;
+  symbol: string;
+  signal: FsmSignal;
+  // As sent (e.g. ENTRY), kept for the signal log; null when only `side` was given.
+  intent: string | null;
+  stoppx: number | null;
+  direction: FsmDirection | null;
+  strategyId: string | null;
+  alertId: string | null;
+  alertTime: number | null;
+};
+
+// invalid: failed the schema; duplicate and stale: valid but suppressed by the dedup guard.
+export type RejectionKind = 'invalid' | 'duplicate' | 'stale';
+
+export type RejectedSignal = {
+  at: number;
+  kind: RejectionKind;
+  reason: string;
+  payload: string;
+};
+
+export type NormalizeResult =
+  | { ok: true; signal: NormalizedSignal }
+  | { ok: false; reason: string };
+
+const signalByIntent: Record<string, FsmSignal> = { BUY: 'BUY', ENTRY: 'BUY', SELL: 'SELL', EXIT: 'SELL' };
+const maxPayloadLength = 500;
+
+export function normalizeWebhook(payload: unknown): NormalizeResult {
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    return reject('payload is not an object');
+  }
+  const fields = payload as Record<string, unknown>;
+  const schemaVersion = fields['schema'] ?? webhookSchemaVersion;
+  if (schemaVersion !== webhookSchemaVersion) {
+    return reject(`unsupported schema ${describe(schemaVersion)}`);
+  }
+  const symbol = typeof fields['symbol'] === 'string' ? fields['symbol'].trim() : '';
+  if (!symbol) {
+    return reject('missing symbol');
+  }
+  const intent = optionalText(fields['intent']);
+  const side = optionalText(fields['side']);
+  if (intent === undefined || side === undefined) {
+    return reject(`${intent === undefined ? 'intent' : 'side'} must be a string`);
+  }
+  if (intent !== null && !(intent.toUpperCase() in signalByIntent)) {
+    return reject(`unknown intent ${intent}`);
+  }
+  const sideUpper = side?.toUpperCase() ?? null;
+  if (sideUpper !== null && sideUpper !== 'BUY' && sideUpper !== 'SELL') {
+    return reject(`unknown side ${side}`);
+  }
+  const signal = intent !== null ? signalByIntent[intent.toUpperCase()] : (sideUpper as FsmSignal | null);
+  if (!signal) {
+    return reject('missing intent or side');
+  }
+  const stoppx = fields['stoppx'] ?? null;
+  if (stoppx !== null && (typeof stoppx !== 'number' || !Number.isFinite(stoppx))) {
+    return reject(`stoppx must be a number, got ${describe(stoppx)}`);
+  }
+  const directionText = optionalText(fields['direction']);
+  const direction = directionFromValue(directionText);
+  if (directionText !== null && direction === null) {
+    return reject(`unknown direction ${describe(fields['direction'])}`);
+  }
+  const strategyId = optionalText(fields['strategy']);
+  if (strategyId === undefined) {
+    return reject('strategy must be a string');
+  }
+  const alertId = optionalText(fields['id']);
+  if (alertId === undefined) {
+    return reject('id must be a string');
+  }
+  const alertTime = parseAlertTime(fields['time']);
+  if (alertTime === undefined) {
+    return reject(`invalid alert time ${describe(fields['time'])}`);
+  }
+  return {
+    ok: true,
+    signal: {
+      schemaVersion: webhookSchemaVersion,
+      symbol,
+      signal,
+      intent,
+      stoppx,
+      direction,
+      strategyId,
+      alertId,
+      alertTime
+    }
+  };
+}
+
+export function toRejectedSignal(
+  payload: unknown,
+  reason: string,
+  at: number,
+  kind: RejectionKind = 'invalid'
+): RejectedSignal {
+  let text: string;
+  try {
+    text = JSON.stringify(payload) ?? String(payload);
+  } catch {
+    text = '[unserializable payload]';
+  }
+  return { at, kind, reason, payload: text.length > maxPayloadLength ? `${text.slice(0, maxPayloadLength)}…` : text };
+}
+
+function reject(reason: string): NormalizeResult {
+  return { ok: false, reason };
+}
+
+// undefined marks a present but non-string value; blank strings count as absent.
+function optionalText(value: unknown): string | null | undefined {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  return value.trim() || null;
+}
+
+// Accepts epoch milliseconds or an ISO timestamp such as TradingView's {{timenow}}.
+function parseAlertTime(value: unknown): number | null | undefined {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+  const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Date.parse(value) : Number.NaN;
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function describe(value: unknown): string {
+  return typeof value === 'string' ? `"${value}"` : String(value);
+}
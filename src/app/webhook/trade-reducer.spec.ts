@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest';
+import { flatModel } from '../charges/charges-model';
+import { RiskRuntime, createRiskRuntime, noRiskLimits } from '../risk/risk-manager';
+import { defaultSizingByMode } from '../sizing/position-sizing';
+import type { StaleFeedPolicy } from '../socket/feed-health.service';
+import type { FsmSymbolSnapshot } from '../tick/tick-fsm-state.service';
+import {
+  LiveOrderAction,
+  LiveTradeRuntime,
+  TradeReducerContext,
+  TradeState,
+  applyLiveFill,
+  applyLiveRejection,
+  createLiveTradeRuntime,
+  initialTradeState,
+  reduceTradeState,
+  squareOffTrades
+} from './trade-reducer';
+
+const symbol = 'NIFTY2610625950CE';
+const start = Date.UTC(2026, 0, 5, 4, 0, 10);
+const charges = flatModel(125);
+
+function snapshotOf(state: FsmSymbolSnapshot['state'], ltp: number, stale = false): Map<string, FsmSymbolSnapshot> {
+  return new Map([
+    [symbol, { state, ltp, threshold: 100, lastBUYThreshold: 100, lastSELLThreshold: null, lastBlockedAtMs: null, stale }]
+  ]);
+}
+
+function contextAt(
+  offsetMs: number,
+  policy: StaleFeedPolicy,
+  runtime: LiveTradeRuntime,
+  riskRuntime: RiskRuntime,
+  orders: LiveOrderAction[]
+): TradeReducerContext {
+  return {
+    now: new Date(start + offsetMs),
+    capital: 10000,
+    lotLookup: new Map([[symbol, 65]]),
+    sizing: defaultSizingByMode(),
+    staleFeedPolicy: policy,
+    charges,
+    risk: { settings: noRiskLimits, runtime: riskRuntime, capital: 10000, reportBreach: () => undefined },
+    runtime,
+    paperOnly: () => false,
+    sendLiveOrder: (_trade, action) => orders.push(action),
+    log: () => undefined
+  };
+}
+
+function replay(policy: StaleFeedPolicy, steps: [number, Map<string, FsmSymbolSnapshot>][]) {
+  const runtime = createLiveTradeRuntime();
+  const riskRuntime = createRiskRuntime();
+  const orders: LiveOrderAction[] = [];
+  let state: TradeState = initialTradeState();
+  for (const [offsetMs, snapshot] of steps) {
+    state = reduceTradeState(state, snapshot, contextAt(offsetMs, policy, runtime, riskRuntime, orders));
+  }
+  return { state, orders, runtime, riskRuntime };
+}
+
+describe('reduceTradeState stale feed policy', () => {
+  it('opens live trades on a fresh feed', () => {
+    const { orders } = replay('alert', [[0, snapshotOf('BUYPOSITION', 101)]]);
+    expect(orders).toEqual(['OPEN']);
+  });
+
+  it('blocks new live entries while the feed is stale', () => {
+    const { state, orders } = replay('block', [[0, snapshotOf('BUYPOSITION', 101, true)]]);
+    expect(orders).toEqual([]);
+    expect(state.openBySymbol.has(symbol)).toBe(true);
+  });
+
+  it('flattens an open live trade when the feed goes stale', () => {
+    const { state, orders } = replay('flatten', [
+      [0, snapshotOf('BUYPOSITION', 101)],
+      [1000, snapshotOf('BUYPOSITION', 102, true)]
+    ]);
+    expect(orders).toEqual(['OPEN', 'CLOSE']);
+    expect(state.liveOpenBySymbol.has(symbol)).toBe(false);
+    expect(state.openBySymbol.has(symbol)).toBe(true);
+  });
+});
+
+describe('reduceTradeState sizing', () => {
+  it('skips the entry when sizing allows no lots', () => {
+    const orders: LiveOrderAction[] = [];
+    const context = contextAt(0, 'alert', createLiveTradeRuntime(), createRiskRuntime(), orders);
+    const state = reduceTradeState(initialTradeState(), snapshotOf('BUYPOSITION', 101), { ...context, capital: 100 });
+    expect(state.openBySymbol.has(symbol)).toBe(false);
+    expect(state.tradesBySymbol.get(symbol)).toBeUndefined();
+    expect(orders).toEqual([]);
+  });
+});
+
+describe('reduceTradeState short positions', () => {
+  it('takes the side from the FSM state and signs PnL by side', () => {
+    const { state } = replay('alert', [
+      [0, snapshotOf('SELLPOSITION', 101)],
+      [1000, snapshotOf('SELLPOSITION', 99)]
+    ]);
+    const paper = state.openBySymbol.get(symbol);
+    const live = state.liveOpenBySymbol.get(symbol);
+    const row = state.tradesBySymbol.get(symbol)?.[0];
+
+    expect(paper?.side).toBe('SELL');
+    expect(live?.side).toBe('SELL');
+    expect(row?.unrealizedPnl).toBe(2 * (paper?.quantity ?? 0));
+  });
+});
+
+describe('applyLiveFill', () => {
+  it('rebases live PnL on the broker fill prices', () => {
+    const { state } = replay('alert', [
+      [0, snapshotOf('BUYPOSITION', 101)],
+      [1000, snapshotOf('NOPOSITION_BLOCKED', 105)]
+    ]);
+    const entry = state.liveTradesBySymbol.get(symbol)?.find((row) => !row.id.endsWith('-exit'));
+    const tradeId = entry?.id ?? '';
+    const quantity = entry?.quantity ?? 0;
+
+    const opened = applyLiveFill(state, { symbol, tradeId, action: 'OPEN', price: 101.5, quantity }, charges);
+    const closed = applyLiveFill(opened, { symbol, tradeId, action: 'CLOSE', price: 104, quantity }, charges);
+    const exit = closed.liveTradesBySymbol.get(symbol)?.find((row) => row.id === `${tradeId}-exit`);
+
+    expect(exit?.unrealizedPnl).toBeCloseTo((104 - 101.5) * quantity);
+    expect(closed.liveCumulativeBySymbol.get(symbol)).toBeCloseTo((104 - 101.5) * quantity - 250);
+  });
+
+  it('resizes the live trade to the quantity a partial fill reports', () => {
+    const { state } = replay('alert', [[0, snapshotOf('BUYPOSITION', 101)]]);
+    const trade = state.liveOpenBySymbol.get(symbol);
+    const tradeId = trade?.id ?? '';
+
+    const partial = applyLiveFill(state, { symbol, tradeId, action: 'OPEN', price: null, quantity: 10 }, charges);
+
+    expect(partial.liveOpenBySymbol.get(symbol)?.quantity).toBe(10);
+    expect(partial.liveOpenBySymbol.get(symbol)?.entryPrice).toBe(trade?.entryPrice);
+    expect(partial.liveTradesBySymbol.get(symbol)?.find((row) => row.id === tradeId)?.quantity).toBe(10);
+  });
+});
+
+describe('applyLiveRejection', () => {
+  it('drops an open live trade whose open order was rejected', () => {
+    const { state, runtime, riskRuntime } = replay('alert', [[0, snapshotOf('BUYPOSITION', 101)]]);
+    const tradeId = state.liveOpenBySymbol.get(symbol)?.id ?? '';
+
+    const next = applyLiveRejection(state, symbol, tradeId, riskRuntime, runtime, new Date(start + 1000));
+
+    expect(next.liveOpenBySymbol.has(symbol)).toBe(false);
+    expect(next.liveTradesBySymbol.get(symbol)).toEqual([]);
+    expect(next.openBySymbol.has(symbol)).toBe(true);
+    expect(riskRuntime.realizedToday).toBe(0);
+  });
+
+  it('takes back the PnL and risk booked when a never-filled trade was closed', () => {
+    const { state, runtime, riskRuntime } = replay('alert', [
+      [0, snapshotOf('BUYPOSITION', 101)],
+      [1000, snapshotOf('NOPOSITION_BLOCKED', 99)]
+    ]);
+    const tradeId = state.liveTradesBySymbol.get(symbol)?.find((row) => !row.id.endsWith('-exit'))?.id ?? '';
+    expect(riskRuntime.realizedToday).toBeLessThan(0);
+
+    const next = applyLiveRejection(state, symbol, tradeId, riskRuntime, runtime, new Date(start + 2000));
+
+    expect(next.liveTradesBySymbol.get(symbol)).toEqual([]);
+    expect(next.liveCumulativeBySymbol.get(symbol)).toBeCloseTo(0);
+    expect(riskRuntime.realizedToday).toBeCloseTo(0);
+    expect(riskRuntime.realizedTodayBySymbol.get(symbol)).toBeCloseTo(0);
+  });
+});
+
+describe('squareOffTrades', () => {
+  it('closes paper and live trades and blocks live entries until the given time', () => {
+    const { state, orders, runtime, riskRuntime } = replay('alert', [[0, snapshotOf('BUYPOSITION', 101)]]);
+    const blockedUntil = start + 18 * 60 * 60 * 1000;
+    const next = squareOffTrades(state, contextAt(60000, 'alert', runtime, riskRuntime, orders), () => true, blockedUntil);
+    expect(orders).toEqual(['OPEN', 'CLOSE']);
+    expect(next.openBySymbol.size).toBe(0);
+    expect(next.liveOpenBySymbol.size).toBe(0);
+    expect(next.tradesBySymbol.get(symbol)?.[0].exitCause).toBe('square-off');
+    expect(runtime.liveTradeBlockedUntilBySymbol.get(symbol)).toBe(blockedUntil);
+  });
+
+  it('leaves symbols outside the filter alone', () => {
+    const { state, orders, runtime, riskRuntime } = replay('alert', [[0, snapshotOf('BUYPOSITION', 101)]]);
+    const next = squareOffTrades(state, contextAt(60000, 'alert', runtime, riskRuntime, orders), () => false, start);
+    expect(next).toBe(state);
+    expect(orders).toEqual(['OPEN']);
+  });
+});
@@ -0,0 +1,646 @@
+import { ChargesModel } from '../charges/charges-model';
+import { RiskContext, RiskRuntime, checkLiveOpen, recordLiveClose, recordLiveOrder } from '../risk/risk-manager';
+import { SizingSettingsByMode, positionQuantity } from '../sizing/position-sizing';
+import type { StaleFeedPolicy } from '../socket/feed-health.service';
+import { symbolForKey } from '../strategies/strategy-config';
+import { ExitCause, isPositionState } from '../tick/fsm-engine';
+import type { FsmSymbolSnapshot } from '../tick/tick-fsm-state.service';
+
+export type TradeRow = {
+  id: string;
+  timeIst: string;
+  symbol: string;
+  entryPrice: number | null;
+  currentPrice: number | null;
+  unrealizedPnl: number | null;
+  cumulativePnl: number | null;
+  quantity: number | null;
+  side?: 'BUY' | 'SELL';
+  charges?: number;
+  exitCause?: ExitCause;
+};
+
+export type OpenTrade = {
+  id: string;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  entryPrice: number;
+  quantity: number;
+  lot: number;
+  timeIst: string;
+};
+
+export type TradeState = {
+  openBySymbol: Map<string, OpenTrade>;
+  liveOpenBySymbol: Map<string, OpenTrade>;
+  tradesBySymbol: Map<string, TradeRow[]>;
+  liveTradesBySymbol: Map<string, TradeRow[]>;
+  cumulativeBySymbol: Map<string, number>;
+  liveCumulativeBySymbol: Map<string, number>;
+  lastSnapshotBySymbol: Map<string, FsmSymbolSnapshot>;
+};
+
+export type LiveOrderAction = 'OPEN' | 'CLOSE';
+
+// A broker fill for a live order; partial fills carry the quantity filled so far and may not have a price yet.
+export type LiveFill = {
+  tradeId: string;
+  symbol: string;
+  action: LiveOrderAction;
+  price: number | null;
+  quantity: number;
+};
+
+export type LiveTradeRuntime = {
+  lastLiveTradeIdBySymbol: Map<string, string>;
+  liveTradeBlockedUntilBySymbol: Map<string, number>;
+  lastLiveEntryMinuteBySymbol: Map<string, number>;
+  lastPnlLogMinuteBySymbol: Map<string, number>;
+};
+
+export type TradeReducerContext = {
+  now: Date;
+  capital: number;
+  lotLookup: Map<string, number>;
+  sizing: SizingSettingsByMode;
+  staleFeedPolicy: StaleFeedPolicy;
+  charges: ChargesModel;
+  risk: RiskContext;
+  runtime: LiveTradeRuntime;
+  // True for instruments whose universe group trades on paper only.
+  paperOnly: (symbol: string) => boolean;
+  sendLiveOrder: (trade: OpenTrade, action: LiveOrderAction) => void;
+  log: (message: string) => void;
+};
+
+export function initialTradeState(): TradeState {
+  return {
+    openBySymbol: new Map<string, OpenTrade>(),
+    liveOpenBySymbol: new Map<string, OpenTrade>(),
+    tradesBySymbol: new Map<string, TradeRow[]>(),
+    liveTradesBySymbol: new Map<string, TradeRow[]>(),
+    cumulativeBySymbol: new Map<string, number>(),
+    liveCumulativeBySymbol: new Map<string, number>(),
+    lastSnapshotBySymbol: new Map<string, FsmSymbolSnapshot>()
+  };
+}
+
+export function createLiveTradeRuntime(): LiveTradeRuntime {
+  return {
+    lastLiveTradeIdBySymbol: new Map<string, string>(),
+    liveTradeBlockedUntilBySymbol: new Map<string, number>(),
+    lastLiveEntryMinuteBySymbol: new Map<string, number>(),
+    lastPnlLogMinuteBySymbol: new Map<string, number>()
+  };
+}
+
+export function reduceTradeState(
+  state: TradeState,
+  snapshot: Map<string, FsmSymbolSnapshot>,
+  context: TradeReducerContext
+): TradeState {
+  const { now, runtime, log } = context;
+  const openBySymbol = new Map(state.openBySymbol);
+  const liveOpenBySymbol = new Map(state.liveOpenBySymbol);
+  const tradesBySymbol = new Map(state.tradesBySymbol);
+  const liveTradesBySymbol = new Map(state.liveTradesBySymbol);
+  const cumulativeBySymbol = new Map(state.cumulativeBySymbol);
+  const liveCumulativeBySymbol = new Map(state.liveCumulativeBySymbol);
+  const lastSnapshotBySymbol = new Map(state.lastSnapshotBySymbol);
+
+  for (const [symbol, current] of snapshot.entries()) {
+    const prev = lastSnapshotBySymbol.get(symbol);
+    lastSnapshotBySymbol.set(symbol, current);
+    if (!current.ltp) {
+      continue;
+    }
+    const ltp = current.ltp;
+    const prevState = prev?.state ?? 'NOSIGNAL';
+    const wasInPosition = isPositionState(prevState);
+    const isInPosition = isPositionState(current.state);
+    const isEntering = !wasInPosition && isInPosition;
+    const isExiting = wasInPosition && !isInPosition;
+
+    let openedPaperThisPass = false;
+    if (isEntering && !openBySymbol.has(symbol)) {
+      const entryPrice = ltp;
+      const lot = context.lotLookup.get(symbol) ?? context.lotLookup.get(symbolForKey(symbol)) ?? 1;
+      const quantity = positionQuantity(context.sizing, symbol, {
+        ltp,
+        lot,
+        threshold: current.threshold,
+        capital: context.capital,
+        cumulativePnl: cumulativeBySymbol.get(symbol) ?? 0
+      });
+      if (quantity <= 0) {
+        log(`[paper-trade] skip symbol=${symbol} sizing allows no lots`);
+      } else {
+        const timeIst = formatIstTime(now);
+        const id = `${symbol}-${now.getTime()}`;
+        const side: 'BUY' | 'SELL' = current.state === 'SELLPOSITION' ? 'SELL' : 'BUY';
+        const openTrade: OpenTrade = { id, symbol, side, entryPrice, quantity, lot, timeIst };
+        openBySymbol.set(symbol, openTrade);
+        openedPaperThisPass = true;
+        log(`[paper-trade] open symbol=${symbol} entry=${entryPrice.toFixed(2)} qty=${quantity} lot=${lot}`);
+        const row: TradeRow = {
+          id,
+          timeIst,
+          symbol,
+          entryPrice,
+          currentPrice: ltp,
+          unrealizedPnl: 0,
+          cumulativePnl: cumulativeBySymbol.get(symbol) ?? 0,
+          quantity,
+          side
+        };
+        const existing = tradesBySymbol.get(symbol) ?? [];
+        tradesBySymbol.set(symbol, [row, ...existing]);
+      }
+    }
+
+    const openTrade = openBySymbol.get(symbol);
+    const liveOpenTrade = liveOpenBySymbol.get(symbol);
+    if (openTrade && isInPosition) {
+      const paperUnrealized = calculatePnl(openTrade.side, ltp, openTrade.entryPrice, openTrade.quantity);
+      const cumulative = cumulativeBySymbol.get(symbol) ?? 0;
+      updateTradeRow(tradesBySymbol, symbol, openTrade.id, {
+        currentPrice: ltp,
+        unrealizedPnl: paperUnrealized,
+        charges: chargesFor(context.charges, openTrade, ltp)
+      });
+
+      if (liveOpenTrade) {
+        const liveUnrealized = calculatePnl(liveOpenTrade.side, ltp, liveOpenTrade.entryPrice, liveOpenTrade.quantity);
+        const flattenReason = context.risk.runtime.killSwitch
+          ? 'kill switch'
+          : (current.stale === true && context.staleFeedPolicy === 'flatten' ? 'stale feed' : null);
+        if (flattenReason || paperUnrealized + cumulative < 0) {
+          if (flattenReason) {
+            log(`[live-trade] flatten symbol=${symbol} reason=${flattenReason}`);
+          }
+          closeLiveTradeOnly(context, symbol, liveOpenTrade, ltp, liveUnrealized, liveTradesBySymbol, liveCumulativeBySymbol);
+          liveOpenBySymbol.delete(symbol);
+          blockLiveTrade(runtime, symbol, now);
+          sendOrder(context, liveOpenTrade, 'CLOSE');
+        } else {
+          updateTradeRow(liveTradesBySymbol, symbol, liveOpenTrade.id, {
+            currentPrice: ltp,
+            unrealizedPnl: liveUnrealized,
+            charges: chargesFor(context.charges, liveOpenTrade, ltp)
+          });
+        }
+      } else if (context.paperOnly(symbol)) {
+        if (isEntering) {
+          log(`[live-trade] skip symbol=${symbol} paper-only group`);
+        }
+      } else if (current.stale && context.staleFeedPolicy !== 'alert') {
+        if (isEntering || isMinuteBoundary(now)) {
+          log(`[live-trade] skip symbol=${symbol} stale feed`);
+        }
+      } else if (shouldEnterLiveTrade(runtime, symbol, cumulative, paperUnrealized, now)) {
+        const shouldEnterNow = isEntering || isMinuteBoundary(now);
+        if (shouldEnterNow && shouldEnterOncePerMinute(runtime, symbol, now)) {
+          const liveTrade = createLiveOpenTrade(symbol, openTrade, ltp, now);
+          const breach = checkLiveOpen(context.risk, liveTrade, liveOpenBySymbol, now);
+          if (breach) {
+            context.risk.reportBreach(symbol, breach);
+          } else {
+            liveOpenBySymbol.set(symbol, liveTrade);
+            const liveCumulative = liveCumulativeBySymbol.get(symbol) ?? 0;
+            appendLiveEntryRow(context, liveTradesBySymbol, liveTrade, ltp, liveCumulative, openedPaperThisPass);
+            sendOrder(context, liveTrade, 'OPEN');
+          }
+        }
+      } else if (isEntering || isMinuteBoundary(now)) {
+        const blockedUntil = runtime.liveTradeBlockedUntilBySymbol.get(symbol) ?? 0;
+        const combined = paperUnrealized + cumulative;
+        const reason = blockedUntil > now.getTime()
+          ? `blocked until ${formatIstTime(new Date(blockedUntil))}`
+          : `combined=${combined.toFixed(2)}`;
+        log(`[live-trade] skip symbol=${symbol} ${reason}`);
+      }
+    }
+
+    if (openTrade && isExiting) {
+      closePaperTrade(context, openTrade, ltp, current.exitCause ?? 'threshold', tradesBySymbol, cumulativeBySymbol);
+      openBySymbol.delete(symbol);
+      if (liveOpenTrade) {
+        const liveUnrealized = calculatePnl(liveOpenTrade.side, ltp, liveOpenTrade.entryPrice, liveOpenTrade.quantity);
+        closeLiveTradeOnly(context, symbol, liveOpenTrade, ltp, liveUnrealized, liveTradesBySymbol, liveCumulativeBySymbol);
+        liveOpenBySymbol.delete(symbol);
+        sendOrder(context, liveOpenTrade, 'CLOSE');
+      }
+    }
+  }
+
+  logMinutePnl(context, snapshot, openBySymbol);
+  return {
+    openBySymbol,
+    liveOpenBySymbol,
+    tradesBySymbol,
+    liveTradesBySymbol,
+    cumulativeBySymbol,
+    liveCumulativeBySymbol,
+    lastSnapshotBySymbol
+  };
+}
+
+export function flattenLiveTrades(state: TradeState, context: TradeReducerContext, reason: string): TradeState {
+  if (state.liveOpenBySymbol.size === 0) {
+    return state;
+  }
+  const liveOpenBySymbol = new Map(state.liveOpenBySymbol);
+  const liveTradesBySymbol = new Map(state.liveTradesBySymbol);
+  const liveCumulativeBySymbol = new Map(state.liveCumulativeBySymbol);
+  for (const [symbol, trade] of state.liveOpenBySymbol.entries()) {
+    const ltp = state.lastSnapshotBySymbol.get(symbol)?.ltp ?? trade.entryPrice;
+    const unrealized = calculatePnl(trade.side, ltp, trade.entryPrice, trade.quantity);
+    context.log(`[live-trade] flatten symbol=${symbol} reason=${reason}`);
+    closeLiveTradeOnly(context, symbol, trade, ltp, unrealized, liveTradesBySymbol, liveCumulativeBySymbol);
+    liveOpenBySymbol.delete(symbol);
+    blockLiveTrade(context.runtime, symbol, context.now);
+    sendOrder(context, trade, 'CLOSE');
+  }
+  return { ...state, liveOpenBySymbol, liveTradesBySymbol, liveCumulativeBySymbol };
+}
+
+export function squareOffTrades(
+  state: TradeState,
+  context: TradeReducerContext,
+  shouldSquareOff: (symbol: string) => boolean,
+  blockedUntil: number
+): TradeState {
+  const openBySymbol = new Map(state.openBySymbol);
+  const liveOpenBySymbol = new Map(state.liveOpenBySymbol);
+  const tradesBySymbol = new Map(state.tradesBySymbol);
+  const liveTradesBySymbol = new Map(state.liveTradesBySymbol);
+  const cumulativeBySymbol = new Map(state.cumulativeBySymbol);
+  const liveCumulativeBySymbol = new Map(state.liveCumulativeBySymbol);
+  const symbols = new Set([
+    ...state.lastSnapshotBySymbol.keys(),
+    ...state.openBySymbol.keys(),
+    ...state.liveOpenBySymbol.keys()
+  ]);
+  let changed = false;
+  for (const symbol of symbols) {
+    if (!shouldSquareOff(symbol)) {
+      continue;
+    }
+    context.runtime.liveTradeBlockedUntilBySymbol.set(symbol, blockedUntil);
+    const lastLtp = state.lastSnapshotBySymbol.get(symbol)?.ltp ?? null;
+    const openTrade = openBySymbol.get(symbol);
+    if (openTrade) {
+      closePaperTrade(context, openTrade, lastLtp ?? openTrade.entryPrice, 'square-off', tradesBySymbol, cumulativeBySymbol);
+      openBySymbol.delete(symbol);
+      changed = true;
+    }
+    const liveTrade = liveOpenBySymbol.get(symbol);
+    if (liveTrade) {
+      const ltp = lastLtp ?? liveTrade.entryPrice;
+      const unrealized = calculatePnl(liveTrade.side, ltp, liveTrade.entryPrice, liveTrade.quantity);
+      context.log(`[live-trade] flatten symbol=${symbol} reason=square-off`);
+      closeLiveTradeOnly(context, symbol, liveTrade, ltp, unrealized, liveTradesBySymbol, liveCumulativeBySymbol);
+      liveOpenBySymbol.delete(symbol);
+      sendOrder(context, liveTrade, 'CLOSE');
+      changed = true;
+    }
+  }
+  if (!changed) {
+    return state;
+  }
+  return {
+    ...state,
+    openBySymbol,
+    liveOpenBySymbol,
+    tradesBySymbol,
+    liveTradesBySymbol,
+    cumulativeBySymbol,
+    liveCumulativeBySymbol
+  };
+}
+
+export function applyLiveFill(state: TradeState, fill: LiveFill, charges: ChargesModel): TradeState {
+  const { symbol, tradeId, action, price } = fill;
+  const rows = state.liveTradesBySymbol.get(symbol);
+  if (!rows) {
+    return state;
+  }
+  const liveOpenBySymbol = new Map(state.liveOpenBySymbol);
+  const liveTradesBySymbol = new Map(state.liveTradesBySymbol);
+  const liveCumulativeBySymbol = new Map(state.liveCumulativeBySymbol);
+  let nextRows = rows;
+  if (action === 'OPEN') {
+    const open = liveOpenBySymbol.get(symbol);
+    const quantity = fill.quantity > 0 ? fill.quantity : null;
+    if (open && open.id === tradeId) {
+      liveOpenBySymbol.set(symbol, { ...open, entryPrice: price ?? open.entryPrice, quantity: quantity ?? open.quantity });
+    }
+    nextRows = rows.map((row) =>
+      row.id === tradeId || row.id === `${tradeId}-exit`
+        ? { ...row, entryPrice: price ?? row.entryPrice, quantity: quantity ?? row.quantity }
+        : row
+    );
+  } else if (price !== null) {
+    nextRows = rows.map((row) => (row.id === `${tradeId}-exit` ? { ...row, currentPrice: price } : row));
+  }
+
+  const exitIndex = nextRows.findIndex((row) => row.id === `${tradeId}-exit`);
+  const exitRow = nextRows[exitIndex];
+  if (exitRow && exitRow.entryPrice !== null && exitRow.currentPrice !== null && exitRow.quantity !== null) {
+    const side = exitRow.side ?? 'BUY';
+    const realized = calculatePnl(side, exitRow.currentPrice, exitRow.entryPrice, exitRow.quantity);
+    const realizedCharges = charges.roundTrip({
+      symbol,
+      side,
+      entryPrice: exitRow.entryPrice,
+      exitPrice: exitRow.currentPrice,
+      quantity: exitRow.quantity
+    }).total;
+    const delta = realized - realizedCharges - ((exitRow.unrealizedPnl ?? 0) - (exitRow.charges ?? 0));
+    if (delta !== 0) {
+      nextRows = nextRows.map((row, index) => {
+        if (index === exitIndex) {
+          return {
+            ...row,
+            unrealizedPnl: realized,
+            charges: realizedCharges,
+            cumulativePnl: (row.cumulativePnl ?? 0) + delta
+          };
+        }
+        if (index < exitIndex || row.id === tradeId) {
+          return { ...row, cumulativePnl: (row.cumulativePnl ?? 0) + delta };
+        }
+        return row;
+      });
+      liveCumulativeBySymbol.set(symbol, (liveCumulativeBySymbol.get(symbol) ?? 0) + delta);
+    }
+  }
+  liveTradesBySymbol.set(symbol, nextRows);
+  return { ...state, liveOpenBySymbol, liveTradesBySymbol, liveCumulativeBySymbol };
+}
+
+// An open the broker never filled: the trade is dropped as if it had not happened. If it was already closed,
+// the PnL and charges booked at the close are taken back out of the ledger and the daily risk totals.
+export function applyLiveRejection(
+  state: TradeState,
+  symbol: string,
+  tradeId: string,
+  risk: RiskRuntime,
+  runtime: LiveTradeRuntime,
+  now: Date
+): TradeState {
+  const rows = state.liveTradesBySymbol.get(symbol) ?? [];
+  const open = state.liveOpenBySymbol.get(symbol);
+  const isOpen = open?.id === tradeId;
+  const exitIndex = rows.findIndex((row) => row.id === `${tradeId}-exit`);
+  if (!isOpen && !rows.some((row) => row.id === tradeId)) {
+    return state;
+  }
+  const liveOpenBySymbol = new Map(state.liveOpenBySymbol);
+  const liveTradesBySymbol = new Map(state.liveTradesBySymbol);
+  const liveCumulativeBySymbol = new Map(state.liveCumulativeBySymbol);
+  if (isOpen) {
+    liveOpenBySymbol.delete(symbol);
+    runtime.lastLiveTradeIdBySymbol.delete(symbol);
+    blockLiveTrade(runtime, symbol, now);
+  }
+  const exitRow = rows[exitIndex];
+  const booked = exitRow ? (exitRow.unrealizedPnl ?? 0) - (exitRow.charges ?? 0) : 0;
+  const nextRows = rows
+    .map((row, index) =>
+      booked !== 0 && exitIndex >= 0 && index < exitIndex
+        ? { ...row, cumulativePnl: (row.cumulativePnl ?? 0) - booked }
+        : row
+    )
+    .filter((row) => row.id !== tradeId && row.id !== `${tradeId}-exit`);
+  liveTradesBySymbol.set(symbol, nextRows);
+  if (booked !== 0) {
+    liveCumulativeBySymbol.set(symbol, (liveCumulativeBySymbol.get(symbol) ?? 0) - booked);
+    recordLiveClose(risk, symbol, -booked, now);
+  }
+  return { ...state, liveOpenBySymbol, liveTradesBySymbol, liveCumulativeBySymbol };
+}
+
+export function calculatePnl(side: 'BUY' | 'SELL', ltp: number, entryPrice: number, quantity: number): number {
+  const delta = side === 'SELL' ? entryPrice - ltp : ltp - entryPrice;
+  return delta * quantity;
+}
+
+export function chargesFor(model: ChargesModel, trade: OpenTrade, exitPrice: number): number {
+  return model.roundTrip({
+    symbol: trade.symbol,
+    side: trade.side,
+    entryPrice: trade.entryPrice,
+    exitPrice,
+    quantity: trade.quantity
+  }).total;
+}
+
+export function formatIstTime(value: Date): string {
+  return value.toLocaleString('en-IN', {
+    timeZone: 'Asia/Kolkata',
+    hour12: false
+  });
+}
+
+function updateTradeRow(
+  tradesBySymbol: Map<string, TradeRow[]>,
+  symbol: string,
+  id: string,
+  patch: Partial<TradeRow>
+): void {
+  const rows = tradesBySymbol.get(symbol);
+  if (!rows || rows.length === 0) {
+    return;
+  }
+  const next = rows.map((row) => {
+    if ((row as { id?: string }).id === id) {
+      return { ...row, ...patch };
+    }
+    return row;
+  });
+  tradesBySymbol.set(symbol, next);
+}
+
+function shouldEnterLiveTrade(
+  runtime: LiveTradeRuntime,
+  symbol: string,
+  cumulativePnl: number,
+  unrealizedPnl: number,
+  now: Date
+): boolean {
+  const blockedUntil = runtime.liveTradeBlockedUntilBySymbol.get(symbol) ?? 0;
+  if (now.getTime() < blockedUntil) {
+    return false;
+  }
+  const combined = unrealizedPnl + cumulativePnl;
+  return combined === 0 || combined > 0;
+}
+
+function sendOrder(context: TradeReducerContext, trade: OpenTrade, action: LiveOrderAction): void {
+  recordLiveOrder(context.risk.runtime, context.now);
+  context.sendLiveOrder(trade, action);
+}
+
+function closePaperTrade(
+  context: TradeReducerContext,
+  openTrade: OpenTrade,
+  ltp: number,
+  exitCause: ExitCause,
+  tradesBySymbol: Map<string, TradeRow[]>,
+  cumulativeBySymbol: Map<string, number>
+): void {
+  const symbol = openTrade.symbol;
+  const realized = calculatePnl(openTrade.side, ltp, openTrade.entryPrice, openTrade.quantity);
+  const charges = chargesFor(context.charges, openTrade, ltp);
+  const cumulative = (cumulativeBySymbol.get(symbol) ?? 0) + realized;
+  cumulativeBySymbol.set(symbol, cumulative);
+  updateTradeRow(tradesBySymbol, symbol, openTrade.id, {
+    currentPrice: ltp,
+    unrealizedPnl: 0,
+    cumulativePnl: cumulative,
+    charges: 0
+  });
+  context.log(
+    `[paper-trade] close symbol=${symbol} pnl=${realized.toFixed(2)} charges=${charges.toFixed(2)} cumulative=${cumulative.toFixed(2)} cause=${exitCause}`
+  );
+  const exitRow: TradeRow = {
+    id: `${openTrade.id}-exit`,
+    timeIst: formatIstTime(context.now),
+    symbol,
+    entryPrice: openTrade.entryPrice,
+    currentPrice: ltp,
+    unrealizedPnl: realized,
+    cumulativePnl: cumulative,
+    quantity: openTrade.quantity,
+    side: openTrade.side,
+    charges,
+    exitCause
+  };
+  const existing = tradesBySymbol.get(symbol) ?? [];
+  tradesBySymbol.set(symbol, [exitRow, ...existing]);
+}
+
+function closeLiveTradeOnly(
+  context: TradeReducerContext,
+  symbol: string,
+  openTrade: OpenTrade,
+  ltp: number,
+  unrealized: number,
+  liveTradesBySymbol: Map<string, TradeRow[]>,
+  liveCumulativeBySymbol: Map<string, number>
+): void {
+  const charges = chargesFor(context.charges, openTrade, ltp);
+  recordLiveClose(context.risk.runtime, symbol, unrealized - charges, context.now);
+  const nextCumulative = (liveCumulativeBySymbol.get(symbol) ?? 0) + unrealized - charges;
+  liveCumulativeBySymbol.set(symbol, nextCumulative);
+  updateTradeRow(liveTradesBySymbol, symbol, openTrade.id, {
+    currentPrice: ltp,
+    unrealizedPnl: 0,
+    cumulativePnl: nextCumulative,
+    charges: 0
+  });
+  const exitRow: TradeRow = {
+    id: `${openTrade.id}-exit`,
+    timeIst: formatIstTime(context.now),
+    symbol,
+    entryPrice: openTrade.entryPrice,
+    currentPrice: ltp,
+    unrealizedPnl: unrealized,
+    cumulativePnl: nextCumulative,
+    quantity: openTrade.quantity,
+    side: openTrade.side,
+    charges
+  };
+  const existing = liveTradesBySymbol.get(symbol) ?? [];
+  liveTradesBySymbol.set(symbol, [exitRow, ...existing]);
+  context.runtime.lastLiveTradeIdBySymbol.delete(symbol);
+  context.log(`[live-trade] close symbol=${symbol} id=${openTrade.id} charges=${charges.toFixed(2)}`);
+}
+
+function blockLiveTrade(runtime: LiveTradeRuntime, symbol: string, now: Date): void {
+  const nextMinute = new Date(now);
+  nextMinute.setSeconds(0, 0);
+  nextMinute.setMinutes(nextMinute.getMinutes() + 1);
+  runtime.liveTradeBlockedUntilBySymbol.set(symbol, nextMinute.getTime());
+}
+
+function createLiveOpenTrade(symbol: string, paperTrade: OpenTrade, ltp: number, now: Date): OpenTrade {
+  return {
+    id: `live-${symbol}-${now.getTime()}`,
+    symbol,
+    side: paperTrade.side,
+    entryPrice: ltp,
+    quantity: paperTrade.quantity,
+    lot: paperTrade.lot,
+    timeIst: formatIstTime(now)
+  };
+}
+
+function appendLiveEntryRow(
+  context: TradeReducerContext,
+  liveTradesBySymbol: Map<string, TradeRow[]>,
+  liveTrade: OpenTrade,
+  ltp: number,
+  cumulativePnl: number,
+  openedWithPaper: boolean
+): void {
+  const row: TradeRow = {
+    id: liveTrade.id,
+    timeIst: liveTrade.timeIst,
+    symbol: liveTrade.symbol,
+    entryPrice: liveTrade.entryPrice,
+    currentPrice: ltp,
+    unrealizedPnl: 0,
+    cumulativePnl,
+    quantity: liveTrade.quantity,
+    side: liveTrade.side
+  };
+  const existing = liveTradesBySymbol.get(liveTrade.symbol) ?? [];
+  liveTradesBySymbol.set(liveTrade.symbol, [row, ...existing]);
+  context.runtime.lastLiveTradeIdBySymbol.set(liveTrade.symbol, liveTrade.id);
+  context.log(
+    `[live-trade] open symbol=${liveTrade.symbol} id=${liveTrade.id} entry=${row.entryPrice ?? '--'} qty=${row.quantity ?? '--'} lot=${liveTrade.lot}${openedWithPaper ? ' (same-pass paper)' : ''}`
+  );
+}
+
+function isMinuteBoundary(now: Date): boolean {
+  return now.getSeconds() === 0;
+}
+
+function shouldEnterOncePerMinute(runtime: LiveTradeRuntime, symbol: string, now: Date): boolean {
+  const minute = Math.floor(now.getTime() / 60000);
+  const lastMinute = runtime.lastLiveEntryMinuteBySymbol.get(symbol) ?? -1;
+  if (minute === lastMinute) {
+    return false;
+  }
+  runtime.lastLiveEntryMinuteBySymbol.set(symbol, minute);
+  return true;
+}
+
+function logMinutePnl(
+  context: TradeReducerContext,
+  snapshot: Map<string, FsmSymbolSnapshot>,
+  openBySymbol: Map<string, OpenTrade>
+): void {
+  const { now, runtime } = context;
+  if (now.getSeconds() < 59) {
+    return;
+  }
+  const minute = Math.floor(now.getTime() / 60000);
+  for (const [symbol, trade] of openBySymbol.entries()) {
+    const current = snapshot.get(symbol);
+    if (!current || !isPositionState(current.state) || current.ltp === null) {
+      continue;
+    }
+    const lastMinute = runtime.lastPnlLogMinuteBySymbol.get(symbol) ?? -1;
+    if (lastMinute >= minute) {
+      continue;
+    }
+    const pnl = calculatePnl(trade.side, current.ltp, trade.entryPrice, trade.quantity);
+    runtime.lastPnlLogMinuteBySymbol.set(symbol, minute);
+    context.log(
+      `[pnl-minute] symbol=${symbol} pnl=${pnl.toFixed(2)} ltp=${current.ltp.toFixed(2)} entry=${trade.entryPrice.toFixed(2)} qty=${trade.quantity} lot=${trade.lot}`
+    );
+  }
+}
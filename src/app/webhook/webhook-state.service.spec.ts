@@ -2,25 +2,34 @@ import { TestBed } from '@angular/core/testing';
 import { BehaviorSubject, Subject } from 'rxjs';
 import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
 import { TickFsmStateService } from '../tick/tick-fsm-state.service';
+import { NormalizedSignal, normalizeWebhook } from './signal-schema';
 import { WebhookPayload, WebhookService } from './webhook.service';
 import { WebhookStateService } from './webhook-state.service';
 
+function signalFrom(payload: WebhookPayload): NormalizedSignal {
+  const result = normalizeWebhook(payload);
+  if (!result.ok) {
+    throw new Error(result.reason);
+  }
+  return result.signal;
+}
+
 describe('WebhookStateService', () => {
-  let webhookSubject: Subject<WebhookPayload>;
+  let webhookSubject: Subject<NormalizedSignal>;
 
   beforeEach(() => {
-    webhookSubject = new Subject<WebhookPayload>();
+    webhookSubject = new Subject<NormalizedSignal>();
     vi.stubGlobal('fetch', vi.fn().mockResolvedValue({
       ok: true,
       json: async () => [
-        { tradingview: 'BTCUSDT', zerodha: 'BTCUSD', token: 99999999, lot: 1 }
+        { tradingview: 'BTCUSDT', exchange: 'CRYPTO', zerodha: 'BTCUSD', token: 99999999, lot: 1 }
       ]
     }));
 
     TestBed.configureTestingModule({
       providers: [
         WebhookStateService,
-        { provide: WebhookService, useValue: { webhook$: webhookSubject } },
+        { provide: WebhookService, useValue: { webhook$: new Subject<WebhookPayload>(), signals$: webhookSubject } },
         { provide: TickFsmStateService, useValue: { fsmBySymbol$: new BehaviorSubject(new Map()) } }
       ]
     });
@@ -42,7 +51,7 @@ describe('WebhookStateService', () => {
     await new Promise((resolve) => setTimeout(resolve, 0));
     expect(latest?.symbols.length ?? 0).toBe(0);
 
-    webhookSubject.next({ symbol: 'BTCUSDT', stoppx: 100, intent: 'BUY' });
+    webhookSubject.next(signalFrom({ symbol: 'BTCUSDT', stoppx: 100, intent: 'BUY' }));
     expect(latest?.symbols).toEqual(['BTCUSDT']);
     expect(latest?.bySymbol.get('BTCUSDT')?.length ?? 0).toBe(1);
 
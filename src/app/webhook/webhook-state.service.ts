@@ -1,10 +1,53 @@
 import { Injectable, inject } from '@angular/core';
-import { BehaviorSubject, combineLatest, defer, from, map, shareReplay, withLatestFrom } from 'rxjs';
+import { BehaviorSubject, combineLatest, filter, map, shareReplay, switchMap, take, withLatestFrom } from 'rxjs';
+import { ChargesModel, createChargesModel } from '../charges/charges-model';
+import {
+  InstrumentRow,
+  UniverseMember,
+  instrumentNames,
+  isPaperOnly,
+  lotBySymbol,
+  symbolsForStrategy
+} from '../instruments/instrument-universe';
+import { InstrumentUniverseService } from '../instruments/instrument-universe.service';
+import { OrderRequest } from '../orders/order-book';
+import { OrderBookService } from '../orders/order-book.service';
+import { RiskManagerService } from '../risk/risk-manager.service';
+import { FeedHealthService } from '../socket/feed-health.service';
+import { StorageService } from '../storage/storage.service';
+import { storageKeys } from '../storage/storage-keys';
+import {
+  StrategyConfig,
+  routesTo,
+  strategies,
+  strategyById,
+  strategyForKey,
+  strategyKey,
+  symbolForKey
+} from '../strategies/strategy-config';
+import { TabLeaderService } from '../tabs/tab-leader.service';
+import { isPositionState } from '../tick/fsm-engine';
 import { FsmSymbolSnapshot, TickFsmStateService } from '../tick/tick-fsm-state.service';
-import { WebhookPayload, WebhookService } from './webhook.service';
+import { NormalizedSignal } from './signal-schema';
+import { WebhookService } from './webhook.service';
 import { RelayService } from '../relay/relay.service';
-
-export type FilterMode = 'zerodha6' | 'btc' | 'btc-long' | 'btc-short' | 'none';
+import {
+  OpenTrade,
+  TradeReducerContext,
+  TradeRow,
+  TradeState,
+  applyLiveFill,
+  applyLiveRejection,
+  createLiveTradeRuntime,
+  flattenLiveTrades,
+  squareOffTrades,
+  formatIstTime,
+  initialTradeState,
+  reduceTradeState
+} from './trade-reducer';
+
+// A strategy id, or 'none' for every signal unfiltered.
+export type FilterMode = string;
 
 type SignalRow = {
   timeIst: string;
@@ -15,13 +58,6 @@ type SignalRow = {
   sellBuyBuy: boolean;
 };
 
-type InstrumentMeta = {
-  tradingview?: string;
-  zerodha?: string;
-  exchange?: string;
-  lot?: number;
-};
-
 type SignalState = {
   bySymbol: Map<string, SignalRow[]>;
   fsmBySymbol: Map<string, SignalTracking>;
@@ -38,37 +74,6 @@ type SignalTracking = {
   sellBuyBuy: boolean;
 };
 
-type TradeRow = {
-  id: string;
-  timeIst: string;
-  symbol: string;
-  entryPrice: number | null;
-  currentPrice: number | null;
-  unrealizedPnl: number | null;
-  cumulativePnl: number | null;
-  quantity: number | null;
-};
-
-type OpenTrade = {
-  id: string;
-  symbol: string;
-  side: 'BUY' | 'SELL';
-  entryPrice: number;
-  quantity: number;
-  lot: number;
-  timeIst: string;
-};
-
-type TradeState = {
-  openBySymbol: Map<string, OpenTrade>;
-  liveOpenBySymbol: Map<string, OpenTrade>;
-  tradesBySymbol: Map<string, TradeRow[]>;
-  liveTradesBySymbol: Map<string, TradeRow[]>;
-  cumulativeBySymbol: Map<string, number>;
-  liveCumulativeBySymbol: Map<string, number>;
-  lastSnapshotBySymbol: Map<string, FsmSymbolSnapshot>;
-};
-
 type PersistedSignalState = {
   bySymbol: [string, SignalRow[]][];
   fsmBySymbol: [string, SignalTracking][];
@@ -86,7 +91,7 @@ type PersistedTradeState = {
   lastSnapshotBySymbol: [string, FsmSymbolSnapshot][];
 };
 
-type PersistedSnapshot = {
+export type PersistedSnapshot = {
   signalStateByMode: Partial<Record<FilterMode, PersistedSignalState>>;
   tradeState: PersistedTradeState;
 };
@@ -96,36 +101,40 @@ export class WebhookStateService {
   private readonly webhookService = inject(WebhookService);
   private readonly fsmStateService = inject(TickFsmStateService);
   private readonly relayService = inject(RelayService);
+  private readonly feedHealthService = inject(FeedHealthService);
+  private readonly orderBookService = inject(OrderBookService);
+  private readonly riskService = inject(RiskManagerService);
+  private readonly tabLeader = inject(TabLeaderService);
+  private readonly storage = inject(StorageService);
+  private readonly universeService = inject(InstrumentUniverseService);
   private readonly debugStateUpdates = true;
   private readonly instanceId = Math.random().toString(36).slice(2, 7);
   private readonly loggedModes = new Set<FilterMode>();
   private readonly signalStateByMode = new Map<FilterMode, BehaviorSubject<SignalState>>();
-  private readonly tradeState$ = new BehaviorSubject<TradeState>(this.initialTradeState());
-  private readonly persistKey = 'webhook-state-snapshot-v1';
+  private readonly tradeState$ = new BehaviorSubject<TradeState>(initialTradeState());
   private persistTimeout: ReturnType<typeof setTimeout> | null = null;
   private readonly unloadHandler = () => this.saveSnapshot();
-  private readonly lastPnlLogMinuteBySymbol = new Map<string, number>();
-  private readonly lastLiveTradeIdBySymbol = new Map<string, string>();
-  private readonly liveTradeBlockedUntilBySymbol = new Map<string, number>();
-  private readonly lastLiveEntryMinuteBySymbol = new Map<string, number>();
+  private readonly liveRuntime = createLiveTradeRuntime();
+  private chargesModel: ChargesModel = createChargesModel(new Map<string, string>());
+  private members: UniverseMember[] = [];
   private readonly zerodhaSellCountAfterBuyBySymbol = new Map<string, number>();
   private readonly zerodhaPendingBuySellSellBySymbol = new Set<string>();
-  private readonly symbolMap$ = defer(() => from(this.fetchSymbolMap())).pipe(
+  private readonly symbolMap$ = this.universeService.instruments$.pipe(
+    map((instruments) => this.buildSymbolMap(instruments)),
     shareReplay({ bufferSize: 1, refCount: false })
   );
-  private readonly allowedSymbolsByMode$ = defer(() => from(this.fetchAllowedSymbolsByMode())).pipe(
+  private readonly lotLookup$ = this.universeService.instruments$.pipe(
+    map((instruments) => lotBySymbol(instruments)),
     shareReplay({ bufferSize: 1, refCount: false })
   );
-  private readonly lotLookup$ = defer(() => from(this.fetchLotLookup())).pipe(
-    shareReplay({ bufferSize: 1, refCount: false })
-  );
-  private readonly instrumentMetaBySymbol$ = defer(() => from(this.fetchInstrumentMetaBySymbol())).pipe(
+  private readonly instrumentMetaBySymbol$ = this.universeService.instruments$.pipe(
+    map((instruments) => this.buildInstrumentMetaBySymbol(instruments)),
     shareReplay({ bufferSize: 1, refCount: false })
   );
 
   constructor() {
     console.log(`[webhook-state] init instance=${this.instanceId}`);
-    const modes: FilterMode[] = ['none', 'zerodha6', 'btc', 'btc-long', 'btc-short'];
+    const modes: FilterMode[] = ['none', ...strategies.map((strategy) => strategy.id)];
     for (const mode of modes) {
       this.signalStateByMode.set(mode, new BehaviorSubject<SignalState>(this.initialSignalState()));
     }
@@ -134,16 +143,16 @@ export class WebhookStateService {
       window.addEventListener('beforeunload', this.unloadHandler);
     }
 
-    this.webhookService.webhook$.pipe(
-      withLatestFrom(this.fsmStateService.fsmBySymbol$, this.allowedSymbolsByMode$, this.symbolMap$)
-    ).subscribe(([payload, snapshot, allowedByMode, symbolMap]) => {
+    this.webhookService.signals$.pipe(
+      withLatestFrom(this.fsmStateService.fsmBySymbol$, this.universeService.members$, this.symbolMap$)
+    ).subscribe(([incoming, snapshot, members, symbolMap]) => {
       for (const mode of modes) {
-        const allowed = allowedByMode.get(mode) ?? null;
+        const allowed = strategyById(mode) ? symbolsForStrategy(members, mode) : null;
         const subject = this.signalStateByMode.get(mode);
         if (!subject) {
           continue;
         }
-        const next = this.reduceSignalState(subject.value, payload, snapshot, allowed, mode, symbolMap);
+        const next = this.reduceSignalState(subject.value, incoming, snapshot, allowed, mode, symbolMap);
         if (next !== subject.value) {
           if (this.debugStateUpdates) {
             const rows = next.bySymbol.get(next.symbols[0] ?? '')?.length ?? 0;
@@ -157,16 +166,78 @@ export class WebhookStateService {
       }
     });
 
+    this.universeService.members$.subscribe((members) => {
+      this.members = members;
+    });
+
+    this.instrumentMetaBySymbol$.subscribe((instrumentMetaBySymbol) => {
+      const exchangeBySymbol = new Map<string, string>();
+      for (const [symbol, meta] of instrumentMetaBySymbol.entries()) {
+        if (typeof meta.exchange === 'string') {
+          exchangeBySymbol.set(symbol, meta.exchange);
+        }
+      }
+      this.chargesModel = createChargesModel(exchangeBySymbol);
+    });
+
     combineLatest([this.fsmStateService.fsmBySymbol$, this.lotLookup$, this.instrumentMetaBySymbol$]).pipe(
-      map(([snapshot, lotLookup, instrumentMetaBySymbol]) => this.reduceTradeState(
-        this.tradeState$.value,
-        snapshot,
-        lotLookup,
-        instrumentMetaBySymbol
-      ))
+      filter(() => this.tabLeader.isLeader),
+      map(([snapshot, lotLookup, instrumentMetaBySymbol]) => {
+        this.applyPendingBuySellSell(snapshot);
+        return reduceTradeState(
+          this.tradeState$.value,
+          snapshot,
+          this.buildReducerContext(lotLookup, instrumentMetaBySymbol)
+        );
+      })
     ).subscribe((next) => {
       this.tradeState$.next(next);
       this.schedulePersist();
+      this.riskService.schedulePersist();
+    });
+
+    this.riskService.killSwitch$.pipe(
+      filter((engaged) => engaged && this.tabLeader.isLeader),
+      switchMap(() => combineLatest([this.lotLookup$, this.instrumentMetaBySymbol$]).pipe(take(1)))
+    ).subscribe(([lotLookup, instrumentMetaBySymbol]) => {
+      const context = this.buildReducerContext(lotLookup, instrumentMetaBySymbol);
+      const next = flattenLiveTrades(this.tradeState$.value, context, 'kill switch');
+      if (next !== this.tradeState$.value) {
+        this.tradeState$.next(next);
+        this.schedulePersist();
+        this.riskService.schedulePersist();
+      }
+    });
+
+    this.orderBookService.fills$.subscribe((fill) => {
+      console.log(
+        `[live-trade] ${fill.partial ? 'partial fill' : 'fill'} symbol=${fill.symbol} id=${fill.tradeId} action=${fill.action} price=${fill.price ?? '--'} qty=${fill.quantity}`
+      );
+      this.tradeState$.next(applyLiveFill(this.tradeState$.value, fill, this.chargesModel));
+      this.schedulePersist();
+    });
+
+    this.orderBookService.rejections$.subscribe((rejection) => {
+      if (rejection.action !== 'OPEN') {
+        console.error(`[live-trade] close not filled symbol=${rejection.symbol} id=${rejection.tradeId} reason=${rejection.reason}`);
+        return;
+      }
+      console.log(`[live-trade] open not filled symbol=${rejection.symbol} id=${rejection.tradeId} reason=${rejection.reason}`);
+      this.tradeState$.next(applyLiveRejection(
+        this.tradeState$.value,
+        rejection.symbol,
+        rejection.tradeId,
+        this.riskService.runtime,
+        this.liveRuntime,
+        new Date()
+      ));
+      this.schedulePersist();
+      this.riskService.schedulePersist();
+    });
+
+    this.tabLeader.syncRequested$.subscribe(() => this.tabLeader.publish('webhook-state', this.buildSnapshot()));
+    this.tabLeader.messages<PersistedSnapshot>('webhook-state').subscribe((snapshot) => {
+      this.applySnapshot(snapshot, modes);
     });
   }
 
@@ -199,8 +270,13 @@ export class WebhookStateService {
     return this.tradeState$.value;
   }
 
+  // The paper PnL the trade reducer sizes the next entry with.
+  getCumulativePnl(symbol: string): number {
+    return this.tradeState$.value.cumulativeBySymbol.get(symbol) ?? 0;
+  }
+
   getLiveTradeBlockedUntil(symbol: string): number | null {
-    return this.liveTradeBlockedUntilBySymbol.get(symbol) ?? null;
+    return this.liveRuntime.liveTradeBlockedUntilBySymbol.get(symbol) ?? null;
   }
 
   clearSignals(mode: FilterMode): void {
@@ -223,18 +299,34 @@ export class WebhookStateService {
   }
 
   resetBtcState(): void {
-    const btcModes: FilterMode[] = ['btc', 'btc-long', 'btc-short'];
-    for (const mode of btcModes) {
-      this.clearSignals(mode);
+    for (const strategy of strategies) {
+      if (strategy.feed === 'binance') {
+        this.clearSignals(strategy.id);
+      }
     }
     const nextTradeState = this.resetTradeStateForSymbols(
       this.tradeState$.value,
-      (symbol) => this.isBtcSymbol(symbol)
+      (symbol) => strategyForKey(symbol).feed === 'binance'
     );
     this.tradeState$.next(nextTradeState);
     this.schedulePersist();
   }
 
+  squareOffZerodha(blockedUntil: number): void {
+    combineLatest([this.lotLookup$, this.instrumentMetaBySymbol$]).pipe(
+      take(1)
+    ).subscribe(([lotLookup, instrumentMetaBySymbol]) => {
+      const context = this.buildReducerContext(lotLookup, instrumentMetaBySymbol);
+      const isZerodha = (symbol: string) => strategyForKey(symbol).feed === 'zerodha';
+      const next = squareOffTrades(this.tradeState$.value, context, isZerodha, blockedUntil);
+      if (next !== this.tradeState$.value) {
+        this.tradeState$.next(next);
+        this.schedulePersist();
+        this.riskService.schedulePersist();
+      }
+    });
+  }
+
   private initialSignalState(): SignalState {
     return {
       bySymbol: new Map<string, SignalRow[]>(),
@@ -249,6 +341,10 @@ export class WebhookStateService {
     if (!snapshot) {
       return;
     }
+    this.applySnapshot(snapshot, modes);
+  }
+
+  private applySnapshot(snapshot: PersistedSnapshot, modes: FilterMode[]): void {
     const signalStateByMode = snapshot.signalStateByMode ?? {};
     for (const mode of modes) {
       const subject = this.signalStateByMode.get(mode);
@@ -272,36 +368,26 @@ export class WebhookStateService {
     }, 1000);
   }
 
-  private saveSnapshot(): void {
-    if (typeof localStorage === 'undefined') {
-      return;
-    }
+  private buildSnapshot(): PersistedSnapshot {
     const signalStateByMode: Partial<Record<FilterMode, PersistedSignalState>> = {};
     for (const [mode, subject] of this.signalStateByMode.entries()) {
       signalStateByMode[mode] = this.toPersistedSignalState(subject.value);
     }
     const tradeState = this.toPersistedTradeState(this.tradeState$.value);
-    const snapshot: PersistedSnapshot = { signalStateByMode, tradeState };
-    try {
-      localStorage.setItem(this.persistKey, JSON.stringify(snapshot));
-    } catch {
-      // ignore storage failures
+    return { signalStateByMode, tradeState };
+  }
+
+  private saveSnapshot(): void {
+    if (!this.tabLeader.isLeader) {
+      return;
     }
+    const snapshot = this.buildSnapshot();
+    this.tabLeader.publish('webhook-state', snapshot);
+    this.storage.write(storageKeys.webhookState, snapshot);
   }
 
   private loadSnapshot(): PersistedSnapshot | null {
-    if (typeof localStorage === 'undefined') {
-      return null;
-    }
-    try {
-      const raw = localStorage.getItem(this.persistKey);
-      if (!raw) {
-        return null;
-      }
-      return JSON.parse(raw) as PersistedSnapshot;
-    } catch {
-      return null;
-    }
+    return this.storage.read(storageKeys.webhookState);
   }
 
   private toPersistedSignalState(state: SignalState): PersistedSignalState {
@@ -346,18 +432,6 @@ export class WebhookStateService {
     };
   }
 
-  private initialTradeState(): TradeState {
-    return {
-      openBySymbol: new Map<string, OpenTrade>(),
-      liveOpenBySymbol: new Map<string, OpenTrade>(),
-      tradesBySymbol: new Map<string, TradeRow[]>(),
-      liveTradesBySymbol: new Map<string, TradeRow[]>(),
-      cumulativeBySymbol: new Map<string, number>(),
-      liveCumulativeBySymbol: new Map<string, number>(),
-      lastSnapshotBySymbol: new Map<string, FsmSymbolSnapshot>()
-    };
-  }
-
   private resetTradeStateForSymbols(
     state: TradeState,
     shouldReset: (symbol: string) => boolean
@@ -405,19 +479,19 @@ export class WebhookStateService {
         lastSnapshotBySymbol.delete(symbol);
       }
     }
-    for (const symbol of this.lastLiveTradeIdBySymbol.keys()) {
+    for (const symbol of this.liveRuntime.lastLiveTradeIdBySymbol.keys()) {
       if (shouldReset(symbol)) {
-        this.lastLiveTradeIdBySymbol.delete(symbol);
+        this.liveRuntime.lastLiveTradeIdBySymbol.delete(symbol);
       }
     }
-    for (const symbol of this.liveTradeBlockedUntilBySymbol.keys()) {
+    for (const symbol of this.liveRuntime.liveTradeBlockedUntilBySymbol.keys()) {
       if (shouldReset(symbol)) {
-        this.liveTradeBlockedUntilBySymbol.delete(symbol);
+        this.liveRuntime.liveTradeBlockedUntilBySymbol.delete(symbol);
       }
     }
-    for (const symbol of this.lastLiveEntryMinuteBySymbol.keys()) {
+    for (const symbol of this.liveRuntime.lastLiveEntryMinuteBySymbol.keys()) {
       if (shouldReset(symbol)) {
-        this.lastLiveEntryMinuteBySymbol.delete(symbol);
+        this.liveRuntime.lastLiveEntryMinuteBySymbol.delete(symbol);
       }
     }
     for (const symbol of this.zerodhaSellCountAfterBuyBySymbol.keys()) {
@@ -446,377 +520,67 @@ export class WebhookStateService {
     if (mode === 'none') {
       return () => true;
     }
-    if (mode === 'btc' || mode === 'btc-long' || mode === 'btc-short') {
-      return (symbol) => this.isBtcSymbol(symbol);
+    if (!strategyById(mode)) {
+      return () => false;
     }
-    if (mode === 'zerodha6') {
-      return (symbol) => !this.isBtcSymbol(symbol);
-    }
-    return () => false;
+    return (symbol) => strategyForKey(symbol).id === mode;
   }
 
-  private reduceTradeState(
-    state: TradeState,
-    snapshot: Map<string, FsmSymbolSnapshot>,
-    lotLookup: Map<string, number>,
-    instrumentMetaBySymbol: Map<string, InstrumentMeta>
-  ): TradeState {
-    const openBySymbol = new Map(state.openBySymbol);
-    const liveOpenBySymbol = new Map(state.liveOpenBySymbol);
-    const tradesBySymbol = new Map(state.tradesBySymbol);
-    const liveTradesBySymbol = new Map(state.liveTradesBySymbol);
-    const cumulativeBySymbol = new Map(state.cumulativeBySymbol);
-    const liveCumulativeBySymbol = new Map(state.liveCumulativeBySymbol);
-    const lastSnapshotBySymbol = new Map(state.lastSnapshotBySymbol);
-
+  private applyPendingBuySellSell(snapshot: Map<string, FsmSymbolSnapshot>): void {
     for (const [symbol, current] of snapshot.entries()) {
-      const prev = lastSnapshotBySymbol.get(symbol);
-      lastSnapshotBySymbol.set(symbol, current);
-      if (!current.ltp) {
+      if (!this.zerodhaPendingBuySellSellBySymbol.has(symbol) || !current.ltp) {
         continue;
       }
-      const ltp = current.ltp;
-      const prevState = prev?.state ?? 'NOSIGNAL';
-      const wasInPosition = this.isPositionState(prevState);
-      const isInPosition = this.isPositionState(current.state);
-      const isEntering = !wasInPosition && isInPosition;
-      const isExiting = wasInPosition && !isInPosition;
-
-      if (this.zerodhaPendingBuySellSellBySymbol.has(symbol)) {
-        if (!isInPosition && current.lastBUYThreshold !== null && current.ltp !== null) {
-          if (current.ltp < current.lastBUYThreshold && current.threshold !== current.lastBUYThreshold) {
-            const nextSnapshot = new Map<string, FsmSymbolSnapshot>();
-            nextSnapshot.set(symbol, { ...current, threshold: current.lastBUYThreshold });
-            this.fsmStateService.update(nextSnapshot);
-            this.resetCumulativePnl(symbol);
-            this.zerodhaPendingBuySellSellBySymbol.delete(symbol);
-            this.zerodhaSellCountAfterBuyBySymbol.set(symbol, 0);
-            console.log(
-              `[zerodha6] buySellSell reset symbol=${symbol} ltp=${current.ltp} threshold=${current.lastBUYThreshold}`
-            );
-          }
-        }
-      }
-
-      let openedPaperThisPass = false;
-      if (isEntering && !openBySymbol.has(symbol)) {
-        const entryPrice = ltp;
-        const lot = lotLookup.get(symbol) ?? 1;
-        const lots = Math.ceil(this.relayService.getCapitalValue() / (lot * ltp));
-        const quantity = Math.max(1, lots) * lot;
-        const timeIst = this.formatIstTime(new Date());
-        const id = `${symbol}-${Date.now()}`;
-        const side: 'BUY' | 'SELL' = current.state === 'SELLPOSITION' ? 'SELL' : 'BUY';
-        const openTrade: OpenTrade = { id, symbol, side, entryPrice, quantity, lot, timeIst };
-        openBySymbol.set(symbol, openTrade);
-        openedPaperThisPass = true;
-        console.log(
-          `[paper-trade] open symbol=${symbol} entry=${entryPrice.toFixed(2)} qty=${quantity} lot=${lot}`
-        );
-        const row: TradeRow = {
-          id,
-          timeIst,
-          symbol,
-          entryPrice,
-          currentPrice: ltp,
-          unrealizedPnl: 0,
-          cumulativePnl: cumulativeBySymbol.get(symbol) ?? 0,
-          quantity
-        };
-        const existing = tradesBySymbol.get(symbol) ?? [];
-        tradesBySymbol.set(symbol, [row, ...existing]);
-      }
-
-      const openTrade = openBySymbol.get(symbol);
-      const liveOpenTrade = liveOpenBySymbol.get(symbol);
-      if (openTrade && isInPosition) {
-        const paperUnrealized = this.calculatePnl(symbol, ltp, openTrade.entryPrice, openTrade.quantity, openTrade.lot);
-        const cumulative = cumulativeBySymbol.get(symbol) ?? 0;
-        this.updateTradeRow(tradesBySymbol, symbol, openTrade.id, {
-          currentPrice: ltp,
-          unrealizedPnl: paperUnrealized
-        });
-
-        if (liveOpenTrade) {
-          const liveUnrealized = this.calculatePnl(
-            symbol,
-            ltp,
-            liveOpenTrade.entryPrice,
-            liveOpenTrade.quantity,
-            liveOpenTrade.lot
-          );
-          if (paperUnrealized + cumulative < 0) {
-            this.closeLiveTradeOnly(
-              symbol,
-              liveOpenTrade,
-              ltp,
-              liveUnrealized,
-              liveTradesBySymbol,
-              liveCumulativeBySymbol
-            );
-            liveOpenBySymbol.delete(symbol);
-            this.blockLiveTrade(symbol);
-            this.sendLiveOrder(liveOpenTrade, 'CLOSE', instrumentMetaBySymbol);
-          } else {
-            this.updateTradeRow(liveTradesBySymbol, symbol, liveOpenTrade.id, {
-              currentPrice: ltp,
-              unrealizedPnl: liveUnrealized
-            });
-          }
-        } else if (this.shouldEnterLiveTrade(symbol, cumulative, paperUnrealized)) {
-          const now = new Date();
-          const shouldEnterNow = isEntering || this.isMinuteBoundary(now);
-          if (shouldEnterNow && this.shouldEnterOncePerMinute(symbol, now)) {
-            const liveTrade = this.createLiveOpenTrade(symbol, openTrade, ltp, now);
-            liveOpenBySymbol.set(symbol, liveTrade);
-            const liveCumulative = liveCumulativeBySymbol.get(symbol) ?? 0;
-            this.appendLiveEntryRow(liveTradesBySymbol, liveTrade, ltp, liveCumulative, openedPaperThisPass);
-            this.sendLiveOrder(liveTrade, 'OPEN', instrumentMetaBySymbol);
-          }
-        } else {
-          const now = new Date();
-          if (isEntering || this.isMinuteBoundary(now)) {
-            const blockedUntil = this.liveTradeBlockedUntilBySymbol.get(symbol) ?? 0;
-            const combined = paperUnrealized + cumulative;
-            const reason = blockedUntil > now.getTime()
-              ? `blocked until ${this.formatIstTime(new Date(blockedUntil))}`
-              : `combined=${combined.toFixed(2)}`;
-            console.log(`[live-trade] skip symbol=${symbol} ${reason}`);
-          }
-        }
+      if (isPositionState(current.state) || current.lastBUYThreshold === null) {
+        continue;
       }
-
-      if (openTrade && isExiting) {
-        const realized = this.calculatePnl(symbol, ltp, openTrade.entryPrice, openTrade.quantity, openTrade.lot);
-        const cumulative = (cumulativeBySymbol.get(symbol) ?? 0) + realized;
-        cumulativeBySymbol.set(symbol, cumulative);
-        this.updateTradeRow(tradesBySymbol, symbol, openTrade.id, {
-          currentPrice: ltp,
-          unrealizedPnl: 0,
-          cumulativePnl: cumulative
-        });
+      if (current.ltp < current.lastBUYThreshold && current.threshold !== current.lastBUYThreshold) {
+        const nextSnapshot = new Map<string, FsmSymbolSnapshot>();
+        nextSnapshot.set(symbol, { ...current, threshold: current.lastBUYThreshold });
+        this.fsmStateService.update(nextSnapshot);
+        this.resetCumulativePnl(symbol);
+        this.zerodhaPendingBuySellSellBySymbol.delete(symbol);
+        this.zerodhaSellCountAfterBuyBySymbol.set(symbol, 0);
         console.log(
-          `[paper-trade] close symbol=${symbol} pnl=${realized.toFixed(2)} cumulative=${cumulative.toFixed(2)}`
+          `[zerodha6] buySellSell reset symbol=${symbol} ltp=${current.ltp} threshold=${current.lastBUYThreshold}`
         );
-        const exitRow: TradeRow = {
-          id: `${openTrade.id}-exit`,
-          timeIst: this.formatIstTime(new Date()),
-          symbol,
-          entryPrice: openTrade.entryPrice,
-          currentPrice: ltp,
-          unrealizedPnl: realized,
-          cumulativePnl: cumulative,
-          quantity: openTrade.quantity
-        };
-        const existing = tradesBySymbol.get(symbol) ?? [];
-        tradesBySymbol.set(symbol, [exitRow, ...existing]);
-        openBySymbol.delete(symbol);
-        if (liveOpenTrade) {
-          const liveUnrealized = this.calculatePnl(
-            symbol,
-            ltp,
-            liveOpenTrade.entryPrice,
-            liveOpenTrade.quantity,
-            liveOpenTrade.lot
-          );
-          this.closeLiveTradeOnly(
-            symbol,
-            liveOpenTrade,
-            ltp,
-            liveUnrealized,
-            liveTradesBySymbol,
-            liveCumulativeBySymbol
-          );
-          liveOpenBySymbol.delete(symbol);
-          this.sendLiveOrder(liveOpenTrade, 'CLOSE', instrumentMetaBySymbol);
-        }
       }
     }
-
-    this.logMinutePnl(snapshot, openBySymbol);
-    return {
-      openBySymbol,
-      liveOpenBySymbol,
-      tradesBySymbol,
-      liveTradesBySymbol,
-      cumulativeBySymbol,
-      liveCumulativeBySymbol,
-      lastSnapshotBySymbol
-    };
   }
 
-  private updateTradeRow(
-    tradesBySymbol: Map<string, TradeRow[]>,
-    symbol: string,
-    id: string,
-    patch: Partial<TradeRow>
-  ): void {
-    const rows = tradesBySymbol.get(symbol);
-    if (!rows || rows.length === 0) {
-      return;
+  private buildInstrumentMetaBySymbol(instruments: InstrumentRow[]): Map<string, InstrumentRow> {
+    const map = new Map<string, InstrumentRow>();
+    for (const instrument of instruments) {
+      instrumentNames(instrument).forEach((name) => map.set(name, instrument));
     }
-    const next = rows.map((row) => {
-      if ((row as { id?: string }).id === id) {
-        return { ...row, ...patch };
-      }
-      return row;
-    });
-    tradesBySymbol.set(symbol, next);
+    return map;
   }
 
-  private shouldEnterLiveTrade(symbol: string, cumulativePnl: number, unrealizedPnl: number): boolean {
-    const now = Date.now();
-    const blockedUntil = this.liveTradeBlockedUntilBySymbol.get(symbol) ?? 0;
-    if (now < blockedUntil) {
-      return false;
-    }
-    const combined = unrealizedPnl + cumulativePnl;
-    return combined === 0 || combined > 0;
-  }
-
-  private closeLiveTradeOnly(
-    symbol: string,
-    openTrade: OpenTrade,
-    ltp: number,
-    unrealized: number,
-    liveTradesBySymbol: Map<string, TradeRow[]>,
-    liveCumulativeBySymbol: Map<string, number>
-  ): void {
-    const nextCumulative = (liveCumulativeBySymbol.get(symbol) ?? 0) + unrealized - this.getBrokerage(symbol);
-    liveCumulativeBySymbol.set(symbol, nextCumulative);
-    this.updateTradeRow(liveTradesBySymbol, symbol, openTrade.id, {
-      currentPrice: ltp,
-      unrealizedPnl: 0,
-      cumulativePnl: nextCumulative
-    });
-    const exitRow: TradeRow = {
-      id: `${openTrade.id}-exit`,
-      timeIst: this.formatIstTime(new Date()),
-      symbol,
-      entryPrice: openTrade.entryPrice,
-      currentPrice: ltp,
-      unrealizedPnl: unrealized,
-      cumulativePnl: nextCumulative,
-      quantity: openTrade.quantity
-    };
-    const existing = liveTradesBySymbol.get(symbol) ?? [];
-    liveTradesBySymbol.set(symbol, [exitRow, ...existing]);
-    this.lastLiveTradeIdBySymbol.delete(symbol);
-    console.log(`[live-trade] close symbol=${symbol} id=${openTrade.id}`);
-  }
-
-  private blockLiveTrade(symbol: string, now: Date = new Date()): void {
-    const nextMinute = new Date(now);
-    nextMinute.setSeconds(0, 0);
-    nextMinute.setMinutes(nextMinute.getMinutes() + 1);
-    this.liveTradeBlockedUntilBySymbol.set(symbol, nextMinute.getTime());
-  }
-
-  private createLiveOpenTrade(symbol: string, paperTrade: OpenTrade, ltp: number, now: Date): OpenTrade {
+  private buildReducerContext(
+    lotLookup: Map<string, number>,
+    instrumentMetaBySymbol: Map<string, InstrumentRow>
+  ): TradeReducerContext {
     return {
-      id: `live-${symbol}-${now.getTime()}`,
-      symbol,
-      side: paperTrade.side,
-      entryPrice: ltp,
-      quantity: paperTrade.quantity,
-      lot: paperTrade.lot,
-      timeIst: this.formatIstTime(now)
-    };
-  }
-
-  private appendLiveEntryRow(
-    liveTradesBySymbol: Map<string, TradeRow[]>,
-    liveTrade: OpenTrade,
-    ltp: number,
-    cumulativePnl: number,
-    openedWithPaper: boolean
-  ): void {
-    const row: TradeRow = {
-      id: liveTrade.id,
-      timeIst: liveTrade.timeIst,
-      symbol: liveTrade.symbol,
-      entryPrice: liveTrade.entryPrice,
-      currentPrice: ltp,
-      unrealizedPnl: 0,
-      cumulativePnl,
-      quantity: liveTrade.quantity
+      now: new Date(),
+      capital: this.relayService.getCapitalValue(),
+      lotLookup,
+      sizing: this.relayService.sizing,
+      staleFeedPolicy: this.feedHealthService.policy,
+      charges: this.chargesModel,
+      risk: this.riskService.buildContext(),
+      runtime: this.liveRuntime,
+      paperOnly: (symbol) => isPaperOnly(this.members, symbolForKey(symbol)),
+      sendLiveOrder: (trade, action) => this.sendLiveOrder(trade, action, instrumentMetaBySymbol),
+      log: (message) => console.log(message)
     };
-    const existing = liveTradesBySymbol.get(liveTrade.symbol) ?? [];
-    liveTradesBySymbol.set(liveTrade.symbol, [row, ...existing]);
-    this.lastLiveTradeIdBySymbol.set(liveTrade.symbol, liveTrade.id);
-    console.log(
-      `[live-trade] open symbol=${liveTrade.symbol} id=${liveTrade.id} entry=${row.entryPrice ?? '--'} qty=${row.quantity ?? '--'} lot=${liveTrade.lot}${openedWithPaper ? ' (same-pass paper)' : ''}`
-    );
-  }
-
-  private isMinuteBoundary(now: Date): boolean {
-    return now.getSeconds() === 0;
-  }
-
-  private shouldEnterOncePerMinute(symbol: string, now: Date): boolean {
-    const minute = Math.floor(now.getTime() / 60000);
-    const lastMinute = this.lastLiveEntryMinuteBySymbol.get(symbol) ?? -1;
-    if (minute === lastMinute) {
-      return false;
-    }
-    this.lastLiveEntryMinuteBySymbol.set(symbol, minute);
-    return true;
-  }
-
-  private async fetchLotLookup(): Promise<Map<string, number>> {
-    try {
-      const response = await fetch('/instruments.json', { cache: 'no-store' });
-      if (!response.ok) {
-        return new Map<string, number>();
-      }
-      const parsed = await response.json();
-      const meta = Array.isArray(parsed) ? (parsed as InstrumentMeta[]) : [];
-      const map = new Map<string, number>();
-      for (const instrument of meta) {
-        if (typeof instrument.lot === 'number') {
-          if (typeof instrument.zerodha === 'string') {
-            map.set(instrument.zerodha, instrument.lot);
-          }
-          if (typeof instrument.tradingview === 'string') {
-            map.set(instrument.tradingview, instrument.lot);
-          }
-        }
-      }
-      return map;
-    } catch {
-      return new Map<string, number>();
-    }
-  }
-
-  private async fetchInstrumentMetaBySymbol(): Promise<Map<string, InstrumentMeta>> {
-    try {
-      const response = await fetch('/instruments.json', { cache: 'no-store' });
-      if (!response.ok) {
-        return new Map<string, InstrumentMeta>();
-      }
-      const parsed = await response.json();
-      const meta = Array.isArray(parsed) ? (parsed as InstrumentMeta[]) : [];
-      const map = new Map<string, InstrumentMeta>();
-      for (const instrument of meta) {
-        if (typeof instrument.zerodha === 'string') {
-          map.set(instrument.zerodha, instrument);
-        }
-        if (typeof instrument.tradingview === 'string') {
-          map.set(instrument.tradingview, instrument);
-        }
-      }
-      return map;
-    } catch {
-      return new Map<string, InstrumentMeta>();
-    }
   }
 
   private sendLiveOrder(
     trade: OpenTrade,
     action: 'OPEN' | 'CLOSE',
-    instrumentMetaBySymbol: Map<string, InstrumentMeta>
+    instrumentMetaBySymbol: Map<string, InstrumentRow>
   ): void {
-    const meta = instrumentMetaBySymbol.get(trade.symbol);
+    const meta = instrumentMetaBySymbol.get(symbolForKey(trade.symbol));
     if (!meta || typeof meta.exchange !== 'string') {
       return;
     }
@@ -826,7 +590,7 @@ export class WebhookStateService {
     const side = action === 'OPEN'
       ? trade.side
       : (trade.side === 'BUY' ? 'SELL' : 'BUY');
-    const payload = {
+    const request: OrderRequest = {
       symbol: meta.zerodha ?? trade.symbol,
       exchange: meta.exchange,
       transactionType: side,
@@ -837,94 +601,65 @@ export class WebhookStateService {
       sideOffset: 0.5,
       dryRun: this.relayService.dryRun
     };
-    const orderUrl = this.relayService.buildOrderUrl() ?? '/api/zerodha/order';
-    void fetch(orderUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload)
-    }).then((response) => {
-      if (!response.ok) {
-        console.log(`[zerodha-order] ${action} failed symbol=${payload.symbol} status=${response.status}`);
-        return;
-      }
-      console.log(`[zerodha-order] ${action} sent symbol=${payload.symbol} side=${side} qty=${payload.quantity}`);
-    }).catch((error) => {
-      const message = error instanceof Error ? error.message : 'network error';
-      console.log(`[zerodha-order] ${action} failed symbol=${payload.symbol} error=${message}`);
-    });
+    this.orderBookService.submit(request, trade, action);
   }
 
-  private async fetchSymbolMap(): Promise<Map<string, string>> {
-    try {
-      const response = await fetch('/instruments.json', { cache: 'no-store' });
-      if (!response.ok) {
-        return new Map<string, string>();
-      }
-      const parsed = await response.json();
-      const meta = Array.isArray(parsed) ? (parsed as InstrumentMeta[]) : [];
-      const map = new Map<string, string>();
-      for (const instrument of meta) {
-        if (typeof instrument.zerodha === 'string') {
-          map.set(instrument.zerodha, instrument.zerodha);
-          if (typeof instrument.tradingview === 'string') {
-            map.set(instrument.tradingview, instrument.zerodha);
-          }
+  private buildSymbolMap(instruments: InstrumentRow[]): Map<string, string> {
+    const map = new Map<string, string>();
+    for (const instrument of instruments) {
+      if (typeof instrument.zerodha === 'string') {
+        map.set(instrument.zerodha, instrument.zerodha);
+        if (typeof instrument.tradingview === 'string') {
+          map.set(instrument.tradingview, instrument.zerodha);
         }
       }
-      return map;
-    } catch {
-      return new Map<string, string>();
     }
+    return map;
   }
 
   private reduceSignalState(
     state: SignalState,
-    payload: WebhookPayload,
+    incoming: NormalizedSignal,
     snapshot: Map<string, FsmSymbolSnapshot>,
     allowedSymbols: Set<string> | null,
     mode: FilterMode,
     symbolMap: Map<string, string>
   ): SignalState {
-    const rawSymbol = typeof payload.symbol === 'string' ? payload.symbol : '';
-    const symbol = this.mapSymbolForMode(rawSymbol, mode, symbolMap);
+    const strategy = strategyById(mode);
+    if (strategy && !routesTo(strategy, incoming)) {
+      return state;
+    }
+    const rawSymbol = incoming.symbol;
+    const symbol = this.keyForStrategy(rawSymbol, strategy, symbolMap);
     if (!symbol) {
       return state;
     }
     if (this.debugStateUpdates && rawSymbol && symbol !== rawSymbol) {
       console.log(`[webhook-state] map mode=${mode} raw=${rawSymbol} mapped=${symbol}`);
     }
-    if (allowedSymbols) {
-      const allowedKey = this.isZerodhaMode(mode) ? symbol : rawSymbol;
-      if (!allowedSymbols.has(allowedKey)) {
-        if (this.debugStateUpdates) {
-          console.log(
-            `[webhook-state] drop mode=${mode} raw=${rawSymbol} mapped=${symbol} allowKey=${allowedKey}`
-          );
-        }
-        return state;
+    if (allowedSymbols && !allowedSymbols.has(rawSymbol)) {
+      if (this.debugStateUpdates) {
+        console.log(`[webhook-state] drop mode=${mode} raw=${rawSymbol} mapped=${symbol}`);
       }
-    }
-    const intent = this.normalizeString(payload.intent);
-    const signal = this.getSignalType(intent, this.normalizeString(payload.side));
-    if (!this.isSignalAllowed(mode, signal)) {
       return state;
     }
+    const signal = incoming.signal;
     const symbolKey = symbol;
     const tracking = state.fsmBySymbol.get(symbolKey) ?? this.defaultTracking();
-    const nextTracking = this.isBtcMode(mode)
+    const nextTracking = strategy?.feed === 'binance'
       ? {
         state: this.defaultTracking(),
         alternateSignal: false,
         buySellSell: false,
         sellBuyBuy: false
       }
-      : this.isZerodhaMode(mode)
+      : strategy?.feed === 'zerodha'
         ? this.nextZerodhaTracking(tracking, signal, symbolKey, snapshot.get(symbolKey))
         : this.nextTracking(tracking, signal, snapshot.get(symbolKey));
     const nextRow: SignalRow = {
-      timeIst: this.formatIstTime(new Date()),
-      intent,
-      stoppx: typeof payload.stoppx === 'number' ? payload.stoppx : null,
+      timeIst: formatIstTime(new Date()),
+      intent: incoming.intent,
+      stoppx: incoming.stoppx,
       alternateSignal: nextTracking.alternateSignal,
       buySellSell: nextTracking.buySellSell,
       sellBuyBuy: nextTracking.sellBuyBuy
@@ -946,21 +681,6 @@ export class WebhookStateService {
     };
   }
 
-  private normalizeString(value: unknown): string | null {
-    if (value === null || value === undefined) {
-      return null;
-    }
-    const text = String(value).trim();
-    return text.length > 0 ? text : null;
-  }
-
-  private formatIstTime(value: Date): string {
-    return value.toLocaleString('en-IN', {
-      timeZone: 'Asia/Kolkata',
-      hour12: false
-    });
-  }
-
   private defaultTracking(): SignalTracking {
     return {
       lastSignal: null,
@@ -972,39 +692,6 @@ export class WebhookStateService {
     };
   }
 
-  private getSignalType(intent: string | null, side: string | null): 'BUY' | 'SELL' | null {
-    const candidate = `${intent ?? side ?? ''}`.toUpperCase();
-    if (candidate === 'BUY' || candidate === 'ENTRY') {
-      return 'BUY';
-    }
-    if (candidate === 'SELL' || candidate === 'EXIT') {
-      return 'SELL';
-    }
-    return null;
-  }
-
-  private isSignalAllowed(mode: FilterMode, signal: 'BUY' | 'SELL' | null): boolean {
-    if (mode === 'btc-long') {
-      return signal === 'BUY';
-    }
-    if (mode === 'btc-short') {
-      return signal === 'SELL';
-    }
-    return true;
-  }
-
-  private isBtcMode(mode: FilterMode): boolean {
-    return mode === 'btc' || mode === 'btc-long' || mode === 'btc-short';
-  }
-
-  private isZerodhaMode(mode: FilterMode): boolean {
-    return mode === 'zerodha6';
-  }
-
-  private isBtcSymbol(symbol: string): boolean {
-    return symbol.toUpperCase().startsWith('BTC');
-  }
-
   private nextZerodhaTracking(
     tracking: SignalTracking,
     signal: 'BUY' | 'SELL' | null,
@@ -1066,7 +753,7 @@ export class WebhookStateService {
     if (!this.zerodhaPendingBuySellSellBySymbol.has(symbol)) {
       return false;
     }
-    if (!snapshot || this.isPositionState(snapshot.state)) {
+    if (!snapshot || isPositionState(snapshot.state)) {
       return false;
     }
     if (snapshot.lastBUYThreshold === null || snapshot.ltp === null) {
@@ -1100,22 +787,13 @@ export class WebhookStateService {
     });
   }
 
-  private isPositionState(state: FsmSymbolSnapshot['state']): boolean {
-    return state === 'BUYPOSITION' || state === 'SELLPOSITION';
-  }
-
-  private mapSymbolForMode(symbol: string, mode: FilterMode, symbolMap: Map<string, string>): string {
-    if (mode === 'zerodha6') {
-      return symbolMap.get(symbol) ?? symbol;
+  private keyForStrategy(symbol: string, strategy: StrategyConfig | null, symbolMap: Map<string, string>): string {
+    if (!strategy) {
+      return symbol;
     }
-    const upper = symbol.toUpperCase();
-    if (mode === 'btc-long' && (upper === 'BTCUSDT' || upper === 'BTCUSD')) {
-      return 'BTCUSDT_LONG';
-    }
-    if (mode === 'btc-short' && (upper === 'BTCUSDT' || upper === 'BTCUSD')) {
-      return 'BTCUSDT_SHORT';
-    }
-    return symbol;
+    return strategy.symbol === null
+      ? symbolMap.get(symbol) ?? symbol
+      : strategyKey(strategy, strategy.symbol);
   }
 
   private nextTracking(
@@ -1158,106 +836,4 @@ export class WebhookStateService {
     };
     return { state, alternateSignal, buySellSell, sellBuyBuy };
   }
-
-  private async fetchAllowedSymbolsByMode(): Promise<Map<FilterMode, Set<string> | null>> {
-    const result = new Map<FilterMode, Set<string> | null>();
-    result.set('none', null);
-    try {
-      const response = await fetch('/instruments.json', { cache: 'no-store' });
-      if (!response.ok) {
-        result.set('zerodha6', null);
-        result.set('btc', new Set(['BTCUSDT']));
-        result.set('btc-long', new Set(['BTCUSDT', 'BTCUSD']));
-        result.set('btc-short', new Set(['BTCUSDT', 'BTCUSD']));
-        return result;
-      }
-      const parsed = await response.json();
-      const meta = Array.isArray(parsed) ? (parsed as InstrumentMeta[]) : [];
-
-      const btc = new Set<string>();
-      for (const instrument of meta) {
-        if (instrument.tradingview === 'BTCUSDT' || instrument.zerodha === 'BTCUSD') {
-          if (typeof instrument.tradingview === 'string') {
-            btc.add(instrument.tradingview);
-          }
-          if (typeof instrument.zerodha === 'string') {
-            btc.add(instrument.zerodha);
-          }
-        }
-      }
-      if (btc.size === 0) {
-        btc.add('BTCUSDT');
-      }
-      result.set('btc', btc);
-      result.set('btc-long', new Set(btc));
-      result.set('btc-short', new Set(btc));
-
-      const symbols = new Set<string>();
-      let count = 0;
-      for (const instrument of meta) {
-        if (count >= 6) {
-          break;
-        }
-        if (instrument.tradingview === 'BTCUSDT' || instrument.zerodha === 'BTCUSD') {
-          continue;
-        }
-        if (typeof instrument.zerodha === 'string') {
-          symbols.add(instrument.zerodha);
-        } else if (typeof instrument.tradingview === 'string') {
-          symbols.add(instrument.tradingview);
-        }
-        count += 1;
-      }
-      result.set('zerodha6', symbols);
-      return result;
-    } catch {
-      result.set('zerodha6', null);
-      result.set('btc', new Set(['BTCUSDT']));
-      result.set('btc-long', new Set(['BTCUSDT', 'BTCUSD']));
-      result.set('btc-short', new Set(['BTCUSDT', 'BTCUSD']));
-      return result;
-    }
-  }
-
-  private logMinutePnl(
-    snapshot: Map<string, FsmSymbolSnapshot>,
-    openBySymbol: Map<string, OpenTrade>
-  ): void {
-    const now = new Date();
-    if (now.getSeconds() < 59) {
-      return;
-    }
-    const minute = Math.floor(now.getTime() / 60000);
-    for (const [symbol, trade] of openBySymbol.entries()) {
-      const current = snapshot.get(symbol);
-      if (!current || !this.isPositionState(current.state) || current.ltp === null) {
-        continue;
-      }
-      const lastMinute = this.lastPnlLogMinuteBySymbol.get(symbol) ?? -1;
-      if (lastMinute >= minute) {
-        continue;
-      }
-      const pnl = this.calculatePnl(symbol, current.ltp, trade.entryPrice, trade.quantity, trade.lot);
-      this.lastPnlLogMinuteBySymbol.set(symbol, minute);
-      console.log(
-        `[pnl-minute] symbol=${symbol} pnl=${pnl.toFixed(2)} ltp=${current.ltp.toFixed(2)} entry=${trade.entryPrice.toFixed(2)} qty=${trade.quantity} lot=${trade.lot}`
-      );
-    }
-  }
-
-  private calculatePnl(
-    symbol: string,
-    ltp: number,
-    entryPrice: number,
-    quantity: number,
-    lot: number
-  ): number {
-    const isShort = symbol === 'BTCUSDT_SHORT';
-    const delta = isShort ? entryPrice - ltp : ltp - entryPrice;
-    return delta * quantity;
-  }
-
-  private getBrokerage(symbol: string): number {
-    return symbol.toUpperCase().startsWith('BTC') ? 50 : 250;
-  }
 }
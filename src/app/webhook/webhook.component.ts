@@ -9,7 +9,9 @@ import { MatSelectModule } from '@angular/material/select';
 import { MatTableModule } from '@angular/material/table';
 import { MatToolbarModule } from '@angular/material/toolbar';
 import { BehaviorSubject, combineLatest, map, switchMap, tap } from 'rxjs';
+import { strategyById } from '../strategies/strategy-config';
 import { FilterMode, WebhookStateService } from './webhook-state.service';
+import { MarketSocketService } from '../socket/market-socket.service';
 
 type TradeRow = {
   id: string;
@@ -20,6 +22,13 @@ type TradeRow = {
   unrealizedPnl: number | null;
   cumulativePnl: number | null;
   quantity: number | null;
+  charges?: number;
+};
+
+type LedgerTotals = {
+  gross: number;
+  charges: number;
+  net: number;
 };
 
 type BtcLiveRow = TradeRow & {
@@ -46,6 +55,7 @@ type BtcLiveRow = TradeRow & {
 })
 export class WebhookComponent {
   private readonly webhookStateService = inject(WebhookStateService);
+  readonly socketStatus$ = inject(MarketSocketService).status$;
   private currentMode: FilterMode = 'none';
   private readonly filterMode$ = new BehaviorSubject<FilterMode>('none');
   private loggedOnce = false;
@@ -72,6 +82,7 @@ export class WebhookComponent {
     'entryPrice',
     'currentPrice',
     'unrealizedPnl',
+    'charges',
     'cumulativePnl',
     'quantity'
   ];
@@ -81,6 +92,7 @@ export class WebhookComponent {
     'closeTime',
     'closePrice',
     'unrealizedPnl',
+    'charges',
     'cumulativePnl'
   ];
   readonly liveTradeColumns = [
@@ -90,6 +102,7 @@ export class WebhookComponent {
     'entryPrice',
     'currentPrice',
     'unrealizedPnl',
+    'charges',
     'cumulativePnl',
     'quantity'
   ];
@@ -100,6 +113,7 @@ export class WebhookComponent {
     'closeTime',
     'closePrice',
     'unrealizedPnl',
+    'charges',
     'cumulativePnl'
   ];
 
@@ -140,6 +154,8 @@ export class WebhookComponent {
         paperRowsBtc,
         liveRows,
         liveRowsBtc,
+        paperTotals: this.ledgerTotals(paperRows),
+        liveTotals: this.ledgerTotals(liveRows),
         paperBlockedUntilText,
         blockedUntilText,
         isBtcMode: this.isBtcMode(),
@@ -207,10 +223,14 @@ export class WebhookComponent {
     if (base === null || Number.isNaN(base)) {
       return '--';
     }
-    const adjusted = this.isOpenTrade(row) ? base - this.getBrokerage(row) : base;
+    const adjusted = this.isOpenTrade(row) ? base - (row.charges ?? 0) : base;
     return adjusted.toFixed(2);
   }
 
+  formatCharges(row: TradeRow | BtcLiveRow): string {
+    return typeof row.charges === 'number' ? row.charges.toFixed(2) : '--';
+  }
+
 
   private isOpenTrade(row: TradeRow | BtcLiveRow): boolean {
     if ('closeTime' in row) {
@@ -222,21 +242,29 @@ export class WebhookComponent {
     return true;
   }
 
-  private getBrokerage(row: TradeRow | BtcLiveRow): number {
-    const symbol = row.symbol ?? '';
-    return symbol.toUpperCase().startsWith('BTC') ? 50 : 250;
+  private ledgerTotals(rows: TradeRow[]): LedgerTotals {
+    let gross = 0;
+    let charges = 0;
+    for (const row of rows) {
+      if (!row.id.endsWith('-exit')) {
+        continue;
+      }
+      gross += row.unrealizedPnl ?? 0;
+      charges += row.charges ?? 0;
+    }
+    return { gross, charges, net: gross - charges };
   }
 
   isBtcMode(): boolean {
-    return this.currentMode === 'btc' || this.currentMode === 'btc-long' || this.currentMode === 'btc-short';
+    return strategyById(this.currentMode)?.feed === 'binance';
   }
 
   isBtcShortMode(): boolean {
-    return this.currentMode === 'btc-short';
+    return this.isBtcMode() && strategyById(this.currentMode)?.direction === 'short';
   }
 
   isTradeCompactMode(): boolean {
-    return this.isBtcMode() || this.currentMode === 'zerodha6';
+    return strategyById(this.currentMode) !== null;
   }
 
   isSignalCompactMode(): boolean {
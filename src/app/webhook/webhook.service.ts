@@ -1,12 +1,23 @@
-import { Injectable, OnDestroy } from '@angular/core';
-import { io, Socket } from 'socket.io-client';
-import { Observable, shareReplay } from 'rxjs';
+import { Injectable, inject } from '@angular/core';
+import { BehaviorSubject, EMPTY, Observable, map, mergeMap, of, share } from 'rxjs';
+import { MarketSocketService } from '../socket/market-socket.service';
+import { strategyById } from '../strategies/strategy-config';
+import { StorageService } from '../storage/storage.service';
+import { storageKeys } from '../storage/storage-keys';
+import { TabLeaderService } from '../tabs/tab-leader.service';
+import { checkSignal, emptyDedupState } from './signal-dedup';
+import { NormalizedSignal, RejectedSignal, normalizeWebhook, toRejectedSignal } from './signal-schema';
 
 export type WebhookPayload = {
+  schema?: number;
+  id?: string;
   symbol?: string;
   stoppx?: number;
   intent?: string;
   side?: string;
+  direction?: string;
+  strategy?: string;
+  time?: string | number;
   ALTERNATE_SIGNAL?: string;
   BUY_SELL_SELL?: string;
   SELL_BUY_BUY?: string;
@@ -14,40 +25,75 @@ export type WebhookPayload = {
 };
 
 @Injectable({ providedIn: 'root' })
-export class WebhookService implements OnDestroy {
-  private readonly socket: Socket;
+export class WebhookService {
+  private readonly socketService = inject(MarketSocketService);
+  private readonly tabLeader = inject(TabLeaderService);
+  private readonly storage = inject(StorageService);
+  private readonly maxRejected = 100;
+  private readonly rejectedSubject = new BehaviorSubject<RejectedSignal[]>(this.storage.read(storageKeys.rejectedSignals) ?? []);
+  readonly dedupWindowMs = 5 * 60_000;
   readonly webhook$: Observable<WebhookPayload>;
+  readonly signals$: Observable<NormalizedSignal>;
+  readonly rejected$: Observable<RejectedSignal[]> = this.rejectedSubject.asObservable();
 
   constructor() {
-    this.socket = io('http://localhost:3002');
-
-    this.socket.on('connect', () => {
-      console.log('[webhook] socket connected', this.socket.id);
-    });
-
-    this.socket.on('disconnect', (reason) => {
-      console.warn('[webhook] socket disconnected', reason);
-    });
-
-    this.socket.on('connect_error', (error) => {
-      console.error('[webhook] socket connect error', error);
-    });
-
-    this.webhook$ = new Observable<WebhookPayload>((subscriber) => {
-      const handler = (payload: WebhookPayload) => {
+    this.webhook$ = this.socketService.on<WebhookPayload>('webhook').pipe(
+      map((payload) => {
         try {
           console.log(`[webhook] payload received ${JSON.stringify(payload)}`);
         } catch {
           console.log('[webhook] payload received [unserializable payload]');
         }
-        subscriber.next(payload);
-      };
-      this.socket.on('webhook', handler);
-      return () => this.socket.off('webhook', handler);
-    }).pipe(shareReplay({ bufferSize: 1, refCount: true }));
+        return payload;
+      }),
+      // No replay: a late subscriber must not apply the previous alert a second time.
+      share()
+    );
+    this.signals$ = this.webhook$.pipe(
+      mergeMap((payload) => {
+        const result = normalizeWebhook(payload);
+        if (!result.ok) {
+          this.recordRejected(toRejectedSignal(payload, result.reason, Date.now()));
+          return EMPTY;
+        }
+        const strategyId = result.signal.strategyId;
+        if (strategyId !== null && !strategyById(strategyId)) {
+          this.recordRejected(toRejectedSignal(payload, `unknown strategy ${strategyId}`, Date.now()));
+          return EMPTY;
+        }
+        return this.admit(payload, result.signal) ? of(result.signal) : EMPTY;
+      }),
+      share()
+    );
+    this.tabLeader.syncRequested$.subscribe(() => this.tabLeader.publish('webhook-rejected', this.rejectedSubject.value));
+    this.tabLeader.messages<RejectedSignal[]>('webhook-rejected').subscribe((rejected) => this.rejectedSubject.next(rejected));
+  }
+
+  clearRejected(): void {
+    this.publishRejected([]);
+  }
+
+  // Read from storage on every signal so a tab that takes over leadership keeps the previous leader's window.
+  private admit(payload: WebhookPayload, signal: NormalizedSignal): boolean {
+    const now = Date.now();
+    const state = this.storage.read(storageKeys.webhookDedup) ?? emptyDedupState;
+    const result = checkSignal(state, signal, now, this.dedupWindowMs);
+    if (!result.ok) {
+      this.recordRejected(toRejectedSignal(payload, result.reason, now, result.kind));
+      return false;
+    }
+    this.storage.write(storageKeys.webhookDedup, result.state);
+    return true;
+  }
+
+  private recordRejected(rejected: RejectedSignal): void {
+    console.warn(`[webhook] rejected kind=${rejected.kind} reason=${rejected.reason} payload=${rejected.payload}`);
+    this.publishRejected([rejected, ...this.rejectedSubject.value].slice(0, this.maxRejected));
   }
 
-  ngOnDestroy(): void {
-    this.socket.disconnect();
+  private publishRejected(rejected: RejectedSignal[]): void {
+    this.rejectedSubject.next(rejected);
+    this.tabLeader.publish('webhook-rejected', rejected);
+    this.storage.write(storageKeys.rejectedSignals, rejected);
   }
 }